@@ -17,8 +17,29 @@ import { ProjectsStorage } from "./extension/projectsStorage";
 import { PluginSimulator } from "./extension/simulate";
 import { CordovaDebugConfigProvider } from "./extension/debugConfigurationProvider";
 import { CordovaWorkspaceManager } from "./extension/cordovaWorkspaceManager";
+import { CordovaTaskProvider } from "./extension/cordovaTaskProvider";
+import { AndroidAppFileSystemProvider } from "./extension/androidAppFileSystemProvider";
+import { AndroidEmulatorCommands } from "./extension/androidEmulatorCommands";
+import { AndroidWirelessCommands } from "./extension/androidWirelessCommands";
+import { NetworkTargetsStorage } from "./extension/networkTargetsStorage";
+import { EnvironmentProfiles } from "./extension/environmentProfiles";
+import { EnvironmentProfileStatusBar } from "./extension/environmentProfileStatusBar";
+import { NetworkInspectorPanel } from "./extension/networkInspectorPanel";
+import { ScreencastPanel } from "./extension/screencastPanel";
+import { ApplicationProfiler } from "./extension/applicationProfiler";
+import { AndroidReleaseBuild } from "./extension/androidReleaseBuild";
+import { DomTreeDataProvider } from "./extension/domTreeDataProvider";
+import { IDomNode } from "./extension/domTreeModel";
+import { StorageNode, StorageTreeDataProvider } from "./extension/storageTreeDataProvider";
+import { CordovaProjectsTreeDataProvider, CordovaTreeItem, MissingPlatformTreeItem, PlatformTreeItem, PluginTreeItem } from "./extension/cordovaProjectsTreeDataProvider";
+import { CONFIG_XML_DOCUMENT_SELECTOR, ConfigXmlCompletionProvider, ConfigXmlDiagnosticsProvider, ConfigXmlHoverProvider } from "./extension/configXml/configXmlLanguageFeatures";
+import { CspDiagnosticsProvider } from "./extension/csp/cspDiagnosticsProvider";
 import customRequire from "./common/customRequire";
 import { findFileInFolderHierarchy } from "./utils/extensionHelper";
+import { AdbHelper } from "./utils/android/adb";
+import { LogCatMonitor } from "./utils/android/logCatMonitor";
+import { OutputChannelLogger } from "./utils/log/outputChannelLogger";
+import { CDPMessageTransformerChain, ICDPMessageTransformer } from "./debugger/cdp-proxy/transformers/cdpMessageTransformerChain";
 import * as nls from "vscode-nls";
 nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
 const localize = nls.loadMessageBundle();
@@ -31,6 +52,8 @@ let JSCONFIG_FILENAME = "jsconfig.json";
 let TSCONFIG_FILENAME = "tsconfig.json";
 
 let EXTENSION_CONTEXT: vscode.ExtensionContext;
+let PROJECTS_TREE_DATA_PROVIDER: CordovaProjectsTreeDataProvider;
+let CONFIG_XML_DIAGNOSTICS_PROVIDER: ConfigXmlDiagnosticsProvider;
 /**
  * We initialize the counter starting with a large value in order
  * to not overlap indices of the workspace folders originally generated by VS Code
@@ -38,22 +61,74 @@ let EXTENSION_CONTEXT: vscode.ExtensionContext;
  */
 let COUNT_WORKSPACE_FOLDERS = 9000;
 
-export function activate(context: vscode.ExtensionContext): void {
+/**
+ * The API returned to other extensions by vscode.extensions.getExtension(...).exports
+ */
+export interface ICordovaToolsApi {
+    /**
+     * Registers a transformer of the CDP messages between the debugger and the application for the debugging sessions started afterwards
+     */
+    registerCDPMessageTransformer(transformer: ICDPMessageTransformer): vscode.Disposable;
+}
+
+export function activate(context: vscode.ExtensionContext): ICordovaToolsApi {
     // Asynchronously enable telemetry
     Telemetry.init("cordova-tools", customRequire(findFileInFolderHierarchy(__dirname, "package.json")).version, { isExtensionProcess: true, projectRoot: "" });
 
     EXTENSION_CONTEXT = context;
+    NetworkTargetsStorage.init(context.workspaceState);
+    EnvironmentProfiles.init(context.workspaceState);
+    CordovaCommandHelper.init(context);
+    AndroidReleaseBuild.init(context);
 
     let activateExtensionEvent = TelemetryHelper.createTelemetryActivity("activate");
     try {
         EXTENSION_CONTEXT.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders((event) => onChangeWorkspaceFolders(event)));
 
         const configProvider = new CordovaDebugConfigProvider();
-        EXTENSION_CONTEXT.subscriptions.push(vscode.debug.registerDebugConfigurationProvider("cordova", configProvider));
+        EXTENSION_CONTEXT.subscriptions.push(configProvider, vscode.debug.registerDebugConfigurationProvider("cordova", configProvider));
 
         const cordovaFactory = new CordovaSessionManager();
         EXTENSION_CONTEXT.subscriptions.push(vscode.debug.registerDebugAdapterDescriptorFactory("cordova", cordovaFactory));
 
+        PROJECTS_TREE_DATA_PROVIDER = new CordovaProjectsTreeDataProvider(cordovaFactory);
+        EXTENSION_CONTEXT.subscriptions.push(PROJECTS_TREE_DATA_PROVIDER);
+        EXTENSION_CONTEXT.subscriptions.push(vscode.window.registerTreeDataProvider(CordovaProjectsTreeDataProvider.VIEW_ID, PROJECTS_TREE_DATA_PROVIDER));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.projectsView.refresh", () => PROJECTS_TREE_DATA_PROVIDER.refresh()));
+
+        const domTreeDataProvider = new DomTreeDataProvider();
+        const domTreeView = vscode.window.createTreeView(DomTreeDataProvider.VIEW_ID, { treeDataProvider: domTreeDataProvider });
+        EXTENSION_CONTEXT.subscriptions.push(domTreeDataProvider, domTreeView);
+        EXTENSION_CONTEXT.subscriptions.push(domTreeView.onDidChangeSelection(event => domTreeDataProvider.highlightNode(event.selection[0])));
+        EXTENSION_CONTEXT.subscriptions.push(domTreeView.onDidChangeVisibility(event => !event.visible && domTreeDataProvider.highlightNode(undefined)));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.elements.refresh", () => domTreeDataProvider.refresh()));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.elements.selectSession", () => domTreeDataProvider.selectSession()));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.elements.editAttribute", (node: IDomNode) => domTreeDataProvider.editAttribute(node)));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.elements.removeAttribute", (node: IDomNode) => domTreeDataProvider.removeAttribute(node)));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.elements.editText", (node: IDomNode) => domTreeDataProvider.editText(node)));
+
+        const storageTreeDataProvider = new StorageTreeDataProvider();
+        EXTENSION_CONTEXT.subscriptions.push(storageTreeDataProvider, vscode.window.registerTreeDataProvider(StorageTreeDataProvider.VIEW_ID, storageTreeDataProvider));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.storage.refresh", () => storageTreeDataProvider.refresh()));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.storage.selectSession", () => storageTreeDataProvider.selectSession()));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.storage.addItem", (node: StorageNode) => storageTreeDataProvider.addItem(node)));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.storage.editItem", (node: StorageNode) => storageTreeDataProvider.editItem(node)));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.storage.removeItem", (node: StorageNode) => storageTreeDataProvider.removeItem(node)));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.storage.clear", (node: StorageNode) => storageTreeDataProvider.clear(node)));
+
+        EXTENSION_CONTEXT.subscriptions.push(vscode.tasks.registerTaskProvider(CordovaTaskProvider.TASK_TYPE, new CordovaTaskProvider()));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.workspace.registerFileSystemProvider(AndroidAppFileSystemProvider.SCHEME, new AndroidAppFileSystemProvider(), { isCaseSensitive: true }));
+
+        CONFIG_XML_DIAGNOSTICS_PROVIDER = new ConfigXmlDiagnosticsProvider();
+        EXTENSION_CONTEXT.subscriptions.push(CONFIG_XML_DIAGNOSTICS_PROVIDER);
+        EXTENSION_CONTEXT.subscriptions.push(vscode.languages.registerCompletionItemProvider(CONFIG_XML_DOCUMENT_SELECTOR, new ConfigXmlCompletionProvider(), ...ConfigXmlCompletionProvider.TRIGGER_CHARACTERS));
+        EXTENSION_CONTEXT.subscriptions.push(vscode.languages.registerHoverProvider(CONFIG_XML_DOCUMENT_SELECTOR, new ConfigXmlHoverProvider()));
+        EXTENSION_CONTEXT.subscriptions.push(new CspDiagnosticsProvider());
+
+        const environmentProfileStatusBar = new EnvironmentProfileStatusBar();
+        EXTENSION_CONTEXT.subscriptions.push(environmentProfileStatusBar);
+        EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand(EnvironmentProfileStatusBar.SELECT_PROFILE_COMMAND, () => environmentProfileStatusBar.selectProfile()));
+
         const workspaceFolders: ReadonlyArray<vscode.WorkspaceFolder> | undefined = vscode.workspace.workspaceFolders;
 
         if (workspaceFolders) {
@@ -64,6 +139,10 @@ export function activate(context: vscode.ExtensionContext): void {
         }
         activateExtensionEvent.properties["cordova.workspaceFoldersCount"] = workspaceFolders.length;
         Telemetry.send(activateExtensionEvent);
+
+        return {
+            registerCDPMessageTransformer: transformer => CDPMessageTransformerChain.registerTransformer(transformer),
+        };
     } catch (e) {
         activateExtensionEvent.properties["cordova.error"] = true;
         Telemetry.send(activateExtensionEvent);
@@ -72,6 +151,7 @@ export function activate(context: vscode.ExtensionContext): void {
 }
 
 export function deactivate(): void {
+    LogCatMonitor.stopAllMonitors();
     console.log("Extension has been deactivated");
 }
 
@@ -99,122 +179,6 @@ export function createAdditionalWorkspaceFolder(folderPath: string): vscode.Work
     } else return null;
 }
 
-export function onFolderAdded(folder: vscode.WorkspaceFolder): void {
-    let workspaceRoot = folder.uri.fsPath;
-
-    if (!CordovaProjectHelper.isCordovaProject(workspaceRoot)) {
-        vscode.window.showWarningMessage(localize("ExtensionRequiresWorkspaceRootToBeCordovaProjectRoot", "VS Code Cordova Tools extension requires the workspace root to be your Cordova project's root. The project '{0}' won't be available for debugging.", workspaceRoot));
-        return;
-    }
-
-    // Send project type to telemetry for each workspace folder
-    let cordovaProjectTypeEvent = TelemetryHelper.createTelemetryEvent("cordova.projectType");
-    TelemetryHelper.determineProjectTypes(workspaceRoot)
-        .then((projType) => {
-            cordovaProjectTypeEvent.properties["projectType"] =
-                TelemetryHelper.prepareProjectTypesTelemetry(projType);
-        })
-        .finally(() => {
-            Telemetry.send(cordovaProjectTypeEvent);
-        });
-
-    // We need to update the type definitions added to the project
-    // as and when plugins are added or removed. For this reason,
-    // setup a file system watcher to watch changes to plugins in the Cordova project
-    // Note that watching plugins/fetch.json file would suffice
-
-    let watcher = vscode.workspace.createFileSystemWatcher("**/plugins/fetch.json", false /*ignoreCreateEvents*/, false /*ignoreChangeEvents*/, false /*ignoreDeleteEvents*/);
-    watcher.onDidChange(() => updatePluginTypeDefinitions(workspaceRoot));
-    watcher.onDidDelete(() => updatePluginTypeDefinitions(workspaceRoot));
-    watcher.onDidCreate(() => updatePluginTypeDefinitions(workspaceRoot));
-    EXTENSION_CONTEXT.subscriptions.push(watcher);
-
-    let simulator: PluginSimulator = new PluginSimulator();
-    let workspaceManager: CordovaWorkspaceManager = new CordovaWorkspaceManager(simulator, folder);
-
-    ProjectsStorage.addFolder(folder, workspaceManager);
-    COUNT_WORKSPACE_FOLDERS ++;
-
-
-    // extensionServer takes care of disposing the simulator instance
-    // context.subscriptions.push(extensionServer);
-
-    const ionicMajorVersion = CordovaProjectHelper.determineIonicMajorVersion(workspaceRoot);
-    // In case of Ionic 1 project register completions providers for html and javascript snippets
-    if (ionicMajorVersion === 1) {
-        EXTENSION_CONTEXT.subscriptions.push(
-            vscode.languages.registerCompletionItemProvider(
-                IonicCompletionProvider.JS_DOCUMENT_SELECTOR,
-                new IonicCompletionProvider(path.join(findFileInFolderHierarchy(__dirname, "snippets"), "ionicJs.json"))));
-
-        EXTENSION_CONTEXT.subscriptions.push(
-            vscode.languages.registerCompletionItemProvider(
-                IonicCompletionProvider.HTML_DOCUMENT_SELECTOR,
-                new IonicCompletionProvider(path.join(findFileInFolderHierarchy(__dirname, "snippets"), "ionicHtml.json"))));
-    }
-
-    // Install Ionic type definitions if necessary
-    if (CordovaProjectHelper.isIonicAngularProject(workspaceRoot)) {
-        let ionicTypings: string[] = [
-            path.join("jquery", "jquery.d.ts"),
-            path.join("cordova-ionic", "plugins", "keyboard.d.ts"),
-        ];
-        if (ionicMajorVersion === 1) {
-            ionicTypings = ionicTypings.concat([
-                path.join("angularjs", "angular.d.ts"),
-                path.join("ionic", "ionic.d.ts"),
-            ]);
-        }
-        TsdHelper.installTypings(CordovaProjectHelper.getOrCreateTypingsTargetPath(workspaceRoot), ionicTypings, workspaceRoot);
-    }
-
-    let pluginTypings = getPluginTypingsJson();
-    if (!pluginTypings) {
-        return;
-    }
-
-    // Skip adding typings for cordova in case of Typescript or Ionic (except v1) projects
-    // to avoid conflicts between typings we install and user-installed ones.
-    if (!CordovaProjectHelper.isTypescriptProject(workspaceRoot) &&
-        !(ionicMajorVersion && ionicMajorVersion > 1)
-    ) {
-        // Install the type defintion files for Cordova
-        TsdHelper.installTypings(CordovaProjectHelper.getOrCreateTypingsTargetPath(workspaceRoot),
-            [pluginTypings[CORDOVA_TYPINGS_QUERYSTRING].typingFile], workspaceRoot);
-    }
-
-    // Install type definition files for the currently installed plugins
-    updatePluginTypeDefinitions(workspaceRoot);
-
-    let pluginFilePath = path.join(workspaceRoot, ".vscode", "plugins.json");
-    if (fs.existsSync(pluginFilePath)) {
-        fs.unlinkSync(pluginFilePath);
-    }
-
-    TelemetryHelper.sendPluginsList(workspaceRoot, CordovaProjectHelper.getInstalledPlugins(workspaceRoot));
-
-    // In VSCode 0.10.10+, if the root doesn't contain jsconfig.json or tsconfig.json, intellisense won't work for files without /// typing references, so add a jsconfig.json here if necessary
-    let jsconfigPath: string = path.join(workspaceRoot, JSCONFIG_FILENAME);
-    let tsconfigPath: string = path.join(workspaceRoot, TSCONFIG_FILENAME);
-
-    Promise.all([CordovaProjectHelper.exists(jsconfigPath), CordovaProjectHelper.exists(tsconfigPath)]).then(([jsExists, tsExists]) => {
-        if (!jsExists && !tsExists) {
-            fs.promises.writeFile(jsconfigPath, "{}").then(() => {
-                // Any open file must be reloaded to enable intellisense on them, so inform the user
-                vscode.window.showInformationMessage("A 'jsconfig.json' file was created to enable IntelliSense. You may need to reload your open JS file(s).");
-            });
-        }
-    });
-}
-
-function onFolderRemoved(folder: vscode.WorkspaceFolder): void {
-    Object.keys(ProjectsStorage.projectsCache).forEach(path => {
-        if (CordovaProjectHelper.checkPathBelongsToHierarchy(folder.uri.fsPath.toLowerCase(), path)) {
-            ProjectsStorage.delFolder(path);
-        }
-    });
-}
-
 function getPluginTypingsJson(): any {
     if (CordovaProjectHelper.existsSync(PLUGIN_TYPE_DEFS_PATH)) {
         return customRequire(PLUGIN_TYPE_DEFS_PATH);
@@ -339,6 +303,144 @@ function updatePluginTypeDefinitions(cordovaProjectRoot: string): void {
     });
 }
 
+function onPluginsChanged(cordovaProjectRoot: string): void {
+    updatePluginTypeDefinitions(cordovaProjectRoot);
+    PROJECTS_TREE_DATA_PROVIDER.refresh();
+    CONFIG_XML_DIAGNOSTICS_PROVIDER.validateAll();
+}
+
+export function onFolderAdded(folder: vscode.WorkspaceFolder): void {
+    // Folders of Android applications opened in the explorer aren't Cordova projects
+    if (folder.uri.scheme !== "file") {
+        return;
+    }
+
+    let workspaceRoot = folder.uri.fsPath;
+
+    if (!CordovaProjectHelper.isCordovaProject(workspaceRoot)) {
+        vscode.window.showWarningMessage(localize("ExtensionRequiresWorkspaceRootToBeCordovaProjectRoot", "VS Code Cordova Tools extension requires the workspace root to be your Cordova project's root. The project '{0}' won't be available for debugging.", workspaceRoot));
+        return;
+    }
+
+    // Send project type to telemetry for each workspace folder
+    let cordovaProjectTypeEvent = TelemetryHelper.createTelemetryEvent("cordova.projectType");
+    TelemetryHelper.determineProjectTypes(workspaceRoot)
+        .then((projType) => {
+            cordovaProjectTypeEvent.properties["projectType"] =
+                TelemetryHelper.prepareProjectTypesTelemetry(projType);
+        })
+        .finally(() => {
+            Telemetry.send(cordovaProjectTypeEvent);
+        });
+
+    // We need to update the type definitions added to the project
+    // as and when plugins are added or removed. For this reason,
+    // setup a file system watcher to watch changes to plugins in the Cordova project
+    // Note that watching plugins/fetch.json file would suffice
+
+    let watcher = vscode.workspace.createFileSystemWatcher("**/plugins/fetch.json", false /*ignoreCreateEvents*/, false /*ignoreChangeEvents*/, false /*ignoreDeleteEvents*/);
+    watcher.onDidChange(() => onPluginsChanged(workspaceRoot));
+    watcher.onDidDelete(() => onPluginsChanged(workspaceRoot));
+    watcher.onDidCreate(() => onPluginsChanged(workspaceRoot));
+    EXTENSION_CONTEXT.subscriptions.push(watcher);
+
+    // Keep the projects view in sync with the platforms added or removed outside of VS Code
+    let platformsWatcher = vscode.workspace.createFileSystemWatcher("**/platforms/*", false /*ignoreCreateEvents*/, true /*ignoreChangeEvents*/, false /*ignoreDeleteEvents*/);
+    platformsWatcher.onDidCreate(() => PROJECTS_TREE_DATA_PROVIDER.refresh());
+    platformsWatcher.onDidDelete(() => PROJECTS_TREE_DATA_PROVIDER.refresh());
+    EXTENSION_CONTEXT.subscriptions.push(platformsWatcher);
+
+    let simulator: PluginSimulator = new PluginSimulator();
+    let workspaceManager: CordovaWorkspaceManager = new CordovaWorkspaceManager(simulator, folder);
+
+    ProjectsStorage.addFolder(folder, workspaceManager);
+    COUNT_WORKSPACE_FOLDERS ++;
+    PROJECTS_TREE_DATA_PROVIDER.refresh();
+
+
+    // extensionServer takes care of disposing the simulator instance
+    // context.subscriptions.push(extensionServer);
+
+    const ionicMajorVersion = CordovaProjectHelper.determineIonicMajorVersion(workspaceRoot);
+    // In case of Ionic 1 project register completions providers for html and javascript snippets
+    if (ionicMajorVersion === 1) {
+        EXTENSION_CONTEXT.subscriptions.push(
+            vscode.languages.registerCompletionItemProvider(
+                IonicCompletionProvider.JS_DOCUMENT_SELECTOR,
+                new IonicCompletionProvider(path.join(findFileInFolderHierarchy(__dirname, "snippets"), "ionicJs.json"))));
+
+        EXTENSION_CONTEXT.subscriptions.push(
+            vscode.languages.registerCompletionItemProvider(
+                IonicCompletionProvider.HTML_DOCUMENT_SELECTOR,
+                new IonicCompletionProvider(path.join(findFileInFolderHierarchy(__dirname, "snippets"), "ionicHtml.json"))));
+    }
+
+    // Install Ionic type definitions if necessary
+    if (CordovaProjectHelper.isIonicAngularProject(workspaceRoot)) {
+        let ionicTypings: string[] = [
+            path.join("jquery", "jquery.d.ts"),
+            path.join("cordova-ionic", "plugins", "keyboard.d.ts"),
+        ];
+        if (ionicMajorVersion === 1) {
+            ionicTypings = ionicTypings.concat([
+                path.join("angularjs", "angular.d.ts"),
+                path.join("ionic", "ionic.d.ts"),
+            ]);
+        }
+        TsdHelper.installTypings(CordovaProjectHelper.getOrCreateTypingsTargetPath(workspaceRoot), ionicTypings, workspaceRoot);
+    }
+
+    let pluginTypings = getPluginTypingsJson();
+    if (!pluginTypings) {
+        return;
+    }
+
+    // Skip adding typings for cordova in case of Typescript or Ionic (except v1) projects
+    // to avoid conflicts between typings we install and user-installed ones.
+    if (!CordovaProjectHelper.isTypescriptProject(workspaceRoot) &&
+        !(ionicMajorVersion && ionicMajorVersion > 1)
+    ) {
+        // Install the type defintion files for Cordova
+        TsdHelper.installTypings(CordovaProjectHelper.getOrCreateTypingsTargetPath(workspaceRoot),
+            [pluginTypings[CORDOVA_TYPINGS_QUERYSTRING].typingFile], workspaceRoot);
+    }
+
+    // Install type definition files for the currently installed plugins
+    updatePluginTypeDefinitions(workspaceRoot);
+
+    let pluginFilePath = path.join(workspaceRoot, ".vscode", "plugins.json");
+    if (fs.existsSync(pluginFilePath)) {
+        fs.unlinkSync(pluginFilePath);
+    }
+
+    TelemetryHelper.sendPluginsList(workspaceRoot, CordovaProjectHelper.getInstalledPlugins(workspaceRoot));
+
+    // In VSCode 0.10.10+, if the root doesn't contain jsconfig.json or tsconfig.json, intellisense won't work for files without /// typing references, so add a jsconfig.json here if necessary
+    let jsconfigPath: string = path.join(workspaceRoot, JSCONFIG_FILENAME);
+    let tsconfigPath: string = path.join(workspaceRoot, TSCONFIG_FILENAME);
+
+    Promise.all([CordovaProjectHelper.exists(jsconfigPath), CordovaProjectHelper.exists(tsconfigPath)]).then(([jsExists, tsExists]) => {
+        if (!jsExists && !tsExists) {
+            fs.promises.writeFile(jsconfigPath, "{}").then(() => {
+                // Any open file must be reloaded to enable intellisense on them, so inform the user
+                vscode.window.showInformationMessage("A 'jsconfig.json' file was created to enable IntelliSense. You may need to reload your open JS file(s).");
+            });
+        }
+    });
+}
+
+function onFolderRemoved(folder: vscode.WorkspaceFolder): void {
+    if (folder.uri.scheme !== "file") {
+        return;
+    }
+    Object.keys(ProjectsStorage.projectsCache).forEach(path => {
+        if (CordovaProjectHelper.checkPathBelongsToHierarchy(folder.uri.fsPath.toLowerCase(), path)) {
+            ProjectsStorage.delFolder(path);
+        }
+    });
+    PROJECTS_TREE_DATA_PROVIDER.refresh();
+}
+
 /* Launches a simulate command and records telemetry for it */
 function launchSimulateCommand(cordovaProjectRoot: string, options: SimulateOptions): Promise<void> {
     return TelemetryHelper.generate("simulateCommand", (generator) => {
@@ -363,26 +465,135 @@ function launchSimulateCommand(cordovaProjectRoot: string, options: SimulateOpti
     });
 }
 
-function registerCordovaCommands(cordovaSessionManager: CordovaSessionManager): void {
-    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.restart", () => commandWrapper(CordovaCommandHelper.restartCordovaDebugging, [cordovaSessionManager])));
-    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.prepare", () => commandWrapper(CordovaCommandHelper.executeCordovaCommand, ["prepare"])));
-    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.build", () => commandWrapper(CordovaCommandHelper.executeCordovaCommand, ["build"])));
-    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.run", () => commandWrapper(CordovaCommandHelper.executeCordovaCommand, ["run"])));
-    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("ionic.prepare", () => commandWrapper(CordovaCommandHelper.executeCordovaCommand, ["prepare", true])));
-    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("ionic.build", () => commandWrapper(CordovaCommandHelper.executeCordovaCommand, ["build", true])));
-    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("ionic.run", () => commandWrapper(CordovaCommandHelper.executeCordovaCommand, ["run", true])));
-    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.simulate.android", () => {
-        return selectProject()
-            .then((project) => {
-                return launchSimulateCommand(project.workspaceRoot.uri.fsPath, { dir: project.workspaceRoot.uri.fsPath, target: "chrome", platform: "android", lang: vscode.env.language });
-            });
-    }));
-    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.simulate.ios", () => {
-        return selectProject()
-            .then((project) => {
-                return launchSimulateCommand(project.workspaceRoot.uri.fsPath, { dir: project.workspaceRoot.uri.fsPath, target: "chrome", platform: "ios", lang: vscode.env.language });
+function selectPlugin(cordovaProjectRoot: string, treeItem?: CordovaTreeItem): Promise<string | undefined> {
+    if (treeItem instanceof PluginTreeItem) {
+        return Promise.resolve(treeItem.pluginId);
+    }
+
+    const plugins = CordovaProjectHelper.getInstalledPlugins(cordovaProjectRoot);
+    if (!plugins.length) {
+        vscode.window.showInformationMessage(localize("NoPluginsInstalledInProject", "There are no plugins installed in the project '{0}'", cordovaProjectRoot));
+        return Promise.resolve(undefined);
+    }
+
+    return new Promise((resolve, reject) => {
+        vscode.window.showQuickPick(plugins, { placeHolder: localize("SelectPlugin", "Select a plugin") })
+            .then(resolve, reject);
+    });
+}
+
+/* Asks for a plugin spec and adds the plugin to the project */
+function addPlugin(cordovaProjectRoot: string): Promise<void> {
+    return new Promise<string>((resolve, reject) => {
+        vscode.window.showInputBox({
+            prompt: localize("EnterPluginToAdd", "Enter a plugin id, a git url or a local path. Additional arguments like '--variable' can be specified as well"),
+            placeHolder: "cordova-plugin-camera@latest",
+            ignoreFocusOut: true,
+        }).then(resolve, reject);
+    })
+        .then((pluginSpec) => {
+            if (!pluginSpec || !pluginSpec.trim()) {
+                return;
+            }
+            return CordovaCommandHelper.executePluginCommand(cordovaProjectRoot, "add", pluginSpec.trim())
+                .then(() => onPluginsChanged(cordovaProjectRoot));
+        });
+}
+
+/* Removes a plugin picked from the tree view or from the list of installed plugins */
+function removePlugin(cordovaProjectRoot: string, treeItem?: CordovaTreeItem): Promise<void> {
+    return selectPlugin(cordovaProjectRoot, treeItem)
+        .then((pluginId) => {
+            if (!pluginId) {
+                return;
+            }
+            return CordovaCommandHelper.executePluginCommand(cordovaProjectRoot, "remove", pluginId)
+                .then(() => onPluginsChanged(cordovaProjectRoot));
+        });
+}
+
+/* Reinstalls the latest version of a plugin. Cordova CLI doesn't have an update command, so the plugin is removed and added again */
+function updatePlugin(cordovaProjectRoot: string, treeItem?: CordovaTreeItem): Promise<void> {
+    return selectPlugin(cordovaProjectRoot, treeItem)
+        .then((pluginId) => {
+            if (!pluginId) {
+                return;
+            }
+            // The specs should be read before removing, since the plugin disappears from 'plugins/fetch.json' afterwards
+            const pluginSpec = CordovaProjectHelper.getPluginUpdateSpec(cordovaProjectRoot, pluginId);
+            const restoreSpec = CordovaProjectHelper.getPluginRestoreSpec(cordovaProjectRoot, pluginId);
+            return CordovaCommandHelper.executePluginCommand(cordovaProjectRoot, "remove", pluginId)
+                .then(() => CordovaCommandHelper.executePluginCommand(cordovaProjectRoot, "add", pluginSpec)
+                    .catch((err) => {
+                        // Bring the removed plugin back, so the failed update doesn't leave the project without it
+                        const rethrow = () => { throw err; };
+                        return CordovaCommandHelper.executePluginCommand(cordovaProjectRoot, "add", restoreSpec)
+                            .then(rethrow, rethrow);
+                    })
+                    .then(() => onPluginsChanged(cordovaProjectRoot), (err) => {
+                        onPluginsChanged(cordovaProjectRoot);
+                        throw err;
+                    }));
+        });
+}
+
+function selectAndroidTarget(adbHelper: AdbHelper): Promise<string | undefined> {
+    return adbHelper.getOnlineTargets()
+        .then((targets) => {
+            if (!targets.length) {
+                throw new Error(localize("NoOnlineAndroidTargets", "There are no online Android devices or emulators"));
+            }
+            if (targets.length === 1) {
+                return targets[0].id;
+            }
+            return new Promise<string | undefined>((resolve, reject) => {
+                vscode.window.showQuickPick(targets.map(target => target.id), { placeHolder: localize("SelectAndroidTarget", "Select a device or an emulator") })
+                    .then(resolve, reject);
             });
-    }));
+        });
+}
+
+/* Streams the logcat of the project app running on an Android device or emulator picked by the user */
+function showLogCat(cordovaProjectRoot: string): Promise<void> {
+    const packageName = CordovaProjectHelper.getAndroidPackageName(cordovaProjectRoot);
+    if (!packageName) {
+        return Promise.reject(new Error(localize("CouldNotFindAndroidPackageName", "Couldn't find the application id in config.xml of the project '{0}'", cordovaProjectRoot)));
+    }
+
+    const adbHelper = new AdbHelper(cordovaProjectRoot);
+    return selectAndroidTarget(adbHelper)
+        .then((targetId) => {
+            if (!targetId) {
+                return;
+            }
+            OutputChannelLogger.getChannel(LogCatMonitor.CHANNEL_NAME, true, true).getOutputChannel().show(true);
+            const filter = {
+                tags: CordovaCommandHelper.getLogCatTags(cordovaProjectRoot),
+                level: CordovaCommandHelper.getLogCatLevel(cordovaProjectRoot),
+            };
+            return LogCatMonitor.startMonitor(adbHelper, targetId, packageName, filter).then(() => void 0);
+        });
+}
+
+/* Adds the data directory of the project app installed on an Android device or emulator to the workspace */
+function browseAndroidAppFiles(cordovaProjectRoot: string): Promise<void> {
+    const packageName = CordovaProjectHelper.getAndroidPackageName(cordovaProjectRoot);
+    if (!packageName) {
+        return Promise.reject(new Error(localize("CouldNotFindAndroidPackageName", "Couldn't find the application id in config.xml of the project '{0}'", cordovaProjectRoot)));
+    }
+
+    return selectAndroidTarget(new AdbHelper(cordovaProjectRoot))
+        .then((targetId) => {
+            if (!targetId) {
+                return;
+            }
+            const uri = AndroidAppFileSystemProvider.getAppDataUri(targetId, packageName);
+            const workspaceFolders = vscode.workspace.workspaceFolders || [];
+            if (workspaceFolders.some(folder => folder.uri.toString() === uri.toString())) {
+                return;
+            }
+            vscode.workspace.updateWorkspaceFolders(workspaceFolders.length, 0, { uri, name: `${packageName} (${targetId})` });
+        });
 }
 
 function selectProject(): Promise<CordovaWorkspaceManager> {
@@ -409,3 +620,72 @@ function commandWrapper(fn, args) {
             return fn(project.workspaceRoot.uri.fsPath, ...args);
         });
 }
+
+/* Runs a command for the project of the item picked in the projects view or for the project selected by the user */
+function projectCommandWrapper(fn: (projectRoot: string, treeItem?: CordovaTreeItem) => Promise<void>, treeItem?: CordovaTreeItem): Promise<void> {
+    if (treeItem instanceof CordovaTreeItem) {
+        return fn(treeItem.projectRoot, treeItem);
+    }
+    return commandWrapper(fn, []);
+}
+
+function getTreeItemPlatform(treeItem?: CordovaTreeItem): string | undefined {
+    if (treeItem instanceof PlatformTreeItem || treeItem instanceof MissingPlatformTreeItem) {
+        return treeItem.platform;
+    }
+    return undefined;
+}
+
+/* Runs a platform-specific command either for the platform picked in the projects view or for the one selected by the user */
+function platformCommandWrapper(command: string, useIonic: boolean, platformItem?: PlatformTreeItem): Promise<void> {
+    if (platformItem instanceof PlatformTreeItem) {
+        return CordovaCommandHelper.executeCordovaCommand(platformItem.projectRoot, command, useIonic, platformItem.platform);
+    }
+    return commandWrapper(CordovaCommandHelper.executeCordovaCommand, [command, useIonic]);
+}
+
+function registerCordovaCommands(cordovaSessionManager: CordovaSessionManager): void {
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.restart", () => commandWrapper(CordovaCommandHelper.restartCordovaDebugging, [cordovaSessionManager])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.prepare", (platformItem?: PlatformTreeItem) => platformCommandWrapper("prepare", false, platformItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.build", (platformItem?: PlatformTreeItem) => platformCommandWrapper("build", false, platformItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.run", (platformItem?: PlatformTreeItem) => platformCommandWrapper("run", false, platformItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.buildRelease", () => commandWrapper(AndroidReleaseBuild.buildRelease, [])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("ionic.prepare", (platformItem?: PlatformTreeItem) => platformCommandWrapper("prepare", true, platformItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("ionic.build", (platformItem?: PlatformTreeItem) => platformCommandWrapper("build", true, platformItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("ionic.run", (platformItem?: PlatformTreeItem) => platformCommandWrapper("run", true, platformItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.plugin.add", (treeItem?: CordovaTreeItem) => projectCommandWrapper(addPlugin, treeItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.plugin.remove", (treeItem?: CordovaTreeItem) => projectCommandWrapper(removePlugin, treeItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.plugin.update", (treeItem?: CordovaTreeItem) => projectCommandWrapper(updatePlugin, treeItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.platform.add", (treeItem?: CordovaTreeItem) =>
+        projectCommandWrapper((projectRoot, item) => CordovaCommandHelper.addPlatform(projectRoot, getTreeItemPlatform(item)).then(() => PROJECTS_TREE_DATA_PROVIDER.refresh()), treeItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.platform.remove", (treeItem?: CordovaTreeItem) =>
+        projectCommandWrapper((projectRoot, item) => CordovaCommandHelper.removePlatform(projectRoot, getTreeItemPlatform(item)).then(() => PROJECTS_TREE_DATA_PROVIDER.refresh()), treeItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.platform.update", (treeItem?: CordovaTreeItem) =>
+        projectCommandWrapper((projectRoot, item) => CordovaCommandHelper.updatePlatform(projectRoot, getTreeItemPlatform(item)).then(() => PROJECTS_TREE_DATA_PROVIDER.refresh()), treeItem)));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.showLogcat", () => commandWrapper(showLogCat, [])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.browseAndroidAppFiles", () => commandWrapper(browseAndroidAppFiles, [])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.emulator.start", () => commandWrapper(AndroidEmulatorCommands.startEmulator, [])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.emulator.stop", () => commandWrapper(AndroidEmulatorCommands.stopEmulator, [])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.emulator.create", () => commandWrapper(AndroidEmulatorCommands.createVirtualDevice, [])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.wireless.pair", () => commandWrapper(AndroidWirelessCommands.pairDevice, [])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.wireless.connect", () => commandWrapper(AndroidWirelessCommands.connectDevice, [])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.wireless.disconnect", () => commandWrapper(AndroidWirelessCommands.disconnectDevice, [])));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.wireless.forget", () => AndroidWirelessCommands.forgetDevice()));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.inspectNetwork", () => NetworkInspectorPanel.inspectNetwork()));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.showScreencast", () => ScreencastPanel.showScreencast()));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.startCpuProfiling", () => ApplicationProfiler.startCpuProfiling()));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.stopCpuProfiling", () => ApplicationProfiler.stopCpuProfiling()));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.takeHeapSnapshot", () => ApplicationProfiler.takeHeapSnapshot()));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.simulate.android", () => {
+        return selectProject()
+            .then((project) => {
+                return launchSimulateCommand(project.workspaceRoot.uri.fsPath, { dir: project.workspaceRoot.uri.fsPath, target: "chrome", platform: "android", lang: vscode.env.language });
+            });
+    }));
+    EXTENSION_CONTEXT.subscriptions.push(vscode.commands.registerCommand("cordova.simulate.ios", () => {
+        return selectProject()
+            .then((project) => {
+                return launchSimulateCommand(project.workspaceRoot.uri.fsPath, { dir: project.workspaceRoot.uri.fsPath, target: "chrome", platform: "ios", lang: vscode.env.language });
+            });
+    }));
+}
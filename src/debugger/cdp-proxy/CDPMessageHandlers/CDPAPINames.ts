@@ -13,4 +13,10 @@ export const CDP_API_NAMES = {
     CONSOLE_ENABLE: "Console.enable",
     DEBUGGER_SET_BREAKPOINTS_ACTIVE: "Debugger.setBreakpointsActive",
     EXECUTION_CONTEXT_CREATED: "Runtime.executionContextCreated",
+    DEBUGGER_SCRIPT_FAILED_TO_PARSE: "Debugger.scriptFailedToParse",
+    DEBUGGER_ENABLE: "Debugger.enable",
+    DEBUGGER_SET_BLACKBOX_PATTERNS: "Debugger.setBlackboxPatterns",
+    LOG_ENTRY_ADDED: "Log.entryAdded",
+    TARGET_ATTACHED_TO_TARGET: "Target.attachedToTarget",
+    TARGET_DETACHED_FROM_TARGET: "Target.detachedFromTarget",
 };
@@ -0,0 +1,163 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import { Event, EventEmitter } from "vscode";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { ProtocolMessage } from "./CDPMessageHandlers/abstraction/CDPMessageHandlerBase";
+import { CDPMessageTransformerChain } from "./transformers/cdpMessageTransformerChain";
+import { CDP_API_NAMES } from "./CDPMessageHandlers/CDPAPINames";
+
+interface IPendingCommand {
+    method: string;
+    resolve: (result: any) => void;
+    reject: (err: Error) => void;
+}
+
+/**
+ * Sends CDP commands of the extension to the application through the connection held by the CDP proxy,
+ * so the app could be inspected during debugging without opening another connection to it.
+ * Chrome based targets are reached through the page session the debugger attaches to, while
+ * the commands to iOS targets are wrapped by the Safari CDP message handler the same way as the debugger commands.
+ */
+export class ApplicationCDPClient {
+    // The ids differ from the ones used by the debugger and the injected commands of the transformers
+    private static readonly COMMAND_ID_BASE = 1500000000;
+    private static clients: ApplicationCDPClient[] = [];
+    private static readonly clientsChangedEmitter = new EventEmitter<void>();
+
+    public static readonly onDidChangeClients: Event<void> = ApplicationCDPClient.clientsChangedEmitter.event;
+
+    private lastCommandId: number = ApplicationCDPClient.COMMAND_ID_BASE;
+    private pendingCommands = new Map<number, IPendingCommand>();
+    private pageSessionId: string | undefined;
+    private isReady: boolean = false;
+    private readonly eventEmitter = new EventEmitter<IProtocolCommand>();
+    private readonly closeEmitter = new EventEmitter<void>();
+
+    /**
+     * Fired for the events of the application, e.g. "Network.requestWillBeSent"
+     */
+    public readonly onEvent: Event<IProtocolCommand> = this.eventEmitter.event;
+    public readonly onClose: Event<void> = this.closeEmitter.event;
+
+    /**
+     * @param projectRoot - the root of the Cordova project of the debug session
+     * @param send - dispatches the command to the application the same way as the commands of the debugger
+     * @param usesPageSession - whether the application connection is a browser one, and the page is reached through the session of the debugger
+     */
+    constructor(
+        public readonly sessionName: string,
+        public readonly platform: string,
+        public readonly projectRoot: string,
+        private readonly send: (command: IProtocolCommand) => void,
+        private readonly usesPageSession: boolean
+    ) { }
+
+    public static getClients(): ApplicationCDPClient[] {
+        return ApplicationCDPClient.clients.slice();
+    }
+
+    public get isConnected(): boolean {
+        return this.isReady;
+    }
+
+    public sendCommand<T = any>(method: string, params: any = {}): Promise<T> {
+        if (!this.isReady) {
+            return Promise.reject(new Error(`Could not send '${method}' to the application, since it's not connected`));
+        }
+
+        const command: IProtocolCommand = {
+            id: ++this.lastCommandId,
+            method,
+            params,
+        };
+        if (this.pageSessionId) {
+            command.sessionId = this.pageSessionId;
+        }
+
+        return new Promise<T>((resolve, reject) => {
+            this.pendingCommands.set(<number>command.id, { method, resolve, reject });
+            try {
+                this.send(command);
+            } catch (err) {
+                this.pendingCommands.delete(<number>command.id);
+                reject(err);
+            }
+        });
+    }
+
+    /**
+     * Marks the application connection as prepared for the communication, which is required for iOS targets
+     */
+    public setApplicationReady(): void {
+        if (!this.usesPageSession) {
+            this.setReady(true);
+        }
+    }
+
+    /**
+     * Handles a message of the application processed by the CDP message handler
+     * @returns true if the message is a reply to a command of the client, which shouldn't be passed to the debugger
+     */
+    public handleApplicationMessage(message: ProtocolMessage): boolean {
+        if (!CDPMessageTransformerChain.isCommand(message)) {
+            const pendingCommand = message.id !== undefined && this.pendingCommands.get(message.id);
+            if (!pendingCommand) {
+                return false;
+            }
+            this.pendingCommands.delete(<number>message.id);
+            if ("error" in message) {
+                pendingCommand.reject(new Error(`${pendingCommand.method} failed: ${message.error.message}`));
+            } else {
+                pendingCommand.resolve(message.result);
+            }
+            return true;
+        }
+
+        if (this.usesPageSession) {
+            this.trackPageSession(message);
+        }
+        if (!this.usesPageSession || (this.pageSessionId && message.sessionId === this.pageSessionId)) {
+            this.eventEmitter.fire(message);
+        }
+        return false;
+    }
+
+    public dispose(): void {
+        this.setReady(false);
+        this.pendingCommands.forEach(pendingCommand => pendingCommand.reject(new Error(`${pendingCommand.method} failed: the application is disconnected`)));
+        this.pendingCommands.clear();
+        this.closeEmitter.fire();
+        this.eventEmitter.dispose();
+        this.closeEmitter.dispose();
+    }
+
+    private trackPageSession(message: IProtocolCommand): void {
+        const params: any = message.params || {};
+        if (
+            message.method === CDP_API_NAMES.TARGET_ATTACHED_TO_TARGET
+            && !this.pageSessionId
+            && params.targetInfo
+            && params.targetInfo.type === "page"
+        ) {
+            this.pageSessionId = params.sessionId;
+            this.setReady(true);
+        } else if (message.method === CDP_API_NAMES.TARGET_DETACHED_FROM_TARGET && params.sessionId === this.pageSessionId) {
+            this.pageSessionId = undefined;
+            this.setReady(false);
+        }
+    }
+
+    private setReady(isReady: boolean): void {
+        if (this.isReady === isReady) {
+            return;
+        }
+        this.isReady = isReady;
+        if (isReady) {
+            ApplicationCDPClient.clients.push(this);
+        } else {
+            ApplicationCDPClient.clients = ApplicationCDPClient.clients.filter(client => client !== this);
+        }
+        ApplicationCDPClient.clientsChangedEmitter.fire();
+    }
+}
@@ -0,0 +1,112 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import { EventEmitter } from "vscode";
+import { ITransport } from "vscode-cdp-proxy";
+import { ProtocolMessage } from "./CDPMessageHandlers/abstraction/CDPMessageHandlerBase";
+import { CDPMessageSource, CDPTrafficRecorder, ICDPTrafficRecord } from "./cdpTrafficRecorder";
+
+/**
+ * Stands in for the application target by replaying a CDP traffic recording. The messages of the application are sent
+ * in the recorded order, each of them once the proxy has sent all the messages the application received before it.
+ * The ids of the recorded replies are mapped to the ids of the commands sent during the replay.
+ */
+export class CDPReplayTransport implements ITransport {
+    private static readonly NOT_RECORDED_ERROR_CODE = -32601;
+
+    private readonly messageEmitter = new EventEmitter<ProtocolMessage>();
+    private readonly errorEmitter = new EventEmitter<Error>();
+    private readonly endEmitter = new EventEmitter<void>();
+
+    private position: number = 0;
+    private receivedRecords = new Set<number>();
+    private replyIds = new Map<number, number>();
+    private isClosed: boolean = false;
+
+    public readonly onMessage = this.messageEmitter.event;
+    public readonly onError = this.errorEmitter.event;
+    public readonly onEnd = this.endEmitter.event;
+
+    constructor(private readonly records: ICDPTrafficRecord[]) {
+        // Let the connection subscribe to the messages first
+        setImmediate(() => this.replay());
+    }
+
+    public static fromFile(filePath: string): CDPReplayTransport {
+        return new CDPReplayTransport(CDPTrafficRecorder.readRecords(filePath));
+    }
+
+    public send(message: ProtocolMessage): void {
+        const recordIndex = this.records.findIndex((record, index) =>
+            index >= this.position
+            && !this.receivedRecords.has(index)
+            && CDPTrafficRecorder.isSentToApplication(record)
+            && CDPReplayTransport.isSameMessage(record.processedMessage, message)
+        );
+
+        if (recordIndex === -1) {
+            if ("method" in message && message.id !== undefined) {
+                const errorReply: ProtocolMessage = {
+                    id: message.id,
+                    error: {
+                        code: CDPReplayTransport.NOT_RECORDED_ERROR_CODE,
+                        message: `The '${message.method}' command is not found in the recording`,
+                    },
+                };
+                setImmediate(() => this.fire(errorReply));
+            }
+            return;
+        }
+
+        this.receivedRecords.add(recordIndex);
+        const recordedId = this.records[recordIndex].processedMessage.id;
+        if (recordedId !== undefined && message.id !== undefined) {
+            this.replyIds.set(recordedId, message.id);
+        }
+        setImmediate(() => this.replay());
+    }
+
+    public close(): Promise<void> {
+        if (!this.isClosed) {
+            this.isClosed = true;
+            this.endEmitter.fire();
+            this.messageEmitter.dispose();
+            this.errorEmitter.dispose();
+            this.endEmitter.dispose();
+        }
+        return Promise.resolve();
+    }
+
+    private static isSameMessage(recordedMessage: ProtocolMessage, message: ProtocolMessage): boolean {
+        if ("method" in recordedMessage || "method" in message) {
+            return "method" in recordedMessage && "method" in message && recordedMessage.method === message.method;
+        }
+        return recordedMessage.id === message.id;
+    }
+
+    private replay(): void {
+        while (!this.isClosed && this.position < this.records.length) {
+            const record = this.records[this.position];
+            if (record.source === CDPMessageSource.Application) {
+                this.fire(this.mapReplyId(record.message));
+            } else if (CDPTrafficRecorder.isSentToApplication(record) && !this.receivedRecords.has(this.position)) {
+                // Wait for the debugger to send the message
+                return;
+            }
+            this.position++;
+        }
+    }
+
+    private fire(message: ProtocolMessage): void {
+        if (!this.isClosed) {
+            this.messageEmitter.fire(message);
+        }
+    }
+
+    private mapReplyId(message: ProtocolMessage): ProtocolMessage {
+        if (!("method" in message) && message.id !== undefined && this.replyIds.has(message.id)) {
+            return Object.assign({}, message, { id: this.replyIds.get(message.id) });
+        }
+        return message;
+    }
+}
@@ -0,0 +1,100 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as fs from "fs";
+import * as path from "path";
+import { CordovaProjectHelper } from "../../utils/cordovaProjectHelper";
+import { DispatchDirection, ProcessedCDPMessage, ProtocolMessage } from "./CDPMessageHandlers/abstraction/CDPMessageHandlerBase";
+
+export enum CDPMessageSource {
+    Debugger = "debugger",
+    Application = "application",
+}
+
+export interface ICDPTrafficRecord {
+    /**
+     * Time in milliseconds when the proxy received the message
+     */
+    timestamp: number;
+    source: CDPMessageSource;
+    /**
+     * The message as it was received by the proxy
+     */
+    message: ProtocolMessage;
+    /**
+     * The message produced by the CDP message handler and the side it was dispatched to
+     */
+    processedMessage: ProtocolMessage;
+    dispatchDirection: keyof typeof DispatchDirection;
+}
+
+/**
+ * Writes the CDP messages passing through the proxy and their processing results to a JSONL file, one record per line.
+ * The recording stops once the file can't be written, so a failed recording doesn't affect the debugging
+ */
+export class CDPTrafficRecorder {
+    private stream: fs.WriteStream;
+    private isFailed: boolean = false;
+
+    constructor(public readonly filePath: string, onError?: (message: string) => void) {
+        if (!CordovaProjectHelper.existsSync(path.dirname(filePath))) {
+            CordovaProjectHelper.makeDirectoryRecursive(path.dirname(filePath));
+        }
+        this.stream = fs.createWriteStream(filePath, { flags: "a" });
+        this.stream.on("error", (err: Error) => {
+            this.isFailed = true;
+            if (onError) {
+                onError(`Recording CDP traffic to ${filePath} is stopped: ${err.message}`);
+            }
+        });
+    }
+
+    public static getRecordingPath(directory: string, date: Date = new Date()): string {
+        return path.join(directory, `cdp-${date.toISOString().replace(/[:.]/g, "-")}.jsonl`);
+    }
+
+    public static readRecords(filePath: string): ICDPTrafficRecord[] {
+        return fs.readFileSync(filePath, "utf8")
+            .split(/\r?\n/)
+            .filter(line => !!line.trim())
+            .map(line => <ICDPTrafficRecord>JSON.parse(line));
+    }
+
+    /**
+     * Checks if the processed message of the record was sent to the application target
+     */
+    public static isSentToApplication(record: ICDPTrafficRecord): boolean {
+        return record.source === CDPMessageSource.Debugger
+            ? record.dispatchDirection === DispatchDirection[DispatchDirection.FORWARD]
+            : record.dispatchDirection === DispatchDirection[DispatchDirection.BACK];
+    }
+
+    /**
+     * @param message - a copy of the message made before the processing, since the handlers modify messages in place
+     */
+    public record(source: CDPMessageSource, message: ProtocolMessage, processedMessage: ProcessedCDPMessage): void {
+        if (this.isFailed) {
+            return;
+        }
+        const record: ICDPTrafficRecord = {
+            timestamp: Date.now(),
+            source,
+            message,
+            processedMessage: processedMessage.event,
+            dispatchDirection: <keyof typeof DispatchDirection>DispatchDirection[processedMessage.dispatchDirection],
+        };
+        this.stream.write(`${JSON.stringify(record)}\n`);
+    }
+
+    public close(): Promise<void> {
+        return new Promise<void>((resolve) => {
+            if (this.isFailed) {
+                resolve();
+                return;
+            }
+            // The stream isn't finished if it fails while the rest of the records are written
+            this.stream.once("error", () => resolve());
+            this.stream.end(() => resolve());
+        });
+    }
+}
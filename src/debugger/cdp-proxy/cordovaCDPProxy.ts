@@ -3,6 +3,7 @@
 
 import {
     Connection,
+    IProtocolCommand,
     Server,
     WebSocketTransport
 } from "vscode-cdp-proxy";
@@ -12,14 +13,21 @@ import { OutputChannelLogger } from "../../utils/log/outputChannelLogger";
 import { DebuggerEndpointHelper } from "./debuggerEndpointHelper";
 import { LogLevel } from "../../utils/log/logHelper";
 import { CancellationToken } from "vscode";
-import { SourcemapPathTransformer } from "./sourcemapPathTransformer";
+import { IScriptParsedParams, SourcemapPathTransformer } from "./sourcemapPathTransformer";
 import { PlatformType } from "../cordovaDebugSession";
 import { ProjectType } from "../../utils/cordovaProjectHelper";
 import { SimulateHelper } from "../../utils/simulateHelper";
-import { CDPMessageHandlerBase, DispatchDirection } from "./CDPMessageHandlers/abstraction/CDPMessageHandlerBase";
+import { CDPMessageHandlerBase, DispatchDirection, ProcessedCDPMessage, ProtocolMessage } from "./CDPMessageHandlers/abstraction/CDPMessageHandlerBase";
 import { CDPMessageHandlerCreator } from "./CDPMessageHandlers/CDPMessageHandlerCreator";
 import { ICordovaAttachRequestArgs } from "../requestArgs";
 import { TargetType } from "../cordovaDebugSession";
+import { CDPMessageSource, CDPTrafficRecorder } from "./cdpTrafficRecorder";
+import { CDPReplayTransport } from "./cdpReplayTransport";
+import { CDPMessageTransformerChain } from "./transformers/cdpMessageTransformerChain";
+import { BuiltInTransformers } from "./transformers/builtInTransformers";
+import { CordovaCommandHelper } from "../../utils/cordovaCommandHelper";
+import { ApplicationCDPClient } from "./applicationCDPClient";
+import { CDP_API_NAMES } from "./CDPMessageHandlers/CDPAPINames";
 
 export class CordovaCDPProxy {
 
@@ -45,6 +53,18 @@ export class CordovaCDPProxy {
     private communicationPreparationsDone: boolean;
     private browserInspectUri: string;
     private isSimulate: boolean;
+    private recordingDirectory: string | undefined;
+    private replayFile: string | undefined;
+    private recorder: CDPTrafficRecorder | null;
+    private transformerChain: CDPMessageTransformerChain;
+    private platform: string;
+    private projectRoot: string;
+    private sessionName: string;
+    private applicationCDPClient: ApplicationCDPClient | null;
+    private isSafariTarget: boolean;
+    private sourcemapPathTransformer: SourcemapPathTransformer;
+    private applicationMessageQueue: Promise<void>;
+    private queuedApplicationMessagesCount: number;
 
     constructor(
         hostAddress: string,
@@ -61,13 +81,33 @@ export class CordovaCDPProxy {
         this.debuggerEndpointHelper = new DebuggerEndpointHelper();
         this.browserInspectUri = args.webSocketDebuggerUrl || "";
         this.isSimulate = !!(SimulateHelper.isSimulateTarget(args.target) && args.simulatePort);
+        this.recordingDirectory = args.cdpRecordingDirectory;
+        this.replayFile = args.cdpReplayFile;
+        this.recorder = null;
+        this.platform = args.platform;
+        this.projectRoot = args.cwd;
+        this.sessionName = args.platform;
+        this.applicationCDPClient = null;
+        this.sourcemapPathTransformer = sourcemapPathTransformer;
+        this.applicationMessageQueue = Promise.resolve();
+        this.queuedApplicationMessagesCount = 0;
+        this.transformerChain = new CDPMessageTransformerChain(
+            BuiltInTransformers.createFromSettings(CordovaCommandHelper.getCDPMessageTransformers(args.cwd), args.cwd, message => this.logger.log(message))
+                .concat(CDPMessageTransformerChain.getRegisteredTransformers()),
+            args.cwd,
+            args.platform,
+            this.sendTransformedMessage.bind(this),
+            message => this.logger.log(message)
+        );
 
         if (args.platform === PlatformType.IOS && (args.target === TargetType.Emulator || args.target === TargetType.Device)) {
             this.CDPMessageHandler = CDPMessageHandlerCreator.create(sourcemapPathTransformer, projectType, args, false);
             this.communicationPreparationsDone = false;
+            this.isSafariTarget = true;
         } else {
             this.CDPMessageHandler = CDPMessageHandlerCreator.create(sourcemapPathTransformer, projectType, args, true);
             this.communicationPreparationsDone = true;
+            this.isSafariTarget = false;
         }
     }
 
@@ -82,6 +122,8 @@ export class CordovaCDPProxy {
     }
 
     public async stopServer(): Promise<void> {
+        await this.stopRecording();
+        this.disposeApplicationCDPClient();
         if (this.simPageTarget) {
             await this.simPageTarget.close();
             this.simPageTarget = null;
@@ -107,6 +149,10 @@ export class CordovaCDPProxy {
         this.browserInspectUri = browserInspectUri;
     }
 
+    public setSessionName(sessionName: string): void {
+        this.sessionName = sessionName;
+    }
+
     public configureCDPMessageHandlerAccordingToProcessedAttachArgs(args: ICordovaAttachRequestArgs): void {
         if (
             args.iOSVersion
@@ -129,6 +175,53 @@ export class CordovaCDPProxy {
 
         this.debuggerTarget.pause(); // don't listen for events until the target is ready
 
+        if (this.replayFile) {
+            this.logger.log(`Replaying CDP traffic from ${this.replayFile}`);
+            this.applicationTarget = new Connection(CDPReplayTransport.fromFile(this.replayFile));
+        } else {
+            await this.connectToApplicationTarget();
+        }
+
+        if (this.recordingDirectory) {
+            await this.stopRecording();
+            this.recorder = new CDPTrafficRecorder(CDPTrafficRecorder.getRecordingPath(this.recordingDirectory), message => this.logger.log(message));
+            this.logger.log(`Recording CDP traffic to ${this.recorder.filePath}`);
+        }
+
+        this.applicationTarget.onError(this.onApplicationTargetError.bind(this));
+        this.debuggerTarget.onError(this.onDebuggerTargetError.bind(this));
+
+        this.applicationTarget.onCommand(event => this.dispatchApplicationMessage(event, this.handleApplicationTargetCommand.bind(this)));
+        this.debuggerTarget.onCommand(this.handleDebuggerTargetCommand.bind(this));
+
+        this.applicationTarget.onReply(event => this.dispatchApplicationMessage(event, this.handleApplicationTargetReply.bind(this)));
+        this.debuggerTarget.onReply(this.handleDebuggerTargetReply.bind(this));
+
+        this.applicationTarget.onEnd(this.onApplicationTargetClosed.bind(this));
+        this.debuggerTarget.onEnd(this.onDebuggerTargetClosed.bind(this));
+
+        this.CDPMessageHandler.setApplicationTarget(this.applicationTarget);
+        this.CDPMessageHandler.setDebuggerTarget(this.debuggerTarget);
+
+        this.disposeApplicationCDPClient();
+        if (!this.replayFile) {
+            this.applicationCDPClient = new ApplicationCDPClient(
+                this.sessionName,
+                this.platform,
+                this.projectRoot,
+                this.sendApplicationCDPClientCommand.bind(this),
+                !this.isSafariTarget
+            );
+            if (this.communicationPreparationsDone) {
+                this.applicationCDPClient.setApplicationReady();
+            }
+        }
+
+        // dequeue any messages we got in the meantime
+        this.unpauseDebuggerTarget();
+    }
+
+    private async connectToApplicationTarget(): Promise<void> {
         if (!this.browserInspectUri) {
             if (this.cancellationToken) {
                 this.browserInspectUri = await this.debuggerEndpointHelper.retryGetWSEndpoint(
@@ -150,29 +243,98 @@ export class CordovaCDPProxy {
         }
 
         this.applicationTarget = new Connection(await WebSocketTransport.create(this.browserInspectUri));
+    }
 
-        this.applicationTarget.onError(this.onApplicationTargetError.bind(this));
-        this.debuggerTarget.onError(this.onDebuggerTargetError.bind(this));
+    /**
+     * Handles the messages of the application in the order they were received. The source maps of the parsed scripts
+     * are loaded before the "Debugger.scriptParsed" events are handled, so the following events wait for them.
+     * The replies don't depend on the parsed scripts, so they aren't held back
+     */
+    private dispatchApplicationMessage(event: any, handle: (event: any) => void): void {
+        // Most of the messages are neither queued nor parsed scripts, so they are passed without parsing the wrapped ones
+        if (!this.queuedApplicationMessagesCount && !this.mayBeScriptParsedEvent(event)) {
+            handle(event);
+            return;
+        }
 
-        this.applicationTarget.onCommand(this.handleApplicationTargetCommand.bind(this));
-        this.debuggerTarget.onCommand(this.handleDebuggerTargetCommand.bind(this));
+        const message = this.unwrapApplicationMessage(event);
+        const sourceMapResolution = message ? this.resolveScriptSourceMap(event, message) : null;
+        if (!sourceMapResolution && (!this.queuedApplicationMessagesCount || (message && message.id !== undefined && !message.method))) {
+            handle(event);
+            return;
+        }
 
-        this.applicationTarget.onReply(this.handleApplicationTargetReply.bind(this));
-        this.debuggerTarget.onReply(this.handleDebuggerTargetReply.bind(this));
+        this.queuedApplicationMessagesCount++;
+        const resolution = (sourceMapResolution || Promise.resolve())
+            .catch((err) => {
+                this.logger.log(`Could not resolve the source map of the script: ${err.message || err}`);
+            });
+        this.applicationMessageQueue = this.applicationMessageQueue
+            .then(() => resolution)
+            .then(() => {
+                this.queuedApplicationMessagesCount--;
+                handle(event);
+            });
+    }
 
-        this.applicationTarget.onEnd(this.onApplicationTargetClosed.bind(this));
-        this.debuggerTarget.onEnd(this.onDebuggerTargetClosed.bind(this));
+    private mayBeScriptParsedEvent(event: any): boolean {
+        return event.method === CDP_API_NAMES.DEBUGGER_SCRIPT_PARSED || (
+            event.method === CDP_API_NAMES.TARGET_DISPATCH_MESSAGE_FROM_TARGET
+            && !!event.params
+            && typeof event.params.message === "string"
+            && event.params.message.indexOf(CDP_API_NAMES.DEBUGGER_SCRIPT_PARSED) !== -1
+        );
+    }
 
-        this.CDPMessageHandler.setApplicationTarget(this.applicationTarget);
-        this.CDPMessageHandler.setDebuggerTarget(this.debuggerTarget);
+    /**
+     * Returns the message wrapped into the "Target.dispatchMessageFromTarget" event for iOS targets or the event itself
+     * @returns null if the wrapped message is malformed
+     */
+    private unwrapApplicationMessage(event: any): any | null {
+        if (event.method !== CDP_API_NAMES.TARGET_DISPATCH_MESSAGE_FROM_TARGET || !event.params || typeof event.params.message !== "string") {
+            return event;
+        }
+        try {
+            return JSON.parse(event.params.message);
+        } catch (err) {
+            this.logger.log(`Could not parse the message of the target: ${err.message || err}`);
+            return null;
+        }
+    }
 
-        // dequeue any messages we got in the meantime
-        this.unpauseDebuggerTarget();
+    /**
+     * Resolves the local copy and the source map of the script reported by the "Debugger.scriptParsed" event,
+     * which is wrapped into a "Target.dispatchMessageFromTarget" event for iOS targets
+     * @returns the source map resolution, or null if the message doesn't need it
+     */
+    private resolveScriptSourceMap(event: any, message: any): Promise<void> | null {
+        if (message.method !== CDP_API_NAMES.DEBUGGER_SCRIPT_PARSED || !message.params) {
+            return null;
+        }
+
+        const scriptParams: IScriptParsedParams = message.params;
+        const updateEvent = () => {
+            if (message !== event) {
+                event.params.message = JSON.stringify(message);
+            }
+        };
+
+        try {
+            this.sourcemapPathTransformer.resolveScriptPath(scriptParams);
+        } catch (err) {
+            this.logger.log(`Could not resolve the local copy of ${scriptParams.url}: ${err.message || err}`);
+        }
+        if (!this.sourcemapPathTransformer.shouldResolveSourceMap(scriptParams)) {
+            updateEvent();
+            return null;
+        }
+        return this.sourcemapPathTransformer.resolveSourceMap(scriptParams)
+            .then(updateEvent);
     }
 
     private handleDebuggerTargetCommand(event: any) {
         this.logger.logWithCustomTag(this.PROXY_LOG_TAGS.DEBUGGER_COMMAND, JSON.stringify(event, null , 2), this.logLevel);
-        const processedMessage = this.CDPMessageHandler.processDebuggerCDPMessage(event);
+        const processedMessage = this.processCDPMessage(CDPMessageSource.Debugger, event);
 
         if (processedMessage.dispatchDirection === DispatchDirection.BACK) {
             this.debuggerTarget?.send(processedMessage.event);
@@ -183,11 +345,12 @@ export class CordovaCDPProxy {
 
     private handleApplicationTargetCommand(event: any) {
         this.logger.logWithCustomTag(this.PROXY_LOG_TAGS.APPLICATION_COMMAND, JSON.stringify(event, null , 2), this.logLevel);
-        const processedMessage = this.CDPMessageHandler.processApplicationCDPMessage(event);
+        const processedMessage = this.processCDPMessage(CDPMessageSource.Application, event);
 
         if (processedMessage.communicationPreparationsDone) {
             this.communicationPreparationsDone = true;
             this.unpauseDebuggerTarget();
+            this.applicationCDPClient?.setApplicationReady();
         }
 
         if (processedMessage.dispatchDirection === DispatchDirection.BACK) {
@@ -199,7 +362,7 @@ export class CordovaCDPProxy {
 
     private handleDebuggerTargetReply(event: any) {
         this.logger.logWithCustomTag(this.PROXY_LOG_TAGS.DEBUGGER_REPLY, JSON.stringify(event, null , 2), this.logLevel);
-        const processedMessage = this.CDPMessageHandler.processDebuggerCDPMessage(event);
+        const processedMessage = this.processCDPMessage(CDPMessageSource.Debugger, event);
 
         if (processedMessage.dispatchDirection === DispatchDirection.BACK) {
             this.debuggerTarget?.send(processedMessage.event);
@@ -210,7 +373,7 @@ export class CordovaCDPProxy {
 
     private handleApplicationTargetReply(event: any) {
         this.logger.logWithCustomTag(this.PROXY_LOG_TAGS.APPLICATION_REPLY, JSON.stringify(event, null , 2), this.logLevel);
-        const processedMessage = this.CDPMessageHandler.processApplicationCDPMessage(event);
+        const processedMessage = this.processCDPMessage(CDPMessageSource.Application, event);
 
         if (processedMessage.dispatchDirection === DispatchDirection.BACK) {
             this.applicationTarget?.send(processedMessage.event);
@@ -219,6 +382,60 @@ export class CordovaCDPProxy {
         }
     }
 
+    private processCDPMessage(source: CDPMessageSource, event: any): ProcessedCDPMessage {
+        // The handlers modify the messages in place, so the original message is copied for the recording
+        const originalEvent = this.recorder ? JSON.parse(JSON.stringify(event)) : event;
+        const handledMessage = source === CDPMessageSource.Debugger
+            ? this.CDPMessageHandler.processDebuggerCDPMessage(event)
+            : this.CDPMessageHandler.processApplicationCDPMessage(event);
+        const processedMessage = this.isApplicationCDPClientReply(source, handledMessage)
+            ? Object.assign({}, handledMessage, { dispatchDirection: DispatchDirection.CANCEL })
+            : this.transformerChain.process(source, handledMessage);
+
+        if (this.recorder) {
+            this.recorder.record(source, originalEvent, processedMessage);
+        }
+        return processedMessage;
+    }
+
+    private sendTransformedMessage(message: ProtocolMessage, destination: CDPMessageSource): void {
+        if (destination === CDPMessageSource.Debugger) {
+            this.debuggerTarget?.send(message);
+        } else {
+            this.applicationTarget?.send(message);
+        }
+    }
+
+    private isApplicationCDPClientReply(source: CDPMessageSource, handledMessage: ProcessedCDPMessage): boolean {
+        return source === CDPMessageSource.Application
+            && handledMessage.dispatchDirection === DispatchDirection.FORWARD
+            && !!this.applicationCDPClient
+            && this.applicationCDPClient.handleApplicationMessage(handledMessage.event);
+    }
+
+    private sendApplicationCDPClientCommand(command: IProtocolCommand): void {
+        // The commands are processed as the debugger ones, so they are wrapped for iOS targets
+        const processedMessage = this.CDPMessageHandler.processDebuggerCDPMessage(command);
+        if (processedMessage.dispatchDirection === DispatchDirection.FORWARD) {
+            this.applicationTarget?.send(processedMessage.event);
+        }
+    }
+
+    private disposeApplicationCDPClient(): void {
+        if (this.applicationCDPClient) {
+            this.applicationCDPClient.dispose();
+            this.applicationCDPClient = null;
+        }
+    }
+
+    private async stopRecording(): Promise<void> {
+        if (this.recorder) {
+            const recorder = this.recorder;
+            this.recorder = null;
+            await recorder.close();
+        }
+    }
+
     private onDebuggerTargetError(err: Error) {
         this.logger.log(`Error on debugger transport: ${err}`);
     }
@@ -228,11 +445,14 @@ export class CordovaCDPProxy {
     }
 
     private async onApplicationTargetClosed() {
+        this.disposeApplicationCDPClient();
         this.applicationTarget = null;
     }
 
     private async onDebuggerTargetClosed() {
         this.CDPMessageHandler.processDebuggerCDPMessage({method: "close"});
+        await this.stopRecording();
+        this.disposeApplicationCDPClient();
         this.debuggerTarget = null;
         this.communicationPreparationsDone = false;
         this.browserInspectUri = "";
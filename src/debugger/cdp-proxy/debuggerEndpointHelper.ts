@@ -88,7 +88,7 @@ export class DebuggerEndpointHelper {
     /**
      * Fetches content from the given URL.
      */
-    private async fetch(url: string): Promise<string> {
+    public async fetch(url: string): Promise<string> {
         const isSecure = !url.startsWith("http://");
         const driver = isSecure ? https : http;
         const targetAddressIsLoopback = await this.isLoopback(url);
@@ -4,18 +4,55 @@
 import * as path from "path";
 import * as fs from "fs";
 import * as url from "url";
+import * as crypto from "crypto";
 import { ICordovaAttachRequestArgs } from "../requestArgs";
 import { PlatformType } from "../cordovaDebugSession";
 import { CordovaProjectHelper } from "../../utils/cordovaProjectHelper";
 import { ProjectType } from "../../utils/cordovaProjectHelper";
+import { ISourceMapPathOverrides, JsDebugConfigAdapter } from "../jsDebugConfigAdapter";
+import { DebuggerEndpointHelper } from "./debuggerEndpointHelper";
+import { delay } from "../../utils/extensionHelper";
+
+/**
+ * The parameters of the "Debugger.scriptParsed" event used to resolve the script
+ */
+export interface IScriptParsedParams {
+    url: string;
+    sourceMapURL?: string;
+    /**
+     * The SHA-256 hash of the script content reported by Chrome
+     */
+    hash?: string;
+}
+
+interface ILoadedSourceMap {
+    sourceMap: any;
+    /**
+     * The url the relative sources of the source map are resolved against
+     */
+    baseUrl: string;
+    /**
+     * The local folder the relative sources of the source map are resolved against, if the source map has a local copy
+     */
+    localDirectory?: string;
+}
 
 export class SourcemapPathTransformer {
+    private static readonly SHA256_HASH_REGEXP = /^[0-9a-f]{64}$/i;
+    private static readonly URL_SCHEME_REGEXP = /^[a-z][a-z0-9+.-]+:/i;
+    // The messages of the app wait for the source map, so an unresponsive dev server shouldn't stall the debugging
+    private static readonly SOURCE_MAP_FETCH_TIMEOUT = 5000;
+
     private _cordovaRoot: string;
     private _platform: string;
     private _webRoot: string;
     private _projectTypes: ProjectType;
     private _ionicLiveReload: boolean;
     private _debugRequestType: string;
+    private _sourceMapsEnabled: boolean;
+    private _sourceMapPathOverrides: ISourceMapPathOverrides;
+    private _resolvedScriptPaths = new Map<string, string>();
+    private _fileHashes = new Map<string, { mtime: number, hash: string }>();
 
     constructor(args: ICordovaAttachRequestArgs, projectTypes: ProjectType) {
         this._cordovaRoot = args.cwd;
@@ -24,9 +61,62 @@ export class SourcemapPathTransformer {
         this._ionicLiveReload = args.ionicLiveReload || false;
         this._projectTypes = projectTypes;
         this._debugRequestType = args.request;
+        this._sourceMapsEnabled = args.sourceMaps !== false;
+        this._sourceMapPathOverrides = new JsDebugConfigAdapter().getPlatformSourceMapPathOverrides(args);
+    }
+
+    /**
+     * Chooses the local copy of the script whose content matches the hash reported by the app. Each platform keeps
+     * a copy of the "www" folder, so the copies could differ from each other if the platforms weren't prepared recently.
+     * The chosen copy is returned for the url of the script afterwards.
+     */
+    public resolveScriptPath(params: IScriptParsedParams): void {
+        if (!params.url || !SourcemapPathTransformer.isSha256Hash(params.hash) || this._resolvedScriptPaths.has(params.url)) {
+            return;
+        }
+
+        const defaultPath = params.url.startsWith("file://")
+            ? this.getClientPathFromFileBasedUrl(params.url)
+            : this.getClientPathFromHttpBasedUrl(params.url);
+        const candidates = this.getScriptCopies(params.url, defaultPath);
+        if (candidates.length < 2) {
+            return;
+        }
+
+        const hash = (<string>params.hash).toLowerCase();
+        const matchingPath = candidates.find(candidate => this.getFileHash(candidate) === hash);
+        if (matchingPath) {
+            this._resolvedScriptPaths.set(params.url, matchingPath);
+        }
+    }
+
+    public shouldResolveSourceMap(params: IScriptParsedParams): boolean {
+        return this._sourceMapsEnabled && !!params.url && !!params.sourceMapURL;
+    }
+
+    /**
+     * Loads the source map of the script, whether it's inline, served by the dev server or copied next to the script,
+     * and replaces it with an inline source map whose sources are resolved with the source map path overrides
+     * of the platform, so the debugger binds the breakpoints to the local source files
+     */
+    public resolveSourceMap(params: IScriptParsedParams): Promise<void> {
+        const scriptPath = params.url.startsWith("file://")
+            ? this.getClientPathFromFileBasedUrl(params.url)
+            : this.getClientPathFromHttpBasedUrl(params.url);
+
+        return this.loadSourceMap(params.url, <string>params.sourceMapURL, scriptPath)
+            .then((loadedSourceMap) => {
+                const sourceMap = this.resolveSources(loadedSourceMap);
+                params.sourceMapURL = "data:application/json;charset=utf-8;base64," + Buffer.from(JSON.stringify(sourceMap)).toString("base64");
+            });
     }
 
     public getClientPathFromFileBasedUrl(sourceUrl: string): string {
+        const resolvedPath = this._resolvedScriptPaths.get(sourceUrl);
+        if (resolvedPath) {
+            return resolvedPath;
+        }
+
         const regExp = new RegExp("file:\\/\\/\\/.*\\.app(?:\\/www)*(\\/.*\\.(js|html))", "g");
         let foundStrings = regExp.exec(sourceUrl);
         if (foundStrings && foundStrings[1]) {
@@ -37,6 +127,11 @@ export class SourcemapPathTransformer {
     }
 
     public getClientPathFromHttpBasedUrl(sourceUrl: string): string {
+        const resolvedPath = this._resolvedScriptPaths.get(sourceUrl);
+        if (resolvedPath) {
+            return resolvedPath;
+        }
+
         let relativeSourcePath;
         try {
             relativeSourcePath = url.parse(sourceUrl).pathname || "/";
@@ -91,6 +186,177 @@ export class SourcemapPathTransformer {
         return defaultPath;
     }
 
+    private static isSha256Hash(hash: string | undefined): boolean {
+        return !!hash && SourcemapPathTransformer.SHA256_HASH_REGEXP.test(hash);
+    }
+
+    private static toFileUrl(filePath: string): string {
+        const normalizedPath = path.resolve(filePath).split("\\").join("/");
+        return normalizedPath.startsWith("/") ? "file://" + normalizedPath : "file:///" + normalizedPath;
+    }
+
+    /**
+     * Returns the existing local copies of the script: the one found by the default heuristics,
+     * and the ones in the "www" folders of the platform
+     */
+    private getScriptCopies(sourceUrl: string, defaultPath: string): string[] {
+        const wwwRoot = path.join(this._cordovaRoot, "www");
+        let relativePath: string | undefined;
+        if (defaultPath && defaultPath.toLowerCase().indexOf(wwwRoot.toLowerCase()) === 0) {
+            relativePath = path.relative(wwwRoot, defaultPath);
+        } else {
+            let pathname: string;
+            try {
+                pathname = decodeURIComponent(url.parse(sourceUrl).pathname || "");
+            } catch (err) {
+                pathname = "";
+            }
+            const match = pathname.match(/(?:\/android_asset\/www|\.app\/www)\/(.+)$/);
+            relativePath = match ? match[1] : pathname.replace(/^\/+/, "");
+        }
+
+        const candidates = defaultPath ? [defaultPath] : [];
+        if (relativePath) {
+            const platformRoot = path.join(this._cordovaRoot, "platforms", this._platform);
+            [
+                path.join(platformRoot, "app", "src", "main", "assets", "www"),
+                path.join(platformRoot, "assets", "www"),
+                path.join(platformRoot, "www"),
+            ].forEach((platformWwwRoot) => {
+                const copyPath = path.join(platformWwwRoot, <string>relativePath);
+                if (copyPath !== defaultPath && fs.existsSync(copyPath)) {
+                    candidates.push(copyPath);
+                }
+            });
+        }
+        return candidates;
+    }
+
+    /**
+     * Calculates the hash the same way as V8 does: SHA-256 of the UTF-16 code units of the script
+     */
+    private getFileHash(filePath: string): string {
+        const mtime = fs.statSync(filePath).mtime.getTime();
+        const cachedHash = this._fileHashes.get(filePath);
+        if (cachedHash && cachedHash.mtime === mtime) {
+            return cachedHash.hash;
+        }
+
+        const content = fs.readFileSync(filePath, "utf8").replace(/^\uFEFF/, "");
+        const hash = crypto.createHash("sha256").update(Buffer.from(content, "utf16le")).digest("hex");
+        this._fileHashes.set(filePath, { mtime, hash });
+        return hash;
+    }
+
+    private loadSourceMap(scriptUrl: string, sourceMapURL: string, scriptPath: string): Promise<ILoadedSourceMap> {
+        const scriptDirectory = scriptPath ? path.dirname(scriptPath) : undefined;
+
+        // The source maps are parsed in the promise executors, so the malformed ones reject the promise instead of throwing
+        if (sourceMapURL.startsWith("data:")) {
+            return new Promise<ILoadedSourceMap>((resolve) => {
+                const match = sourceMapURL.match(/^data:[^,]*?(;base64)?,([\s\S]*)$/);
+                if (!match) {
+                    throw new Error("The inline source map is malformed");
+                }
+                const content = match[1] ? Buffer.from(match[2], "base64").toString("utf8") : decodeURIComponent(match[2]);
+                resolve({ sourceMap: JSON.parse(content), baseUrl: scriptUrl, localDirectory: scriptDirectory });
+            });
+        }
+
+        const sourceMapUrl = url.resolve(scriptUrl, sourceMapURL);
+        const isRelative = !SourcemapPathTransformer.URL_SCHEME_REGEXP.test(sourceMapURL);
+        // The source map next to the local copy of the script matches it, while the dev server could serve a newer one
+        if (isRelative && scriptDirectory) {
+            const sourceMapPath = path.resolve(scriptDirectory, decodeURIComponent(sourceMapURL.split(/[?#]/)[0]));
+            if (fs.existsSync(sourceMapPath)) {
+                return new Promise<ILoadedSourceMap>((resolve) => {
+                    resolve({
+                        sourceMap: JSON.parse(fs.readFileSync(sourceMapPath, "utf8")),
+                        baseUrl: sourceMapUrl,
+                        localDirectory: path.dirname(sourceMapPath),
+                    });
+                });
+            }
+        }
+
+        if (/^https?:/i.test(sourceMapUrl)) {
+            return Promise.race([
+                new DebuggerEndpointHelper().fetch(sourceMapUrl),
+                delay(SourcemapPathTransformer.SOURCE_MAP_FETCH_TIMEOUT).then((): string => {
+                    throw new Error(`The source map ${sourceMapUrl} isn't received in time`);
+                }),
+            ])
+                .then(content => ({
+                    sourceMap: JSON.parse(content),
+                    baseUrl: sourceMapUrl,
+                    localDirectory: isRelative && scriptDirectory
+                        ? path.dirname(path.resolve(scriptDirectory, sourceMapURL.split(/[?#]/)[0]))
+                        : scriptDirectory,
+                }));
+        }
+        if (sourceMapUrl.startsWith("file://")) {
+            // The maps of iOS simulators are available locally
+            const sourceMapPath = decodeURIComponent(url.parse(sourceMapUrl).pathname || "");
+            return new Promise<ILoadedSourceMap>((resolve, reject) => {
+                fs.readFile(sourceMapPath, "utf8", (err, content) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+                    try {
+                        resolve({ sourceMap: JSON.parse(content), baseUrl: sourceMapUrl, localDirectory: scriptDirectory });
+                    } catch (parseError) {
+                        reject(parseError);
+                    }
+                });
+            });
+        }
+        return Promise.reject(new Error(`The source map ${sourceMapUrl} isn't supported`));
+    }
+
+    /**
+     * Replaces the sources of the source map with absolute urls, applying the source map path overrides to them first
+     */
+    private resolveSources(loadedSourceMap: ILoadedSourceMap): any {
+        const sourceMap = loadedSourceMap.sourceMap;
+        const sourceRoot: string = sourceMap.sourceRoot || "";
+
+        sourceMap.sources = (sourceMap.sources || []).map((source: string) => {
+            const fullSource = sourceRoot && !SourcemapPathTransformer.URL_SCHEME_REGEXP.test(source) && !path.isAbsolute(source)
+                ? sourceRoot.replace(/\/?$/, "/") + source
+                : source;
+            const overriddenSource = this.applySourceMapPathOverrides(fullSource);
+
+            if (overriddenSource !== undefined && path.isAbsolute(overriddenSource)) {
+                return SourcemapPathTransformer.toFileUrl(overriddenSource);
+            }
+            const relativeSource = overriddenSource !== undefined ? overriddenSource : fullSource;
+            if (!SourcemapPathTransformer.URL_SCHEME_REGEXP.test(relativeSource) && loadedSourceMap.localDirectory) {
+                return SourcemapPathTransformer.toFileUrl(path.resolve(loadedSourceMap.localDirectory, relativeSource));
+            }
+            return url.resolve(loadedSourceMap.baseUrl, relativeSource);
+        });
+        delete sourceMap.sourceRoot;
+        return sourceMap;
+    }
+
+    /**
+     * Applies the longest matching pattern of the overrides, the same way as the JavaScript debugger does
+     * @returns the overridden path, or undefined if no pattern matches the source
+     */
+    private applySourceMapPathOverrides(source: string): string | undefined {
+        const patterns = Object.keys(this._sourceMapPathOverrides).sort((a, b) => b.length - a.length);
+        for (const pattern of patterns) {
+            const patternRegExp = new RegExp("^" + pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace("*", "(.*)") + "$", "i");
+            const match = patternRegExp.exec(source);
+            if (match) {
+                const replacement = this._sourceMapPathOverrides[pattern];
+                return match[1] !== undefined ? replacement.replace("*", match[1]) : replacement;
+            }
+        }
+        return undefined;
+    }
+
     private targetUrlToClientPath(sourceUrlPath: string, searchFolder: string): string {
         const rest = sourceUrlPath.substring(1);
         const absoluteSourcePath = rest ?
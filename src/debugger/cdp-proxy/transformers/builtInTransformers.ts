@@ -0,0 +1,220 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import { ProtocolMessage } from "../CDPMessageHandlers/abstraction/CDPMessageHandlerBase";
+import { CDPMessageSource } from "../cdpTrafficRecorder";
+import { CDPMessageTransformerChain, ICDPMessageTransformContext, ICDPMessageTransformer } from "./cdpMessageTransformerChain";
+import { CDP_API_NAMES } from "../CDPMessageHandlers/CDPAPINames";
+
+export interface IUrlSchemeTransformerSettings {
+    type: "urlScheme";
+    /**
+     * The URL prefix the application is served from, e.g. "app://localhost/"
+     */
+    url: string;
+    webRoot?: string;
+}
+
+export interface IDropConsoleMessagesTransformerSettings {
+    type: "dropConsoleMessages";
+    pattern: string;
+}
+
+export interface IBlackboxScriptsTransformerSettings {
+    type: "blackboxScripts";
+    patterns: string[];
+}
+
+export type CDPMessageTransformerSettings = IUrlSchemeTransformerSettings | IDropConsoleMessagesTransformerSettings | IBlackboxScriptsTransformerSettings;
+
+/**
+ * Maps the scripts of an application served from a custom URL scheme to the files in the web root and back, so breakpoints could be bound to them
+ */
+export class UrlSchemeTransformer implements ICDPMessageTransformer {
+    private readonly fileUrl: string;
+
+    constructor(private readonly url: string, webRoot: string) {
+        const webRootPath = path.resolve(webRoot).split("\\").join("/").replace(/\/?$/, "/");
+        // The same file URL form as Cordova CDP message handlers produce
+        this.fileUrl = process.platform === "win32" ? `file:///${webRootPath}` : `file://${webRootPath}`;
+    }
+
+    public transform(message: ProtocolMessage, context: ICDPMessageTransformContext): ProtocolMessage {
+        if (!CDPMessageTransformerChain.isCommand(message) || !message.params) {
+            return message;
+        }
+
+        const params: any = message.params;
+        if (
+            context.destination === CDPMessageSource.Debugger
+            && (message.method === CDP_API_NAMES.DEBUGGER_SCRIPT_PARSED || message.method === CDP_API_NAMES.DEBUGGER_SCRIPT_FAILED_TO_PARSE)
+            && typeof params.url === "string"
+            && params.url.startsWith(this.url)
+        ) {
+            params.url = this.fileUrl + params.url.substr(this.url.length);
+        } else if (context.destination === CDPMessageSource.Application && message.method === CDP_API_NAMES.DEBUGGER_SET_BREAKPOINT_BY_URL) {
+            if (typeof params.url === "string" && params.url.startsWith(this.fileUrl)) {
+                params.url = this.url + params.url.substr(this.fileUrl.length);
+            }
+            if (typeof params.urlRegex === "string") {
+                params.urlRegex = this.transformUrlRegex(params.urlRegex);
+            }
+        }
+        return message;
+    }
+
+    private transformUrlRegex(urlRegex: string): string {
+        const webRootPath = this.fileUrl.replace(/^file:\/\/\/?/, process.platform === "win32" ? "" : "/");
+        const escapedUrl = UrlSchemeTransformer.escapeRegex(this.url);
+        // The debugger escapes either all the special characters or just slashes and dots
+        [this.fileUrl, webRootPath].forEach((prefix) => {
+            [UrlSchemeTransformer.escapeRegex(prefix), prefix.replace(/([\/\.])/g, "\\$1")].forEach((escapedPrefix) => {
+                urlRegex = urlRegex.split(escapedPrefix).join(escapedUrl);
+            });
+        });
+        return urlRegex;
+    }
+
+    private static escapeRegex(value: string): string {
+        return value.replace(/[\/\\^$.*+?()[\]{}|-]/g, "\\$&");
+    }
+}
+
+/**
+ * Drops console messages of the application matching the pattern
+ */
+export class DropConsoleMessagesTransformer implements ICDPMessageTransformer {
+    private readonly regex: RegExp;
+
+    constructor(pattern: string) {
+        this.regex = new RegExp(pattern);
+    }
+
+    public transform(message: ProtocolMessage, context: ICDPMessageTransformContext): ProtocolMessage | null {
+        if (context.destination !== CDPMessageSource.Debugger || !CDPMessageTransformerChain.isCommand(message)) {
+            return message;
+        }
+
+        const text = DropConsoleMessagesTransformer.getConsoleMessageText(message.method, message.params);
+        return text !== undefined && this.regex.test(text) ? null : message;
+    }
+
+    private static getConsoleMessageText(method: string, params: any): string | undefined {
+        switch (method) {
+            case CDP_API_NAMES.RUNTIME_CONSOLE_API_CALLED:
+                return (params.args || [])
+                    .map((arg: any) => arg.value !== undefined ? String(arg.value) : arg.description || "")
+                    .join(" ");
+            case CDP_API_NAMES.LOG_ENTRY_ADDED:
+                return params.entry && params.entry.text;
+            case CDP_API_NAMES.CONSOLE_MESSAGE_ADDED:
+                return params.message && params.message.text;
+            default:
+                return undefined;
+        }
+    }
+}
+
+/**
+ * Makes the debugger step over the scripts matching the patterns, e.g. the vendor ones
+ */
+export class BlackboxScriptsTransformer implements ICDPMessageTransformer {
+    private debuggerEnableCommandId: number | undefined;
+
+    constructor(private readonly patterns: string[]) { }
+
+    public transform(message: ProtocolMessage, context: ICDPMessageTransformContext): ProtocolMessage {
+        if (context.destination === CDPMessageSource.Application && CDPMessageTransformerChain.isCommand(message)) {
+            if (message.method === CDP_API_NAMES.DEBUGGER_ENABLE) {
+                this.debuggerEnableCommandId = message.id;
+            } else if (message.method === CDP_API_NAMES.DEBUGGER_SET_BLACKBOX_PATTERNS) {
+                // The debugger replaces the patterns with its own ones
+                const params: any = message.params;
+                params.patterns = (params.patterns || []).concat(this.patterns);
+            }
+        } else if (
+            context.destination === CDPMessageSource.Debugger
+            && !CDPMessageTransformerChain.isCommand(message)
+            && this.debuggerEnableCommandId !== undefined
+            && message.id === this.debuggerEnableCommandId
+        ) {
+            // Blackbox patterns could be set once the debugger domain is enabled
+            this.debuggerEnableCommandId = undefined;
+            context.inject({ method: CDP_API_NAMES.DEBUGGER_SET_BLACKBOX_PATTERNS, params: { patterns: this.patterns } }, CDPMessageSource.Application);
+        }
+        return message;
+    }
+}
+
+export class BuiltInTransformers {
+    /**
+     * Creates the transformers from the settings. Invalid settings are reported and skipped, so they don't break the debugging
+     */
+    public static createFromSettings(settings: CDPMessageTransformerSettings[], projectRoot: string, onInvalidSettings?: (message: string) => void): ICDPMessageTransformer[] {
+        const transformers: ICDPMessageTransformer[] = [];
+        settings.forEach((transformerSettings) => {
+            const error = BuiltInTransformers.validateSettings(transformerSettings);
+            if (error) {
+                if (onInvalidSettings) {
+                    onInvalidSettings(`The CDP message transformer ${JSON.stringify(transformerSettings)} is skipped: ${error}`);
+                }
+                return;
+            }
+
+            switch (transformerSettings.type) {
+                case "urlScheme":
+                    transformers.push(new UrlSchemeTransformer(
+                        transformerSettings.url,
+                        (transformerSettings.webRoot || path.join(projectRoot, "www")).replace("${workspaceFolder}", projectRoot)
+                    ));
+                    break;
+                case "dropConsoleMessages":
+                    transformers.push(new DropConsoleMessagesTransformer(transformerSettings.pattern));
+                    break;
+                case "blackboxScripts":
+                    transformers.push(new BlackboxScriptsTransformer(transformerSettings.patterns));
+                    break;
+            }
+        });
+        return transformers;
+    }
+
+    /**
+     * Returns the reason the settings can't be used or null if they are valid
+     */
+    private static validateSettings(settings: CDPMessageTransformerSettings): string | null {
+        if (!settings || typeof settings !== "object") {
+            return "the settings should be an object";
+        }
+
+        switch (settings.type) {
+            case "urlScheme":
+                if (typeof settings.url !== "string" || !settings.url) {
+                    return "'url' should be a non-empty string";
+                }
+                if (settings.webRoot !== undefined && typeof settings.webRoot !== "string") {
+                    return "'webRoot' should be a string";
+                }
+                return null;
+            case "dropConsoleMessages":
+                // An empty pattern matches every message, so all the console output would be dropped
+                if (typeof settings.pattern !== "string" || !settings.pattern) {
+                    return "'pattern' should be a non-empty string";
+                }
+                try {
+                    new RegExp(settings.pattern);
+                } catch (err) {
+                    return `'pattern' is not a valid regular expression: ${err.message}`;
+                }
+                return null;
+            case "blackboxScripts":
+                if (!Array.isArray(settings.patterns) || settings.patterns.some(pattern => typeof pattern !== "string")) {
+                    return "'patterns' should be an array of strings";
+                }
+                return null;
+            default:
+                return `unknown type '${(<any>settings).type}'`;
+        }
+    }
+}
@@ -0,0 +1,123 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import { Disposable } from "vscode";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { DispatchDirection, ProcessedCDPMessage, ProtocolMessage } from "../CDPMessageHandlers/abstraction/CDPMessageHandlerBase";
+import { CDPMessageSource } from "../cdpTrafficRecorder";
+
+export interface ICDPMessageTransformContext {
+    /**
+     * The side the message came from
+     */
+    source: CDPMessageSource;
+    /**
+     * The side the message is going to be sent to
+     */
+    destination: CDPMessageSource;
+    projectRoot: string;
+    platform: string;
+    /**
+     * Sends an additional message to the debugger or the application. Replies to the commands sent to the application
+     * this way aren't passed to the debugger
+     */
+    inject(message: ProtocolMessage, destination: CDPMessageSource): void;
+}
+
+/**
+ * Rewrites, drops or injects CDP messages after they're processed by the Cordova CDP message handler
+ */
+export interface ICDPMessageTransformer {
+    /**
+     * Returns the message to send on, which could be the same message modified in place, or null to drop the message
+     */
+    transform(message: ProtocolMessage, context: ICDPMessageTransformContext): ProtocolMessage | null;
+}
+
+export type CDPMessageSender = (message: ProtocolMessage, destination: CDPMessageSource) => void;
+
+/**
+ * Passes the messages dispatched by the CDP proxy through the transformers from workspace settings
+ * and the ones registered through the extension API
+ */
+export class CDPMessageTransformerChain {
+    // Ids of the injected commands are far from the ones used by the debugger, so the replies could be told apart
+    private static readonly INJECTED_COMMAND_ID_BASE = 1000000000;
+    private static registeredTransformers: ICDPMessageTransformer[] = [];
+
+    private injectedCommandId: number = CDPMessageTransformerChain.INJECTED_COMMAND_ID_BASE;
+    private injectedCommandIds = new Set<number>();
+
+    constructor(
+        private readonly transformers: ICDPMessageTransformer[],
+        private readonly projectRoot: string,
+        private readonly platform: string,
+        private readonly send: CDPMessageSender,
+        private readonly logError: (message: string) => void
+    ) { }
+
+    /**
+     * Registers a transformer for the debugging sessions started afterwards
+     */
+    public static registerTransformer(transformer: ICDPMessageTransformer): Disposable {
+        CDPMessageTransformerChain.registeredTransformers.push(transformer);
+        return new Disposable(() => {
+            CDPMessageTransformerChain.registeredTransformers = CDPMessageTransformerChain.registeredTransformers.filter(registered => registered !== transformer);
+        });
+    }
+
+    public static getRegisteredTransformers(): ICDPMessageTransformer[] {
+        return CDPMessageTransformerChain.registeredTransformers.slice();
+    }
+
+    public static isCommand(message: ProtocolMessage): message is IProtocolCommand {
+        return "method" in message && !("error" in message);
+    }
+
+    public process(source: CDPMessageSource, processedMessage: ProcessedCDPMessage): ProcessedCDPMessage {
+        if (processedMessage.dispatchDirection === DispatchDirection.CANCEL) {
+            return processedMessage;
+        }
+
+        const isForwarded = processedMessage.dispatchDirection === DispatchDirection.FORWARD;
+        const destination = (source === CDPMessageSource.Debugger) === isForwarded ? CDPMessageSource.Application : CDPMessageSource.Debugger;
+        let message: ProtocolMessage | null = processedMessage.event;
+
+        if (
+            destination === CDPMessageSource.Debugger
+            && !CDPMessageTransformerChain.isCommand(message)
+            && message.id !== undefined
+            && this.injectedCommandIds.delete(message.id)
+        ) {
+            return Object.assign({}, processedMessage, { dispatchDirection: DispatchDirection.CANCEL });
+        }
+
+        const context: ICDPMessageTransformContext = {
+            source,
+            destination,
+            projectRoot: this.projectRoot,
+            platform: this.platform,
+            inject: this.inject.bind(this),
+        };
+        for (const transformer of this.transformers) {
+            try {
+                message = transformer.transform(message, context);
+            } catch (err) {
+                this.logError(`CDP message transformer failed: ${err.message || err}`);
+            }
+            if (!message) {
+                return Object.assign({}, processedMessage, { dispatchDirection: DispatchDirection.CANCEL });
+            }
+        }
+
+        return Object.assign({}, processedMessage, { event: message });
+    }
+
+    private inject(message: ProtocolMessage, destination: CDPMessageSource): void {
+        if (destination === CDPMessageSource.Application && CDPMessageTransformerChain.isCommand(message)) {
+            message.id = ++this.injectedCommandId;
+            this.injectedCommandIds.add(message.id);
+        }
+        this.send(message, destination);
+    }
+}
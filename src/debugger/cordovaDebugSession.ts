@@ -36,7 +36,10 @@ import * as nls from "vscode-nls";
 import { NodeVersionHelper } from "../utils/nodeVersionHelper";
 import { AdbHelper } from "../utils/android/adb";
 import { AndroidTargetManager, AndroidTarget } from "../utils/android/androidTargetManager";
+import { LogCatMonitor } from "../utils/android/logCatMonitor";
+import { CordovaCommandHelper } from "../utils/cordovaCommandHelper";
 import { LaunchScenariosManager } from "../utils/launchScenariosManager";
+import { EnvironmentProfiles } from "../extension/environmentProfiles";
 nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
 const localize = nls.loadMessageBundle();
 
@@ -53,6 +56,7 @@ export enum TargetType {
     Device = "device",
     Chrome = "chrome",
     Edge = "edge",
+    AllDevices = "all",
 }
 
 export enum PwaDebugType {
@@ -113,8 +117,11 @@ export class CordovaDebugSession extends LoggingDebugSession {
     private cordovaCdpProxy: CordovaCDPProxy | null;
     private browserProc: child_process.ChildProcess;
     private onDidTerminateDebugSessionHandler: vscode.Disposable;
+    private onDidStartDebugSessionHandler: vscode.Disposable;
+    private childDebugSessions: vscode.DebugSession[];
     private cancellationTokenSource: vscode.CancellationTokenSource;
     private vsCodeDebugSession: vscode.DebugSession;
+    private logCatMonitor: LogCatMonitor | null;
 
     constructor(
         private cordovaSession: CordovaSession,
@@ -139,11 +146,16 @@ export class CordovaDebugSession extends LoggingDebugSession {
 
         // variables definition
         this.cordovaCdpProxy = null;
+        this.logCatMonitor = null;
+        this.childDebugSessions = [];
         this.telemetryInitialized = false;
         this.jsDebugConfigAdapter = new JsDebugConfigAdapter();
         this.onDidTerminateDebugSessionHandler = vscode.debug.onDidTerminateDebugSession(
             this.handleTerminateDebugSession.bind(this)
         );
+        this.onDidStartDebugSessionHandler = vscode.debug.onDidStartDebugSession(
+            this.handleStartDebugSession.bind(this)
+        );
         this.outputLogger = (message: string, error?: boolean | string) => {
             let category = "console";
             if (error === true) {
@@ -177,6 +189,14 @@ export class CordovaDebugSession extends LoggingDebugSession {
         return TargetType.Device;
     }
 
+    /**
+     * Checks if the application should be deployed to several Android targets at once: "target": ["emulator-5554", "R58M123"] or "target": "all"
+     */
+    private static isMultiTargetLaunch(launchArgs: ICordovaLaunchRequestArgs): boolean {
+        const target = <string | string[] | undefined>launchArgs.target;
+        return Array.isArray(target) || target === TargetType.AllDevices;
+    }
+
     protected initializeRequest(response: DebugProtocol.InitializeResponse, args: DebugProtocol.InitializeRequestArguments): void {
         super.initializeRequest(response, args);
     }
@@ -200,13 +220,17 @@ export class CordovaDebugSession extends LoggingDebugSession {
                     }
                     this.outputLogger(`Parameter target is not set - ${launchArgs.target} will be used`);
                 }
-                generator.add("target", CordovaDebugSession.getTargetType(launchArgs.target), false);
+                const isMultiTargetLaunch = CordovaDebugSession.isMultiTargetLaunch(launchArgs);
+                generator.add("target", isMultiTargetLaunch ? "multiple" : CordovaDebugSession.getTargetType(launchArgs.target), false);
                 if (launchArgs.cwd === null) {
                     throw new Error(localize("CurrentCWDDoesntContainACordovaProject", "Current working directory doesn't contain a Cordova project. Please open a Cordova project as a workspace root and try again."));
                 }
                 launchArgs.timeout = launchArgs.attachTimeout;
 
                 let platform = launchArgs.platform && launchArgs.platform.toLowerCase();
+                if (isMultiTargetLaunch && platform !== PlatformType.Android) {
+                    throw new Error(localize("MultipleTargetsAreSupportedForAndroidOnly", "Launching the application on several targets at once is supported for Android only"));
+                }
 
                 TelemetryHelper.sendPluginsList(launchArgs.cwd, CordovaProjectHelper.getInstalledPlugins(launchArgs.cwd));
 
@@ -215,7 +239,8 @@ export class CordovaDebugSession extends LoggingDebugSession {
                     this.workspaceManager.getRunArguments(launchArgs.cwd),
                     this.workspaceManager.getCordovaExecutable(launchArgs.cwd),
                     ])
-                    .then(([projectType, runArguments, cordovaExecutable]) => {
+                    // The app is built with the config.xml values of the environment profile
+                    .then(([projectType, runArguments, cordovaExecutable]) => EnvironmentProfiles.withConfigXmlOverrides(launchArgs.cwd, () => {
                         launchArgs.cordovaExecutable = launchArgs.cordovaExecutable || cordovaExecutable;
                         launchArgs.allEnv = CordovaProjectHelper.getEnvArgument(launchArgs);
                         generator.add("projectType", TelemetryHelper.prepareProjectTypesTelemetry(projectType), false);
@@ -224,7 +249,9 @@ export class CordovaDebugSession extends LoggingDebugSession {
                         switch (platform) {
                             case PlatformType.Android:
                                 generator.add("platform", platform, false);
-                                if (SimulateHelper.isSimulateTarget(launchArgs.target)) {
+                                if (isMultiTargetLaunch) {
+                                    return this.launchMultipleAndroidTargets(launchArgs);
+                                } else if (SimulateHelper.isSimulateTarget(launchArgs.target)) {
                                     return this.launchSimulate(launchArgs, projectType, generator);
                                 } else {
                                     return this.launchAndroid(launchArgs, projectType, runArguments);
@@ -259,7 +286,7 @@ export class CordovaDebugSession extends LoggingDebugSession {
                                 generator.add("unknownPlatform", platform, true);
                                 throw new Error(localize("UnknownPlatform", "Unknown Platform: {0}", platform));
                         }
-                    })
+                    }))
                     .catch((err) => {
                         this.outputLogger(err.message || err, true);
                         return this.cleanUp().then(() => {
@@ -267,8 +294,9 @@ export class CordovaDebugSession extends LoggingDebugSession {
                         });
                     })
                     .then(() => {
-                        // For the browser platforms, we call super.launch(), which already attaches. For other platforms, attach here
-                        if (platform !== PlatformType.Serve && platform !== PlatformType.Browser && !SimulateHelper.isSimulateTarget(launchArgs.target)) {
+                        // For the browser platforms, we call super.launch(), which already attaches. For other platforms, attach here.
+                        // Each of multiple targets is attached by its own child session
+                        if (platform !== PlatformType.Serve && platform !== PlatformType.Browser && !SimulateHelper.isSimulateTarget(launchArgs.target) && !isMultiTargetLaunch) {
                             return this.vsCodeDebugSession.customRequest("attach", launchArgs);
                         }
                     });
@@ -310,11 +338,13 @@ export class CordovaDebugSession extends LoggingDebugSession {
                             attachArgs
                         );
                         this.cordovaCdpProxy.setApplicationTargetPort(attachArgs.port);
+                        this.cordovaCdpProxy.setSessionName(this.vsCodeDebugSession.name);
                         generator.add("projectType", TelemetryHelper.prepareProjectTypesTelemetry(projectType), false);
                         return this.cordovaCdpProxy.createServer(this.cdpProxyLogLevel, this.cancellationTokenSource.token);
                     })
                     .then(() => {
-                        if ((platform === PlatformType.Android || platform === PlatformType.IOS) && !SimulateHelper.isSimulateTarget(target)) {
+                        // There is no need to look for the application when the recorded CDP traffic is replayed instead
+                        if ((platform === PlatformType.Android || platform === PlatformType.IOS) && !SimulateHelper.isSimulateTarget(target) && !attachArgs.cdpReplayFile) {
                             this.outputLogger(localize("AttachingToPlatform", "Attaching to {0}", platform));
                             switch (platform) {
                                 case PlatformType.Android:
@@ -383,7 +413,23 @@ export class CordovaDebugSession extends LoggingDebugSession {
         super.disconnectRequest(response, args, request);
     }
 
+    private handleStartDebugSession(debugSession: vscode.DebugSession) {
+        if (debugSession.configuration.parentCordovaSessionId === this.cordovaSession.getSessionId()) {
+            this.childDebugSessions.push(debugSession);
+        }
+    }
+
     private handleTerminateDebugSession(debugSession: vscode.DebugSession) {
+        const childSessionIndex = this.childDebugSessions.findIndex(childSession => childSession.id === debugSession.id);
+        if (childSessionIndex !== -1) {
+            this.childDebugSessions.splice(childSessionIndex, 1);
+            // Stop the launch session once debugging is stopped on all the targets
+            if (!this.childDebugSessions.length) {
+                vscode.commands.executeCommand(this.stopCommand, undefined, { sessionId: this.vsCodeDebugSession.id });
+            }
+            return;
+        }
+
         if (
             debugSession.configuration.cordovaDebugSessionId === this.cordovaSession.getSessionId()
             && debugSession.type === this.pwaSessionName
@@ -920,6 +966,17 @@ export class CordovaDebugSession extends LoggingDebugSession {
             this.simulateDebugHost = null;
         }
 
+        if (this.logCatMonitor) {
+            this.logCatMonitor.stop();
+            this.logCatMonitor = null;
+        }
+
+        const childDebugSessions = this.childDebugSessions;
+        this.childDebugSessions = [];
+        childDebugSessions.forEach((childSession) => {
+            vscode.commands.executeCommand(this.stopCommand, undefined, { sessionId: childSession.id });
+        });
+
         if (this.cordovaCdpProxy) {
             await this.cordovaCdpProxy.stopServer();
             this.cordovaCdpProxy = null;
@@ -931,6 +988,7 @@ export class CordovaDebugSession extends LoggingDebugSession {
         CordovaIosDeviceLauncher.cleanup();
 
         this.onDidTerminateDebugSessionHandler.dispose();
+        this.onDidStartDebugSessionHandler.dispose();
         this.sessionManager.terminate(this.cordovaSession.getSessionId(), !!restart);
 
         await logger.dispose();
@@ -1394,8 +1452,6 @@ export class CordovaDebugSession extends LoggingDebugSession {
     }
 
     private async launchAndroid(launchArgs: ICordovaLaunchRequestArgs, projectType: ProjectType, runArguments: string[]): Promise<void> {
-        let workingDirectory = launchArgs.cwd;
-
         // Prepare the command line args
         let args = ["run", "android"];
 
@@ -1421,12 +1477,89 @@ export class CordovaDebugSession extends LoggingDebugSession {
         if (args.indexOf("--livereload") > -1) {
             return this.startIonicDevServer(launchArgs, args).then(() => void 0);
         }
-        const command = launchArgs.cordovaExecutable || CordovaProjectHelper.getCliCommand(workingDirectory);
-        let cordovaResult = cordovaRunCommand(
+        return this.runCordovaAndroidCommand(launchArgs, args)
+            .then(() => {
+                this.outputLogger(localize("AppSuccessfullyLaunched", "App successfully launched"));
+            });
+    }
+
+    /**
+     * Builds the application once, deploys it to each of the targets and starts a child attach session per target.
+     * The debug port of the application on each target is forwarded to its own local port, starting from 'port'.
+     */
+    private async launchMultipleAndroidTargets(launchArgs: ICordovaLaunchRequestArgs): Promise<void> {
+        if (launchArgs.ionicLiveReload) {
+            this.outputLogger(localize("LiveReloadIsNotSupportedForMultipleTargets", "Warning: Ionic live reload isn't supported when launching on several targets. Continuing deployment without Ionic live reload..."));
+        }
+
+        const targets = await this.resolveMultipleAndroidTargets(<string | string[]>launchArgs.target, launchArgs.cwd);
+        this.outputLogger(localize("LaunchingOnTargets", "Launching on {0}", targets.map(target => target.name).join(", ")));
+
+        await this.runCordovaAndroidCommand(launchArgs, ["build", "android", "--verbose"]);
+        // A target failing the deployment is skipped, so the application is debugged on the rest of the targets
+        const deployedTargets: AndroidTarget[] = [];
+        for (const target of targets) {
+            this.outputLogger(localize("DeployingToTarget", "Deploying to {0}", target.name));
+            try {
+                await this.runCordovaAndroidCommand(launchArgs, ["run", "android", "--nobuild", "--verbose", target.isVirtualTarget ? "--emulator" : "--device", `--target=${target.id}`]);
+                deployedTargets.push(target);
+            } catch (err) {
+                this.outputLogger(localize("CouldNotDeployToTarget", "Couldn't deploy to {0}: {1}", target.name, err.message || err), true);
+            }
+        }
+        if (!deployedTargets.length) {
+            throw new Error(localize("CouldNotDeployToAnyTarget", "The application couldn't be deployed to any of the targets"));
+        }
+        this.outputLogger(localize("AppSuccessfullyLaunched", "App successfully launched"));
+
+        const sessionsStarted = await Promise.all(deployedTargets.map(target => this.startTargetDebugSession(target, launchArgs.port + targets.indexOf(target))));
+        if (!sessionsStarted.some(started => started)) {
+            throw new Error(localize("CannotStartChildDebugSession", "Cannot start child debug session"));
+        }
+    }
+
+    private async resolveMultipleAndroidTargets(target: string | string[], projectRoot: string): Promise<AndroidTarget[]> {
+        const adbHelper = new AdbHelper(projectRoot);
+        if (target === TargetType.AllDevices) {
+            const onlineTargets = await adbHelper.getOnlineTargets();
+            if (!onlineTargets.length) {
+                throw new Error(localize("ThereAreNoOnlineAndroidTargets", "There are no online Android devices or emulators"));
+            }
+            return onlineTargets.map(onlineTarget => AndroidTarget.fromInterface(onlineTarget));
+        }
+        return new AndroidTargetManager(adbHelper).prepareTargets(<string[]>target);
+    }
+
+    /**
+     * Starts an attach session to the application on the target as a child of the launch session. The child session runs its own CDP proxy
+     */
+    private startTargetDebugSession(target: AndroidTarget, port: number): Promise<boolean> {
+        const attachConfiguration = Object.assign({}, this.vsCodeDebugSession.configuration, {
+            name: `${this.vsCodeDebugSession.name} (${target.name})`,
+            request: "attach",
+            target: target.id,
+            port,
+            parentCordovaSessionId: this.cordovaSession.getSessionId(),
+        });
+        delete attachConfiguration.preLaunchTask;
+        delete attachConfiguration.postDebugTask;
+
+        return new Promise<boolean>((resolve) => {
+            vscode.debug.startDebugging(this.workspaceManager.workspaceRoot, attachConfiguration, this.vsCodeDebugSession)
+                .then(resolve, (err) => {
+                    this.outputLogger(localize("CouldNotAttachToTarget", "Couldn't attach to {0}: {1}", target.name, err.message || err), true);
+                    resolve(false);
+                });
+        });
+    }
+
+    private runCordovaAndroidCommand(launchArgs: ICordovaLaunchRequestArgs, args: string[]): Promise<void> {
+        const command = launchArgs.cordovaExecutable || CordovaProjectHelper.getCliCommand(launchArgs.cwd);
+        return cordovaRunCommand(
                 command,
                 args,
                 launchArgs.allEnv,
-                workingDirectory,
+                launchArgs.cwd,
                 this.outputLogger,
             ).then((output) => {
                 let runOutput = output[0];
@@ -1438,11 +1571,30 @@ export class CordovaDebugSession extends LoggingDebugSession {
                 if (errorMatch) {
                     throw new Error(localize("ErrorRunningAndroid", "Error running android"));
                 }
-
-                this.outputLogger(localize("AppSuccessfullyLaunched", "App successfully launched"));
             });
+    }
+
+    private startLogCatMonitor(projectRoot: string, targetDevice: string, appPackageName: string): void {
+        if (!CordovaCommandHelper.isLogCatStartedOnDebug(projectRoot)) {
+            return;
+        }
 
-        return cordovaResult;
+        const filter = {
+            tags: CordovaCommandHelper.getLogCatTags(projectRoot),
+            level: CordovaCommandHelper.getLogCatLevel(projectRoot),
+        };
+        LogCatMonitor.startMonitor(new AdbHelper(projectRoot), targetDevice, appPackageName, filter)
+            .then((monitor) => {
+                // The session could be stopped while the monitor was waiting for the application process
+                if (this.cancellationTokenSource.token.isCancellationRequested) {
+                    monitor.stop();
+                } else {
+                    this.logCatMonitor = monitor;
+                }
+            })
+            .catch((err) => {
+                this.outputLogger(localize("CouldNotStartLogCat", "Couldn't start logcat: {0}", err.message || err), true);
+            });
     }
 
     private attachAndroid(attachArgs: ICordovaAttachRequestArgs): Promise<ICordovaAttachRequestArgs> {
@@ -1486,6 +1638,8 @@ export class CordovaDebugSession extends LoggingDebugSession {
 
         return Promise.all([packagePromise, resolveTagetPromise])
             .then(([appPackageName, targetDevice]) => {
+                this.startLogCatMonitor(attachArgs.cwd, targetDevice, appPackageName);
+
                 let pidofCommandArguments = ["-s", targetDevice, "shell", "pidof", appPackageName];
                 let getPidCommandArguments = ["-s", targetDevice, "shell", "ps"];
                 let getSocketsCommandArguments = ["-s", targetDevice, "shell", "cat /proc/net/unix"];
@@ -14,11 +14,13 @@ export class CordovaSession {
     private sessionId: string;
     private vsCodeDebugSession: DebugSession;
     private status: CordovaSessionStatus;
+    private onStatusChanged?: (session: CordovaSession) => void;
 
-    constructor(vsCodeDebugSession: DebugSession) {
+    constructor(vsCodeDebugSession: DebugSession, onStatusChanged?: (session: CordovaSession) => void) {
         this.sessionId = uuidv4();
         this.vsCodeDebugSession = vsCodeDebugSession;
         this.status = CordovaSessionStatus.NotActivated;
+        this.onStatusChanged = onStatusChanged;
     }
 
     public getSessionId(): string {
@@ -35,5 +37,8 @@ export class CordovaSession {
 
     public setStatus(sessionStatus: CordovaSessionStatus): void {
         this.status = sessionStatus;
+        if (this.onStatusChanged) {
+            this.onStatusChanged(this);
+        }
     }
 }
@@ -113,10 +113,7 @@ export class JsDebugConfigAdapter {
         if (typeof attachArgs.sourceMaps === "boolean") {
             existingExtraArgs.sourceMaps = attachArgs.sourceMaps;
         }
-        existingExtraArgs.sourceMapPathOverrides = this.getSourceMapPathOverrides(
-            attachArgs.cwd,
-            attachArgs.sourceMapPathOverrides || this.DefaultWebSourceMapPathOverrides
-        );
+        existingExtraArgs.sourceMapPathOverrides = this.getPlatformSourceMapPathOverrides(attachArgs);
         if (attachArgs.skipFiles) {
             existingExtraArgs.skipFiles = attachArgs.skipFiles;
         }
@@ -130,6 +127,20 @@ export class JsDebugConfigAdapter {
         return existingExtraArgs;
     }
 
+    /**
+     * Returns the source map path overrides of the launch configuration with the ones specific for the platform
+     * of the debug session applied on top of them, and the ${cwd} pattern resolved
+     */
+    public getPlatformSourceMapPathOverrides(attachArgs: ICordovaAttachRequestArgs): ISourceMapPathOverrides {
+        const platformOverrides = attachArgs.platformSourceMapPathOverrides && attachArgs.platform
+            ? attachArgs.platformSourceMapPathOverrides[attachArgs.platform.toLowerCase()]
+            : undefined;
+        return this.getSourceMapPathOverrides(
+            attachArgs.cwd,
+            Object.assign({}, attachArgs.sourceMapPathOverrides || this.DefaultWebSourceMapPathOverrides, platformOverrides)
+        );
+    }
+
     private getSourceMapPathOverrides(cwd: string, sourceMapPathOverrides?: ISourceMapPathOverrides): ISourceMapPathOverrides {
         return sourceMapPathOverrides ? this.resolveWebRootPattern(cwd, sourceMapPathOverrides, /*warnOnMissing=*/true) :
             this.resolveWebRootPattern(cwd, this.DefaultWebSourceMapPathOverrides, /*warnOnMissing=*/false);
@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license. See LICENSE file in the project root for details.
 
-import { ISourceMapPathOverrides } from "./jsDebugConfigAdapter";
+import { ISourceMapPathOverrides, IStringDictionary } from "./jsDebugConfigAdapter";
 import { DebugProtocol } from "vscode-debugprotocol";
 
 export interface ICordovaAttachRequestArgs extends DebugProtocol.AttachRequestArguments {
@@ -13,13 +13,14 @@ export interface ICordovaAttachRequestArgs extends DebugProtocol.AttachRequestAr
     trace?: string;
     timeout?: number;
     platform: string;
-    target?: string;
+    target?: string; // The launch request also accepts an array of Android targets or "all"
     envFile?: string;
     env?: any;
     allEnv?: any;
     skipFiles?: [];
     sourceMaps?: boolean;
     sourceMapPathOverrides?: ISourceMapPathOverrides;
+    platformSourceMapPathOverrides?: IStringDictionary<ISourceMapPathOverrides>;
     webSocketDebuggerUrl?: string;
     webkitRangeMin?: number;
     webkitRangeMax?: number;
@@ -28,6 +29,8 @@ export interface ICordovaAttachRequestArgs extends DebugProtocol.AttachRequestAr
     attachTimeout?: number;
     simulatorInExternalBrowser?: boolean;
     runtimeVersion?: string;
+    cdpRecordingDirectory?: string;
+    cdpReplayFile?: string;
 
     // iOS debug properties
     iOSVersion?: string;
@@ -0,0 +1,192 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { ProjectsStorage } from "./projectsStorage";
+import { AdbHelper } from "../utils/android/adb";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+interface IAppFileLocation {
+    targetId: string;
+    packageName: string;
+    filePath: string;
+}
+
+/**
+ * Provides access to the data directory of a debuggable Android application (databases, shared prefs, WebView local storage, files)
+ * through URIs like 'cordova-android://<deviceId>/<package>/databases/app.db'. All operations are run via 'adb shell run-as'.
+ */
+export class AndroidAppFileSystemProvider implements vscode.FileSystemProvider {
+    public static readonly SCHEME: string = "cordova-android";
+
+    private static readonly NOT_FOUND_REGEX = /No such file or directory/i;
+
+    private adbHelper: AdbHelper | null = null;
+    private onDidChangeFileEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+
+    public readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this.onDidChangeFileEmitter.event;
+
+    public static getAppDataUri(targetId: string, packageName: string): vscode.Uri {
+        return vscode.Uri.parse(`${AndroidAppFileSystemProvider.SCHEME}:/`).with({ authority: targetId, path: `/${packageName}` });
+    }
+
+    public watch(): vscode.Disposable {
+        // Changes made on the device aren't tracked, the explorer should be refreshed to see them
+        return new vscode.Disposable(() => { /* nothing to dispose */ });
+    }
+
+    public stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        return this.getStat(this.getLocation(uri))
+            .catch(err => this.handleError(uri, err));
+    }
+
+    public readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const location = this.getLocation(uri);
+        return this.getAdbHelper().executeAsApp(location.targetId, location.packageName, `ls -a -p ${AdbHelper.quoteShellArgument(location.filePath)}`)
+            .then(output => output.split(/\r?\n/)
+                .filter(entry => !!entry && entry !== "./" && entry !== "../")
+                .map((entry): [string, vscode.FileType] => entry.endsWith("/")
+                    ? [entry.slice(0, -1), vscode.FileType.Directory]
+                    : [entry, vscode.FileType.File])
+            )
+            .catch(err => this.handleError(uri, err));
+    }
+
+    public readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const location = this.getLocation(uri);
+        // 'exec-out' doesn't report errors of the command, so make sure the file exists first
+        return this.stat(uri)
+            .then((stat) => {
+                if (stat.type === vscode.FileType.Directory) {
+                    throw vscode.FileSystemError.FileIsADirectory(uri);
+                }
+                return this.getAdbHelper().readAppFile(location.targetId, location.packageName, location.filePath);
+            })
+            .catch(err => this.handleError(uri, err));
+    }
+
+    public writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean, overwrite: boolean }): Promise<void> {
+        const location = this.getLocation(uri);
+        return this.exists(uri)
+            .then((exists) => {
+                if (!exists && !options.create) {
+                    throw vscode.FileSystemError.FileNotFound(uri);
+                }
+                if (exists && !options.overwrite) {
+                    throw vscode.FileSystemError.FileExists(uri);
+                }
+                return this.getAdbHelper().writeAppFile(location.targetId, location.packageName, location.filePath, content)
+                    .then(() => this.fireChange(exists ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri));
+            })
+            .catch(err => this.handleError(uri, err));
+    }
+
+    public createDirectory(uri: vscode.Uri): Promise<void> {
+        return this.runFileCommand(uri, location => `mkdir ${AdbHelper.quoteShellArgument(location.filePath)}`)
+            .then(() => this.fireChange(vscode.FileChangeType.Created, uri));
+    }
+
+    public delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        return this.runFileCommand(uri, location => `rm ${options.recursive ? "-r " : ""}${AdbHelper.quoteShellArgument(location.filePath)}`)
+            .then(() => this.fireChange(vscode.FileChangeType.Deleted, uri));
+    }
+
+    public rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        const oldLocation = this.getLocation(oldUri);
+        const newLocation = this.getLocation(newUri);
+        if (oldLocation.targetId !== newLocation.targetId || oldLocation.packageName !== newLocation.packageName) {
+            return Promise.reject(vscode.FileSystemError.NoPermissions(localize("CannotMoveFilesBetweenApps", "Files can't be moved between applications or devices")));
+        }
+
+        return this.exists(newUri)
+            .then((exists) => {
+                if (exists && !options.overwrite) {
+                    throw vscode.FileSystemError.FileExists(newUri);
+                }
+                return this.runFileCommand(oldUri, location => `mv -f ${AdbHelper.quoteShellArgument(location.filePath)} ${AdbHelper.quoteShellArgument(newLocation.filePath)}`);
+            })
+            .then(() => this.onDidChangeFileEmitter.fire([
+                { type: vscode.FileChangeType.Deleted, uri: oldUri },
+                { type: vscode.FileChangeType.Created, uri: newUri },
+            ]));
+    }
+
+    private getLocation(uri: vscode.Uri): IAppFileLocation {
+        const segments = uri.path.split("/").filter(segment => !!segment);
+        const packageName = segments.shift();
+        if (!uri.authority || !packageName) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        // 'run-as' starts commands in the application data directory, so the paths are relative to it
+        return {
+            targetId: uri.authority,
+            packageName,
+            filePath: segments.length ? path.posix.join(...segments) : ".",
+        };
+    }
+
+    private getAdbHelper(): AdbHelper {
+        if (!this.adbHelper) {
+            const projectKeys = Object.keys(ProjectsStorage.projectsCache);
+            const projectRoot = projectKeys.length ? ProjectsStorage.projectsCache[projectKeys[0]].workspaceRoot.uri.fsPath : "";
+            this.adbHelper = new AdbHelper(projectRoot);
+        }
+        return this.adbHelper;
+    }
+
+    private getStat(location: IAppFileLocation): Promise<vscode.FileStat> {
+        return this.getAdbHelper().executeAsApp(location.targetId, location.packageName, `stat -L -c '%F|%s|%Y' ${AdbHelper.quoteShellArgument(location.filePath)}`)
+            .then((output) => {
+                const match = /^(.+)\|(\d+)\|(\d+)\s*$/m.exec(output);
+                if (!match) {
+                    throw new Error(output.trim());
+                }
+                const mtime = +match[3] * 1000;
+                return {
+                    type: match[1] === "directory" ? vscode.FileType.Directory : vscode.FileType.File,
+                    size: +match[2],
+                    ctime: mtime,
+                    mtime,
+                };
+            });
+    }
+
+    private exists(uri: vscode.Uri): Promise<boolean> {
+        return this.getStat(this.getLocation(uri))
+            .then(() => true, (err) => {
+                if (AndroidAppFileSystemProvider.NOT_FOUND_REGEX.test(err.message || err)) {
+                    return false;
+                }
+                return this.handleError(uri, err);
+            });
+    }
+
+    private runFileCommand(uri: vscode.Uri, getCommand: (location: IAppFileLocation) => string): Promise<void> {
+        const location = this.getLocation(uri);
+        return this.getAdbHelper().executeAsApp(location.targetId, location.packageName, getCommand(location))
+            .then(() => void 0)
+            .catch(err => this.handleError(uri, err));
+    }
+
+    private fireChange(type: vscode.FileChangeType, uri: vscode.Uri): void {
+        this.onDidChangeFileEmitter.fire([{ type, uri }]);
+    }
+
+    private handleError(uri: vscode.Uri, err: any): never {
+        if (err instanceof vscode.FileSystemError) {
+            throw err;
+        }
+
+        const message: string = err.message || String(err);
+        if (AndroidAppFileSystemProvider.NOT_FOUND_REGEX.test(message)) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (/not debuggable|unknown package|Permission denied/i.test(message)) {
+            throw vscode.FileSystemError.NoPermissions(localize("AppFilesAccessDenied", "Couldn't access the files of the application: {0}. Only debuggable applications can be browsed", message));
+        }
+        throw new Error(message);
+    }
+}
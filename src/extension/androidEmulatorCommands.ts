@@ -0,0 +1,163 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as vscode from "vscode";
+import { AdbHelper } from "../utils/android/adb";
+import { AndroidTargetManager, IEmulatorLaunchOptions } from "../utils/android/androidTargetManager";
+import { CordovaCommandHelper } from "../utils/cordovaCommandHelper";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+interface IEmulatorOptionItem extends vscode.QuickPickItem {
+    option: "coldBoot" | "wipeData" | "headless";
+}
+
+/**
+ * Commands to start, stop and create Android emulators. Android SDK 'emulator' and 'avdmanager' tools should be in PATH.
+ */
+export class AndroidEmulatorCommands {
+    private static readonly DEFAULT_GPU_MODE: string = localize("DefaultGpuMode", "Default");
+    private static readonly AVD_NAME_REGEX = /^[a-zA-Z0-9._-]+$/;
+
+    public static startEmulator(projectRoot: string): Promise<void> {
+        const adbHelper = new AdbHelper(projectRoot);
+        let avdName: string | undefined;
+        let options: IEmulatorLaunchOptions;
+
+        return adbHelper.getAvdsNames()
+            .then((avdNames) => {
+                if (!avdNames.length) {
+                    throw new Error(localize("NoVirtualDevicesFound", "No Android Virtual Devices found. Use 'Cordova: Create Android Virtual Device' command to create one"));
+                }
+                return AndroidEmulatorCommands.showQuickPick(avdNames, { placeHolder: localize("SelectVirtualDeviceToStart", "Select an Android Virtual Device to start") });
+            })
+            .then((selectedAvd) => {
+                avdName = selectedAvd;
+                return avdName ? AndroidEmulatorCommands.selectLaunchOptions(projectRoot) : undefined;
+            })
+            .then((selectedOptions) => {
+                if (!avdName || !selectedOptions) {
+                    return;
+                }
+                options = selectedOptions;
+                return vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: localize("StartingEmulator", "Starting emulator {0}", avdName),
+                }, () => new AndroidTargetManager(adbHelper).launchEmulator(avdName, options))
+                    .then((target) => {
+                        vscode.window.showInformationMessage(localize("EmulatorIsReady", "Emulator {0} is ready ({1})", avdName, target.id));
+                    });
+            });
+    }
+
+    public static stopEmulator(projectRoot: string): Promise<void> {
+        const adbHelper = new AdbHelper(projectRoot);
+
+        return adbHelper.getOnlineTargets()
+            .then(targets => Promise.all(
+                targets
+                    .filter(target => target.isVirtualTarget)
+                    .map(target => adbHelper.getAvdNameById(target.id).then(avdName => ({
+                        label: avdName || target.id,
+                        description: target.id,
+                        id: target.id,
+                    })))
+            ))
+            .then((emulatorItems) => {
+                if (!emulatorItems.length) {
+                    throw new Error(localize("NoRunningEmulators", "There are no running emulators"));
+                }
+                return AndroidEmulatorCommands.showQuickPick(emulatorItems, { placeHolder: localize("SelectEmulatorToStop", "Select an emulator to stop") });
+            })
+            .then((selectedItem) => {
+                if (selectedItem) {
+                    return new AndroidTargetManager(adbHelper).stopEmulator(selectedItem.id);
+                }
+            });
+    }
+
+    public static createVirtualDevice(projectRoot: string): Promise<void> {
+        let systemImage: string | undefined;
+
+        return Promise.resolve()
+            .then(() => {
+                const systemImages = AndroidTargetManager.getInstalledSystemImages();
+                if (!systemImages.length) {
+                    throw new Error(localize("NoSystemImagesInstalled", "There are no system images installed. Install one with Android SDK Manager"));
+                }
+                return AndroidEmulatorCommands.showQuickPick(systemImages, { placeHolder: localize("SelectSystemImage", "Select a system image") });
+            })
+            .then((selectedImage) => {
+                systemImage = selectedImage;
+                if (!systemImage) {
+                    return undefined;
+                }
+                return new Promise<string | undefined>((resolve, reject) => {
+                    vscode.window.showInputBox({
+                        prompt: localize("EnterVirtualDeviceName", "Enter a name of the Android Virtual Device"),
+                        value: AndroidEmulatorCommands.getDefaultAvdName(systemImage),
+                        validateInput: (value) => AndroidEmulatorCommands.AVD_NAME_REGEX.test(value)
+                            ? null
+                            : localize("InvalidVirtualDeviceName", "The name can contain letters, digits, '.', '_' and '-' only"),
+                    }).then(resolve, reject);
+                });
+            })
+            .then((avdName) => {
+                if (!systemImage || !avdName) {
+                    return;
+                }
+                return vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: localize("CreatingVirtualDevice", "Creating Android Virtual Device {0}", avdName),
+                }, () => new AndroidTargetManager(new AdbHelper(projectRoot)).createVirtualDevice(avdName, systemImage));
+            });
+    }
+
+    private static selectLaunchOptions(projectRoot: string): Promise<IEmulatorLaunchOptions | undefined> {
+        const optionItems: IEmulatorOptionItem[] = [
+            { label: localize("ColdBoot", "Cold boot"), description: "-no-snapshot-load", option: "coldBoot" },
+            { label: localize("WipeData", "Wipe data"), description: "-wipe-data", option: "wipeData" },
+            { label: localize("Headless", "Headless"), description: "-no-window", option: "headless" },
+        ];
+        let options: IEmulatorLaunchOptions;
+
+        return new Promise<IEmulatorOptionItem[] | undefined>((resolve, reject) => {
+            vscode.window.showQuickPick(optionItems, {
+                canPickMany: true,
+                placeHolder: localize("SelectEmulatorOptions", "Select emulator options"),
+            }).then(resolve, reject);
+        })
+            .then((selectedItems) => {
+                if (!selectedItems) {
+                    return undefined;
+                }
+                options = { bootTimeout: CordovaCommandHelper.getEmulatorBootTimeout(projectRoot) };
+                selectedItems.forEach(item => options[item.option] = true);
+                return AndroidEmulatorCommands.showQuickPick(
+                    [AndroidEmulatorCommands.DEFAULT_GPU_MODE].concat(AndroidTargetManager.GPU_MODES),
+                    { placeHolder: localize("SelectGpuMode", "Select a GPU emulation mode") }
+                );
+            })
+            .then((gpuMode) => {
+                if (!gpuMode) {
+                    return undefined;
+                }
+                if (gpuMode !== AndroidEmulatorCommands.DEFAULT_GPU_MODE) {
+                    options.gpu = gpuMode;
+                }
+                return options;
+            });
+    }
+
+    private static getDefaultAvdName(systemImage: string): string {
+        // "system-images;android-30;google_apis;x86_64" -> "android-30_google_apis_x86_64"
+        return systemImage.split(";").slice(1).join("_");
+    }
+
+    private static showQuickPick<T extends vscode.QuickPickItem | string>(items: T[], options: vscode.QuickPickOptions): Promise<T | undefined> {
+        return new Promise<T | undefined>((resolve, reject) => {
+            vscode.window.showQuickPick(<any[]>items, options).then(resolve, reject);
+        });
+    }
+}
@@ -0,0 +1,442 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { ChildProcess } from "../common/node/childProcess";
+import { CordovaCommandHelper } from "../utils/cordovaCommandHelper";
+import { CordovaProjectHelper } from "../utils/cordovaProjectHelper";
+import { OutputChannelLogger } from "../utils/log/outputChannelLogger";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+export type AndroidPackageType = "bundle" | "apk";
+
+/**
+ * The signing configuration of the "android.release" section of build.json, see
+ * https://cordova.apache.org/docs/en/latest/guide/platforms/android/#using-buildjson
+ */
+export interface IAndroidSigningConfig {
+    keystore: string;
+    alias: string;
+    keystoreType?: string;
+    storePassword?: string;
+    password?: string;
+}
+
+interface IKeystorePasswords {
+    storePassword: string;
+    password: string;
+}
+
+/**
+ * VS Code secret storage, which is available since VS Code 1.53
+ */
+interface ISecretStorage {
+    get(key: string): Thenable<string | undefined>;
+    store(key: string, value: string): Thenable<void>;
+    delete(key: string): Thenable<void>;
+}
+
+interface ISigningItem extends vscode.QuickPickItem {
+    action: "use" | "change" | "forgetPasswords";
+}
+
+/**
+ * Builds signed release packages of the Android platform with the signing configuration of build.json
+ */
+export class AndroidReleaseBuild {
+    public static readonly STORE_PASSWORD_ENV_VARIABLE: string = "CORDOVA_ANDROID_KEYSTORE_PASSWORD";
+    public static readonly KEY_PASSWORD_ENV_VARIABLE: string = "CORDOVA_ANDROID_KEY_PASSWORD";
+    private static readonly BUILD_JSON_FILENAME: string = "build.json";
+    private static readonly SECRET_KEY_PREFIX: string = "cordova.android.release";
+    private static secretStorage: ISecretStorage | undefined;
+
+    public static init(context: vscode.ExtensionContext): void {
+        this.secretStorage = (<{ secrets?: ISecretStorage }><unknown>context).secrets;
+    }
+
+    public static buildRelease(projectRoot: string): Promise<void> {
+        if (CordovaProjectHelper.getInstalledPlatforms(projectRoot).indexOf("android") < 0) {
+            return Promise.reject(new Error(localize("AndroidPlatformIsNotInstalled", "The 'android' platform is not added to the project '{0}'. Add it with the 'Cordova: Add Platform' command", projectRoot)));
+        }
+
+        const buildJson = AndroidReleaseBuild.readBuildJson(projectRoot);
+        let packageType: AndroidPackageType;
+        let signingConfig: IAndroidSigningConfig;
+
+        return AndroidReleaseBuild.selectPackageType()
+            .then((selectedPackageType) => {
+                if (!selectedPackageType) {
+                    return undefined;
+                }
+                packageType = selectedPackageType;
+                return AndroidReleaseBuild.selectSigningConfig(projectRoot, buildJson);
+            })
+            .then((selectedSigningConfig) => {
+                if (!selectedSigningConfig) {
+                    return undefined;
+                }
+                signingConfig = selectedSigningConfig;
+                return AndroidReleaseBuild.getPasswords(projectRoot, signingConfig);
+            })
+            .then((passwords) => {
+                if (!passwords) {
+                    return;
+                }
+                const buildStart = Date.now();
+                return AndroidReleaseBuild.build(projectRoot, buildJson, signingConfig, passwords.passwords, packageType)
+                    .then(() => passwords.isEntered ? AndroidReleaseBuild.storePasswords(projectRoot, signingConfig, passwords.passwords) : undefined)
+                    .then(() => AndroidReleaseBuild.verifyArtifacts(AndroidReleaseBuild.findArtifacts(projectRoot, packageType, buildStart)));
+            });
+    }
+
+    /**
+     * Returns the signing configuration of the release build if it has the keystore and the alias
+     */
+    public static getSigningConfig(buildJson: Record<string, any>): IAndroidSigningConfig | undefined {
+        const releaseConfig = buildJson && buildJson.android && buildJson.android.release;
+        return releaseConfig && releaseConfig.keystore && releaseConfig.alias ? releaseConfig : undefined;
+    }
+
+    /**
+     * Returns the path of apksigner of the latest build tools of Android SDK, or undefined if there is none
+     */
+    public static findApkSigner(sdkRoot: string | undefined = process.env.ANDROID_SDK_ROOT || process.env.ANDROID_HOME): string | undefined {
+        const buildToolsPath = sdkRoot && path.join(sdkRoot, "build-tools");
+        if (!buildToolsPath || !CordovaProjectHelper.existsSync(buildToolsPath)) {
+            return undefined;
+        }
+
+        const apkSignerName = os.platform() === "win32" ? "apksigner.bat" : "apksigner";
+        const apkSignerPath = fs.readdirSync(buildToolsPath)
+            .sort(AndroidReleaseBuild.compareVersions)
+            .reverse()
+            .map(version => path.join(buildToolsPath, version, apkSignerName))
+            .find(apkSigner => CordovaProjectHelper.existsSync(apkSigner));
+        return apkSignerPath;
+    }
+
+    /**
+     * Returns the packages built after the time, the newest ones first
+     */
+    public static findArtifacts(projectRoot: string, packageType: AndroidPackageType, builtAfter: number): string[] {
+        const outputsPath = path.join(projectRoot, "platforms", "android", "app", "build", "outputs");
+        const artifactsPath = packageType === "bundle"
+            ? path.join(outputsPath, "bundle", "release")
+            : path.join(outputsPath, "apk", "release");
+        const extension = packageType === "bundle" ? ".aab" : ".apk";
+        if (!CordovaProjectHelper.existsSync(artifactsPath)) {
+            return [];
+        }
+
+        return fs.readdirSync(artifactsPath)
+            .filter(file => path.extname(file) === extension)
+            .map(file => ({ path: path.join(artifactsPath, file), modified: fs.statSync(path.join(artifactsPath, file)).mtime.getTime() }))
+            .filter(artifact => artifact.modified >= builtAfter)
+            .sort((a, b) => b.modified - a.modified)
+            .map(artifact => artifact.path);
+    }
+
+    /**
+     * Checks the output of the successful verification of the package. jarsigner exits with zero code for unsigned bundles,
+     * so its output has to report the verified signature
+     */
+    public static isSignatureVerified(artifact: string, verificationOutput: string): boolean {
+        return path.extname(artifact) !== ".aab" || /^jar verified\./m.test(verificationOutput);
+    }
+
+    private static selectPackageType(): Promise<AndroidPackageType | undefined> {
+        const items: (vscode.QuickPickItem & { packageType: AndroidPackageType })[] = [
+            { label: localize("AndroidAppBundle", "Android App Bundle (.aab)"), description: localize("AndroidAppBundleDescription", "Required to publish new apps on Google Play"), packageType: "bundle" },
+            { label: localize("AndroidApk", "APK (.apk)"), description: localize("AndroidApkDescription", "Installable on devices and publishable in other stores"), packageType: "apk" },
+        ];
+        return AndroidReleaseBuild.showQuickPick(items, { placeHolder: localize("SelectPackageType", "Select the package type of the release build") })
+            .then(item => item ? item.packageType : undefined);
+    }
+
+    private static selectSigningConfig(projectRoot: string, buildJson: any): Promise<IAndroidSigningConfig | undefined> {
+        const signingConfig = AndroidReleaseBuild.getSigningConfig(buildJson);
+        if (!signingConfig) {
+            return AndroidReleaseBuild.createSigningConfig(projectRoot, buildJson);
+        }
+
+        const items: ISigningItem[] = [
+            { label: localize("UseSigningConfig", "Sign with '{0}' of {1}", signingConfig.alias, signingConfig.keystore), action: "use" },
+            { label: localize("ChangeSigningConfig", "Change the keystore or the alias"), action: "change" },
+        ];
+        if (AndroidReleaseBuild.secretStorage) {
+            items.push({ label: localize("ForgetKeystorePasswords", "Forget the saved passwords of the keystore"), action: "forgetPasswords" });
+        }
+
+        return AndroidReleaseBuild.showQuickPick(items, { placeHolder: localize("SelectSigningConfig", "Select the signing configuration of build.json") })
+            .then((item) => {
+                if (!item) {
+                    return undefined;
+                }
+                switch (item.action) {
+                    case "change":
+                        return AndroidReleaseBuild.createSigningConfig(projectRoot, buildJson);
+                    case "forgetPasswords":
+                        return AndroidReleaseBuild.deletePasswords(projectRoot, signingConfig)
+                            .then(() => signingConfig);
+                    default:
+                        return signingConfig;
+                }
+            });
+    }
+
+    /**
+     * Asks for the keystore and the alias and saves them to the "android.release" section of build.json
+     */
+    private static createSigningConfig(projectRoot: string, buildJson: any): Promise<IAndroidSigningConfig | undefined> {
+        let keystorePath: string;
+
+        return new Promise<vscode.Uri[] | undefined>((resolve, reject) => {
+            vscode.window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: vscode.Uri.file(projectRoot),
+                filters: { [localize("Keystores", "Keystores")]: ["jks", "keystore", "p12", "pfx"] },
+                openLabel: localize("SelectKeystore", "Select Keystore"),
+            }).then(resolve, reject);
+        })
+            .then((uris) => {
+                if (!uris || !uris.length) {
+                    return undefined;
+                }
+                keystorePath = uris[0].fsPath;
+                return new Promise<string | undefined>((resolve, reject) => {
+                    vscode.window.showInputBox({
+                        prompt: localize("EnterKeyAlias", "Enter the alias of the signing key in the keystore"),
+                        ignoreFocusOut: true,
+                        validateInput: value => value.trim() ? null : localize("KeyAliasIsEmpty", "The alias must not be empty"),
+                    }).then(resolve, reject);
+                });
+            })
+            .then((alias) => {
+                if (!alias) {
+                    return undefined;
+                }
+                // The keystore in the project is saved by a relative path, so build.json can be committed
+                const relativeKeystorePath = path.relative(projectRoot, keystorePath);
+                const signingConfig: IAndroidSigningConfig = {
+                    keystore: CordovaProjectHelper.checkPathBelongsToHierarchy(projectRoot.toLowerCase(), keystorePath.toLowerCase())
+                        ? relativeKeystorePath.replace(/\\/g, "/")
+                        : keystorePath,
+                    alias: alias.trim(),
+                };
+                if ([".p12", ".pfx"].indexOf(path.extname(keystorePath).toLowerCase()) >= 0) {
+                    signingConfig.keystoreType = "pkcs12";
+                }
+
+                buildJson.android = buildJson.android || {};
+                buildJson.android.release = Object.assign({}, buildJson.android.release, signingConfig);
+                fs.writeFileSync(path.join(projectRoot, AndroidReleaseBuild.BUILD_JSON_FILENAME), JSON.stringify(buildJson, null, 4) + "\n");
+                return buildJson.android.release;
+            });
+    }
+
+    /**
+     * Returns the passwords of build.json, the environment variables or the secret storage, or asks for them.
+     * isEntered is true if the user entered the passwords
+     */
+    private static getPasswords(projectRoot: string, signingConfig: IAndroidSigningConfig): Promise<{ passwords: IKeystorePasswords, isEntered: boolean } | undefined> {
+        if (signingConfig.storePassword !== undefined && signingConfig.password !== undefined) {
+            return Promise.resolve({ passwords: { storePassword: signingConfig.storePassword, password: signingConfig.password }, isEntered: false });
+        }
+
+        const env = CordovaProjectHelper.getEnvArgument({
+            env: CordovaCommandHelper.getEnvArgs(projectRoot),
+            envFile: CordovaCommandHelper.getEnvFile(projectRoot),
+        });
+        const envStorePassword = env[AndroidReleaseBuild.STORE_PASSWORD_ENV_VARIABLE];
+        if (envStorePassword) {
+            return Promise.resolve({
+                passwords: { storePassword: envStorePassword, password: env[AndroidReleaseBuild.KEY_PASSWORD_ENV_VARIABLE] || envStorePassword },
+                isEntered: false,
+            });
+        }
+
+        return AndroidReleaseBuild.getStoredPasswords(projectRoot, signingConfig)
+            .then((storedPasswords) => {
+                if (storedPasswords) {
+                    return { passwords: storedPasswords, isEntered: false };
+                }
+                return AndroidReleaseBuild.askPasswords(signingConfig)
+                    .then(passwords => passwords && { passwords, isEntered: true });
+            });
+    }
+
+    private static askPasswords(signingConfig: IAndroidSigningConfig): Promise<IKeystorePasswords | undefined> {
+        const askPassword = (prompt: string) => new Promise<string | undefined>((resolve, reject) => {
+            vscode.window.showInputBox({ prompt, password: true, ignoreFocusOut: true }).then(resolve, reject);
+        });
+
+        let storePassword: string | undefined;
+        return askPassword(localize("EnterKeystorePassword", "Enter the password of the keystore {0}", signingConfig.keystore))
+            .then((password) => {
+                storePassword = password;
+                // The key password is the keystore one by default, e.g. PKCS12 keystores have one password only
+                return storePassword === undefined ? undefined : askPassword(localize("EnterKeyPassword", "Enter the password of the key '{0}'. Leave it empty to use the keystore password", signingConfig.alias));
+            })
+            .then((password) => {
+                if (storePassword === undefined || password === undefined) {
+                    return undefined;
+                }
+                return { storePassword, password: password || storePassword };
+            });
+    }
+
+    private static getSecretKey(projectRoot: string, signingConfig: IAndroidSigningConfig): string {
+        return `${AndroidReleaseBuild.SECRET_KEY_PREFIX}:${path.resolve(projectRoot, signingConfig.keystore)}:${signingConfig.alias}`;
+    }
+
+    private static getStoredPasswords(projectRoot: string, signingConfig: IAndroidSigningConfig): Promise<IKeystorePasswords | undefined> {
+        if (!AndroidReleaseBuild.secretStorage) {
+            return Promise.resolve(undefined);
+        }
+        const secretStorage = AndroidReleaseBuild.secretStorage;
+        return new Promise<string | undefined>((resolve, reject) => {
+            secretStorage.get(AndroidReleaseBuild.getSecretKey(projectRoot, signingConfig)).then(resolve, reject);
+        })
+            .then(value => value ? <IKeystorePasswords>JSON.parse(value) : undefined);
+    }
+
+    /**
+     * Offers to save the passwords entered for a successful build to the secret storage
+     */
+    private static storePasswords(projectRoot: string, signingConfig: IAndroidSigningConfig, passwords: IKeystorePasswords): Promise<void> {
+        if (!AndroidReleaseBuild.secretStorage) {
+            return Promise.resolve();
+        }
+        const secretStorage = AndroidReleaseBuild.secretStorage;
+        const savePasswords = localize("SavePasswords", "Save");
+        return new Promise<string | undefined>((resolve, reject) => {
+            vscode.window.showInformationMessage(localize("SaveKeystorePasswords", "Save the passwords of the keystore {0} to the secret storage of VS Code?", signingConfig.keystore), savePasswords)
+                .then(resolve, reject);
+        })
+            .then((selection) => {
+                if (selection !== savePasswords) {
+                    return;
+                }
+                return new Promise<void>((resolve, reject) => {
+                    secretStorage.store(AndroidReleaseBuild.getSecretKey(projectRoot, signingConfig), JSON.stringify(passwords)).then(resolve, reject);
+                });
+            });
+    }
+
+    private static deletePasswords(projectRoot: string, signingConfig: IAndroidSigningConfig): Promise<void> {
+        const secretStorage = <ISecretStorage>AndroidReleaseBuild.secretStorage;
+        return new Promise<void>((resolve, reject) => {
+            secretStorage.delete(AndroidReleaseBuild.getSecretKey(projectRoot, signingConfig)).then(resolve, reject);
+        });
+    }
+
+    /**
+     * Builds the release package. The passwords are passed in a temporary build configuration,
+     * so they don't appear in the command line, the output and build.json
+     */
+    private static build(projectRoot: string, buildJson: any, signingConfig: IAndroidSigningConfig, passwords: IKeystorePasswords, packageType: AndroidPackageType): Promise<void> {
+        const buildConfig = JSON.parse(JSON.stringify(buildJson));
+        buildConfig.android = buildConfig.android || {};
+        buildConfig.android.release = Object.assign({}, signingConfig, passwords, { keystore: path.resolve(projectRoot, signingConfig.keystore) });
+
+        const buildConfigPath = path.join(os.tmpdir(), `cordova-build-${process.pid}-${Date.now()}.json`);
+        fs.writeFileSync(buildConfigPath, JSON.stringify(buildConfig), { mode: 0o600 });
+        const removeBuildConfig = () => fs.unlink(buildConfigPath, () => void 0);
+
+        return CordovaCommandHelper.executeCordovaCommand(projectRoot, "build", false, "android", ["--release", `--buildConfig="${buildConfigPath}"`, `--packageType=${packageType}`])
+            .then(removeBuildConfig, (err) => {
+                removeBuildConfig();
+                throw err;
+            });
+    }
+
+    /**
+     * Verifies the signatures of the packages and reveals them
+     */
+    private static verifyArtifacts(artifacts: string[]): Promise<void> {
+        if (!artifacts.length) {
+            return Promise.reject(new Error(localize("ReleasePackageIsNotFound", "The release package is not found. Please check the Cordova output for details")));
+        }
+
+        const logger = OutputChannelLogger.getMainChannel();
+        const artifact = artifacts[0];
+        const verifier = AndroidReleaseBuild.getVerifyCommand(artifact);
+        if (!verifier) {
+            logger.log(localize("SignatureIsNotVerified", "The signature of {0} is not verified: {1} is not found", artifact, path.extname(artifact) === ".aab" ? "jarsigner" : "apksigner"));
+        }
+
+        const verification: Promise<boolean | undefined> = verifier
+            ? new ChildProcess().execToString(verifier)
+                .then((output) => {
+                    logger.log(output);
+                    return AndroidReleaseBuild.isSignatureVerified(artifact, output);
+                }, (err) => {
+                    logger.log(err.message);
+                    return false;
+                })
+            : Promise.resolve(undefined);
+
+        return verification.then((isVerified) => {
+            const revealArtifact = localize("RevealArtifact", "Reveal in File Explorer");
+            const message = isVerified === false
+                ? vscode.window.showErrorMessage(localize("ReleasePackageSignatureIsInvalid", "The signature of {0} is not valid. Please check the Cordova output for details", path.basename(artifact)), revealArtifact)
+                : vscode.window.showInformationMessage(isVerified
+                    ? localize("ReleasePackageIsSignedAndVerified", "The release package {0} is built and its signature is verified", path.basename(artifact))
+                    : localize("ReleasePackageIsBuilt", "The release package {0} is built", path.basename(artifact)), revealArtifact);
+            message.then((selection) => {
+                if (selection === revealArtifact) {
+                    vscode.commands.executeCommand("revealFileInOS", vscode.Uri.file(artifact));
+                }
+            });
+        });
+    }
+
+    /**
+     * Returns the command verifying the signature of the package, apksigner for APKs and jarsigner for bundles, which apksigner doesn't support
+     */
+    private static getVerifyCommand(artifact: string): string | undefined {
+        if (path.extname(artifact) === ".apk") {
+            const apkSigner = AndroidReleaseBuild.findApkSigner();
+            return apkSigner && `"${apkSigner}" verify --verbose "${artifact}"`;
+        }
+
+        const jarSigner = process.env.JAVA_HOME && path.join(process.env.JAVA_HOME, "bin", os.platform() === "win32" ? "jarsigner.exe" : "jarsigner");
+        return jarSigner && CordovaProjectHelper.existsSync(jarSigner) ? `"${jarSigner}" -verify -strict "${artifact}"` : undefined;
+    }
+
+    private static readBuildJson(projectRoot: string): any {
+        const buildJsonPath = path.join(projectRoot, AndroidReleaseBuild.BUILD_JSON_FILENAME);
+        if (!CordovaProjectHelper.existsSync(buildJsonPath)) {
+            return {};
+        }
+        try {
+            return JSON.parse(fs.readFileSync(buildJsonPath, "utf8").replace(/^\uFEFF/, ""));
+        } catch (err) {
+            throw new Error(localize("BuildJsonIsInvalid", "Could not parse {0}: {1}", buildJsonPath, err.message));
+        }
+    }
+
+    // Compares the versions of the build tools like "30.0.3" and "31.0.0-rc1" by their numbers
+    private static compareVersions(a: string, b: string): number {
+        const aParts = a.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+        const bParts = b.split(/[.-]/).map(part => parseInt(part, 10) || 0);
+        for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+            const difference = (aParts[i] || 0) - (bParts[i] || 0);
+            if (difference) {
+                return difference;
+            }
+        }
+        return 0;
+    }
+
+    private static showQuickPick<T extends vscode.QuickPickItem>(items: T[], options: vscode.QuickPickOptions): Promise<T | undefined> {
+        return new Promise<T | undefined>((resolve, reject) => {
+            vscode.window.showQuickPick(items, options).then(resolve, reject);
+        });
+    }
+}
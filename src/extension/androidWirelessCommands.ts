@@ -0,0 +1,189 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as vscode from "vscode";
+import { AdbHelper, IMdnsService } from "../utils/android/adb";
+import { AndroidTargetManager } from "../utils/android/androidTargetManager";
+import { NetworkTargetsStorage } from "./networkTargetsStorage";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+interface INetworkAddressItem extends vscode.QuickPickItem {
+    address?: string;
+    serviceName?: string;
+}
+
+/**
+ * Commands to pair and connect Android devices over Wi-Fi. Pairing with a code requires Android 11+ and adb 30.0.0+.
+ */
+export class AndroidWirelessCommands {
+    private static readonly ADDRESS_REGEX = /^[^\s:]+:\d{1,5}$/;
+    private static readonly PAIRING_CODE_REGEX = /^\d{6}$/;
+
+    public static pairDevice(projectRoot: string): Promise<void> {
+        const adbHelper = new AdbHelper(projectRoot);
+        let pairingAddress: string | undefined;
+
+        return adbHelper.discoverMdnsServices()
+            .then(services => AndroidWirelessCommands.selectAddress(
+                services.filter(service => service.type === "pairing").map(AndroidWirelessCommands.toAddressItem),
+                localize("SelectDeviceToPair", "Select a device to pair with"),
+                localize("EnterPairingAddress", "Enter the IP address and port shown in the 'Pair device with pairing code' dialog of the device")
+            ))
+            .then((addressItem) => {
+                pairingAddress = addressItem && addressItem.address;
+                if (!pairingAddress) {
+                    return undefined;
+                }
+                return AndroidWirelessCommands.showInputBox({
+                    prompt: localize("EnterPairingCode", "Enter the Wi-Fi pairing code shown on the device"),
+                    validateInput: (value) => AndroidWirelessCommands.PAIRING_CODE_REGEX.test(value.trim())
+                        ? null
+                        : localize("InvalidPairingCode", "The pairing code should consist of 6 digits"),
+                });
+            })
+            .then((pairingCode) => {
+                if (!pairingAddress || !pairingCode) {
+                    return;
+                }
+                const address = pairingAddress;
+                return vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: localize("PairingWithDevice", "Pairing with {0}", address),
+                }, () => adbHelper.pair(address, pairingCode.trim()))
+                    .then(() => adbHelper.discoverMdnsServices())
+                    .then((services) => {
+                        // The device advertises the connection service on the same host, but on another port
+                        const host = address.split(":")[0];
+                        const connectServices = services.filter(service => service.type === "connect" && service.address.split(":")[0] === host);
+                        if (connectServices.length === 1) {
+                            return AndroidWirelessCommands.toAddressItem(connectServices[0]);
+                        }
+                        return AndroidWirelessCommands.selectAddress(
+                            connectServices.map(AndroidWirelessCommands.toAddressItem),
+                            localize("SelectDeviceToConnect", "Select a device to connect to"),
+                            localize("EnterConnectionAddress", "Enter the IP address and port shown on the 'Wireless debugging' screen of the device"),
+                            `${host}:`
+                        );
+                    })
+                    .then(addressItem => AndroidWirelessCommands.connect(adbHelper, addressItem));
+            });
+    }
+
+    public static connectDevice(projectRoot: string): Promise<void> {
+        const adbHelper = new AdbHelper(projectRoot);
+        const targetManager = new AndroidTargetManager(adbHelper);
+
+        return adbHelper.getOnlineTargets()
+            .then(onlineTargets => targetManager.getOfflineNetworkTargets(onlineTargets))
+            .then(networkTargets => AndroidWirelessCommands.selectAddress(
+                networkTargets.map(target => ({
+                    label: target.id,
+                    description: target.name,
+                    address: target.id,
+                    serviceName: target.name,
+                })),
+                localize("SelectDeviceToConnect", "Select a device to connect to"),
+                localize("EnterConnectionAddress", "Enter the IP address and port shown on the 'Wireless debugging' screen of the device")
+            ))
+            .then(addressItem => AndroidWirelessCommands.connect(adbHelper, addressItem));
+    }
+
+    public static disconnectDevice(projectRoot: string): Promise<void> {
+        const adbHelper = new AdbHelper(projectRoot);
+
+        return adbHelper.getOnlineTargets()
+            .then((targets) => {
+                const networkTargets = targets.filter(target => AdbHelper.isNetworkTarget(target.id));
+                if (!networkTargets.length) {
+                    throw new Error(localize("NoNetworkDevicesConnected", "There are no devices connected over Wi-Fi"));
+                }
+                return AndroidWirelessCommands.showQuickPick(networkTargets.map(target => target.id), {
+                    placeHolder: localize("SelectDeviceToDisconnect", "Select a device to disconnect from"),
+                });
+            })
+            .then((targetId) => {
+                if (targetId) {
+                    return adbHelper.disconnect(targetId);
+                }
+            });
+    }
+
+    public static forgetDevice(): Promise<void> {
+        const targets = NetworkTargetsStorage.getTargets();
+        if (!targets.length) {
+            vscode.window.showInformationMessage(localize("NoRememberedNetworkDevices", "There are no remembered Wi-Fi devices"));
+            return Promise.resolve();
+        }
+
+        return AndroidWirelessCommands.showQuickPick(
+            targets.map(target => ({ label: target.address, description: target.serviceName })),
+            { placeHolder: localize("SelectDeviceToForget", "Select a device to forget") }
+        )
+            .then((selectedItem) => {
+                if (selectedItem) {
+                    return NetworkTargetsStorage.removeTarget(selectedItem.label);
+                }
+            });
+    }
+
+    private static connect(adbHelper: AdbHelper, addressItem: INetworkAddressItem | undefined): Promise<void> {
+        if (!addressItem || !addressItem.address) {
+            return Promise.resolve();
+        }
+
+        const address = addressItem.address;
+        return new Promise((resolve, reject) => {
+            vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: localize("ConnectingToDevice", "Connecting to {0}", address),
+            }, () => new AndroidTargetManager(adbHelper).connectNetworkTarget(address, addressItem.serviceName))
+                .then(resolve, reject);
+        })
+            .then(() => {
+                vscode.window.showInformationMessage(localize("ConnectedToNetworkDevice", "Connected to {0}", address));
+            });
+    }
+
+    /**
+     * Lets the user pick one of the addresses or enter another one
+     */
+    private static selectAddress(items: INetworkAddressItem[], placeHolder: string, prompt: string, defaultAddress?: string): Promise<INetworkAddressItem | undefined> {
+        const enterAddressItem: INetworkAddressItem = { label: localize("EnterAddressManually", "Enter the address manually...") };
+        const selection = items.length
+            ? AndroidWirelessCommands.showQuickPick(items.concat(enterAddressItem), { placeHolder })
+            : Promise.resolve(enterAddressItem);
+
+        return selection.then((selectedItem) => {
+            if (selectedItem !== enterAddressItem) {
+                return selectedItem;
+            }
+            return AndroidWirelessCommands.showInputBox({
+                prompt,
+                value: defaultAddress,
+                placeHolder: "192.168.1.5:37215",
+                validateInput: (value) => AndroidWirelessCommands.ADDRESS_REGEX.test(value.trim())
+                    ? null
+                    : localize("InvalidNetworkAddress", "The address should be specified as <IP address>:<port>"),
+            })
+                .then(address => address ? { label: address, address: address.trim() } : undefined);
+        });
+    }
+
+    private static toAddressItem(service: IMdnsService): INetworkAddressItem {
+        return { label: service.address, description: service.name, address: service.address, serviceName: service.name };
+    }
+
+    private static showQuickPick<T extends vscode.QuickPickItem | string>(items: T[], options: vscode.QuickPickOptions): Promise<T | undefined> {
+        return new Promise<T | undefined>((resolve, reject) => {
+            vscode.window.showQuickPick(<any[]>items, options).then(resolve, reject);
+        });
+    }
+
+    private static showInputBox(options: vscode.InputBoxOptions): Promise<string | undefined> {
+        return new Promise<string | undefined>((resolve, reject) => {
+            vscode.window.showInputBox(Object.assign({ ignoreFocusOut: true }, options)).then(resolve, reject);
+        });
+    }
+}
@@ -0,0 +1,37 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as vscode from "vscode";
+import { ApplicationCDPClient } from "../debugger/cdp-proxy/applicationCDPClient";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+interface IApplicationCDPClientItem extends vscode.QuickPickItem {
+    client: ApplicationCDPClient;
+}
+
+export class ApplicationCDPClientPicker {
+    /**
+     * Returns the connection to the app of the only active Cordova debug session or asks the user to select one
+     */
+    public static selectClient(): Promise<ApplicationCDPClient | undefined> {
+        const clients = ApplicationCDPClient.getClients();
+        if (!clients.length) {
+            return Promise.reject(new Error(localize("NoDebuggedApplication", "There is no Cordova app being debugged. Start a Cordova debug session first")));
+        }
+        if (clients.length === 1) {
+            return Promise.resolve(clients[0]);
+        }
+
+        const items: IApplicationCDPClientItem[] = clients.map(client => ({
+            label: client.sessionName,
+            description: client.platform,
+            client,
+        }));
+        return new Promise((resolve, reject) => {
+            vscode.window.showQuickPick(items, { placeHolder: localize("SelectDebugSession", "Select a debug session") })
+                .then(item => resolve(item && item.client), reject);
+        });
+    }
+}
@@ -0,0 +1,175 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { ApplicationCDPClient } from "../debugger/cdp-proxy/applicationCDPClient";
+import { CordovaProjectHelper } from "../utils/cordovaProjectHelper";
+import { ApplicationCDPClientPicker } from "./applicationCDPClientPicker";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+/**
+ * Captures CPU profiles and heap snapshots of the debugged app through the connection of the CDP proxy
+ * and saves them to the project, so they could be opened in the profile viewers of VS Code.
+ * The "Profiler" and "HeapProfiler" domains are implemented by Chrome based targets only.
+ */
+export class ApplicationProfiler {
+    private static readonly PROFILES_DIRECTORY = path.join(".vscode", "profiles");
+    private static readonly IS_CPU_PROFILING_CONTEXT_KEY = "cordova.isCpuProfiling";
+
+    private static profiledClient: ApplicationCDPClient | null = null;
+    private static profilingDisposables: vscode.Disposable[] = [];
+    private static statusBarItem: vscode.StatusBarItem | null = null;
+
+    public static startCpuProfiling(): Promise<void> {
+        if (ApplicationProfiler.profiledClient) {
+            return Promise.reject(new Error(localize("CpuProfilingIsInProgress", "The CPU profile of '{0}' is being recorded already", ApplicationProfiler.profiledClient.sessionName)));
+        }
+        return ApplicationCDPClientPicker.selectClient()
+            .then((client) => {
+                if (!client) {
+                    return;
+                }
+                return client.sendCommand("Profiler.enable")
+                    .then(() => client.sendCommand("Profiler.start"))
+                    .then(() => ApplicationProfiler.setProfiledClient(client), (err) => {
+                        throw new Error(localize("CpuProfilingIsNotSupported", "Could not start the CPU profiling of the app: {0}", err.message));
+                    });
+            });
+    }
+
+    public static stopCpuProfiling(): Promise<void> {
+        const client = ApplicationProfiler.profiledClient;
+        if (!client) {
+            return Promise.resolve();
+        }
+        ApplicationProfiler.setProfiledClient(null);
+
+        return new Promise<string>((resolve, reject) => {
+            vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: localize("SavingCpuProfile", "Saving the CPU profile of '{0}'", client.sessionName),
+            }, () => client.sendCommand("Profiler.stop")
+                .then((result) => {
+                    const profilePath = ApplicationProfiler.getProfilePath(client, ".cpuprofile");
+                    fs.writeFileSync(profilePath, JSON.stringify(result.profile));
+                    return profilePath;
+                }))
+                .then(resolve, reject);
+        })
+            .then(profilePath => ApplicationProfiler.openProfile(profilePath));
+    }
+
+    public static takeHeapSnapshot(): Promise<void> {
+        return ApplicationCDPClientPicker.selectClient()
+            .then((client) => {
+                if (!client) {
+                    return;
+                }
+                return vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: localize("TakingHeapSnapshot", "Taking the heap snapshot of '{0}'", client.sessionName),
+                }, progress => ApplicationProfiler.writeHeapSnapshot(client, progress))
+                    .then(snapshotPath => ApplicationProfiler.openProfile(snapshotPath));
+            });
+    }
+
+    private static writeHeapSnapshot(client: ApplicationCDPClient, progress: vscode.Progress<{ message?: string, increment?: number }>): Promise<string> {
+        const snapshotPath = ApplicationProfiler.getProfilePath(client, ".heapsnapshot");
+        // The snapshots of the apps take tens of megabytes, so the chunks are written to the file as they are received
+        const stream = fs.createWriteStream(snapshotPath);
+        // The file may fail to be written at any moment, e.g. if the disk is full, so the snapshot is rejected right away
+        const streamFailure = new Promise<string>((resolve, reject) => {
+            stream.on("error", (err: Error) => reject(new Error(localize("HeapSnapshotIsNotSaved", "Could not save the heap snapshot to {0}: {1}", snapshotPath, err.message))));
+        });
+        let isStreamClosed = false;
+        stream.on("close", () => {
+            isStreamClosed = true;
+        });
+        let reportedPercentage = 0;
+
+        const eventSubscription = client.onEvent((event: IProtocolCommand) => {
+            const params: any = event.params;
+            if (event.method === "HeapProfiler.addHeapSnapshotChunk") {
+                stream.write(params.chunk);
+            } else if (event.method === "HeapProfiler.reportHeapSnapshotProgress" && params.total) {
+                const percentage = Math.floor(params.done / params.total * 100);
+                progress.report({ message: `${percentage}%`, increment: percentage - reportedPercentage });
+                reportedPercentage = percentage;
+            }
+        });
+
+        // The reply is sent after all the chunks of the snapshot
+        const snapshot = client.sendCommand("HeapProfiler.enable")
+            .then(() => client.sendCommand("HeapProfiler.takeHeapSnapshot", { reportProgress: true }))
+            .then(() => new Promise<string>((resolve) => {
+                eventSubscription.dispose();
+                stream.end(() => resolve(snapshotPath));
+            }), (err) => {
+                throw new Error(localize("HeapSnapshotIsNotSupported", "Could not take the heap snapshot of the app: {0}", err.message));
+            });
+
+        return Promise.race([snapshot, streamFailure])
+            .catch((err) => {
+                eventSubscription.dispose();
+                const removeSnapshot = () => fs.unlink(snapshotPath, () => void 0);
+                if (isStreamClosed) {
+                    removeSnapshot();
+                } else {
+                    stream.once("close", removeSnapshot);
+                    stream.destroy();
+                }
+                throw err;
+            });
+    }
+
+    private static setProfiledClient(client: ApplicationCDPClient | null): void {
+        ApplicationProfiler.profilingDisposables.forEach(disposable => disposable.dispose());
+        ApplicationProfiler.profilingDisposables = [];
+        ApplicationProfiler.profiledClient = client;
+        vscode.commands.executeCommand("setContext", ApplicationProfiler.IS_CPU_PROFILING_CONTEXT_KEY, !!client);
+
+        if (!client) {
+            if (ApplicationProfiler.statusBarItem) {
+                ApplicationProfiler.statusBarItem.hide();
+            }
+            return;
+        }
+
+        if (!ApplicationProfiler.statusBarItem) {
+            ApplicationProfiler.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+            ApplicationProfiler.statusBarItem.command = "cordova.stopCpuProfiling";
+        }
+        ApplicationProfiler.statusBarItem.text = `$(primitive-square) ${localize("StopCpuProfiling", "Stop CPU Profiling")}`;
+        ApplicationProfiler.statusBarItem.tooltip = localize("RecordingCpuProfile", "Recording the CPU profile of '{0}'", client.sessionName);
+        ApplicationProfiler.statusBarItem.show();
+
+        ApplicationProfiler.profilingDisposables.push(client.onClose(() => {
+            ApplicationProfiler.setProfiledClient(null);
+            vscode.window.showWarningMessage(localize("CpuProfileIsLost", "The CPU profile of '{0}' is lost, since the app is disconnected", client.sessionName));
+        }));
+    }
+
+    private static getProfilePath(client: ApplicationCDPClient, extension: string): string {
+        const profilesDirectory = path.join(client.projectRoot, ApplicationProfiler.PROFILES_DIRECTORY);
+        if (!CordovaProjectHelper.existsSync(profilesDirectory)) {
+            CordovaProjectHelper.makeDirectoryRecursive(profilesDirectory);
+        }
+
+        const timestamp = new Date().toISOString().replace(/\..*$/, "").replace(/[-:]/g, "").replace("T", "-");
+        const sessionName = client.sessionName.replace(/[^\w.-]+/g, "-");
+        return path.join(profilesDirectory, `${sessionName}-${timestamp}${extension}`);
+    }
+
+    private static openProfile(profilePath: string): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            // The profiles are opened in the custom editors provided by the JavaScript debugger of VS Code
+            vscode.commands.executeCommand("vscode.open", vscode.Uri.file(profilePath))
+                .then(() => resolve(), reject);
+        });
+    }
+}
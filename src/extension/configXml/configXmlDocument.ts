@@ -0,0 +1,154 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+export interface IXmlAttribute {
+    name: string;
+    value: string;
+    nameStart: number;
+    valueStart: number;
+    valueEnd: number;
+}
+
+export interface IXmlTag {
+    name: string;
+    start: number;
+    end: number;
+    nameEnd: number;
+    attributes: IXmlAttribute[];
+    parent: IXmlTag | null;
+}
+
+export interface IAttributeValueContext {
+    tag: IXmlTag;
+    attribute: string;
+    valuePrefix: string;
+    valueStart: number;
+}
+
+/**
+ * A tolerant config.xml scanner which keeps the offsets of elements and attributes.
+ * Unlike elementtree, it doesn't fail on incomplete documents being edited and allows to map problems to text ranges.
+ */
+export class ConfigXmlDocument {
+    // Comments, CDATA sections, processing instructions and DOCTYPE are skipped, incomplete start tags are terminated by the next '<'
+    private static TOKEN_REGEX = /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<\?[\s\S]*?(?:\?>|$)|<!DOCTYPE[^>]*>?|<\/\s*([\w:.-]+)\s*>?|<([\w:.-]+)([^<>]*?)(\/?)(>|(?=<)|$)/g;
+    private static ATTRIBUTE_REGEX = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    private static ATTRIBUTE_VALUE_PREFIX_REGEX = /\s([\w:.-]+)\s*=\s*(["'])([^"']*)$/;
+
+    public readonly tags: IXmlTag[] = [];
+
+    constructor(public readonly text: string) {
+        this.parse();
+    }
+
+    public getAttribute(tag: IXmlTag, name: string): IXmlAttribute | undefined {
+        return tag.attributes.find(attribute => attribute.name === name);
+    }
+
+    public getAttributeValue(tag: IXmlTag, name: string): string | undefined {
+        const attribute = this.getAttribute(tag, name);
+        return attribute ? attribute.value : undefined;
+    }
+
+    /**
+     * Returns the tag which start tag contains the offset
+     */
+    public getTagAt(offset: number): IXmlTag | undefined {
+        return this.tags.find(tag => tag.start <= offset && offset <= tag.end);
+    }
+
+    /**
+     * Returns the name of the platform a tag belongs to if the tag is nested into a <platform> element
+     */
+    public getTagPlatform(tag: IXmlTag): string | undefined {
+        for (let parent = tag.parent; parent; parent = parent.parent) {
+            if (parent.name === "platform") {
+                return this.getAttributeValue(parent, "name");
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the attribute which value is being typed at the offset
+     */
+    public getAttributeValueContext(offset: number): IAttributeValueContext | undefined {
+        const tagStart = this.text.lastIndexOf("<", offset - 1);
+        if (tagStart < 0 || this.text.lastIndexOf(">", offset - 1) > tagStart) {
+            return undefined;
+        }
+
+        const tag = this.tags.find(tag => tag.start === tagStart);
+        const match = ConfigXmlDocument.ATTRIBUTE_VALUE_PREFIX_REGEX.exec(this.text.substring(tagStart, offset));
+        if (!tag || !match) {
+            return undefined;
+        }
+
+        return {
+            tag,
+            attribute: match[1],
+            valuePrefix: match[3],
+            valueStart: offset - match[3].length,
+        };
+    }
+
+    private parse(): void {
+        const openTags: IXmlTag[] = [];
+        const tokenRegex = new RegExp(ConfigXmlDocument.TOKEN_REGEX.source, "g");
+        let token: RegExpExecArray | null;
+
+        while ((token = tokenRegex.exec(this.text)) !== null) {
+            if (!token[0].length) {
+                // Avoid an infinite loop on empty matches at the end of the text
+                tokenRegex.lastIndex++;
+                continue;
+            }
+
+            const [text, closingTagName, tagName, attributesText, selfClosing, tagEnd] = token;
+            if (closingTagName) {
+                const openTagIndex = openTags.map(tag => tag.name).lastIndexOf(closingTagName);
+                if (openTagIndex >= 0) {
+                    openTags.splice(openTagIndex);
+                }
+                continue;
+            }
+            if (!tagName) {
+                continue;
+            }
+
+            const tag: IXmlTag = {
+                name: tagName,
+                start: token.index,
+                end: token.index + text.length,
+                nameEnd: token.index + 1 + tagName.length,
+                attributes: this.parseAttributes(attributesText, token.index + 1 + tagName.length),
+                parent: openTags.length ? openTags[openTags.length - 1] : null,
+            };
+            this.tags.push(tag);
+
+            if (!selfClosing && tagEnd === ">") {
+                openTags.push(tag);
+            }
+        }
+    }
+
+    private parseAttributes(attributesText: string, offset: number): IXmlAttribute[] {
+        const attributes: IXmlAttribute[] = [];
+        const attributeRegex = new RegExp(ConfigXmlDocument.ATTRIBUTE_REGEX.source, "g");
+        let match: RegExpExecArray | null;
+
+        while ((match = attributeRegex.exec(attributesText)) !== null) {
+            const value = match[2] !== undefined ? match[2] : match[3];
+            const valueStart = offset + match.index + match[0].length - value.length - 1;
+            attributes.push({
+                name: match[1],
+                value,
+                nameStart: offset + match.index,
+                valueStart,
+                valueEnd: valueStart + value.length,
+            });
+        }
+
+        return attributes;
+    }
+}
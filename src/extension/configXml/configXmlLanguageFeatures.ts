@@ -0,0 +1,191 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { CordovaProjectHelper } from "../../utils/cordovaProjectHelper";
+import { ConfigXmlDocument } from "./configXmlDocument";
+import { ConfigXmlSchema } from "./configXmlSchema";
+import { ConfigXmlProblemSeverity, ConfigXmlValidator } from "./configXmlValidator";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+export const CONFIG_XML_DOCUMENT_SELECTOR: vscode.DocumentSelector = { language: "xml", scheme: "file", pattern: "**/config.xml" };
+
+/**
+ * Returns the root of the Cordova project a config.xml document belongs to.
+ * Copies of config.xml generated in the 'platforms' and 'plugins' folders are not considered
+ */
+function getConfigXmlProjectRoot(document: vscode.TextDocument): string | null {
+    if (document.uri.scheme !== "file" || path.basename(document.uri.fsPath) !== "config.xml") {
+        return null;
+    }
+
+    const projectRoot = path.dirname(document.uri.fsPath);
+    const isGeneratedCopy = projectRoot.split(/[\\/]/).some(segment => segment === "platforms" || segment === "plugins");
+    if (isGeneratedCopy || !CordovaProjectHelper.isCordovaProject(projectRoot)) {
+        return null;
+    }
+    return projectRoot;
+}
+
+export class ConfigXmlDiagnosticsProvider implements vscode.Disposable {
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection("cordova-config-xml");
+        this.disposables.push(
+            this.diagnosticCollection,
+            vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.validate(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnosticCollection.delete(document.uri))
+        );
+        vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    }
+
+    /**
+     * Validates all opened config.xml documents again, e.g. after plugins have been added or removed
+     */
+    public validateAll(): void {
+        vscode.workspace.textDocuments.forEach(document => this.validate(document));
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private validate(document: vscode.TextDocument): void {
+        const projectRoot = getConfigXmlProjectRoot(document);
+        if (!projectRoot) {
+            return;
+        }
+
+        const problems = ConfigXmlValidator.validate(document.getText(), CordovaProjectHelper.getInstalledPlugins(projectRoot));
+        const diagnostics = problems.map((problem) => {
+            const range = new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end));
+            const severity = problem.severity === ConfigXmlProblemSeverity.Error ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+            const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+            diagnostic.source = "cordova";
+            return diagnostic;
+        });
+        this.diagnosticCollection.set(document.uri, diagnostics);
+    }
+}
+
+export class ConfigXmlCompletionProvider implements vscode.CompletionItemProvider {
+    public static TRIGGER_CHARACTERS: string[] = ["\"", "'"];
+
+    public provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+        const projectRoot = getConfigXmlProjectRoot(document);
+        if (!projectRoot) {
+            return [];
+        }
+
+        const configXml = new ConfigXmlDocument(document.getText());
+        const context = configXml.getAttributeValueContext(document.offsetAt(position));
+        if (!context) {
+            return [];
+        }
+
+        const range = new vscode.Range(document.positionAt(context.valueStart), position);
+        const tagName = context.tag.name;
+
+        if (tagName === "preference" && context.attribute === "name") {
+            const platform = configXml.getTagPlatform(context.tag);
+            return ConfigXmlSchema.PREFERENCES
+                .filter(preference => !platform || !preference.platforms || preference.platforms.indexOf(platform) >= 0)
+                .map(preference => this.createCompletionItem(preference.name, vscode.CompletionItemKind.Property, range, preference.description));
+        }
+
+        if (tagName === "preference" && context.attribute === "value") {
+            const preference = ConfigXmlSchema.getPreference(configXml.getAttributeValue(context.tag, "name") || "");
+            return preference && preference.values
+                ? preference.values.map(value => this.createCompletionItem(value, vscode.CompletionItemKind.EnumMember, range))
+                : [];
+        }
+
+        if ((tagName === "platform" || tagName === "engine") && context.attribute === "name") {
+            return ConfigXmlSchema.PLATFORMS.map(platform => this.createCompletionItem(platform, vscode.CompletionItemKind.Module, range));
+        }
+
+        if (tagName === "plugin" && context.attribute === "name") {
+            return CordovaProjectHelper.getInstalledPlugins(projectRoot)
+                .map(pluginId => this.createCompletionItem(pluginId, vscode.CompletionItemKind.Module, range));
+        }
+
+        if (tagName === "variable" && context.attribute === "name" && context.tag.parent && context.tag.parent.name === "plugin") {
+            const pluginId = configXml.getAttributeValue(context.tag.parent, "name");
+            return pluginId
+                ? CordovaProjectHelper.getPluginVariables(projectRoot, pluginId)
+                    .map(variable => this.createCompletionItem(variable, vscode.CompletionItemKind.Variable, range, localize("PluginVariable", "Variable of the plugin '{0}'", pluginId)))
+                : [];
+        }
+
+        return [];
+    }
+
+    private createCompletionItem(label: string, kind: vscode.CompletionItemKind, range: vscode.Range, documentation?: string): vscode.CompletionItem {
+        const item = new vscode.CompletionItem(label, kind);
+        item.range = range;
+        item.documentation = documentation;
+        return item;
+    }
+}
+
+export class ConfigXmlHoverProvider implements vscode.HoverProvider {
+    public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const projectRoot = getConfigXmlProjectRoot(document);
+        if (!projectRoot) {
+            return undefined;
+        }
+
+        const configXml = new ConfigXmlDocument(document.getText());
+        const offset = document.offsetAt(position);
+        const tag = configXml.getTagAt(offset);
+        if (!tag) {
+            return undefined;
+        }
+
+        if (offset <= tag.nameEnd) {
+            const element = ConfigXmlSchema.getElement(tag.name);
+            return element ? this.createHover(document, tag.start + 1, tag.nameEnd, element.description) : undefined;
+        }
+
+        const name = configXml.getAttribute(tag, "name");
+        if (!name || offset < name.valueStart || offset > name.valueEnd) {
+            return undefined;
+        }
+
+        if (tag.name === "preference") {
+            const preference = ConfigXmlSchema.getPreference(name.value);
+            if (!preference) {
+                return undefined;
+            }
+            const lines = [`**${preference.name}**`, preference.description];
+            if (preference.platforms) {
+                lines.push(localize("PreferencePlatforms", "Platforms: {0}", preference.platforms.join(", ")));
+            }
+            if (preference.values) {
+                lines.push(localize("PreferenceValues", "Values: {0}", preference.values.join(", ")));
+            }
+            return this.createHover(document, name.valueStart, name.valueEnd, lines.join("\n\n"));
+        }
+
+        if (tag.name === "plugin") {
+            const details = CordovaProjectHelper.getInstalledPluginDetails(projectRoot, name.value);
+            const text = details
+                ? localize("InstalledPluginHover", "Installed version: {0} ({1})", details.Version, details.PluginType)
+                : localize("PluginIsNotInstalledHover", "The plugin is not installed");
+            return this.createHover(document, name.valueStart, name.valueEnd, text);
+        }
+
+        return undefined;
+    }
+
+    private createHover(document: vscode.TextDocument, start: number, end: number, text: string): vscode.Hover {
+        return new vscode.Hover(new vscode.MarkdownString(text), new vscode.Range(document.positionAt(start), document.positionAt(end)));
+    }
+}
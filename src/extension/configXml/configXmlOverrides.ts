@@ -0,0 +1,175 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import { ConfigXmlDocument, IXmlTag } from "./configXmlDocument";
+
+/**
+ * The values of config.xml an environment profile sets. A preference with the null value is removed from config.xml
+ */
+export interface IConfigXmlOverrides {
+    id?: string;
+    name?: string;
+    version?: string;
+    preferences?: { [name: string]: string | null };
+}
+
+interface ITextEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Reads and replaces the application id, name, version and the global preferences in the text of config.xml,
+ * keeping the rest of the document including its formatting and comments
+ */
+export class ConfigXmlOverrides {
+    private static readonly WIDGET_ATTRIBUTES: ("id" | "version")[] = ["id", "version"];
+
+    /**
+     * Returns the current values of the ones set by the overrides. The missing preferences are returned as null
+     */
+    public static read(text: string, overrides: IConfigXmlOverrides): IConfigXmlOverrides {
+        const document = new ConfigXmlDocument(text);
+        const widget = ConfigXmlOverrides.getWidget(document);
+        const values: IConfigXmlOverrides = {};
+        if (!widget) {
+            return values;
+        }
+
+        ConfigXmlOverrides.WIDGET_ATTRIBUTES
+            .filter(attribute => overrides[attribute] !== undefined)
+            .forEach((attribute) => {
+                const value = document.getAttributeValue(widget, attribute);
+                if (value !== undefined) {
+                    values[attribute] = ConfigXmlOverrides.unescape(value);
+                }
+            });
+
+        const nameTag = ConfigXmlOverrides.getChild(document, widget, "name");
+        if (overrides.name !== undefined && nameTag) {
+            const contentEnd = ConfigXmlOverrides.getContentEnd(document, nameTag);
+            values.name = ConfigXmlOverrides.unescape(text.substring(nameTag.end, contentEnd).trim());
+        }
+
+        if (overrides.preferences) {
+            values.preferences = {};
+            Object.keys(overrides.preferences).forEach((name) => {
+                const preference = ConfigXmlOverrides.getPreference(document, widget, name);
+                const value = preference && document.getAttributeValue(preference, "value");
+                values.preferences[name] = value !== undefined ? ConfigXmlOverrides.unescape(value) : null;
+            });
+        }
+
+        return values;
+    }
+
+    /**
+     * Returns the text of config.xml with the overridden values. The missing elements and attributes are added
+     */
+    public static apply(text: string, overrides: IConfigXmlOverrides): string {
+        const document = new ConfigXmlDocument(text);
+        const widget = ConfigXmlOverrides.getWidget(document);
+        if (!widget) {
+            return text;
+        }
+
+        const edits: ITextEdit[] = [];
+        const widgetEnd = text.indexOf("</widget", widget.end);
+        const closingTagLineStart = widgetEnd >= 0 ? text.lastIndexOf("\n", widgetEnd) + 1 : text.length;
+        const indent = ConfigXmlOverrides.getChildIndent(document, widget);
+
+        ConfigXmlOverrides.WIDGET_ATTRIBUTES
+            .filter(attribute => overrides[attribute] !== undefined)
+            .forEach((attribute) => {
+                const value = ConfigXmlOverrides.escape(<string>overrides[attribute]);
+                const existingAttribute = document.getAttribute(widget, attribute);
+                edits.push(existingAttribute
+                    ? { start: existingAttribute.valueStart, end: existingAttribute.valueEnd, text: value }
+                    : { start: widget.nameEnd, end: widget.nameEnd, text: ` ${attribute}="${value}"` });
+            });
+
+        if (overrides.name !== undefined) {
+            const name = ConfigXmlOverrides.escape(overrides.name);
+            const nameTag = ConfigXmlOverrides.getChild(document, widget, "name");
+            if (!nameTag) {
+                edits.push({ start: widget.end, end: widget.end, text: `\n${indent}<name>${name}</name>` });
+            } else if (text.substring(nameTag.start, nameTag.end).endsWith("/>")) {
+                edits.push({ start: nameTag.start, end: nameTag.end, text: `<name>${name}</name>` });
+            } else {
+                edits.push({ start: nameTag.end, end: ConfigXmlOverrides.getContentEnd(document, nameTag), text: name });
+            }
+        }
+
+        const preferences = overrides.preferences || {};
+        Object.keys(preferences).forEach((name) => {
+            const value = preferences[name];
+            const preference = ConfigXmlOverrides.getPreference(document, widget, name);
+            const valueAttribute = preference && document.getAttribute(preference, "value");
+            if (value === null) {
+                if (preference) {
+                    // The line of the preference is removed along with it
+                    const lineStart = text.lastIndexOf("\n", preference.start - 1);
+                    const removeLine = lineStart >= 0 && !text.substring(lineStart, preference.start).trim();
+                    edits.push({ start: removeLine ? lineStart : preference.start, end: preference.end, text: "" });
+                }
+            } else if (valueAttribute) {
+                edits.push({ start: valueAttribute.valueStart, end: valueAttribute.valueEnd, text: ConfigXmlOverrides.escape(value) });
+            } else if (preference) {
+                edits.push({ start: preference.nameEnd, end: preference.nameEnd, text: ` value="${ConfigXmlOverrides.escape(value)}"` });
+            } else {
+                edits.push({ start: closingTagLineStart, end: closingTagLineStart, text: `${indent}<preference name="${ConfigXmlOverrides.escape(name)}" value="${ConfigXmlOverrides.escape(value)}" />\n` });
+            }
+        });
+
+        // The edits are applied from the end, so the offsets of the preceding ones stay valid
+        return edits
+            .sort((a, b) => b.start - a.start)
+            .reduce((result, edit) => result.substring(0, edit.start) + edit.text + result.substring(edit.end), text);
+    }
+
+    private static getWidget(document: ConfigXmlDocument): IXmlTag | undefined {
+        return document.tags.find(tag => tag.name === "widget" && !tag.parent);
+    }
+
+    private static getChild(document: ConfigXmlDocument, widget: IXmlTag, name: string): IXmlTag | undefined {
+        return document.tags.find(tag => tag.name === name && tag.parent === widget);
+    }
+
+    // The preferences nested into <platform> elements are specific to the platform and aren't overridden
+    private static getPreference(document: ConfigXmlDocument, widget: IXmlTag, name: string): IXmlTag | undefined {
+        return document.tags.find(tag => tag.name === "preference" && tag.parent === widget && document.getAttributeValue(tag, "name") === name);
+    }
+
+    private static getContentEnd(document: ConfigXmlDocument, tag: IXmlTag): number {
+        const closingTagStart = document.text.indexOf(`</${tag.name}`, tag.end);
+        return closingTagStart >= 0 ? closingTagStart : tag.end;
+    }
+
+    private static getChildIndent(document: ConfigXmlDocument, widget: IXmlTag): string {
+        const child = document.tags.find(tag => tag.parent === widget);
+        if (!child) {
+            return "    ";
+        }
+        const lineStart = document.text.lastIndexOf("\n", child.start - 1) + 1;
+        const indent = document.text.substring(lineStart, child.start);
+        return /^\s*$/.test(indent) ? indent : "    ";
+    }
+
+    private static escape(value: string): string {
+        return value
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;");
+    }
+
+    private static unescape(value: string): string {
+        return value
+            .replace(/&lt;/g, "<")
+            .replace(/&gt;/g, ">")
+            .replace(/&quot;/g, "\"")
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, "&");
+    }
+}
@@ -0,0 +1,136 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+export interface IPreferenceSchema {
+    name: string;
+    description: string;
+    /* Platforms supporting the preference, all platforms if not specified */
+    platforms?: string[];
+    /* Allowed preference values, any value is allowed if not specified */
+    values?: string[];
+}
+
+export interface IElementSchema {
+    name: string;
+    description: string;
+    requiredAttributes: string[];
+}
+
+const BOOLEAN_VALUES = ["true", "false"];
+
+/**
+ * A subset of the Cordova widget schema used to validate and complete config.xml
+ * See https://cordova.apache.org/docs/en/latest/config_ref/
+ */
+export class ConfigXmlSchema {
+    public static readonly PLATFORMS: string[] = ["android", "ios", "browser", "electron", "osx", "windows"];
+
+    public static readonly ELEMENTS: IElementSchema[] = [
+        { name: "widget", description: localize("WidgetElementDescription", "The root element of the config.xml document"), requiredAttributes: ["id", "version"] },
+        { name: "name", description: localize("NameElementDescription", "Specifies the app's formal name, as it appears on the device's home screen and within app-store interfaces"), requiredAttributes: [] },
+        { name: "description", description: localize("DescriptionElementDescription", "Specifies metadata that may appear within app-store listings"), requiredAttributes: [] },
+        { name: "author", description: localize("AuthorElementDescription", "Specifies contact information that may appear within app-store listings"), requiredAttributes: [] },
+        { name: "content", description: localize("ContentElementDescription", "Defines the app's starting page in the top-level web assets directory"), requiredAttributes: ["src"] },
+        { name: "access", description: localize("AccessElementDescription", "Defines the set of external domains the app is allowed to communicate with"), requiredAttributes: ["origin"] },
+        { name: "allow-navigation", description: localize("AllowNavigationElementDescription", "Controls which URLs the WebView itself can be navigated to"), requiredAttributes: ["href"] },
+        { name: "allow-intent", description: localize("AllowIntentElementDescription", "Controls which URLs the app is allowed to ask the system to open"), requiredAttributes: ["href"] },
+        { name: "engine", description: localize("EngineElementDescription", "Specifies details about what platform to restore during a prepare"), requiredAttributes: ["name"] },
+        { name: "plugin", description: localize("PluginElementDescription", "Specifies details about what plugin to restore during a prepare"), requiredAttributes: ["name"] },
+        { name: "variable", description: localize("VariableElementDescription", "Specifies the value of a plugin variable used during the plugin installation"), requiredAttributes: ["name", "value"] },
+        { name: "preference", description: localize("PreferenceElementDescription", "Sets various options as pairs of name/value attributes"), requiredAttributes: ["name", "value"] },
+        { name: "feature", description: localize("FeatureElementDescription", "Specifies a native API the app uses"), requiredAttributes: ["name"] },
+        { name: "platform", description: localize("PlatformElementDescription", "Specifies platform-specific configuration"), requiredAttributes: ["name"] },
+        { name: "hook", description: localize("HookElementDescription", "Represents a custom script which will be called by Cordova when a certain action occurs"), requiredAttributes: ["type", "src"] },
+        { name: "icon", description: localize("IconElementDescription", "Specifies the app icon"), requiredAttributes: ["src"] },
+        { name: "splash", description: localize("SplashElementDescription", "Specifies the app splash screen"), requiredAttributes: ["src"] },
+        { name: "resource-file", description: localize("ResourceFileElementDescription", "Copies a resource file to the platform project"), requiredAttributes: ["src", "target"] },
+        { name: "edit-config", description: localize("EditConfigElementDescription", "Modifies attributes of XML elements in the platform configuration files"), requiredAttributes: ["file", "target", "mode"] },
+        { name: "config-file", description: localize("ConfigFileElementDescription", "Adds XML elements to the platform configuration files"), requiredAttributes: ["target", "parent"] },
+    ];
+
+    public static readonly PREFERENCES: IPreferenceSchema[] = [
+        { name: "AllowInlineMediaPlayback", description: localize("AllowInlineMediaPlaybackDescription", "Allows HTML5 media playback to appear inline within the screen layout"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "AppendUserAgent", description: localize("AppendUserAgentDescription", "Appends the value to the end of the old UserAgent of the webview") },
+        { name: "BackgroundColor", description: localize("BackgroundColorDescription", "Sets the app's background color, e.g. 0xff0000ff") },
+        { name: "DisallowOverscroll", description: localize("DisallowOverscrollDescription", "Disables the rubber-band effect when users scroll past the beginning or end of content"), values: BOOLEAN_VALUES },
+        { name: "ErrorUrl", description: localize("ErrorUrlDescription", "Displays the referenced local page when the app encounters an error") },
+        { name: "FullScreen", description: localize("FullScreenDescription", "Hides the status bar at the top of the screen"), values: BOOLEAN_VALUES },
+        { name: "HideKeyboardFormAccessoryBar", description: localize("HideKeyboardFormAccessoryBarDescription", "Hides the additional toolbar that appears above the keyboard"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "KeyboardDisplayRequiresUserAction", description: localize("KeyboardDisplayRequiresUserActionDescription", "Allows the keyboard to appear when calling focus() on form inputs only after a user action"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "MediaPlaybackRequiresUserAction", description: localize("MediaPlaybackRequiresUserActionDescription", "Prevents HTML5 videos and audio from playing automatically"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "Orientation", description: localize("OrientationDescription", "Locks the orientation of the app"), values: ["default", "landscape", "portrait", "all"] },
+        { name: "OverrideUserAgent", description: localize("OverrideUserAgentDescription", "Replaces the UserAgent of the webview") },
+        { name: "Scheme", description: localize("SchemeDescription", "Sets the scheme the app content is served from"), platforms: ["android", "ios"] },
+        { name: "Hostname", description: localize("HostnameDescription", "Sets the hostname the app content is served from"), platforms: ["android", "ios"] },
+        { name: "ScrollEnabled", description: localize("ScrollEnabledDescription", "Enables the scrolling of the webview"), values: BOOLEAN_VALUES },
+        { name: "SplashScreen", description: localize("SplashScreenDescription", "Sets the name of the splash screen image resource") },
+        { name: "SplashScreenDelay", description: localize("SplashScreenDelayDescription", "Sets the time in milliseconds the splash screen is displayed") },
+        { name: "AutoHideSplashScreen", description: localize("AutoHideSplashScreenDescription", "Hides the splash screen automatically"), values: BOOLEAN_VALUES },
+        { name: "FadeSplashScreen", description: localize("FadeSplashScreenDescription", "Fades the splash screen in and out"), values: BOOLEAN_VALUES },
+        { name: "FadeSplashScreenDuration", description: localize("FadeSplashScreenDurationDescription", "Sets the duration of the splash screen fade effect in milliseconds") },
+        { name: "SplashMaintainAspectRatio", description: localize("SplashMaintainAspectRatioDescription", "Keeps the aspect ratio of the splash screen image instead of stretching it"), platforms: ["android"], values: BOOLEAN_VALUES },
+        { name: "SplashShowOnlyFirstTime", description: localize("SplashShowOnlyFirstTimeDescription", "Shows the splash screen only when the app is launched, not when it's restarted"), platforms: ["android"], values: BOOLEAN_VALUES },
+        { name: "ShowSplashScreenSpinner", description: localize("ShowSplashScreenSpinnerDescription", "Shows a spinner on the splash screen"), values: BOOLEAN_VALUES },
+        { name: "StatusBarOverlaysWebView", description: localize("StatusBarOverlaysWebViewDescription", "Makes the status bar overlay the webview"), values: BOOLEAN_VALUES },
+        { name: "StatusBarBackgroundColor", description: localize("StatusBarBackgroundColorDescription", "Sets the background color of the status bar by a hex string (#RRGGBB)") },
+        { name: "StatusBarStyle", description: localize("StatusBarStyleDescription", "Sets the status bar style"), values: ["default", "lightcontent", "blacktranslucent", "blackopaque"] },
+        { name: "KeepRunning", description: localize("KeepRunningDescription", "Determines whether the app stays running in the background"), platforms: ["android"], values: BOOLEAN_VALUES },
+        { name: "LoadUrlTimeoutValue", description: localize("LoadUrlTimeoutValueDescription", "Sets the time in milliseconds to wait before throwing a timeout error when loading a page"), platforms: ["android"] },
+        { name: "InAppBrowserStorageEnabled", description: localize("InAppBrowserStorageEnabledDescription", "Controls whether pages opened within an InAppBrowser can access the same storage as the app"), platforms: ["android"], values: BOOLEAN_VALUES },
+        { name: "LoadingDialog", description: localize("LoadingDialogDescription", "Displays a native loading dialog with the specified title and message when loading the app"), platforms: ["android"] },
+        { name: "LoadingPageDialog", description: localize("LoadingPageDialogDescription", "Displays a native loading dialog with the specified title and message when loading sub-pages"), platforms: ["android"] },
+        { name: "ShowTitle", description: localize("ShowTitleDescription", "Shows the title at the top of the screen"), platforms: ["android"], values: BOOLEAN_VALUES },
+        { name: "LogLevel", description: localize("LogLevelDescription", "Sets the minimum log level through which log messages from the app are filtered"), platforms: ["android"], values: ["ERROR", "WARN", "INFO", "DEBUG", "VERBOSE"] },
+        { name: "AndroidLaunchMode", description: localize("AndroidLaunchModeDescription", "Sets the Activity android:launchMode attribute"), platforms: ["android"], values: ["standard", "singleTop", "singleTask", "singleInstance"] },
+        { name: "DefaultVolumeStream", description: localize("DefaultVolumeStreamDescription", "Sets the volume stream the hardware volume buttons are linked to"), platforms: ["android"], values: ["default", "media", "call"] },
+        { name: "AndroidPersistentFileLocation", description: localize("AndroidPersistentFileLocationDescription", "Sets the location of the persistent file system of the File plugin"), platforms: ["android"], values: ["Internal", "Compatibility"] },
+        { name: "AndroidInsecureFileModeEnabled", description: localize("AndroidInsecureFileModeEnabledDescription", "Loads the app content from the file:// scheme instead of the https:// scheme"), platforms: ["android"], values: BOOLEAN_VALUES },
+        { name: "AndroidXEnabled", description: localize("AndroidXEnabledDescription", "Enables AndroidX support in the Android project"), platforms: ["android"], values: BOOLEAN_VALUES },
+        { name: "android-minSdkVersion", description: localize("AndroidMinSdkVersionDescription", "Sets the minimum SDK version supported by the app"), platforms: ["android"] },
+        { name: "android-maxSdkVersion", description: localize("AndroidMaxSdkVersionDescription", "Sets the maximum SDK version supported by the app"), platforms: ["android"] },
+        { name: "android-targetSdkVersion", description: localize("AndroidTargetSdkVersionDescription", "Sets the SDK version the app targets"), platforms: ["android"] },
+        { name: "android-compileSdkVersion", description: localize("AndroidCompileSdkVersionDescription", "Sets the SDK version the app is compiled against"), platforms: ["android"] },
+        { name: "android-buildToolsVersion", description: localize("AndroidBuildToolsVersionDescription", "Sets the version of the Android SDK build tools"), platforms: ["android"] },
+        { name: "GradleVersion", description: localize("GradleVersionDescription", "Sets the Gradle version used to build the Android project"), platforms: ["android"] },
+        { name: "AndroidGradlePluginVersion", description: localize("AndroidGradlePluginVersionDescription", "Sets the Android Gradle plugin version"), platforms: ["android"] },
+        { name: "AndroidXAppCompatVersion", description: localize("AndroidXAppCompatVersionDescription", "Sets the version of the AndroidX AppCompat library"), platforms: ["android"] },
+        { name: "AndroidXWebKitVersion", description: localize("AndroidXWebKitVersionDescription", "Sets the version of the AndroidX WebKit library"), platforms: ["android"] },
+        { name: "GradlePluginKotlinEnabled", description: localize("GradlePluginKotlinEnabledDescription", "Enables Kotlin support in the Android project"), platforms: ["android"], values: BOOLEAN_VALUES },
+        { name: "GradlePluginKotlinCodeStyle", description: localize("GradlePluginKotlinCodeStyleDescription", "Sets the Kotlin code style"), platforms: ["android"], values: ["official", "obsolete"] },
+        { name: "GradlePluginKotlinVersion", description: localize("GradlePluginKotlinVersionDescription", "Sets the Kotlin Gradle plugin version"), platforms: ["android"] },
+        { name: "GradlePluginGoogleServicesEnabled", description: localize("GradlePluginGoogleServicesEnabledDescription", "Enables the Google Services Gradle plugin"), platforms: ["android"], values: BOOLEAN_VALUES },
+        { name: "GradlePluginGoogleServicesVersion", description: localize("GradlePluginGoogleServicesVersionDescription", "Sets the Google Services Gradle plugin version"), platforms: ["android"] },
+        { name: "AndroidWindowSplashScreenAnimatedIcon", description: localize("AndroidWindowSplashScreenAnimatedIconDescription", "Sets the splash screen icon"), platforms: ["android"] },
+        { name: "AndroidWindowSplashScreenBackground", description: localize("AndroidWindowSplashScreenBackgroundDescription", "Sets the splash screen background color"), platforms: ["android"] },
+        { name: "AndroidPostSplashScreenTheme", description: localize("AndroidPostSplashScreenThemeDescription", "Sets the theme applied after the splash screen is hidden"), platforms: ["android"] },
+        { name: "BackupWebStorage", description: localize("BackupWebStorageDescription", "Sets whether the local storage is backed up to iCloud"), platforms: ["ios"], values: ["none", "local", "cloud"] },
+        { name: "TopActivityIndicator", description: localize("TopActivityIndicatorDescription", "Controls the appearance of the small spinning icon in the status bar"), platforms: ["ios"], values: ["gray", "white", "whiteLarge"] },
+        { name: "target-device", description: localize("TargetDeviceDescription", "Sets the device family the app targets"), platforms: ["ios"], values: ["handset", "tablet", "universal"] },
+        { name: "deployment-target", description: localize("DeploymentTargetDescription", "Sets the minimum iOS version supported by the app"), platforms: ["ios"] },
+        { name: "SuppressesIncrementalRendering", description: localize("SuppressesIncrementalRenderingDescription", "Waits until all content has been received before it renders to the screen"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "SuppressesLongPressGesture", description: localize("SuppressesLongPressGestureDescription", "Disables the long-press gestures of the webview"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "Suppresses3DTouchGesture", description: localize("Suppresses3DTouchGestureDescription", "Disables the 3D Touch gestures of the webview"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "AllowBackForwardNavigationGestures", description: localize("AllowBackForwardNavigationGesturesDescription", "Enables swipe gestures for back and forward navigation"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "PreferredContentMode", description: localize("PreferredContentModeDescription", "Sets the content mode used by the webview"), platforms: ["ios"], values: ["mobile", "desktop"] },
+        { name: "WKWebViewOnly", description: localize("WKWebViewOnlyDescription", "Builds the app with WKWebView only, without the UIWebView code"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "ResolveServiceWorkerRequests", description: localize("ResolveServiceWorkerRequestsDescription", "Lets the service workers of the app handle the requests of the webview"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "EnableViewportScale", description: localize("EnableViewportScaleDescription", "Allows the viewport meta tag to disable or restrict the range of user scaling"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "Allow3DTouchLinkPreview", description: localize("Allow3DTouchLinkPreviewDescription", "Shows a preview of the link destination on 3D Touch"), platforms: ["ios"], values: BOOLEAN_VALUES },
+        { name: "SwiftVersion", description: localize("SwiftVersionDescription", "Sets the Swift version used by the iOS project"), platforms: ["ios"] },
+        { name: "InspectableWebview", description: localize("InspectableWebviewDescription", "Allows the webview to be inspected by Safari Web Inspector in release builds"), platforms: ["ios"], values: BOOLEAN_VALUES },
+    ];
+
+    public static getPreference(name: string): IPreferenceSchema | undefined {
+        // Cordova reads preferences in a case-insensitive manner
+        const lowerCaseName = name.toLowerCase();
+        return ConfigXmlSchema.PREFERENCES.find(preference => preference.name.toLowerCase() === lowerCaseName);
+    }
+
+    public static getElement(name: string): IElementSchema | undefined {
+        return ConfigXmlSchema.ELEMENTS.find(element => element.name === name);
+    }
+}
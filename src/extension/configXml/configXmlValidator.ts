@@ -0,0 +1,187 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as semver from "semver";
+import { ConfigXmlDocument, IXmlTag } from "./configXmlDocument";
+import { ConfigXmlSchema } from "./configXmlSchema";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+export enum ConfigXmlProblemSeverity {
+    Error,
+    Warning,
+}
+
+export interface IConfigXmlProblem {
+    start: number;
+    end: number;
+    message: string;
+    severity: ConfigXmlProblemSeverity;
+}
+
+export class ConfigXmlValidator {
+    // Elements which content is copied to platform files as is, so it shouldn't be validated against the widget schema
+    private static RAW_CONTENT_ELEMENTS: string[] = ["config-file", "edit-config"];
+
+    /**
+     * Validates config.xml contents against the Cordova widget schema and the plugins installed to the project
+     */
+    public static validate(text: string, installedPlugins: string[]): IConfigXmlProblem[] {
+        const document = new ConfigXmlDocument(text);
+        const problems: IConfigXmlProblem[] = [];
+        const rootTag = document.tags.find(tag => !tag.parent);
+
+        if (!rootTag) {
+            return problems;
+        }
+        if (rootTag.name !== "widget") {
+            problems.push(ConfigXmlValidator.tagNameProblem(rootTag, localize("RootElementMustBeWidget", "The root element of config.xml must be <widget>"), ConfigXmlProblemSeverity.Error));
+            return problems;
+        }
+
+        document.tags
+            .filter(tag => !ConfigXmlValidator.isRawContent(tag))
+            .forEach((tag) => {
+                ConfigXmlValidator.validateRequiredAttributes(tag, problems);
+                switch (tag.name) {
+                    case "widget":
+                        ConfigXmlValidator.validateWidget(document, tag, problems);
+                        break;
+                    case "preference":
+                        ConfigXmlValidator.validatePreference(document, tag, problems);
+                        break;
+                    case "platform":
+                        ConfigXmlValidator.validatePlatformName(document, tag, problems);
+                        break;
+                    case "engine":
+                        ConfigXmlValidator.validatePlatformName(document, tag, problems);
+                        ConfigXmlValidator.validateSpec(document, tag, problems);
+                        break;
+                    case "plugin":
+                        ConfigXmlValidator.validateSpec(document, tag, problems);
+                        ConfigXmlValidator.validatePluginInstalled(document, tag, installedPlugins, problems);
+                        break;
+                }
+            });
+
+        return problems;
+    }
+
+    /**
+     * Checks whether a spec is a version range, a dist-tag, a url or a local path, so Cordova CLI is able to restore it
+     */
+    public static isValidSpec(spec: string): boolean {
+        return !!semver.validRange(spec)
+            || /^[a-z][\w.-]*$/i.test(spec)
+            || /^(?:[\w+.-]+:\/\/|git@|github:|file:)\S+$/.test(spec)
+            || /^(?:\.{1,2}[\/\\]|[\/\\~]|[a-z]:[\/\\])\S*/i.test(spec);
+    }
+
+    private static isRawContent(tag: IXmlTag): boolean {
+        for (let parent = tag.parent; parent; parent = parent.parent) {
+            if (ConfigXmlValidator.RAW_CONTENT_ELEMENTS.indexOf(parent.name) >= 0) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private static validateRequiredAttributes(tag: IXmlTag, problems: IConfigXmlProblem[]): void {
+        const element = ConfigXmlSchema.getElement(tag.name);
+        if (!element) {
+            return;
+        }
+        element.requiredAttributes
+            .filter(attributeName => !tag.attributes.some(attribute => attribute.name === attributeName))
+            .forEach((attributeName) => {
+                problems.push(ConfigXmlValidator.tagNameProblem(tag, localize("MissingRequiredAttribute", "The <{0}> element requires the '{1}' attribute", tag.name, attributeName), ConfigXmlProblemSeverity.Error));
+            });
+    }
+
+    private static validateWidget(document: ConfigXmlDocument, tag: IXmlTag, problems: IConfigXmlProblem[]): void {
+        const version = document.getAttribute(tag, "version");
+        if (version && !/^\d+(\.\d+){0,2}(-[\w.]+)?$/.test(version.value)) {
+            problems.push(ConfigXmlValidator.attributeProblem(version.valueStart, version.valueEnd, localize("InvalidWidgetVersion", "The app version should be in the 'major.minor.patch' format"), ConfigXmlProblemSeverity.Warning));
+        }
+    }
+
+    private static validatePreference(document: ConfigXmlDocument, tag: IXmlTag, problems: IConfigXmlProblem[]): void {
+        const name = document.getAttribute(tag, "name");
+        if (!name) {
+            return;
+        }
+
+        const preference = ConfigXmlSchema.getPreference(name.value);
+        if (!preference) {
+            // Plugins define their own preferences, so only the names similar to the known ones are reported as likely typos
+            const suggestion = ConfigXmlValidator.findSimilarPreference(name.value);
+            if (suggestion) {
+                problems.push(ConfigXmlValidator.attributeProblem(name.valueStart, name.valueEnd, localize("UnknownPreferenceDidYouMean", "Unknown preference '{0}'. Did you mean '{1}'?", name.value, suggestion), ConfigXmlProblemSeverity.Warning));
+            }
+            return;
+        }
+
+        const platform = document.getTagPlatform(tag);
+        if (platform && preference.platforms && preference.platforms.indexOf(platform) < 0) {
+            problems.push(ConfigXmlValidator.attributeProblem(name.valueStart, name.valueEnd, localize("PreferenceNotSupportedByPlatform", "The preference '{0}' is not supported by the '{1}' platform", preference.name, platform), ConfigXmlProblemSeverity.Warning));
+        }
+
+        const value = document.getAttribute(tag, "value");
+        if (value && preference.values && !preference.values.some(allowedValue => allowedValue.toLowerCase() === value.value.toLowerCase())) {
+            problems.push(ConfigXmlValidator.attributeProblem(value.valueStart, value.valueEnd, localize("InvalidPreferenceValue", "Invalid value of the preference '{0}'. Expected one of: {1}", preference.name, preference.values.join(", ")), ConfigXmlProblemSeverity.Warning));
+        }
+    }
+
+    private static validatePlatformName(document: ConfigXmlDocument, tag: IXmlTag, problems: IConfigXmlProblem[]): void {
+        const name = document.getAttribute(tag, "name");
+        if (name && ConfigXmlSchema.PLATFORMS.indexOf(name.value) < 0) {
+            problems.push(ConfigXmlValidator.attributeProblem(name.valueStart, name.valueEnd, localize("UnknownPlatform", "Unknown platform '{0}'. Expected one of: {1}", name.value, ConfigXmlSchema.PLATFORMS.join(", ")), ConfigXmlProblemSeverity.Warning));
+        }
+    }
+
+    private static validateSpec(document: ConfigXmlDocument, tag: IXmlTag, problems: IConfigXmlProblem[]): void {
+        const spec = document.getAttribute(tag, "spec");
+        if (spec && !ConfigXmlValidator.isValidSpec(spec.value)) {
+            problems.push(ConfigXmlValidator.attributeProblem(spec.valueStart, spec.valueEnd, localize("InvalidSpec", "Invalid spec '{0}'. Expected a version range, a git url or a local path", spec.value), ConfigXmlProblemSeverity.Error));
+        }
+    }
+
+    private static validatePluginInstalled(document: ConfigXmlDocument, tag: IXmlTag, installedPlugins: string[], problems: IConfigXmlProblem[]): void {
+        const name = document.getAttribute(tag, "name");
+        if (name && name.value && installedPlugins.indexOf(name.value) < 0) {
+            problems.push(ConfigXmlValidator.attributeProblem(name.valueStart, name.valueEnd, localize("PluginNotInstalled", "The plugin '{0}' is referenced but not installed. Run 'cordova prepare' to restore it", name.value), ConfigXmlProblemSeverity.Warning));
+        }
+    }
+
+    private static findSimilarPreference(name: string): string | undefined {
+        const lowerCaseName = name.toLowerCase();
+        const preference = ConfigXmlSchema.PREFERENCES
+            .find(preference => ConfigXmlValidator.editDistance(preference.name.toLowerCase(), lowerCaseName) <= 2);
+        return preference && preference.name;
+    }
+
+    private static editDistance(a: string, b: string): number {
+        let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+        for (let i = 1; i <= a.length; i++) {
+            const currentRow = [i];
+            for (let j = 1; j <= b.length; j++) {
+                currentRow[j] = Math.min(
+                    previousRow[j] + 1,
+                    currentRow[j - 1] + 1,
+                    previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+                );
+            }
+            previousRow = currentRow;
+        }
+        return previousRow[b.length];
+    }
+
+    private static tagNameProblem(tag: IXmlTag, message: string, severity: ConfigXmlProblemSeverity): IConfigXmlProblem {
+        return { start: tag.start + 1, end: tag.nameEnd, message, severity };
+    }
+
+    private static attributeProblem(start: number, end: number, message: string, severity: ConfigXmlProblemSeverity): IConfigXmlProblem {
+        return { start, end, message, severity };
+    }
+}
@@ -0,0 +1,192 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { ProjectsStorage } from "./projectsStorage";
+import { CordovaSessionManager } from "./cordovaSessionManager";
+import { CordovaProjectHelper, IPlatformEngine } from "../utils/cordovaProjectHelper";
+import { CordovaSessionStatus } from "../debugger/debugSessionWrapper";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+export abstract class CordovaTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly projectRoot: string,
+        label: string,
+        collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None
+    ) {
+        super(label, collapsibleState);
+    }
+
+    public getChildren(): CordovaTreeItem[] {
+        return [];
+    }
+}
+
+export class PlatformTreeItem extends CordovaTreeItem {
+    constructor(projectRoot: string, public readonly platform: string, public readonly isIonic: boolean, engine?: IPlatformEngine) {
+        super(projectRoot, platform);
+        this.contextValue = isIonic ? "ionicPlatform" : "cordovaPlatform";
+
+        const version = CordovaProjectHelper.getInstalledPlatformVersion(projectRoot, platform);
+        this.description = version || "";
+        if (engine && CordovaProjectHelper.isPlatformVersionMismatch(engine.spec, version)) {
+            this.description = localize("PlatformVersionMismatch", "{0} (config.xml pins {1})", version, engine.spec);
+            this.tooltip = localize("PlatformVersionMismatchTooltip", "The installed version {0} doesn't match the spec {1} pinned in config.xml. Update the platform to fix the mismatch.", version, engine.spec);
+        }
+    }
+}
+
+/* A platform pinned in config.xml which is not installed to the 'platforms' folder */
+export class MissingPlatformTreeItem extends CordovaTreeItem {
+    public readonly platform: string;
+
+    constructor(projectRoot: string, engine: IPlatformEngine) {
+        super(projectRoot, engine.name);
+        this.platform = engine.name;
+        this.contextValue = "cordovaMissingPlatform";
+        this.description = localize("PlatformNotInstalled", "{0} (not installed)", engine.spec || "*");
+        this.tooltip = localize("PlatformNotInstalledTooltip", "The platform is pinned in config.xml, but it is not installed to the 'platforms' folder");
+    }
+}
+
+export class PluginTreeItem extends CordovaTreeItem {
+    constructor(projectRoot: string, public readonly pluginId: string) {
+        super(projectRoot, pluginId);
+        this.contextValue = "cordovaPlugin";
+
+        const details = CordovaProjectHelper.getInstalledPluginDetails(projectRoot, pluginId);
+        if (details) {
+            this.description = `${details.Version} (${details.PluginType})`;
+        }
+    }
+}
+
+export class SessionStatusTreeItem extends CordovaTreeItem {
+    constructor(projectRoot: string, sessionManager: CordovaSessionManager) {
+        super(projectRoot, localize("DebugSessionTreeItem", "Debug session"));
+        this.contextValue = "cordovaSessionStatus";
+
+        const cordovaSession = sessionManager.getCordovaDebugSessionByProjectRoot(projectRoot);
+        if (!cordovaSession) {
+            this.description = localize("DebugSessionNotRunning", "not running");
+            return;
+        }
+
+        switch (cordovaSession.getStatus()) {
+            case CordovaSessionStatus.NotActivated:
+                this.description = localize("DebugSessionNotActivated", "starting");
+                break;
+            case CordovaSessionStatus.Pending:
+                this.description = localize("DebugSessionPending", "building");
+                break;
+            case CordovaSessionStatus.Activated:
+                this.description = localize("DebugSessionActivated", "active");
+                break;
+        }
+        this.tooltip = cordovaSession.getVSCodeDebugSession().name;
+    }
+}
+
+export class MessageTreeItem extends CordovaTreeItem {
+    constructor(projectRoot: string, message: string) {
+        super(projectRoot, message);
+        this.contextValue = "cordovaMessage";
+    }
+}
+
+export class PlatformsTreeItem extends CordovaTreeItem {
+    constructor(projectRoot: string) {
+        super(projectRoot, localize("PlatformsTreeItem", "Platforms"), vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = "cordovaPlatforms";
+    }
+
+    public getChildren(): CordovaTreeItem[] {
+        const platforms = CordovaProjectHelper.getInstalledPlatforms(this.projectRoot);
+        const engines = CordovaProjectHelper.getConfigXmlEngines(this.projectRoot);
+        const isIonic = CordovaProjectHelper.isIonicAngularProject(this.projectRoot);
+
+        const children: CordovaTreeItem[] = platforms.map(platform =>
+            new PlatformTreeItem(this.projectRoot, platform, isIonic, engines.find(engine => engine.name === platform)));
+        engines.filter(engine => platforms.indexOf(engine.name) < 0)
+            .forEach(engine => children.push(new MissingPlatformTreeItem(this.projectRoot, engine)));
+
+        if (!children.length) {
+            return [new MessageTreeItem(this.projectRoot, localize("NoPlatformsInstalled", "No platforms installed"))];
+        }
+        return children;
+    }
+}
+
+export class PluginsTreeItem extends CordovaTreeItem {
+    constructor(projectRoot: string) {
+        super(projectRoot, localize("PluginsTreeItem", "Plugins"), vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = "cordovaPlugins";
+    }
+
+    public getChildren(): CordovaTreeItem[] {
+        const plugins = CordovaProjectHelper.getInstalledPlugins(this.projectRoot);
+        if (!plugins.length) {
+            return [new MessageTreeItem(this.projectRoot, localize("NoPluginsInstalled", "No plugins installed"))];
+        }
+        return plugins.map(pluginId => new PluginTreeItem(this.projectRoot, pluginId));
+    }
+}
+
+export class ProjectTreeItem extends CordovaTreeItem {
+    constructor(projectRoot: string, private sessionManager: CordovaSessionManager) {
+        super(projectRoot, path.basename(projectRoot), vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = "cordovaProject";
+        this.tooltip = projectRoot;
+        this.iconPath = vscode.ThemeIcon.Folder;
+        this.resourceUri = vscode.Uri.file(projectRoot);
+    }
+
+    public getChildren(): CordovaTreeItem[] {
+        return [
+            new PlatformsTreeItem(this.projectRoot),
+            new PluginsTreeItem(this.projectRoot),
+            new SessionStatusTreeItem(this.projectRoot, this.sessionManager),
+        ];
+    }
+}
+
+export class CordovaProjectsTreeDataProvider implements vscode.TreeDataProvider<CordovaTreeItem>, vscode.Disposable {
+    public static readonly VIEW_ID: string = "cordovaProjects";
+
+    private treeDataChangedEmitter = new vscode.EventEmitter<CordovaTreeItem | undefined>();
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChangeTreeData: vscode.Event<CordovaTreeItem | undefined> = this.treeDataChangedEmitter.event;
+
+    constructor(private sessionManager: CordovaSessionManager) {
+        this.disposables.push(
+            this.treeDataChangedEmitter,
+            this.sessionManager.onDidChangeSessionStatus(() => this.refresh())
+        );
+    }
+
+    public refresh(): void {
+        this.treeDataChangedEmitter.fire(undefined);
+    }
+
+    public getTreeItem(element: CordovaTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: CordovaTreeItem): CordovaTreeItem[] {
+        if (element) {
+            return element.getChildren();
+        }
+
+        return Object.keys(ProjectsStorage.projectsCache)
+            .map(key => new ProjectTreeItem(ProjectsStorage.projectsCache[key].workspaceRoot.uri.fsPath, this.sessionManager));
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
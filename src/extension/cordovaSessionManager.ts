@@ -14,10 +14,14 @@ export class CordovaSessionManager implements vscode.DebugAdapterDescriptorFacto
     private connections = new Map<string, Net.Socket>();
     private cordovaDebugSessions = new Map<string, CordovaSession>();
     private restartingVSCodeSessions = new Set<string>();
+    private sessionStatusChangedEmitter = new vscode.EventEmitter<CordovaSession>();
+
+    public readonly onDidChangeSessionStatus: vscode.Event<CordovaSession> = this.sessionStatusChangedEmitter.event;
 
     public createDebugAdapterDescriptor(session: vscode.DebugSession, executable: vscode.DebugAdapterExecutable | undefined): vscode.ProviderResult<vscode.DebugAdapterDescriptor> {
         const cordovaSession = this.createCordovaSession(session);
         this.cordovaDebugSessions.set(cordovaSession.getSessionId(), cordovaSession);
+        this.sessionStatusChangedEmitter.fire(cordovaSession);
 
         vscode.commands.executeCommand("setContext", this.cordovaDebuggingFlag, true);
 
@@ -34,10 +38,14 @@ export class CordovaSessionManager implements vscode.DebugAdapterDescriptorFacto
     }
 
     public terminate(cordovaDebugSessionId: string, restart: boolean = false, forcedStop: boolean = false): void {
-        if (restart && this.cordovaDebugSessions.has(cordovaDebugSessionId)) {
-            this.restartingVSCodeSessions.add(this.cordovaDebugSessions.get(cordovaDebugSessionId).getVSCodeDebugSession().id);
+        const cordovaSession = this.cordovaDebugSessions.get(cordovaDebugSessionId);
+        if (restart && cordovaSession) {
+            this.restartingVSCodeSessions.add(cordovaSession.getVSCodeDebugSession().id);
         }
         this.cordovaDebugSessions.delete(cordovaDebugSessionId);
+        if (cordovaSession) {
+            this.sessionStatusChangedEmitter.fire(cordovaSession);
+        }
         if (this.cordovaDebugSessions.size === 0) {
             vscode.commands.executeCommand("setContext", this.cordovaDebuggingFlag, false);
         }
@@ -64,6 +72,7 @@ export class CordovaSessionManager implements vscode.DebugAdapterDescriptorFacto
     }
 
     public dispose(): void {
+        this.sessionStatusChangedEmitter.dispose();
         this.servers.forEach((server, key) => {
             this.destroyServer(key, server);
         });
@@ -74,7 +83,7 @@ export class CordovaSessionManager implements vscode.DebugAdapterDescriptorFacto
     }
 
     private createCordovaSession(session: vscode.DebugSession): CordovaSession {
-        let cordovaSession = new CordovaSession(session);
+        let cordovaSession = new CordovaSession(session, (changedSession) => this.sessionStatusChangedEmitter.fire(changedSession));
         if (this.restartingVSCodeSessions.has(session.id)) {
             cordovaSession.setStatus(CordovaSessionStatus.Pending);
             this.restartingVSCodeSessions.delete(session.id);
@@ -0,0 +1,158 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { ProjectsStorage } from "./projectsStorage";
+import { EnvironmentProfiles } from "./environmentProfiles";
+import { CordovaProjectHelper } from "../utils/cordovaProjectHelper";
+import { CordovaCommandHelper } from "../utils/cordovaCommandHelper";
+import { CordovaTaskTerminal } from "./cordovaTaskTerminal";
+
+export type CordovaTaskCommand = "build" | "run" | "prepare" | "emulate" | "serve";
+
+export interface ICordovaTaskDefinition extends vscode.TaskDefinition {
+    command: CordovaTaskCommand;
+    platform?: string;
+    target?: string;
+    release?: boolean;
+    runArguments?: string[];
+    cwd?: string;
+    ionic?: boolean;
+}
+
+export class CordovaTaskProvider implements vscode.TaskProvider {
+    public static readonly TASK_TYPE: string = "cordova";
+
+    private static readonly PLATFORM_COMMANDS: CordovaTaskCommand[] = ["build", "run", "prepare", "emulate"];
+    private static readonly PLATFORM_PROBLEM_MATCHERS: { [platform: string]: string[] } = {
+        android: ["$cordova-javac", "$cordova-kotlin", "$cordova-aapt"],
+        ios: ["$cordova-xcodebuild"],
+        osx: ["$cordova-xcodebuild"],
+    };
+    private static readonly WEB_PROBLEM_MATCHERS: string[] = ["$cordova-tsc"];
+    private static readonly SERVE_PROBLEM_MATCHER: string = "$cordova-serve";
+
+    public provideTasks(): vscode.Task[] {
+        const tasks: vscode.Task[] = [];
+
+        Object.keys(ProjectsStorage.projectsCache).forEach((key) => {
+            const workspaceFolder = ProjectsStorage.projectsCache[key].workspaceRoot;
+            const projectRoot = workspaceFolder.uri.fsPath;
+            const ionic = CordovaProjectHelper.isIonicAngularProject(projectRoot);
+            const platforms = CordovaCommandHelper.filterAvailablePlatforms(CordovaProjectHelper.getInstalledPlatforms(projectRoot));
+
+            platforms.forEach((platform) => {
+                CordovaTaskProvider.PLATFORM_COMMANDS.forEach((command) => {
+                    tasks.push(this.createTask({ type: CordovaTaskProvider.TASK_TYPE, command, platform, ionic }, workspaceFolder));
+                });
+            });
+
+            if (ionic || platforms.indexOf("browser") >= 0) {
+                tasks.push(this.createTask({ type: CordovaTaskProvider.TASK_TYPE, command: "serve", ionic }, workspaceFolder));
+            }
+        });
+
+        return tasks;
+    }
+
+    public resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = <ICordovaTaskDefinition>task.definition;
+        if (definition.type !== CordovaTaskProvider.TASK_TYPE || !definition.command) {
+            return undefined;
+        }
+
+        const workspaceFolder = typeof task.scope === "object" ? task.scope : undefined;
+        return this.createTask(definition, workspaceFolder, task.name);
+    }
+
+    private createTask(definition: ICordovaTaskDefinition, workspaceFolder?: vscode.WorkspaceFolder, name?: string): vscode.Task {
+        const projectRoot = this.getProjectRoot(definition, workspaceFolder);
+        // The terminal is created once the task runs, so config.xml isn't changed while the tasks are provided
+        const execution = new vscode.CustomExecution(() => Promise.resolve(this.createTerminal(definition, projectRoot)));
+
+        const task = new vscode.Task(
+            definition,
+            workspaceFolder || vscode.TaskScope.Workspace,
+            name || this.getTaskName(definition),
+            CordovaTaskProvider.TASK_TYPE,
+            execution,
+            this.getProblemMatchers(definition)
+        );
+
+        if (definition.command === "build") {
+            task.group = vscode.TaskGroup.Build;
+        }
+        if (definition.command === "serve") {
+            task.isBackground = true;
+        }
+        return task;
+    }
+
+    private createTerminal(definition: ICordovaTaskDefinition, projectRoot: string): CordovaTaskTerminal {
+        const env = CordovaProjectHelper.getEnvArgument({
+            env: CordovaCommandHelper.getEnvArgs(projectRoot),
+            envFile: CordovaCommandHelper.getEnvFile(projectRoot),
+        });
+        const command = CordovaCommandHelper.getCliCommandName(!!definition.ionic);
+        return new CordovaTaskTerminal(projectRoot, command, this.getCommandArguments(definition, projectRoot), { cwd: projectRoot, env });
+    }
+
+    private getProjectRoot(definition: ICordovaTaskDefinition, workspaceFolder?: vscode.WorkspaceFolder): string {
+        const workspaceRoot = workspaceFolder ? workspaceFolder.uri.fsPath : "";
+        if (definition.cwd) {
+            return path.resolve(workspaceRoot, definition.cwd.replace(/\$\{workspaceFolder\}/g, workspaceRoot));
+        }
+        return workspaceRoot;
+    }
+
+    private getCommandArguments(definition: ICordovaTaskDefinition, projectRoot: string): string[] {
+        const args: string[] = [];
+
+        // Ionic runs Cordova-specific commands through the 'cordova' namespace,
+        // 'ionic build' without a platform builds the web assets only
+        const isIonicWebCommand = definition.command === "serve" || (definition.command === "build" && !definition.platform);
+        if (definition.ionic && !isIonicWebCommand) {
+            args.push("cordova");
+        }
+        args.push(definition.command);
+
+        if (definition.platform) {
+            args.push(definition.platform);
+            args.push(...CordovaCommandHelper.getPlatformArguments(definition.platform));
+        }
+        if (definition.release) {
+            args.push("--release");
+        }
+        if (definition.target) {
+            args.push(`--target=${definition.target}`);
+        }
+
+        // The run arguments of the active environment profile are added to the ones of the task
+        const runArguments = definition.runArguments
+            ? definition.runArguments.concat(EnvironmentProfiles.getRunArguments(projectRoot))
+            : CordovaCommandHelper.getRunArguments(projectRoot);
+        args.push(...runArguments);
+
+        return args;
+    }
+
+    private getTaskName(definition: ICordovaTaskDefinition): string {
+        return [definition.command, definition.platform, definition.target, definition.release ? "release" : ""]
+            .filter(part => !!part)
+            .join(" ");
+    }
+
+    private getProblemMatchers(definition: ICordovaTaskDefinition): string[] {
+        if (definition.command === "serve") {
+            return [CordovaTaskProvider.SERVE_PROBLEM_MATCHER];
+        }
+
+        const platformMatchers = definition.platform
+            ? CordovaTaskProvider.PLATFORM_PROBLEM_MATCHERS[definition.platform] || []
+            : Object.keys(CordovaTaskProvider.PLATFORM_PROBLEM_MATCHERS)
+                .map(platform => CordovaTaskProvider.PLATFORM_PROBLEM_MATCHERS[platform])
+                .reduce((matchers, current) => matchers.concat(current.filter(matcher => matchers.indexOf(matcher) < 0)), []);
+        return platformMatchers.concat(CordovaTaskProvider.WEB_PROBLEM_MATCHERS);
+    }
+}
@@ -0,0 +1,102 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as child_process from "child_process";
+import * as vscode from "vscode";
+import { EnvironmentProfiles } from "./environmentProfiles";
+import { CordovaProjectHelper } from "../utils/cordovaProjectHelper";
+import { killTree } from "../debugger/extension";
+
+export interface ICordovaTaskTerminalOptions {
+    cwd: string;
+    env?: { [key: string]: string };
+}
+
+/**
+ * Runs the command of a cordova task in the terminal of the task.
+ * The config.xml values of the environment profile are written before the command starts and restored once it's finished
+ */
+export class CordovaTaskTerminal implements vscode.Pseudoterminal {
+    private static readonly CTRL_C: string = "\x03";
+    // The arguments made of these characters only are passed to the shell as is
+    private static readonly SAFE_ARGUMENT_REGEX = /^[\w\-.,:=@/+]+$/;
+
+    private writeEmitter = new vscode.EventEmitter<string>();
+    private closeEmitter = new vscode.EventEmitter<number>();
+    private process: child_process.ChildProcess | null = null;
+    private isClosed: boolean = false;
+
+    public readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+    public readonly onDidClose: vscode.Event<number> = this.closeEmitter.event;
+
+    constructor(
+        public readonly projectRoot: string,
+        public readonly command: string,
+        public readonly args: string[],
+        public readonly options: ICordovaTaskTerminalOptions
+    ) { }
+
+    public open(): void {
+        EnvironmentProfiles.withConfigXmlOverrides(this.projectRoot, () => this.runCommand())
+            .then(
+                exitCode => this.closeEmitter.fire(exitCode),
+                (err) => {
+                    this.writeLine(err.message || err);
+                    this.closeEmitter.fire(1);
+                }
+            );
+    }
+
+    public close(): void {
+        this.isClosed = true;
+        this.stopCommand();
+    }
+
+    public handleInput(data: string): void {
+        if (data === CordovaTaskTerminal.CTRL_C) {
+            this.stopCommand();
+        }
+    }
+
+    public getCommandLine(): string {
+        const args = this.args.map(arg => CordovaTaskTerminal.SAFE_ARGUMENT_REGEX.test(arg) ? arg : CordovaProjectHelper.quoteShellArgument(arg));
+        return [this.command].concat(args).join(" ");
+    }
+
+    private runCommand(): Promise<number> {
+        // The terminal might be closed while config.xml is written
+        if (this.isClosed) {
+            return Promise.resolve(1);
+        }
+
+        const commandLine = this.getCommandLine();
+        this.writeLine(`> ${commandLine}`);
+        return new Promise<number>((resolve, reject) => {
+            const childProcess = child_process.spawn(commandLine, { cwd: this.options.cwd, env: this.options.env, shell: true });
+            this.process = childProcess;
+            childProcess.stdout.on("data", (data: Buffer) => this.write(data.toString()));
+            childProcess.stderr.on("data", (data: Buffer) => this.write(data.toString()));
+            childProcess.on("error", reject);
+            childProcess.on("close", (exitCode: number | null) => {
+                this.process = null;
+                // The stopped process has no exit code
+                resolve(exitCode === null ? 1 : exitCode);
+            });
+        });
+    }
+
+    private stopCommand(): void {
+        if (this.process) {
+            killTree(this.process.pid);
+        }
+    }
+
+    private writeLine(text: string): void {
+        this.write(`${text}\n`);
+    }
+
+    // The terminal moves to the start of the line on "\r" only
+    private write(text: string): void {
+        this.writeEmitter.fire(text.replace(/\r?\n/g, "\r\n"));
+    }
+}
@@ -0,0 +1,156 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as url from "url";
+
+export interface ICspSource {
+    value: string;
+    start: number;
+    end: number;
+}
+
+export interface ICspDirective {
+    name: string;
+    sources: ICspSource[];
+    start: number;
+    end: number;
+}
+
+/**
+ * A Content-Security-Policy set by the "content" attribute of a <meta> tag.
+ * Keeps the offsets of the directives and the sources, so the problems could be mapped to the text of the page.
+ */
+export class ContentSecurityPolicy {
+    public static FETCH_DIRECTIVES: string[] = [
+        "default-src", "child-src", "connect-src", "font-src", "frame-src", "img-src", "manifest-src", "media-src", "object-src",
+        "prefetch-src", "script-src", "script-src-elem", "script-src-attr", "style-src", "style-src-elem", "style-src-attr", "worker-src",
+    ];
+    public static OTHER_DIRECTIVES: string[] = [
+        "base-uri", "form-action", "navigate-to", "plugin-types", "upgrade-insecure-requests", "block-all-mixed-content",
+        "require-trusted-types-for", "trusted-types",
+    ];
+    // The browsers ignore these directives if the policy is set by a <meta> tag instead of a header
+    public static HEADER_ONLY_DIRECTIVES: string[] = ["frame-ancestors", "report-uri", "report-to", "sandbox"];
+
+    // The directives which are used before "default-src" if a fetch directive is missing
+    private static FALLBACK_DIRECTIVES: Record<string, string[]> = {
+        "script-src-elem": ["script-src"],
+        "script-src-attr": ["script-src"],
+        "style-src-elem": ["style-src"],
+        "style-src-attr": ["style-src"],
+        "frame-src": ["child-src"],
+        "worker-src": ["child-src", "script-src"],
+    };
+    private static DIRECTIVE_REGEX = /[^;]+/g;
+    private static TOKEN_REGEX = /\S+/g;
+    private static HOST_SOURCE_REGEX = /^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*|(?:\*\.)?[^\/:*]+)(?::(\d+|\*))?(\/.*)?$/i;
+    private static DEFAULT_PORTS: Record<string, string> = { "http:": "80", "https:": "443", "ws:": "80", "wss:": "443" };
+
+    public readonly directives: ICspDirective[] = [];
+
+    /**
+     * @param offset - the offset of the policy text in the page
+     */
+    constructor(public readonly text: string, offset: number = 0) {
+        const directiveRegex = new RegExp(ContentSecurityPolicy.DIRECTIVE_REGEX.source, "g");
+        let directiveMatch: RegExpExecArray | null;
+
+        while ((directiveMatch = directiveRegex.exec(text)) !== null) {
+            const tokenRegex = new RegExp(ContentSecurityPolicy.TOKEN_REGEX.source, "g");
+            const tokens: ICspSource[] = [];
+            let tokenMatch: RegExpExecArray | null;
+            while ((tokenMatch = tokenRegex.exec(directiveMatch[0])) !== null) {
+                const start = offset + directiveMatch.index + tokenMatch.index;
+                tokens.push({ value: tokenMatch[0], start, end: start + tokenMatch[0].length });
+            }
+            if (!tokens.length) {
+                continue;
+            }
+
+            const name = tokens[0];
+            this.directives.push({
+                name: name.value.toLowerCase(),
+                sources: tokens.slice(1),
+                start: name.start,
+                end: name.end,
+            });
+        }
+    }
+
+    /**
+     * Returns the directive with the name. The browsers ignore the repeated directives, so the first one is returned
+     */
+    public getDirective(name: string): ICspDirective | undefined {
+        return this.directives.find(directive => directive.name === name);
+    }
+
+    /**
+     * Returns the directive which restricts the resources of a type, considering the fallbacks of the fetch directives
+     * @param name - the name of the fetch directive for the resources, e.g. "connect-src"
+     */
+    public getEffectiveDirective(name: string): ICspDirective | undefined {
+        const names = [name].concat(ContentSecurityPolicy.FALLBACK_DIRECTIVES[name] || []);
+        if (ContentSecurityPolicy.FETCH_DIRECTIVES.indexOf(name) >= 0) {
+            names.push("default-src");
+        }
+        for (const directiveName of names) {
+            const directive = this.getDirective(directiveName);
+            if (directive) {
+                return directive;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Checks whether a remote url matches a source of the directive.
+     * The keywords like 'self' are not considered, since they never match remote urls of an app loaded from the device.
+     */
+    public static allowsUrl(directive: ICspDirective, remoteUrl: string): boolean {
+        const parsedUrl = url.parse(remoteUrl);
+        return directive.sources.some(source => ContentSecurityPolicy.matchesSource(source.value, parsedUrl));
+    }
+
+    private static matchesSource(source: string, parsedUrl: url.UrlWithStringQuery): boolean {
+        const protocol = (parsedUrl.protocol || "").toLowerCase();
+        if (source === "*") {
+            return ["data:", "blob:", "filesystem:"].indexOf(protocol) < 0;
+        }
+        if (/^[a-z][a-z0-9+.-]*:$/i.test(source)) {
+            return ContentSecurityPolicy.matchesScheme(source.toLowerCase(), protocol);
+        }
+
+        const match = ContentSecurityPolicy.HOST_SOURCE_REGEX.exec(source);
+        if (!match || source.startsWith("'")) {
+            return false;
+        }
+        const [, scheme, host, port, sourcePath] = match;
+        const hostname = (parsedUrl.hostname || "").toLowerCase();
+        const sourceHost = host.toLowerCase();
+
+        if (scheme ? !ContentSecurityPolicy.matchesScheme(`${scheme.toLowerCase()}:`, protocol) : !ContentSecurityPolicy.DEFAULT_PORTS[protocol]) {
+            return false;
+        }
+        if (sourceHost.startsWith("*.") ? !hostname.endsWith(sourceHost.substr(1)) : sourceHost !== "*" && sourceHost !== hostname) {
+            return false;
+        }
+
+        const urlPort = parsedUrl.port || ContentSecurityPolicy.DEFAULT_PORTS[protocol];
+        if (port ? port !== "*" && port !== urlPort : urlPort !== ContentSecurityPolicy.DEFAULT_PORTS[protocol]) {
+            return false;
+        }
+
+        if (sourcePath) {
+            const urlPath = parsedUrl.pathname || "/";
+            return sourcePath.endsWith("/") ? urlPath.startsWith(sourcePath) : urlPath === sourcePath;
+        }
+        return true;
+    }
+
+    // The secure schemes are allowed by the sources with the insecure ones
+    private static matchesScheme(sourceScheme: string, protocol: string): boolean {
+        return sourceScheme === protocol
+            || (sourceScheme === "http:" && protocol === "https:")
+            || (sourceScheme === "ws:" && protocol === "wss:");
+    }
+}
@@ -0,0 +1,353 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as url from "url";
+import { ConfigXmlDocument, IXmlAttribute, IXmlTag } from "../configXml/configXmlDocument";
+import { ContentSecurityPolicy, ICspDirective } from "./contentSecurityPolicy";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+export enum CspProblemSeverity {
+    Error,
+    Warning,
+}
+
+export interface ICspProblem {
+    path: string;
+    start: number;
+    end: number;
+    message: string;
+    severity: CspProblemSeverity;
+}
+
+export interface ICspFile {
+    path: string;
+    text: string;
+}
+
+export interface ICspProjectFiles {
+    indexHtml: ICspFile | null;
+    configXml: ICspFile | null;
+    scripts: ICspFile[];
+}
+
+/**
+ * A violation of the policy reported by the webview, e.g.
+ * "Refused to connect to 'https://example.com/' because it violates the following Content Security Policy directive: "connect-src 'self'"."
+ */
+export interface ICspViolation {
+    text: string;
+    directive?: string;
+}
+
+interface IPolicyTag {
+    policy: ContentSecurityPolicy;
+    content: IXmlAttribute;
+}
+
+interface IAccessRules {
+    document: ConfigXmlDocument;
+    accessTags: IXmlTag[];
+}
+
+interface IRemoteUrlReference {
+    file: ICspFile;
+    url: string;
+    start: number;
+    // The fetch directive which restricts the requests to the url
+    directive: string;
+}
+
+/**
+ * Looks for the Content-Security-Policy rules of www/index.html and the <access>, <allow-navigation> and <allow-intent> rules of config.xml
+ * which are unsafe or too broad, and for the remote urls of the app blocked by these rules
+ */
+export class CspAnalyzer {
+    // The directives which allow running code or sending data of the app, so the sources allowing any site are reported for them
+    private static SENSITIVE_DIRECTIVES: string[] = [
+        "default-src", "script-src", "script-src-elem", "script-src-attr", "connect-src", "child-src", "frame-src", "object-src",
+        "worker-src", "base-uri", "form-action",
+    ];
+    private static SCRIPT_DIRECTIVES: string[] = ["script-src", "script-src-elem", "script-src-attr", "worker-src"];
+    private static BROAD_SOURCES: string[] = ["*", "http:", "https:", "ws:", "wss:"];
+    private static BROAD_SCRIPT_SOURCES: string[] = ["data:", "blob:"];
+    private static ANY_SITE_PATTERN_REGEX = /^(?:\*|(?:https?|\*):\/\/\*(?:\/\*?)?)$/i;
+    // Only the string literals starting with a url are considered, so the urls of the messages and the comments are skipped
+    private static SCRIPT_URL_REGEX = /(["'`])((?:https?|wss?):\/\/[^\s"'`]+)/g;
+    private static IGNORED_HOSTS: string[] = ["www.w3.org"];
+    private static RESOURCE_DIRECTIVES: Record<string, string> = {
+        "script": "script-src-elem",
+        "img": "img-src",
+        "iframe": "frame-src",
+        "audio": "media-src",
+        "video": "media-src",
+        "source": "media-src",
+    };
+    private static VIOLATION_DIRECTIVE_REGEXES: RegExp[] = [
+        /Content Security Policy directive:\s*"([\w-]+)/i,
+        /\bin the ([\w-]+) directive of the Content Security Policy/i,
+    ];
+
+    public static analyze(files: ICspProjectFiles): ICspProblem[] {
+        const problems: ICspProblem[] = [];
+        const policyTags = files.indexHtml ? CspAnalyzer.analyzeIndexHtml(files.indexHtml, problems) : [];
+        const accessRules = files.configXml ? CspAnalyzer.analyzeConfigXml(files.configXml, problems) : null;
+
+        const references = files.indexHtml ? CspAnalyzer.getPageUrlReferences(files.indexHtml) : [];
+        files.scripts.forEach(script => references.push(...CspAnalyzer.getScriptUrlReferences(script)));
+
+        references.forEach((reference) => {
+            const end = reference.start + reference.url.length;
+            const host = url.parse(reference.url).host;
+            policyTags.forEach(({ policy }) => {
+                const directive = policy.getEffectiveDirective(reference.directive);
+                if (directive && !ContentSecurityPolicy.allowsUrl(directive, reference.url)) {
+                    problems.push(CspAnalyzer.problem(reference.file, reference.start, end, localize("UrlIsBlockedByCsp", "The requests to '{0}' are blocked by the '{1}' directive of the Content-Security-Policy", host, directive.name), CspProblemSeverity.Warning));
+                }
+            });
+            if (accessRules && !accessRules.accessTags.some(tag => CspAnalyzer.matchesAccessOrigin(accessRules.document, tag, reference.url))) {
+                problems.push(CspAnalyzer.problem(reference.file, reference.start, end, localize("UrlIsBlockedByAccess", "The requests to '{0}' are not allowed by the <access> elements of config.xml", host), CspProblemSeverity.Warning));
+            }
+        });
+
+        return problems;
+    }
+
+    /**
+     * Parses a message of the webview reporting a violation of the Content-Security-Policy
+     * @returns undefined if the message is not a violation report
+     */
+    public static parseViolation(text: string): ICspViolation | undefined {
+        if (!/Refused to/.test(text) || !/Content[ -]Security[ -]Policy/i.test(text)) {
+            return undefined;
+        }
+
+        const violation: ICspViolation = { text };
+        for (const regex of CspAnalyzer.VIOLATION_DIRECTIVE_REGEXES) {
+            const match = regex.exec(text);
+            if (match) {
+                violation.directive = match[1].toLowerCase();
+                break;
+            }
+        }
+        return violation;
+    }
+
+    /**
+     * Maps a violation reported at runtime to the directive of the policy in www/index.html which caused it
+     */
+    public static getViolationProblem(indexHtml: ICspFile, violation: ICspViolation, sessionName: string): ICspProblem {
+        const message = localize("CspViolationAtRuntime", "Blocked while debugging '{0}': {1}", sessionName, violation.text);
+        const policyTags = CspAnalyzer.getPolicyTags(new ConfigXmlDocument(indexHtml.text));
+
+        for (const { policy } of policyTags) {
+            const directive = violation.directive && policy.getEffectiveDirective(violation.directive);
+            if (directive) {
+                return CspAnalyzer.problem(indexHtml, directive.start, directive.end, message, CspProblemSeverity.Error);
+            }
+        }
+        const content = policyTags.length ? policyTags[0].content : null;
+        return content
+            ? CspAnalyzer.problem(indexHtml, content.valueStart, content.valueEnd, message, CspProblemSeverity.Error)
+            : CspAnalyzer.problem(indexHtml, 0, 0, message, CspProblemSeverity.Error);
+    }
+
+    private static analyzeIndexHtml(indexHtml: ICspFile, problems: ICspProblem[]): IPolicyTag[] {
+        const document = new ConfigXmlDocument(indexHtml.text);
+        const policyTags = CspAnalyzer.getPolicyTags(document);
+
+        if (!policyTags.length) {
+            const headTag = document.tags.find(tag => tag.name.toLowerCase() === "head");
+            const start = headTag ? headTag.start + 1 : 0;
+            problems.push(CspAnalyzer.problem(indexHtml, start, headTag ? headTag.nameEnd : 0, localize("CspIsMissing", "The page has no Content-Security-Policy <meta> tag, so the app is allowed to load scripts from any site"), CspProblemSeverity.Warning));
+        }
+
+        policyTags.forEach(({ policy, content }) => {
+            if (!policy.getDirective("default-src")) {
+                problems.push(CspAnalyzer.problem(indexHtml, content.valueStart, content.valueEnd, localize("DefaultSrcIsMissing", "The policy has no 'default-src' directive, so the resources without a directive are not restricted"), CspProblemSeverity.Warning));
+            }
+            policy.directives.forEach((directive) => {
+                CspAnalyzer.validateDirective(indexHtml, policy, directive, problems);
+            });
+        });
+
+        return policyTags;
+    }
+
+    private static validateDirective(indexHtml: ICspFile, policy: ContentSecurityPolicy, directive: ICspDirective, problems: ICspProblem[]): void {
+        const addProblem = (start: number, end: number, message: string) => problems.push(CspAnalyzer.problem(indexHtml, start, end, message, CspProblemSeverity.Warning));
+
+        if (ContentSecurityPolicy.HEADER_ONLY_DIRECTIVES.indexOf(directive.name) >= 0) {
+            addProblem(directive.start, directive.end, localize("CspDirectiveIsIgnoredInMeta", "The '{0}' directive is ignored when the policy is set by a <meta> tag", directive.name));
+            return;
+        }
+        if (ContentSecurityPolicy.FETCH_DIRECTIVES.indexOf(directive.name) < 0 && ContentSecurityPolicy.OTHER_DIRECTIVES.indexOf(directive.name) < 0) {
+            addProblem(directive.start, directive.end, localize("UnknownCspDirective", "Unknown Content-Security-Policy directive '{0}'", directive.name));
+            return;
+        }
+        if (policy.getDirective(directive.name) !== directive) {
+            addProblem(directive.start, directive.end, localize("RepeatedCspDirective", "The '{0}' directive is repeated, so the webview ignores it", directive.name));
+            return;
+        }
+
+        // "default-src" restricts the scripts only if there is no "script-src" directive
+        const restrictsScripts = CspAnalyzer.SCRIPT_DIRECTIVES.indexOf(directive.name) >= 0
+            || (directive.name === "default-src" && !policy.getDirective("script-src"));
+
+        directive.sources.forEach((source) => {
+            const value = source.value.toLowerCase();
+            if (restrictsScripts && value === "'unsafe-eval'") {
+                addProblem(source.start, source.end, localize("UnsafeEvalIsAllowed", "'unsafe-eval' allows the app to run the code created from strings by eval() and similar functions"));
+            } else if (restrictsScripts && value === "'unsafe-inline'") {
+                addProblem(source.start, source.end, localize("UnsafeInlineIsAllowed", "'unsafe-inline' allows inline scripts and event handlers, so injected markup is able to run code in the app"));
+            } else if (
+                (CspAnalyzer.SENSITIVE_DIRECTIVES.indexOf(directive.name) >= 0 && CspAnalyzer.BROAD_SOURCES.indexOf(value) >= 0)
+                || (restrictsScripts && CspAnalyzer.BROAD_SCRIPT_SOURCES.indexOf(value) >= 0)
+            ) {
+                addProblem(source.start, source.end, localize("CspSourceIsTooBroad", "The source '{0}' of the '{1}' directive allows the resources of any site", source.value, directive.name));
+            } else if (/^(?:http|ws):\/\//.test(value)) {
+                addProblem(source.start, source.end, localize("CspSourceIsInsecure", "The source '{0}' allows unencrypted connections", source.value));
+            }
+        });
+    }
+
+    /**
+     * Reports the broad rules of config.xml and returns its <access> elements
+     */
+    private static analyzeConfigXml(configXml: ICspFile, problems: ICspProblem[]): IAccessRules {
+        const document = new ConfigXmlDocument(configXml.text);
+        const accessTags: IXmlTag[] = [];
+
+        document.tags.forEach((tag) => {
+            if (["access", "allow-navigation", "allow-intent"].indexOf(tag.name) < 0) {
+                return;
+            }
+            const attribute = document.getAttribute(tag, tag.name === "access" ? "origin" : "href");
+            if (!attribute) {
+                return;
+            }
+            const isAnySite = CspAnalyzer.ANY_SITE_PATTERN_REGEX.test(attribute.value);
+            const addProblem = (message: string) => problems.push(CspAnalyzer.problem(configXml, attribute.valueStart, attribute.valueEnd, message, CspProblemSeverity.Warning));
+
+            switch (tag.name) {
+                case "access":
+                    accessTags.push(tag);
+                    if (isAnySite) {
+                        addProblem(localize("AccessIsTooBroad", "The app is allowed to send requests to any site. Consider listing the hosts the app uses"));
+                    }
+                    break;
+                case "allow-navigation":
+                    if (isAnySite || attribute.value === "*://*/*") {
+                        addProblem(localize("AllowNavigationIsTooBroad", "The webview is allowed to navigate to any site, and the pages of the site get access to the plugins of the app"));
+                    }
+                    break;
+                case "allow-intent":
+                    if (attribute.value === "*") {
+                        addProblem(localize("AllowIntentIsTooBroad", "The app is allowed to open the urls of any scheme in other apps"));
+                    }
+                    return;
+            }
+            if (/^http:\/\/(?!\*\/)/i.test(attribute.value)) {
+                addProblem(localize("ConfigXmlRuleIsInsecure", "The rule '{0}' allows unencrypted connections", attribute.value));
+            }
+        });
+
+        return { document, accessTags };
+    }
+
+    private static getPolicyTags(document: ConfigXmlDocument): IPolicyTag[] {
+        const policyTags: IPolicyTag[] = [];
+        document.tags
+            .filter(tag => tag.name.toLowerCase() === "meta")
+            .forEach((tag) => {
+                const httpEquiv = CspAnalyzer.getHtmlAttribute(tag, "http-equiv");
+                const content = CspAnalyzer.getHtmlAttribute(tag, "content");
+                if (httpEquiv && content && httpEquiv.value.toLowerCase() === "content-security-policy") {
+                    policyTags.push({ policy: new ContentSecurityPolicy(content.value, content.valueStart), content });
+                }
+            });
+        return policyTags;
+    }
+
+    private static getPageUrlReferences(indexHtml: ICspFile): IRemoteUrlReference[] {
+        const references: IRemoteUrlReference[] = [];
+        new ConfigXmlDocument(indexHtml.text).tags.forEach((tag) => {
+            const tagName = tag.name.toLowerCase();
+            let directive = CspAnalyzer.RESOURCE_DIRECTIVES[tagName];
+            let attribute = CspAnalyzer.getHtmlAttribute(tag, "src");
+            if (tagName === "link") {
+                const rel = CspAnalyzer.getHtmlAttribute(tag, "rel");
+                directive = rel && rel.value.toLowerCase() === "stylesheet" ? "style-src-elem" : "";
+                attribute = CspAnalyzer.getHtmlAttribute(tag, "href");
+            }
+            if (directive && attribute && CspAnalyzer.isRemoteUrl(attribute.value)) {
+                references.push({ file: indexHtml, url: attribute.value, start: attribute.valueStart, directive });
+            }
+        });
+        return references;
+    }
+
+    private static getScriptUrlReferences(script: ICspFile): IRemoteUrlReference[] {
+        const references: IRemoteUrlReference[] = [];
+        const urlRegex = new RegExp(CspAnalyzer.SCRIPT_URL_REGEX.source, "g");
+        let match: RegExpExecArray | null;
+        while ((match = urlRegex.exec(script.text)) !== null) {
+            const scriptUrl = match[2];
+            if (CspAnalyzer.isRemoteUrl(scriptUrl)) {
+                references.push({ file: script, url: scriptUrl, start: match.index + 1, directive: "connect-src" });
+            }
+        }
+        return references;
+    }
+
+    private static isRemoteUrl(value: string): boolean {
+        const parsedUrl = url.parse(value);
+        // The urls built from the template literals have no valid host
+        return /^(?:https?|wss?):$/i.test(parsedUrl.protocol || "")
+            && !!parsedUrl.hostname
+            && /^[\w.-]+$/.test(parsedUrl.hostname)
+            && CspAnalyzer.IGNORED_HOSTS.indexOf(parsedUrl.hostname) < 0;
+    }
+
+    /**
+     * Matches a url to the "origin" of an <access> element the way the allow list of Cordova does
+     */
+    private static matchesAccessOrigin(document: ConfigXmlDocument, tag: IXmlTag, remoteUrl: string): boolean {
+        const origin = document.getAttributeValue(tag, "origin") || "";
+        if (origin === "*") {
+            return true;
+        }
+        const match = /^(?:([a-z*][a-z0-9+.*-]*):\/\/)?([^\/:]*)/i.exec(origin);
+        const parsedUrl = url.parse(remoteUrl);
+        if (!match || !match[2]) {
+            return false;
+        }
+
+        const [, scheme, host] = match;
+        const protocol = (parsedUrl.protocol || "").toLowerCase();
+        if (scheme && scheme !== "*" && `${scheme.toLowerCase()}:` !== protocol) {
+            return false;
+        }
+
+        const hostname = (parsedUrl.hostname || "").toLowerCase();
+        const originHost = host.toLowerCase();
+        if (originHost === "*") {
+            return true;
+        }
+        if (originHost.startsWith("*.")) {
+            return hostname === originHost.substr(2) || hostname.endsWith(originHost.substr(1));
+        }
+        return hostname === originHost
+            || (document.getAttributeValue(tag, "subdomains") === "true" && hostname.endsWith(`.${originHost}`));
+    }
+
+    // HTML attribute names are case insensitive unlike the ones of config.xml
+    private static getHtmlAttribute(tag: IXmlTag, name: string): IXmlAttribute | undefined {
+        return tag.attributes.find(attribute => attribute.name.toLowerCase() === name);
+    }
+
+    private static problem(file: ICspFile, start: number, end: number, message: string, severity: CspProblemSeverity): ICspProblem {
+        return { path: file.path, start, end, message, severity };
+    }
+}
@@ -0,0 +1,360 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { ApplicationCDPClient } from "../../debugger/cdp-proxy/applicationCDPClient";
+import { CDP_API_NAMES } from "../../debugger/cdp-proxy/CDPMessageHandlers/CDPAPINames";
+import { CordovaProjectHelper } from "../../utils/cordovaProjectHelper";
+import { CspAnalyzer, CspProblemSeverity, ICspFile, ICspProblem, ICspViolation } from "./cspAnalyzer";
+
+interface IRuntimeViolation {
+    sessionName: string;
+    violation: ICspViolation;
+}
+
+interface IProjectFiles {
+    indexHtml: ICspFile | null;
+    configXml: ICspFile | null;
+    scripts: Map<string, ICspFile>;
+}
+
+/**
+ * Reports the problems of the Content-Security-Policy of www/index.html and the network rules of config.xml
+ * for the Cordova projects of the workspace, together with the violations of the policy reported by the debugged apps
+ */
+export class CspDiagnosticsProvider implements vscode.Disposable {
+    private static readonly ANALYSIS_DELAY = 500;
+    private static readonly MAX_SCRIPTS_COUNT = 200;
+    private static readonly MAX_SCRIPT_SIZE = 512 * 1024;
+    // The files of Cordova, the plugins and the libraries don't call the hosts of the app
+    private static readonly IGNORED_SCRIPT_PATHS: string[] = ["cordova.js", "cordova_plugins.js", "plugins", "lib", "node_modules"];
+    private static readonly ANALYZED_EXTENSIONS: string[] = [".html", ".js"];
+
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private disposables: vscode.Disposable[] = [];
+    private reportedFiles = new Map<string, string[]>();
+    private runtimeViolations = new Map<string, IRuntimeViolation[]>();
+    private pendingAnalyses = new Map<string, NodeJS.Timeout>();
+    private clientSubscriptions = new Map<ApplicationCDPClient, vscode.Disposable[]>();
+    // The files of the projects are read once, and then only the changed files are read again
+    private projectFiles = new Map<string, IProjectFiles>();
+    private changedFiles = new Map<string, Set<string>>();
+    // The roots are found again only if the workspace folders or their config.xml files are changed
+    private projectRoots: string[] | null = null;
+    // The analyses run one by one, so the files of a project aren't read by two analyses at once
+    private analysisQueue: Promise<void> = Promise.resolve();
+    private isDisposed: boolean = false;
+
+    constructor() {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection("cordova-csp");
+        const watcher = vscode.workspace.createFileSystemWatcher("**/{config.xml,www/**/*.html,www/**/*.js}");
+        this.disposables.push(
+            this.diagnosticCollection,
+            watcher,
+            watcher.onDidChange(uri => this.scheduleFileAnalysis(uri.fsPath)),
+            watcher.onDidCreate(uri => this.onDidCreateOrDeleteFile(uri.fsPath)),
+            watcher.onDidDelete(uri => this.onDidCreateOrDeleteFile(uri.fsPath)),
+            vscode.workspace.onDidChangeTextDocument(event => this.onDidChangeDocument(event.document)),
+            // The closed document might be not saved, so the file is read again
+            vscode.workspace.onDidCloseTextDocument(document => this.onDidChangeDocument(document)),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this.projectRoots = null;
+                this.analyzeAll();
+            }),
+            ApplicationCDPClient.onDidChangeClients(() => this.subscribeToClients())
+        );
+        this.analyzeAll();
+        this.subscribeToClients();
+    }
+
+    public dispose(): void {
+        this.isDisposed = true;
+        this.pendingAnalyses.forEach(timeout => clearTimeout(timeout));
+        this.pendingAnalyses.clear();
+        this.clientSubscriptions.forEach(subscriptions => subscriptions.forEach(subscription => subscription.dispose()));
+        this.clientSubscriptions.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private analyzeAll(): void {
+        const analyzedProjects = Array.from(this.projectFiles.keys());
+        const projectRoots = this.getProjectRoots();
+        analyzedProjects
+            .filter(projectRoot => projectRoots.indexOf(projectRoot) < 0)
+            .forEach((projectRoot) => {
+                this.clearProject(projectRoot);
+                this.projectFiles.delete(projectRoot);
+                this.changedFiles.delete(projectRoot);
+            });
+        projectRoots
+            .filter(projectRoot => !this.projectFiles.has(projectRoot))
+            .forEach(projectRoot => this.analyze(projectRoot));
+    }
+
+    private analyze(projectRoot: string): void {
+        this.analysisQueue = this.analysisQueue
+            .then(() => this.isDisposed ? null : this.loadProjectFiles(projectRoot))
+            .then((files) => {
+                if (files && !this.isDisposed && this.getProjectRoots().indexOf(projectRoot) >= 0) {
+                    this.report(projectRoot, files);
+                }
+            })
+            .catch(() => {
+                // The files of the project are read again by the next analysis
+                this.projectFiles.delete(projectRoot);
+            });
+    }
+
+    private report(projectRoot: string, files: IProjectFiles): void {
+        const indexHtml = files.indexHtml;
+        const configXml = files.configXml;
+        const scripts = Array.from(files.scripts.values());
+
+        const problems = CspAnalyzer.analyze({ indexHtml, configXml, scripts });
+        if (indexHtml) {
+            (this.runtimeViolations.get(projectRoot) || [])
+                .forEach(({ sessionName, violation }) => problems.push(CspAnalyzer.getViolationProblem(indexHtml, violation, sessionName)));
+        }
+
+        this.clearProject(projectRoot);
+        const problemsByFile = new Map<string, ICspProblem[]>();
+        problems.forEach((problem) => {
+            problemsByFile.set(problem.path, (problemsByFile.get(problem.path) || []).concat(problem));
+        });
+        const allFiles = scripts.concat(indexHtml || [], configXml || []);
+        problemsByFile.forEach((fileProblems, filePath) => {
+            const file = allFiles.find(file => file.path === filePath);
+            const text = file ? file.text : "";
+            this.diagnosticCollection.set(vscode.Uri.file(filePath), fileProblems.map(problem => this.createDiagnostic(text, problem)));
+        });
+        this.reportedFiles.set(projectRoot, Array.from(problemsByFile.keys()));
+    }
+
+    private clearProject(projectRoot: string): void {
+        (this.reportedFiles.get(projectRoot) || []).forEach(filePath => this.diagnosticCollection.delete(vscode.Uri.file(filePath)));
+        this.reportedFiles.delete(projectRoot);
+    }
+
+    /**
+     * Reads all the files of the project for the first analysis, and the changed files for the following ones
+     */
+    private loadProjectFiles(projectRoot: string): Promise<IProjectFiles> {
+        const files = this.projectFiles.get(projectRoot);
+        const changedFiles = this.changedFiles.get(projectRoot);
+        this.changedFiles.delete(projectRoot);
+        if (!files) {
+            return this.readProjectFiles(projectRoot);
+        }
+        if (!changedFiles) {
+            return Promise.resolve(files);
+        }
+        return Promise.all(Array.from(changedFiles).map(filePath => this.updateProjectFile(projectRoot, files, filePath)))
+            .then(() => files);
+    }
+
+    private readProjectFiles(projectRoot: string): Promise<IProjectFiles> {
+        const wwwRoot = path.join(projectRoot, "www");
+        return Promise.all([
+            this.readFile(path.join(wwwRoot, "index.html")),
+            this.readFile(path.join(projectRoot, "config.xml")),
+            this.findScripts(wwwRoot).then(scriptPaths => Promise.all(scriptPaths.map(scriptPath => this.readFile(scriptPath)))),
+        ])
+            .then(([indexHtml, configXml, scripts]) => {
+                const files: IProjectFiles = { indexHtml, configXml, scripts: new Map<string, ICspFile>() };
+                scripts.forEach((script) => {
+                    if (script) {
+                        files.scripts.set(script.path, script);
+                    }
+                });
+                this.projectFiles.set(projectRoot, files);
+                return files;
+            });
+    }
+
+    private updateProjectFile(projectRoot: string, files: IProjectFiles, filePath: string): Promise<void> {
+        const wwwRoot = path.join(projectRoot, "www");
+        if (filePath === path.join(wwwRoot, "index.html")) {
+            return this.readFile(filePath).then((indexHtml) => { files.indexHtml = indexHtml; });
+        }
+        if (filePath === path.join(projectRoot, "config.xml")) {
+            return this.readFile(filePath).then((configXml) => { files.configXml = configXml; });
+        }
+
+        return fs.promises.stat(filePath)
+            .then((stats) => {
+                const isAnalyzedScript = stats.isFile()
+                    && CspDiagnosticsProvider.isScriptPath(wwwRoot, filePath)
+                    && stats.size <= CspDiagnosticsProvider.MAX_SCRIPT_SIZE
+                    && (files.scripts.has(filePath) || files.scripts.size < CspDiagnosticsProvider.MAX_SCRIPTS_COUNT);
+                return isAnalyzedScript ? this.readFile(filePath) : null;
+            }, () => {
+                // The scripts of a deleted folder are removed as well
+                Array.from(files.scripts.keys())
+                    .filter(scriptPath => CordovaProjectHelper.checkPathBelongsToHierarchy(filePath, scriptPath))
+                    .forEach(scriptPath => files.scripts.delete(scriptPath));
+                return null;
+            })
+            .then((script) => {
+                if (script) {
+                    files.scripts.set(filePath, script);
+                } else {
+                    files.scripts.delete(filePath);
+                }
+            });
+    }
+
+    /**
+     * The documents are changed on every keystroke, so only the analyzed files are looked up among the projects
+     */
+    private onDidChangeDocument(document: vscode.TextDocument): void {
+        const filePath = document.uri.fsPath;
+        if (document.uri.scheme === "file"
+            && (path.basename(filePath) === "config.xml" || CspDiagnosticsProvider.ANALYZED_EXTENSIONS.indexOf(path.extname(filePath)) >= 0)) {
+            this.scheduleFileAnalysis(filePath);
+        }
+    }
+
+    private onDidCreateOrDeleteFile(filePath: string): void {
+        // A workspace folder becomes a Cordova project or stops being one
+        if (path.basename(filePath) === "config.xml"
+            && (vscode.workspace.workspaceFolders || []).some(folder => folder.uri.scheme === "file" && path.dirname(filePath) === folder.uri.fsPath)) {
+            this.projectRoots = null;
+            this.analyzeAll();
+        }
+        this.scheduleFileAnalysis(filePath);
+    }
+
+    private scheduleFileAnalysis(filePath: string): void {
+        const projectRoot = this.getProjectRoots().find(projectRoot =>
+            filePath === path.join(projectRoot, "config.xml")
+            || CordovaProjectHelper.checkPathBelongsToHierarchy(path.join(projectRoot, "www"), filePath)
+        );
+        if (projectRoot) {
+            const changedFiles = this.changedFiles.get(projectRoot) || new Set<string>();
+            this.changedFiles.set(projectRoot, changedFiles.add(filePath));
+            this.scheduleAnalysis(projectRoot);
+        }
+    }
+
+    private scheduleAnalysis(projectRoot: string): void {
+        const pendingAnalysis = this.pendingAnalyses.get(projectRoot);
+        if (pendingAnalysis) {
+            clearTimeout(pendingAnalysis);
+        }
+        this.pendingAnalyses.set(projectRoot, setTimeout(() => {
+            this.pendingAnalyses.delete(projectRoot);
+            this.analyze(projectRoot);
+        }, CspDiagnosticsProvider.ANALYSIS_DELAY));
+    }
+
+    private subscribeToClients(): void {
+        ApplicationCDPClient.getClients()
+            .filter(client => !this.clientSubscriptions.has(client))
+            .forEach((client) => {
+                // The violations of the previous runs of the app might be fixed already
+                this.runtimeViolations.delete(client.projectRoot);
+                this.clientSubscriptions.set(client, [
+                    client.onEvent(event => this.onApplicationEvent(client, event)),
+                    client.onClose(() => {
+                        (this.clientSubscriptions.get(client) || []).forEach(subscription => subscription.dispose());
+                        this.clientSubscriptions.delete(client);
+                    }),
+                ]);
+                this.scheduleAnalysis(client.projectRoot);
+            });
+    }
+
+    /**
+     * The violations are reported to the console of the webview, which is enabled by the debugger
+     */
+    private onApplicationEvent(client: ApplicationCDPClient, event: IProtocolCommand): void {
+        const params: any = event.params || {};
+        let text: string | undefined;
+        if (event.method === CDP_API_NAMES.LOG_ENTRY_ADDED && params.entry) {
+            text = params.entry.text;
+        } else if (event.method === CDP_API_NAMES.CONSOLE_MESSAGE_ADDED && params.message) {
+            text = params.message.text;
+        }
+
+        const violation = text && CspAnalyzer.parseViolation(text);
+        if (!violation) {
+            return;
+        }
+        const violations = this.runtimeViolations.get(client.projectRoot) || [];
+        if (!violations.some(runtimeViolation => runtimeViolation.violation.text === violation.text)) {
+            violations.push({ sessionName: client.sessionName, violation });
+            this.runtimeViolations.set(client.projectRoot, violations);
+            this.scheduleAnalysis(client.projectRoot);
+        }
+    }
+
+    private getProjectRoots(): string[] {
+        if (!this.projectRoots) {
+            this.projectRoots = (vscode.workspace.workspaceFolders || [])
+                .filter(folder => folder.uri.scheme === "file")
+                .map(folder => folder.uri.fsPath)
+                .filter(folderPath => CordovaProjectHelper.isCordovaProject(folderPath));
+        }
+        return this.projectRoots;
+    }
+
+    private static isScriptPath(wwwRoot: string, filePath: string): boolean {
+        return filePath.endsWith(".js")
+            && !filePath.endsWith(".min.js")
+            && !path.relative(wwwRoot, filePath).split(path.sep).some(name => CspDiagnosticsProvider.IGNORED_SCRIPT_PATHS.indexOf(name) >= 0);
+    }
+
+    private findScripts(directory: string, scripts: string[] = []): Promise<string[]> {
+        return fs.promises.readdir(directory, { withFileTypes: true })
+            .catch((): fs.Dirent[] => [])
+            .then(entries => entries.reduce((previousEntries, entry) => previousEntries.then(() => {
+                const entryPath = path.join(directory, entry.name);
+                if (scripts.length >= CspDiagnosticsProvider.MAX_SCRIPTS_COUNT || CspDiagnosticsProvider.IGNORED_SCRIPT_PATHS.indexOf(entry.name) >= 0) {
+                    return;
+                }
+                if (entry.isDirectory()) {
+                    return this.findScripts(entryPath, scripts).then(() => undefined);
+                }
+                if (entry.name.endsWith(".js") && !entry.name.endsWith(".min.js")) {
+                    return fs.promises.stat(entryPath)
+                        .then((stats) => {
+                            if (stats.size <= CspDiagnosticsProvider.MAX_SCRIPT_SIZE && scripts.length < CspDiagnosticsProvider.MAX_SCRIPTS_COUNT) {
+                                scripts.push(entryPath);
+                            }
+                        }, () => undefined);
+                }
+                return;
+            }), Promise.resolve()))
+            .then(() => scripts);
+    }
+
+    /**
+     * Reads the text of the opened document if the file is being edited
+     */
+    private readFile(filePath: string): Promise<ICspFile | null> {
+        const document = vscode.workspace.textDocuments.find(document => document.uri.scheme === "file" && document.uri.fsPath === filePath);
+        if (document) {
+            return Promise.resolve({ path: filePath, text: document.getText() });
+        }
+        return fs.promises.readFile(filePath, "utf8")
+            .then(text => ({ path: filePath, text }), () => null);
+    }
+
+    private createDiagnostic(text: string, problem: ICspProblem): vscode.Diagnostic {
+        const range = new vscode.Range(CspDiagnosticsProvider.positionAt(text, problem.start), CspDiagnosticsProvider.positionAt(text, problem.end));
+        const severity = problem.severity === CspProblemSeverity.Error ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+        const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+        diagnostic.source = "cordova";
+        return diagnostic;
+    }
+
+    // The files with the problems might be not opened, so the offsets are converted without a TextDocument
+    private static positionAt(text: string, offset: number): vscode.Position {
+        const lines = text.substring(0, offset).split(/\r\n|\r|\n/);
+        return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+    }
+}
@@ -1,200 +1,112 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license. See LICENSE file in the project root for details.
 
+import * as path from "path";
 import * as vscode from "vscode";
 import { TelemetryHelper } from "../utils/telemetryHelper";
 import { Telemetry } from "../utils/telemetry";
+import { CordovaProjectHelper } from "../utils/cordovaProjectHelper";
+import { DebugConfigurationValidator, IDebugConfigurationProblem } from "./debugConfigurationValidator";
+import { DebugConfigurationWizard } from "./debugConfigurationWizard";
+import { EnvironmentProfiles } from "./environmentProfiles";
 import * as nls from "vscode-nls";
 nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
 const localize = nls.loadMessageBundle();
 
-export class CordovaDebugConfigProvider implements vscode.DebugConfigurationProvider {
-    private debugConfigurations = {
-        "Run Android on emulator": {
-            "name": "Run Android on emulator",
-            "type": "cordova",
-            "request": "launch",
-            "platform": "android",
-            "target": "emulator",
-            "port": 9222,
-            "sourceMaps": true,
-            "cwd": "${workspaceFolder}",
-        },
-        "Attach to running Android on emulator": {
-            "name": "Attach to running Android on emulator",
-            "type": "cordova",
-            "request": "attach",
-            "platform": "android",
-            "target": "emulator",
-            "port": 9222,
-            "sourceMaps": true,
-            "cwd": "${workspaceFolder}",
-        },
-        "Run Android on device": {
-            "name": "Run Android on device",
-            "type": "cordova",
-            "request": "launch",
-            "platform": "android",
-            "target": "device",
-            "port": 9222,
-            "sourceMaps": true,
-            "cwd": "${workspaceFolder}",
-        },
-        "Attach to running Android on device": {
-            "name": "Attach to running Android on device",
-            "type": "cordova",
-            "request": "attach",
-            "platform": "android",
-            "target": "device",
-            "port": 9222,
-            "sourceMaps": true,
-            "cwd": "${workspaceFolder}",
-        },
-        "Run iOS on device": {
-            "name": "Run iOS on device",
-            "type": "cordova",
-            "request": "launch",
-            "platform": "ios",
-            "target": "device",
-            "port": 9220,
-            "sourceMaps": true,
-            "cwd": "${workspaceFolder}",
-        },
-        "Attach to running iOS on device": {
-            "name": "Attach to running iOS on device",
-            "type": "cordova",
-            "request": "attach",
-            "platform": "ios",
-            "target": "device",
-            "port": 9220,
-            "sourceMaps": true,
-            "cwd": "${workspaceFolder}",
-        },
-        "Serve to the browser (Ionic Serve)": {
-            "name": "Serve to the browser (Ionic Serve)",
-            "type": "cordova",
-            "request": "launch",
-            "platform": "serve",
-            "target": "chrome",
-            "cwd": "${workspaceFolder}",
-            "devServerAddress": "localhost",
-            "sourceMaps": true,
-            "ionicLiveReload": true,
-        },
-        "Simulate Android in browser": {
-            "name": "Simulate Android in browser",
-            "type": "cordova",
-            "request": "launch",
-            "platform": "android",
-            "target": "chrome",
-            "simulatePort": 8000,
-            "livereload": true,
-            "sourceMaps": true,
-            "cwd": "${workspaceFolder}",
-        },
-        "Simulate iOS in browser": {
-            "name": "Simulate iOS in browser",
-            "type": "cordova",
-            "request": "launch",
-            "platform": "ios",
-            "target": "chrome",
-            "simulatePort": 8000,
-            "livereload": true,
-            "sourceMaps": true,
-            "cwd": "${workspaceFolder}",
-        },
-        "Run Browser": {
-            "name": "Run Browser",
-            "type": "cordova",
-            "request": "launch",
-            "platform": "browser",
-            "target": "chrome",
-            "simulatePort": 8000,
-            "livereload": true,
-            "sourceMaps": true,
-            "cwd": "${workspaceFolder}",
-        },
-    };
-
-    private pickConfig: ReadonlyArray<vscode.QuickPickItem> = [
-        {
-            label: "Run Android on emulator",
-            description: localize("RunAndDebugCordovaAppOnAndroidEmulator", "Run and debug Cordova app on Android emulator"),
-        },
-        {
-            label: "Attach to running Android on emulator",
-            description: localize("AttachToRunningCordovaAppOnAndroidEmulator", "Attach to running Cordova app on Android emulator"),
-        },
-        {
-            label: "Run Android on device",
-            description: localize("RunAndDebugCordovaAppOnAndroidDevice", "Run and debug Cordova app on Android device"),
-        },
-        {
-            label: "Attach to running Android on device",
-            description: localize("AttachToRunningCordovaAppOnAndroidDevice", "Attach to running Cordova app on Android device"),
-        },
-        {
-            label: "Run iOS on device",
-            description: localize("RunAndDebugCordovaAppOniOSDevice", "Run and debug Cordova app on iOS device"),
-        },
-        {
-            label: "Attach to running iOS on device",
-            description: localize("AttachToRunningCordovaAppOniOSDevice", "Attach to running Cordova app on iOS device"),
-        },
-        {
-            label: "Serve to the browser (Ionic Serve)",
-            description: localize("ServeToTheBrowser", "Serve to the browser (currently supported only for Ionic)"),
-        },
-        {
-            label: "Simulate Android in browser",
-            description: localize("SimulateCordovaAndroidAppInBrowser", "Simulate Cordova Android application in browser"),
-        },
-        {
-            label: "Simulate iOS in browser",
-            description: localize("SimulateCordovaiOSAppInBrowser", "Simulate Cordova iOS application in browser"),
-        },
-        {
-            label: "Run Browser",
-            description: localize("RunAndDebugCordovaAppInBrowser", "Run and debug Cordova application in browser"),
-        },
+export class CordovaDebugConfigProvider implements vscode.DebugConfigurationProvider, vscode.Disposable {
+    private diagnosticCollection: vscode.DiagnosticCollection = vscode.languages.createDiagnosticCollection("cordova-launch-json");
+    private disposables: vscode.Disposable[] = [
+        this.diagnosticCollection,
+        // The problems are reported again on the next launch, so they are cleared once launch.json is edited
+        vscode.workspace.onDidChangeTextDocument(event => this.diagnosticCollection.delete(event.document.uri)),
     ];
 
-    public async provideDebugConfigurations(folder: vscode.WorkspaceFolder | undefined, token?: vscode.CancellationToken): Promise<vscode.DebugConfiguration[]> {
-        return new Promise<vscode.DebugConfiguration[]>((resolve) => {
-            const configPicker = this.prepareDebugConfigPicker();
-            const disposables: vscode.Disposable[] = [];
-            const pickHandler = () => {
+    /**
+     * Creates the configurations for the scenarios chosen in the wizard, which is based on the platforms, the Ionic version and the Android targets of the project
+     */
+    public provideDebugConfigurations(folder: vscode.WorkspaceFolder | undefined, token?: vscode.CancellationToken): Promise<vscode.DebugConfiguration[]> {
+        const workspaceFolder = folder || (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0]);
+        const projectRoot = workspaceFolder && workspaceFolder.uri.fsPath;
+        const wizard = new DebugConfigurationWizard(projectRoot, DebugConfigurationWizard.detectEnvironment(projectRoot));
+
+        return wizard.run()
+            .then((configurations) => {
                 let chosenConfigsEvent = TelemetryHelper.createTelemetryEvent("chosenDebugConfigurations");
-                let selected: string[] = configPicker.selectedItems.map(element => element.label);
-                chosenConfigsEvent.properties["selectedItems"] = selected;
+                chosenConfigsEvent.properties["selectedItems"] = configurations.map(configuration => configuration.name);
                 Telemetry.send(chosenConfigsEvent);
-                const launchConfig = this.gatherDebugScenarios(selected);
-                disposables.forEach(d => d.dispose());
-                resolve(launchConfig);
-            };
+                return configurations;
+            });
+    }
+
+    /**
+     * Validates the configuration before the debug session is started and reports all the problems in launch.json
+     */
+    public resolveDebugConfiguration(folder: vscode.WorkspaceFolder | undefined, debugConfiguration: vscode.DebugConfiguration): vscode.ProviderResult<vscode.DebugConfiguration> {
+        // There is no launch.json yet, or the configuration is the one of a target of a multi-target launch, which is already validated
+        if (!debugConfiguration.type || debugConfiguration.parentCordovaSessionId) {
+            return debugConfiguration;
+        }
 
-            disposables.push(
-                configPicker.onDidAccept(pickHandler),
-                configPicker.onDidHide(pickHandler),
-                configPicker
-            );
+        const projectRoot = DebugConfigurationValidator.getProjectRoot(debugConfiguration, folder && folder.uri.fsPath);
+        if (projectRoot && CordovaProjectHelper.isCordovaProject(projectRoot)) {
+            EnvironmentProfiles.applyToDebugConfiguration(debugConfiguration, projectRoot);
+        }
 
-            configPicker.show();
+        const problems = DebugConfigurationValidator.validate(debugConfiguration, folder && folder.uri.fsPath);
+        const launchJsonUri = folder && vscode.Uri.file(path.join(folder.uri.fsPath, ".vscode", "launch.json"));
+        if (launchJsonUri) {
+            this.diagnosticCollection.delete(launchJsonUri);
+        }
+        if (!problems.length) {
+            return debugConfiguration;
+        }
+
+        let invalidConfigEvent = TelemetryHelper.createTelemetryEvent("invalidDebugConfiguration");
+        invalidConfigEvent.properties["properties"] = problems.map(problem => problem.property);
+        Telemetry.send(invalidConfigEvent);
+
+        const message = localize("DebugConfigurationIsInvalid", "The debug configuration '{0}' is invalid: {1}", debugConfiguration.name, problems.map(problem => problem.message).join("; "));
+        if (!launchJsonUri) {
+            vscode.window.showErrorMessage(message);
+            return undefined;
+        }
+
+        const openLaunchJson = localize("OpenLaunchJson", "Open launch.json");
+        return new Promise<undefined>((resolve) => {
+            vscode.workspace.openTextDocument(launchJsonUri)
+                .then((document) => {
+                    const diagnostics = this.createDiagnostics(document, debugConfiguration.name, problems);
+                    this.diagnosticCollection.set(launchJsonUri, diagnostics);
+                    resolve();
+                    return vscode.window.showErrorMessage(message, openLaunchJson)
+                        .then((selection) => {
+                            if (selection === openLaunchJson) {
+                                return vscode.window.showTextDocument(document, { selection: diagnostics[0].range });
+                            }
+                            return undefined;
+                        });
+                }, () => {
+                    // The configuration is defined in the workspace file or the settings
+                    resolve();
+                    vscode.window.showErrorMessage(message);
+                });
         });
     }
 
-    private gatherDebugScenarios(selectedItems: string[]): vscode.DebugConfiguration[] {
-        let launchConfig: vscode.DebugConfiguration[] = selectedItems.map(element => this.debugConfigurations[element]);
-        return launchConfig;
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
     }
 
-    private prepareDebugConfigPicker(): vscode.QuickPick<vscode.QuickPickItem> {
-        const debugConfigPicker = vscode.window.createQuickPick();
-        debugConfigPicker.canSelectMany = true;
-        debugConfigPicker.ignoreFocusOut = true;
-        debugConfigPicker.title = localize("PickDebugConfigurations", "Pick debug configurations");
-        debugConfigPicker.items = this.pickConfig;
-        debugConfigPicker.selectedItems = [this.pickConfig[0]]; // the scenario "Run Android on emulator" is selected by default
-        return debugConfigPicker;
+    private createDiagnostics(document: vscode.TextDocument, configurationName: string, problems: IDebugConfigurationProblem[]): vscode.Diagnostic[] {
+        return problems.map((problem) => {
+            const propertyRange = DebugConfigurationValidator.findPropertyRange(document.getText(), configurationName, problem.property);
+            const range = propertyRange
+                ? new vscode.Range(document.positionAt(propertyRange.start), document.positionAt(propertyRange.end))
+                : new vscode.Range(0, 0, 0, 0);
+            const diagnostic = new vscode.Diagnostic(range, problem.message, vscode.DiagnosticSeverity.Error);
+            diagnostic.source = "cordova";
+            return diagnostic;
+        });
     }
 }
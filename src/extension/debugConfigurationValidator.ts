@@ -0,0 +1,318 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as os from "os";
+import * as path from "path";
+import { PlatformType, TargetType } from "../debugger/cordovaDebugSession";
+import { CordovaProjectHelper } from "../utils/cordovaProjectHelper";
+import { SimulateHelper } from "../utils/simulateHelper";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+type PropertyType = "string" | "number" | "boolean" | "object" | "array";
+
+export interface IDebugConfigurationProblem {
+    property: string;
+    message: string;
+}
+
+export interface ITextRange {
+    start: number;
+    end: number;
+}
+
+interface IJsonKey extends ITextRange {
+    name: string;
+    value?: string;
+    objectStart: number;
+}
+
+/**
+ * Checks the properties of a Cordova debug configuration before the debug session is started,
+ * so all the mistakes are reported at once instead of failing somewhere in the middle of the launch
+ */
+export class DebugConfigurationValidator {
+    private static PROPERTY_TYPES: Record<string, PropertyType> = {
+        cwd: "string",
+        platform: "string",
+        port: "number",
+        address: "string",
+        url: "string",
+        envFile: "string",
+        env: "object",
+        skipFiles: "array",
+        sourceMaps: "boolean",
+        sourceMapPathOverrides: "object",
+        platformSourceMapPathOverrides: "object",
+        pathMapping: "object",
+        webkitRangeMin: "number",
+        webkitRangeMax: "number",
+        attachAttempts: "number",
+        attachDelay: "number",
+        attachTimeout: "number",
+        runtimeVersion: "string",
+        cdpRecordingDirectory: "string",
+        cdpReplayFile: "string",
+        iOSVersion: "string",
+        iOSAppPackagePath: "string",
+        ionicLiveReload: "boolean",
+        devServerPort: "number",
+        devServerAddress: "string",
+        devServerTimeout: "number",
+        simulatePort: "number",
+        livereload: "boolean",
+        livereloadDelay: "number",
+        iosDebugProxyPort: "number",
+        forcePrepare: "boolean",
+        simulateTempDir: "string",
+        corsProxy: "boolean",
+        runArguments: "array",
+        runtimeArgs: "array",
+        runtimeExecutable: "string",
+        userDataDir: "string",
+        cordovaExecutable: "string",
+        spaUrlRewrites: "boolean",
+    };
+    // "devServerPort" accepts 0, so Ionic CLI picks a free port
+    private static PORT_PROPERTIES: string[] = ["port", "devServerPort", "webkitRangeMin", "webkitRangeMax", "simulatePort", "iosDebugProxyPort"];
+    private static NON_NEGATIVE_PROPERTIES: string[] = ["attachAttempts", "attachDelay", "attachTimeout", "devServerTimeout", "livereloadDelay"];
+    private static FILE_PROPERTIES: string[] = ["envFile", "cdpReplayFile"];
+    private static DEFAULT_WEBKIT_RANGE_MIN = 9223;
+    private static DEFAULT_WEBKIT_RANGE_MAX = 9322;
+
+    /**
+     * @param workspaceFolderPath - the folder the "${workspaceFolder}" variable of the configuration refers to
+     */
+    public static validate(configuration: Record<string, any>, workspaceFolderPath?: string): IDebugConfigurationProblem[] {
+        const problems: IDebugConfigurationProblem[] = [];
+        const addProblem = (property: string, message: string) => problems.push({ property, message });
+
+        Object.keys(DebugConfigurationValidator.PROPERTY_TYPES)
+            .filter(property => configuration[property] !== undefined && !DebugConfigurationValidator.hasType(configuration[property], DebugConfigurationValidator.PROPERTY_TYPES[property]))
+            .forEach(property => addProblem(property, localize("InvalidPropertyType", "The value of \"{0}\" must be of the '{1}' type", property, DebugConfigurationValidator.PROPERTY_TYPES[property])));
+
+        DebugConfigurationValidator.validatePorts(configuration, addProblem);
+        DebugConfigurationValidator.validateProject(configuration, workspaceFolderPath, addProblem);
+        DebugConfigurationValidator.validatePlatform(configuration, addProblem);
+
+        return problems;
+    }
+
+    /**
+     * Looks for a property of the configuration with the name in the text of launch.json
+     * @returns the range of the property name, or the range of the configuration name if the property is missing
+     */
+    public static findPropertyRange(launchJson: string, configurationName: string, property: string): ITextRange | undefined {
+        const keys = DebugConfigurationValidator.scanJsonKeys(launchJson);
+        const nameKey = keys.find(key => key.name === "name" && key.value === configurationName);
+        if (!nameKey) {
+            return undefined;
+        }
+        const propertyKey = keys.find(key => key.objectStart === nameKey.objectStart && key.name === property);
+        const range = propertyKey || nameKey;
+        return { start: range.start, end: range.end };
+    }
+
+    private static validatePorts(configuration: Record<string, any>, addProblem: (property: string, message: string) => void): void {
+        DebugConfigurationValidator.PORT_PROPERTIES
+            .filter(property => typeof configuration[property] === "number")
+            .forEach((property) => {
+                const value: number = configuration[property];
+                const minPort = property === "devServerPort" ? 0 : 1;
+                if (!Number.isInteger(value) || value < minPort || value > 65535) {
+                    addProblem(property, localize("PortIsOutOfRange", "The value of \"{0}\" must be an integer between {1} and 65535", property, minPort));
+                }
+            });
+        DebugConfigurationValidator.NON_NEGATIVE_PROPERTIES
+            .filter(property => typeof configuration[property] === "number" && configuration[property] < 0)
+            .forEach(property => addProblem(property, localize("ValueMustBeNonNegative", "The value of \"{0}\" must not be negative", property)));
+
+        const rangeMin = typeof configuration.webkitRangeMin === "number" ? configuration.webkitRangeMin : DebugConfigurationValidator.DEFAULT_WEBKIT_RANGE_MIN;
+        const rangeMax = typeof configuration.webkitRangeMax === "number" ? configuration.webkitRangeMax : DebugConfigurationValidator.DEFAULT_WEBKIT_RANGE_MAX;
+        if (rangeMin > rangeMax) {
+            addProblem(configuration.webkitRangeMin !== undefined ? "webkitRangeMin" : "webkitRangeMax", localize("InvalidWebkitRange", "\"webkitRangeMin\" ({0}) must not be greater than \"webkitRangeMax\" ({1})", rangeMin, rangeMax));
+        } else if (
+            DebugConfigurationValidator.getPlatform(configuration) === PlatformType.IOS
+            && typeof configuration.port === "number"
+            && configuration.port >= rangeMin && configuration.port <= rangeMax
+        ) {
+            // ios_webkit_debug_proxy lists the devices on "port" and assigns the ports of the range to the devices
+            addProblem("port", localize("PortIsInWebkitRange", "The port {0} of the device list overlaps the range of the device ports {1}-{2}", configuration.port, rangeMin, rangeMax));
+        }
+    }
+
+    /**
+     * Returns the absolute path of "cwd" of the configuration, or undefined if it can't be resolved before the launch
+     */
+    public static getProjectRoot(configuration: Record<string, any>, workspaceFolderPath?: string): string | undefined {
+        return typeof configuration.cwd === "string" ? DebugConfigurationValidator.resolvePath(configuration.cwd, workspaceFolderPath, workspaceFolderPath) : undefined;
+    }
+
+    private static validateProject(configuration: Record<string, any>, workspaceFolderPath: string | undefined, addProblem: (property: string, message: string) => void): void {
+        if (!configuration.cwd) {
+            addProblem("cwd", localize("CwdIsMissing", "\"cwd\" is required. Set it to the root of the Cordova project, e.g. \"${workspaceFolder}\""));
+            return;
+        }
+        const cwd = DebugConfigurationValidator.getProjectRoot(configuration, workspaceFolderPath);
+        if (!cwd) {
+            return;
+        }
+        if (!CordovaProjectHelper.isCordovaProject(cwd)) {
+            addProblem("cwd", localize("CwdIsNotCordovaProject", "\"cwd\" must point to the root of a Cordova project, but '{0}' has no config.xml", cwd));
+            return;
+        }
+
+        DebugConfigurationValidator.FILE_PROPERTIES
+            .filter(property => typeof configuration[property] === "string")
+            .forEach((property) => {
+                const filePath = DebugConfigurationValidator.resolvePath(configuration[property], workspaceFolderPath, cwd);
+                if (filePath && !CordovaProjectHelper.existsSync(filePath)) {
+                    addProblem(property, localize("FileDoesNotExist", "The file '{0}' of \"{1}\" does not exist", filePath, property));
+                }
+            });
+
+        const platform = DebugConfigurationValidator.getPlatform(configuration);
+        const isIonic = !!CordovaProjectHelper.determineIonicMajorVersion(cwd);
+        if (platform === PlatformType.Serve && !isIonic) {
+            addProblem("platform", localize("ServeRequiresIonicProject", "The \"serve\" platform is supported for Ionic projects only. Use the \"browser\" platform or a simulation target instead"));
+        }
+        if (configuration.ionicLiveReload === true && !isIonic) {
+            addProblem("ionicLiveReload", localize("IonicLiveReloadRequiresIonicProject", "\"ionicLiveReload\" is supported for Ionic projects only. Use \"livereload\" of the simulation targets instead"));
+        }
+    }
+
+    private static validatePlatform(configuration: Record<string, any>, addProblem: (property: string, message: string) => void): void {
+        if (typeof configuration.platform !== "string") {
+            if (configuration.platform === undefined) {
+                addProblem("platform", localize("PlatformIsMissing", "\"platform\" is required"));
+            }
+            return;
+        }
+
+        const platforms: string[] = Object.values(PlatformType);
+        const platform = DebugConfigurationValidator.getPlatform(configuration);
+        if (!DebugConfigurationValidator.isVariable(platform) && platforms.indexOf(platform) < 0) {
+            addProblem("platform", localize("UnknownPlatformInConfiguration", "Unknown platform '{0}'. Expected one of: {1}", configuration.platform, platforms.join(", ")));
+            return;
+        }
+
+        const target = configuration.target;
+        const isAttach = configuration.request === "attach";
+        const isMultiTarget = Array.isArray(target) || target === TargetType.AllDevices;
+        if (target !== undefined && !(typeof target === "string" || (Array.isArray(target) && target.every(item => typeof item === "string")))) {
+            addProblem("target", localize("InvalidTargetType", "The value of \"target\" must be a string or an array of Android target ids"));
+            return;
+        }
+        if (isMultiTarget && (isAttach || platform !== PlatformType.Android)) {
+            addProblem("target", isAttach
+                ? localize("AttachToMultipleTargets", "Attaching to several targets at once is not supported. Use the \"launch\" request instead")
+                : localize("MultipleTargetsForAndroidOnly", "Launching the application on several targets at once is supported for Android only"));
+            return;
+        }
+
+        const isSimulation = typeof target === "string" && SimulateHelper.isSimulateTarget(target);
+        if (isAttach && !isSimulation && platform !== PlatformType.Android && platform !== PlatformType.IOS) {
+            addProblem("platform", localize("AttachIsSupportedForAndroidAndIos", "Attaching is supported for the \"android\" and \"ios\" platforms only"));
+        }
+        if (!isAttach && platform === PlatformType.Windows && !isSimulation) {
+            addProblem("target", localize("WindowsRequiresSimulation", "Debugging the \"windows\" platform is supported in the simulation only. Set \"target\" to a browser, e.g. \"chrome\""));
+        }
+        if (!isAttach && platform === PlatformType.IOS && !isSimulation && os.platform() !== "darwin") {
+            addProblem("platform", localize("IosLaunchRequiresMac", "Launching the app on iOS requires macOS. Attach to the app or simulate it in a browser instead"));
+        }
+    }
+
+    private static getPlatform(configuration: Record<string, any>): string {
+        return typeof configuration.platform === "string" ? configuration.platform.toLowerCase() : "";
+    }
+
+    // The variables of the configuration are substituted after it's resolved, so their values could not be checked
+    private static isVariable(value: string): boolean {
+        return value.indexOf("${") >= 0;
+    }
+
+    private static hasType(value: any, type: PropertyType): boolean {
+        if (typeof value === "string" && DebugConfigurationValidator.isVariable(value)) {
+            return true;
+        }
+        switch (type) {
+            case "array":
+                return Array.isArray(value);
+            case "object":
+                return typeof value === "object" && value !== null && !Array.isArray(value);
+            default:
+                return typeof value === type;
+        }
+    }
+
+    private static resolvePath(value: string, workspaceFolderPath: string | undefined, basePath: string | undefined): string | undefined {
+        const resolvedValue = workspaceFolderPath ? value.replace(/\$\{(?:workspaceFolder|workspaceRoot)\}/g, workspaceFolderPath) : value;
+        if (DebugConfigurationValidator.isVariable(resolvedValue) || (!path.isAbsolute(resolvedValue) && !basePath)) {
+            return undefined;
+        }
+        return path.resolve(basePath || "", resolvedValue);
+    }
+
+    /**
+     * Collects the keys of the objects of a JSON text with comments, which is the format of launch.json
+     */
+    private static scanJsonKeys(text: string): IJsonKey[] {
+        const keys: IJsonKey[] = [];
+        const objectStarts: number[] = [];
+        let index = 0;
+
+        while (index < text.length) {
+            const char = text[index];
+            if (char === "/" && text[index + 1] === "/") {
+                const lineEnd = text.indexOf("\n", index);
+                index = lineEnd < 0 ? text.length : lineEnd;
+            } else if (char === "/" && text[index + 1] === "*") {
+                const commentEnd = text.indexOf("*/", index + 2);
+                index = commentEnd < 0 ? text.length : commentEnd + 2;
+            } else if (char === "{") {
+                objectStarts.push(index++);
+            } else if (char === "}") {
+                objectStarts.pop();
+                index++;
+            } else if (char === "\"") {
+                const stringEnd = DebugConfigurationValidator.findStringEnd(text, index);
+                const colonMatch = /^\s*:\s*/.exec(text.substring(stringEnd, stringEnd + 100));
+                if (colonMatch && objectStarts.length) {
+                    const key: IJsonKey = {
+                        name: DebugConfigurationValidator.parseJsonString(text.substring(index, stringEnd)),
+                        start: index,
+                        end: stringEnd,
+                        objectStart: objectStarts[objectStarts.length - 1],
+                    };
+                    const valueStart = stringEnd + colonMatch[0].length;
+                    if (text[valueStart] === "\"") {
+                        key.value = DebugConfigurationValidator.parseJsonString(text.substring(valueStart, DebugConfigurationValidator.findStringEnd(text, valueStart)));
+                    }
+                    keys.push(key);
+                }
+                index = stringEnd;
+            } else {
+                index++;
+            }
+        }
+
+        return keys;
+    }
+
+    private static findStringEnd(text: string, start: number): number {
+        let index = start + 1;
+        while (index < text.length && text[index] !== "\"" && text[index] !== "\n") {
+            index += text[index] === "\\" ? 2 : 1;
+        }
+        return Math.min(index + 1, text.length);
+    }
+
+    private static parseJsonString(text: string): string {
+        try {
+            return JSON.parse(text);
+        } catch (err) {
+            return text.replace(/^"|"$/g, "");
+        }
+    }
+}
@@ -0,0 +1,365 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as vscode from "vscode";
+import { PlatformType, TargetType } from "../debugger/cordovaDebugSession";
+import { AdbHelper } from "../utils/android/adb";
+import { CordovaProjectHelper } from "../utils/cordovaProjectHelper";
+import { IDebuggableMobileTarget } from "../utils/mobileTarget";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+export interface IDebugEnvironment {
+    installedPlatforms: string[];
+    ionicMajorVersion?: number;
+}
+
+export interface IAndroidTargets {
+    onlineTargets: IDebuggableMobileTarget[];
+    avdNames: string[];
+}
+
+export interface IDebugScenario {
+    platform: string;
+    request: "launch" | "attach";
+    simulate: boolean;
+    target: string | string[];
+    // The name of the target shown in the name of the configuration
+    targetName: string;
+    ionicLiveReload: boolean;
+}
+
+interface IWizardItem<T> extends vscode.QuickPickItem {
+    value: T;
+}
+
+// The result of a step is undefined if the wizard is cancelled
+type StepResult = "selected" | "skipped" | "back" | undefined;
+
+type WizardStep = (scenario: IDebugScenario) => Promise<StepResult>;
+
+/**
+ * Creates debug configurations step by step according to the platforms, the project type and the Android targets found on the machine
+ */
+export class DebugConfigurationWizard {
+    private static readonly ANDROID_PORT = 9222;
+    private static readonly IOS_PORT = 9220;
+    private static readonly SIMULATE_PORT = 8000;
+    // js-debug resolves the paths of the live reload server of Ionic 3 relatively to "www/build"
+    private static readonly IONIC3_LIVE_RELOAD_SOURCE_MAP_PATH_OVERRIDES = { "../../*": "${cwd}/*" };
+    private static readonly BACK = "back";
+
+    private readonly title = localize("AddCordovaDebugConfiguration", "Add Cordova Debug Configuration");
+    private androidTargets: Promise<IAndroidTargets> | undefined;
+
+    constructor(private readonly projectRoot: string | undefined, private readonly environment: IDebugEnvironment) { }
+
+    public static detectEnvironment(projectRoot: string | undefined): IDebugEnvironment {
+        return projectRoot
+            ? {
+                installedPlatforms: CordovaProjectHelper.getInstalledPlatforms(projectRoot),
+                ionicMajorVersion: CordovaProjectHelper.determineIonicMajorVersion(projectRoot),
+            }
+            : { installedPlatforms: [] };
+    }
+
+    /**
+     * Creates the launch.json entry for the scenario chosen in the wizard
+     */
+    public static createConfiguration(scenario: IDebugScenario, environment: IDebugEnvironment): vscode.DebugConfiguration {
+        const platformName = DebugConfigurationWizard.getPlatformName(scenario.platform);
+        const configuration: vscode.DebugConfiguration = {
+            name: "",
+            type: "cordova",
+            request: scenario.request,
+            platform: scenario.platform,
+            target: scenario.target,
+        };
+
+        if (scenario.platform === PlatformType.Serve) {
+            configuration.name = localize("ServeConfigurationName", "Serve to the browser (Ionic Serve)");
+            configuration.devServerAddress = "localhost";
+            configuration.ionicLiveReload = true;
+        } else if (scenario.platform === PlatformType.Browser) {
+            configuration.name = localize("BrowserConfigurationName", "Run Browser in {0}", scenario.targetName);
+            configuration.simulatePort = DebugConfigurationWizard.SIMULATE_PORT;
+            configuration.livereload = true;
+        } else if (scenario.simulate) {
+            configuration.name = localize("SimulateConfigurationName", "Simulate {0} in {1}", platformName, scenario.targetName);
+            configuration.simulatePort = DebugConfigurationWizard.SIMULATE_PORT;
+            configuration.livereload = true;
+        } else {
+            configuration.name = scenario.request === "attach"
+                ? localize("AttachConfigurationName", "Attach to running {0} on {1}", platformName, scenario.targetName)
+                : localize("LaunchConfigurationName", "Run {0} on {1}", platformName, scenario.targetName);
+            configuration.port = scenario.platform === PlatformType.IOS ? DebugConfigurationWizard.IOS_PORT : DebugConfigurationWizard.ANDROID_PORT;
+            if (scenario.ionicLiveReload) {
+                configuration.ionicLiveReload = true;
+                if (environment.ionicMajorVersion === 3) {
+                    // The overrides of the platform are added to the default ones
+                    configuration.platformSourceMapPathOverrides = { [scenario.platform]: DebugConfigurationWizard.IONIC3_LIVE_RELOAD_SOURCE_MAP_PATH_OVERRIDES };
+                }
+            }
+        }
+
+        configuration.sourceMaps = true;
+        configuration.cwd = "${workspaceFolder}";
+        return configuration;
+    }
+
+    /**
+     * Asks for the scenarios until the user finishes the wizard
+     * @returns the configurations of the completed scenarios
+     */
+    public run(): Promise<vscode.DebugConfiguration[]> {
+        const configurations: vscode.DebugConfiguration[] = [];
+        const askForScenario = (): Promise<vscode.DebugConfiguration[]> => this.runSteps()
+            .then((scenario) => {
+                if (!scenario) {
+                    return configurations;
+                }
+                configurations.push(DebugConfigurationWizard.createConfiguration(scenario, this.environment));
+                return this.pick<boolean>(localize("AddAnotherConfiguration", "Add another configuration?"), 1, 1, [
+                    { label: localize("Done", "Done"), description: configurations.map(configuration => configuration.name).join(", "), value: false },
+                    { label: localize("AddAnotherConfigurationItem", "Add another configuration"), value: true },
+                ], false)
+                    .then(addAnother => addAnother === true ? askForScenario() : configurations);
+            });
+        return askForScenario();
+    }
+
+    private runSteps(): Promise<IDebugScenario | undefined> {
+        const scenario: IDebugScenario = {
+            platform: PlatformType.Android,
+            request: "launch",
+            simulate: false,
+            target: TargetType.Emulator,
+            targetName: "",
+            ionicLiveReload: false,
+        };
+        const steps: WizardStep[] = [
+            () => this.pickPlatform(scenario),
+            () => this.pickScenario(scenario),
+            () => this.pickTarget(scenario),
+            () => this.pickLiveReload(scenario),
+        ];
+        // The "Back" button returns to the previous step the user has answered, the skipped steps are passed again
+        const answeredSteps: number[] = [];
+
+        const runStep = (index: number): Promise<IDebugScenario | undefined> => {
+            if (index >= steps.length) {
+                return Promise.resolve(scenario);
+            }
+            return steps[index](scenario)
+                .then((result) => {
+                    if (result === "back") {
+                        const previousStep = answeredSteps.pop();
+                        return runStep(previousStep === undefined ? 0 : previousStep);
+                    }
+                    if (result === "selected") {
+                        answeredSteps.push(index);
+                    }
+                    return result ? runStep(index + 1) : undefined;
+                });
+        };
+        return runStep(0);
+    }
+
+    private pickPlatform(scenario: IDebugScenario): Promise<StepResult> {
+        const installedPlatforms = this.environment.installedPlatforms;
+        const platforms: string[] = [PlatformType.Android, PlatformType.IOS, PlatformType.Browser];
+        if (this.environment.ionicMajorVersion) {
+            platforms.push(PlatformType.Serve);
+        }
+        const items = platforms
+            .map(platform => ({
+                label: DebugConfigurationWizard.getPlatformName(platform),
+                description: platform === PlatformType.Serve
+                    ? localize("IonicProject", "Ionic {0} project", this.environment.ionicMajorVersion)
+                    : installedPlatforms.indexOf(platform) >= 0
+                        ? localize("PlatformIsInstalled", "installed")
+                        : localize("PlatformIsNotInstalled", "not installed, Cordova adds it on the first run"),
+                value: platform,
+            }))
+            // The installed platforms are suggested first
+            .sort((a, b) => Number(installedPlatforms.indexOf(b.value) >= 0) - Number(installedPlatforms.indexOf(a.value) >= 0));
+
+        return this.pick(localize("SelectPlatform", "Select the platform to debug"), 1, this.getTotalSteps(scenario), items, false)
+            .then(platform => this.applyStepResult(platform, (value) => {
+                scenario.platform = value;
+            }));
+    }
+
+    private pickScenario(scenario: IDebugScenario): Promise<StepResult> {
+        if (scenario.platform === PlatformType.Serve || scenario.platform === PlatformType.Browser) {
+            scenario.request = "launch";
+            scenario.simulate = false;
+            return Promise.resolve("skipped");
+        }
+
+        const platformName = DebugConfigurationWizard.getPlatformName(scenario.platform);
+        const items: IWizardItem<{ request: "launch" | "attach", simulate: boolean }>[] = [
+            { label: localize("LaunchScenario", "Run on {0}", platformName), description: localize("LaunchScenarioDescription", "Build and deploy the app, and then attach to it"), value: { request: "launch", simulate: false } },
+            { label: localize("AttachScenario", "Attach to running {0}", platformName), description: localize("AttachScenarioDescription", "Attach to the app already running on a device or an emulator"), value: { request: "attach", simulate: false } },
+            { label: localize("SimulateScenario", "Simulate {0} in browser", platformName), description: localize("SimulateScenarioDescription", "Run the app in the browser with the simulated plugins"), value: { request: "launch", simulate: true } },
+        ];
+        return this.pick(localize("SelectScenario", "Select how to debug the app"), 2, this.getTotalSteps(scenario), items, true)
+            .then(value => this.applyStepResult(value, (selectedScenario) => {
+                scenario.request = selectedScenario.request;
+                scenario.simulate = selectedScenario.simulate;
+            }));
+    }
+
+    private pickTarget(scenario: IDebugScenario): Promise<StepResult> {
+        let items: IWizardItem<{ target: string | string[], targetName: string }>[] | Promise<IWizardItem<{ target: string | string[], targetName: string }>[]>;
+
+        if (scenario.platform === PlatformType.Serve) {
+            scenario.target = TargetType.Chrome;
+            scenario.targetName = "Chrome";
+            return Promise.resolve("skipped");
+        } else if (scenario.simulate || scenario.platform === PlatformType.Browser) {
+            items = [
+                { label: "Chrome", value: { target: TargetType.Chrome, targetName: "Chrome" } },
+                { label: "Microsoft Edge", value: { target: TargetType.Edge, targetName: "Edge" } },
+            ];
+        } else if (scenario.platform === PlatformType.IOS) {
+            items = [
+                { label: localize("AnyIosDevice", "Device"), description: localize("ConnectedIosDevice", "The iOS device connected to the Mac"), value: { target: TargetType.Device, targetName: "device" } },
+                { label: localize("IosSimulator", "Simulator"), description: localize("IosSimulatorDescription", "The default iOS Simulator"), value: { target: TargetType.Emulator, targetName: "simulator" } },
+            ];
+        } else {
+            items = this.getAndroidTargetItems(scenario.request === "launch");
+        }
+
+        return this.pick(localize("SelectTarget", "Select the target"), 3, this.getTotalSteps(scenario), items, true)
+            .then(value => this.applyStepResult(value, (selectedTarget) => {
+                scenario.target = selectedTarget.target;
+                scenario.targetName = selectedTarget.targetName;
+            }));
+    }
+
+    private pickLiveReload(scenario: IDebugScenario): Promise<StepResult> {
+        if (!this.environment.ionicMajorVersion || scenario.simulate || scenario.request !== "launch" || Array.isArray(scenario.target) || scenario.target === TargetType.AllDevices
+            || scenario.platform === PlatformType.Serve || scenario.platform === PlatformType.Browser) {
+            scenario.ionicLiveReload = false;
+            return Promise.resolve("skipped");
+        }
+
+        return this.pick(localize("EnableIonicLiveReload", "Reload the app on the target when the sources change?"), 4, 4, [
+            { label: localize("WithIonicLiveReload", "Use Ionic live reload"), value: true },
+            { label: localize("WithoutIonicLiveReload", "Deploy the built app"), value: false },
+        ], true)
+            .then(value => this.applyStepResult(value, (ionicLiveReload) => {
+                scenario.ionicLiveReload = ionicLiveReload;
+            }));
+    }
+
+    private getAndroidTargetItems(isLaunch: boolean): Promise<IWizardItem<{ target: string | string[], targetName: string }>[]> {
+        if (!this.androidTargets) {
+            this.androidTargets = DebugConfigurationWizard.detectAndroidTargets(this.projectRoot);
+        }
+
+        return this.androidTargets.then(({ onlineTargets, avdNames }) => {
+            const items: IWizardItem<{ target: string | string[], targetName: string }>[] = [
+                { label: localize("AnyAndroidEmulator", "Emulator"), description: localize("AnyAndroidEmulatorDescription", "Choose the emulator when the debugging starts"), value: { target: TargetType.Emulator, targetName: "emulator" } },
+                { label: localize("AnyAndroidDevice", "Device"), description: localize("AnyAndroidDeviceDescription", "Choose the device when the debugging starts"), value: { target: TargetType.Device, targetName: "device" } },
+            ];
+            onlineTargets.forEach((target) => {
+                items.push({
+                    label: target.name || target.id,
+                    description: target.isVirtualTarget ? localize("RunningEmulator", "running emulator {0}", target.id) : localize("ConnectedDevice", "connected device {0}", target.id),
+                    value: { target: target.id, targetName: target.name || target.id },
+                });
+            });
+            if (isLaunch) {
+                const runningAvdNames = onlineTargets.map(target => target.name);
+                avdNames
+                    .filter(avdName => runningAvdNames.indexOf(avdName) < 0)
+                    .forEach((avdName) => {
+                        items.push({ label: avdName, description: localize("VirtualDeviceStartedOnLaunch", "Android Virtual Device, started on launch"), value: { target: avdName, targetName: avdName } });
+                    });
+                if (onlineTargets.length > 1) {
+                    items.push({ label: localize("AllAndroidTargets", "All online targets"), description: localize("AllAndroidTargetsDescription", "Deploy to all the online devices and emulators at once"), value: { target: TargetType.AllDevices, targetName: "all targets" } });
+                }
+            }
+            return items;
+        });
+    }
+
+    // adb or the emulator might be missing in PATH, so the general targets are suggested only
+    private static detectAndroidTargets(projectRoot: string | undefined): Promise<IAndroidTargets> {
+        if (!projectRoot) {
+            return Promise.resolve({ onlineTargets: [], avdNames: [] });
+        }
+        const adbHelper = new AdbHelper(projectRoot);
+        return Promise.all([
+            adbHelper.getOnlineTargets().catch(() => []),
+            adbHelper.getAvdsNames().catch(() => []),
+        ])
+            .then(([onlineTargets, avdNames]) => ({ onlineTargets, avdNames }));
+    }
+
+    private getTotalSteps(scenario: IDebugScenario): number {
+        return this.environment.ionicMajorVersion && scenario.platform !== PlatformType.Serve && scenario.platform !== PlatformType.Browser ? 4 : 3;
+    }
+
+    private applyStepResult<T>(value: T | typeof DebugConfigurationWizard.BACK | undefined, apply: (value: T) => void): StepResult {
+        if (value === undefined) {
+            return undefined;
+        }
+        if (value === DebugConfigurationWizard.BACK) {
+            return "back";
+        }
+        apply(<T>value);
+        return "selected";
+    }
+
+    private pick<T>(placeholder: string, step: number, totalSteps: number, items: IWizardItem<T>[] | Promise<IWizardItem<T>[]>, canGoBack: boolean): Promise<T | typeof DebugConfigurationWizard.BACK | undefined> {
+        return new Promise((resolve) => {
+            const quickPick = vscode.window.createQuickPick<IWizardItem<T>>();
+            const disposables: vscode.Disposable[] = [];
+            const complete = (value: T | typeof DebugConfigurationWizard.BACK | undefined) => {
+                disposables.forEach(disposable => disposable.dispose());
+                resolve(value);
+            };
+
+            quickPick.title = this.title;
+            quickPick.placeholder = placeholder;
+            quickPick.step = step;
+            quickPick.totalSteps = totalSteps;
+            quickPick.ignoreFocusOut = true;
+            quickPick.buttons = canGoBack ? [vscode.QuickInputButtons.Back] : [];
+            disposables.push(
+                quickPick.onDidTriggerButton(() => complete(DebugConfigurationWizard.BACK)),
+                quickPick.onDidAccept(() => quickPick.selectedItems.length && complete(quickPick.selectedItems[0].value)),
+                quickPick.onDidHide(() => complete(undefined)),
+                // Hiding the disposed quick pick must not fire the listeners
+                quickPick
+            );
+
+            quickPick.busy = true;
+            quickPick.show();
+            Promise.resolve(items)
+                .then((resolvedItems) => {
+                    quickPick.items = resolvedItems;
+                    quickPick.busy = false;
+                });
+        });
+    }
+
+    private static getPlatformName(platform: string): string {
+        switch (platform) {
+            case PlatformType.Android:
+                return "Android";
+            case PlatformType.IOS:
+                return "iOS";
+            case PlatformType.Browser:
+                return localize("BrowserPlatform", "Browser");
+            case PlatformType.Serve:
+                return localize("IonicServePlatform", "Ionic Serve");
+            default:
+                return platform;
+        }
+    }
+}
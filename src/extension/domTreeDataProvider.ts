@@ -0,0 +1,248 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as vscode from "vscode";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { ApplicationCDPClient } from "../debugger/cdp-proxy/applicationCDPClient";
+import { ApplicationCDPClientPicker } from "./applicationCDPClientPicker";
+import { DomNodeType, DomTreeModel, IDomNode } from "./domTreeModel";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+interface IAttributeItem extends vscode.QuickPickItem {
+    attributeName?: string;
+}
+
+/**
+ * Shows the live DOM of the debugged app in the Elements view. The DOM is received through the connection
+ * of the CDP proxy, so it's available for iOS webviews as well, which can't be inspected from the desktop Chrome.
+ */
+export class DomTreeDataProvider implements vscode.TreeDataProvider<IDomNode>, vscode.Disposable {
+    public static readonly VIEW_ID: string = "cordovaElements";
+
+    // The colors used by the Chrome DevTools
+    private static readonly HIGHLIGHT_CONFIG = {
+        showInfo: true,
+        contentColor: { r: 111, g: 168, b: 220, a: 0.66 },
+        paddingColor: { r: 147, g: 196, b: 125, a: 0.55 },
+        borderColor: { r: 255, g: 229, b: 153, a: 0.66 },
+        marginColor: { r: 246, g: 178, b: 107, a: 0.66 },
+    };
+
+    private treeDataChangedEmitter = new vscode.EventEmitter<IDomNode | undefined>();
+    private model = new DomTreeModel();
+    private client: ApplicationCDPClient | null = null;
+    private clientDisposables: vscode.Disposable[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChangeTreeData: vscode.Event<IDomNode | undefined> = this.treeDataChangedEmitter.event;
+
+    constructor() {
+        this.disposables.push(
+            this.treeDataChangedEmitter,
+            ApplicationCDPClient.onDidChangeClients(() => {
+                if (!this.client || ApplicationCDPClient.getClients().indexOf(this.client) === -1) {
+                    this.setClient(ApplicationCDPClient.getClients()[0] || null);
+                }
+            })
+        );
+    }
+
+    public selectSession(): Promise<void> {
+        return ApplicationCDPClientPicker.selectClient()
+            .then((client) => {
+                if (client) {
+                    this.setClient(client);
+                }
+            });
+    }
+
+    public refresh(): void {
+        this.model.clear();
+        this.treeDataChangedEmitter.fire(undefined);
+    }
+
+    public getTreeItem(node: IDomNode): vscode.TreeItem {
+        const children = this.model.getChildren(node);
+        const treeItem = new vscode.TreeItem(
+            DomTreeModel.getLabel(node),
+            children && !children.length
+                ? vscode.TreeItemCollapsibleState.None
+                : node.parentId === undefined || node.nodeName === "HTML" ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        treeItem.id = `${node.nodeId}`;
+        treeItem.contextValue = node.nodeType === DomNodeType.Element ? "domElement" : node.nodeType === DomNodeType.Text ? "domText" : "domNode";
+        treeItem.tooltip = node.nodeType === DomNodeType.Text ? node.nodeValue : DomTreeModel.getLabel(node);
+        return treeItem;
+    }
+
+    public getChildren(node?: IDomNode): Promise<IDomNode[]> {
+        if (!this.client) {
+            return Promise.resolve([]);
+        }
+        if (!node) {
+            return this.getDocument().then(root => root ? this.getChildren(root) : []);
+        }
+
+        const children = this.model.getChildren(node);
+        if (children) {
+            return Promise.resolve(children);
+        }
+        // The app sends the child nodes with a "DOM.setChildNodes" event before the reply
+        return this.client.sendCommand("DOM.requestChildNodes", { nodeId: node.nodeId })
+            .then(() => this.model.getChildren(node) || [], () => []);
+    }
+
+    public getParent(node: IDomNode): IDomNode | undefined {
+        const parent = node.parentId !== undefined ? this.model.getNode(node.parentId) : undefined;
+        return parent !== this.model.getRoot() ? parent : undefined;
+    }
+
+    public highlightNode(node: IDomNode | undefined): Promise<void> {
+        if (!this.client) {
+            return Promise.resolve();
+        }
+        const client = this.client;
+        if (!node || node.nodeType !== DomNodeType.Element) {
+            return client.sendCommand("Overlay.hideHighlight")
+                .catch(() => client.sendCommand("DOM.hideHighlight"))
+                .then(() => void 0, () => void 0);
+        }
+
+        const params = { nodeId: node.nodeId, highlightConfig: DomTreeDataProvider.HIGHLIGHT_CONFIG };
+        // WebKit has no "Overlay" domain and highlights the nodes through the "DOM" one
+        return client.sendCommand("Overlay.highlightNode", params)
+            .catch(() => client.sendCommand("DOM.highlightNode", params))
+            .then(() => void 0, () => void 0);
+    }
+
+    public editAttribute(node: IDomNode): Promise<void> {
+        const client = this.client;
+        if (!client) {
+            return Promise.resolve();
+        }
+
+        const items: IAttributeItem[] = DomTreeModel.getAttributes(node).map(([name, value]) => ({
+            label: name,
+            description: value,
+            attributeName: name,
+        }));
+        items.push({ label: localize("AddAttribute", "Add attribute...") });
+
+        return new Promise<IAttributeItem | undefined>((resolve, reject) => {
+            vscode.window.showQuickPick(items, { placeHolder: localize("SelectAttributeToEdit", "Select an attribute to edit") })
+                .then(resolve, reject);
+        })
+            .then((item) => {
+                if (!item) {
+                    return undefined;
+                }
+                if (item.attributeName) {
+                    return item.attributeName;
+                }
+                return DomTreeDataProvider.showInputBox({
+                    prompt: localize("EnterAttributeName", "Enter the name of the attribute"),
+                    validateInput: value => /^[^\s"'>\/=]+$/.test(value) ? null : localize("InvalidAttributeName", "The attribute name is invalid"),
+                });
+            })
+            .then((name) => {
+                if (!name) {
+                    return undefined;
+                }
+                const currentValue = DomTreeModel.getAttributes(node).find(([attributeName]) => attributeName === name);
+                return DomTreeDataProvider.showInputBox({
+                    prompt: localize("EnterAttributeValue", "Enter the value of the '{0}' attribute", name),
+                    value: currentValue ? currentValue[1] : "",
+                })
+                    .then(value => value === undefined ? undefined : client.sendCommand("DOM.setAttributeValue", { nodeId: node.nodeId, name, value }));
+            })
+            .then(() => void 0);
+    }
+
+    public removeAttribute(node: IDomNode): Promise<void> {
+        const client = this.client;
+        if (!client) {
+            return Promise.resolve();
+        }
+        const items: IAttributeItem[] = DomTreeModel.getAttributes(node).map(([name, value]) => ({
+            label: name,
+            description: value,
+            attributeName: name,
+        }));
+
+        return new Promise<IAttributeItem | undefined>((resolve, reject) => {
+            vscode.window.showQuickPick(items, { placeHolder: localize("SelectAttributeToRemove", "Select an attribute to remove") })
+                .then(resolve, reject);
+        })
+            .then(item => item && client.sendCommand("DOM.removeAttribute", { nodeId: node.nodeId, name: item.attributeName }))
+            .then(() => void 0);
+    }
+
+    public editText(node: IDomNode): Promise<void> {
+        const client = this.client;
+        if (!client) {
+            return Promise.resolve();
+        }
+        return DomTreeDataProvider.showInputBox({
+            prompt: localize("EnterNodeText", "Enter the text of the node"),
+            value: node.nodeValue,
+        })
+            .then(value => value === undefined ? undefined : client.sendCommand("DOM.setNodeValue", { nodeId: node.nodeId, value }))
+            .then(() => void 0);
+    }
+
+    public dispose(): void {
+        this.clientDisposables.forEach(disposable => disposable.dispose());
+        this.clientDisposables = [];
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private static showInputBox(options: vscode.InputBoxOptions): Promise<string | undefined> {
+        return new Promise((resolve, reject) => {
+            vscode.window.showInputBox(options).then(resolve, reject);
+        });
+    }
+
+    private setClient(client: ApplicationCDPClient | null): void {
+        this.clientDisposables.forEach(disposable => disposable.dispose());
+        this.clientDisposables = [];
+        this.client = client;
+        if (client) {
+            this.clientDisposables.push(client.onEvent(this.onApplicationEvent.bind(this)));
+        }
+        this.refresh();
+    }
+
+    private getDocument(): Promise<IDomNode | undefined> {
+        const root = this.model.getRoot();
+        if (root || !this.client) {
+            return Promise.resolve(root);
+        }
+
+        const client = this.client;
+        // Chrome requires the domains to be enabled for the highlighting, while WebKit doesn't support enabling them
+        return client.sendCommand("DOM.enable")
+            .then(() => client.sendCommand("Overlay.enable"))
+            .catch(() => void 0)
+            .then(() => client.sendCommand("DOM.getDocument", { depth: 2 }))
+            .then((result) => {
+                if (client === this.client) {
+                    this.model.setDocument(result.root);
+                }
+                return this.model.getRoot();
+            }, (err) => {
+                vscode.window.showErrorMessage(localize("CouldNotGetDocument", "Could not get the DOM of the app: {0}", err.message));
+                return undefined;
+            });
+    }
+
+    private onApplicationEvent(event: IProtocolCommand): void {
+        const change = this.model.handleEvent(event);
+        if (change) {
+            // The document node isn't shown, its children are the top level items
+            this.treeDataChangedEmitter.fire(change.node && change.node !== this.model.getRoot() ? change.node : undefined);
+        }
+    }
+}
@@ -0,0 +1,222 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import { IProtocolCommand } from "vscode-cdp-proxy";
+
+export enum DomNodeType {
+    Element = 1,
+    Text = 3,
+    Comment = 8,
+    Document = 9,
+    DocumentType = 10,
+}
+
+export interface IDomNode {
+    nodeId: number;
+    parentId?: number;
+    nodeType: number;
+    nodeName: string;
+    nodeValue: string;
+    /**
+     * Attribute names and values, one after another, as they are reported by the DOM domain
+     */
+    attributes: string[];
+    childNodeCount: number;
+    /**
+     * Ids of the child nodes, if they were received from the app
+     */
+    children?: number[];
+}
+
+/**
+ * A node as it's reported by the DOM domain
+ */
+export interface ICDPDomNode {
+    nodeId: number;
+    nodeType: number;
+    nodeName?: string;
+    nodeValue?: string;
+    attributes?: string[];
+    childNodeCount?: number;
+    children?: ICDPDomNode[];
+}
+
+export interface IDomTreeChange {
+    /**
+     * The node whose label or children were changed, or undefined if the whole document was changed
+     */
+    node?: IDomNode;
+}
+
+/**
+ * Mirrors the DOM of the app from the replies and the events of the CDP "DOM" domain. Chrome and WebKit report nodes
+ * the same way, but send the child nodes on demand only, so the children of a node could be unknown yet.
+ */
+export class DomTreeModel {
+    private static readonly MAX_LABEL_TEXT_LENGTH = 100;
+
+    private nodes = new Map<number, IDomNode>();
+    private rootId: number | undefined;
+
+    public static getLabel(node: IDomNode): string {
+        switch (node.nodeType) {
+            case DomNodeType.Element: {
+                const attributes = DomTreeModel.getAttributes(node)
+                    .map(([name, value]) => value ? ` ${name}="${value}"` : ` ${name}`)
+                    .join("");
+                return `<${node.nodeName.toLowerCase()}${attributes}>`;
+            }
+            case DomNodeType.Text:
+                return DomTreeModel.truncate(`"${node.nodeValue.trim()}"`);
+            case DomNodeType.Comment:
+                return DomTreeModel.truncate(`<!--${node.nodeValue}-->`);
+            case DomNodeType.DocumentType:
+                return `<!DOCTYPE ${node.nodeName}>`;
+            default:
+                return node.nodeName;
+        }
+    }
+
+    public static getAttributes(node: IDomNode): [string, string][] {
+        const attributes: [string, string][] = [];
+        for (let i = 0; i + 1 < node.attributes.length; i += 2) {
+            attributes.push([node.attributes[i], node.attributes[i + 1]]);
+        }
+        return attributes;
+    }
+
+    public getRoot(): IDomNode | undefined {
+        return this.rootId !== undefined ? this.nodes.get(this.rootId) : undefined;
+    }
+
+    public getNode(nodeId: number): IDomNode | undefined {
+        return this.nodes.get(nodeId);
+    }
+
+    /**
+     * Returns the child nodes shown in the tree, or undefined if they weren't received from the app yet
+     */
+    public getChildren(node: IDomNode): IDomNode[] | undefined {
+        if (!node.children) {
+            return node.childNodeCount ? undefined : [];
+        }
+        return node.children
+            .map(childId => <IDomNode>this.nodes.get(childId))
+            .filter(child => !!child && !DomTreeModel.isWhitespace(child));
+    }
+
+    public setDocument(root: ICDPDomNode): void {
+        this.clear();
+        this.rootId = this.addNode(root).nodeId;
+    }
+
+    public clear(): void {
+        this.nodes.clear();
+        this.rootId = undefined;
+    }
+
+    /**
+     * @returns the change of the tree made by the event, if any
+     */
+    public handleEvent(event: IProtocolCommand): IDomTreeChange | undefined {
+        const params: any = event.params || {};
+        switch (event.method) {
+            case "DOM.documentUpdated":
+                this.clear();
+                return {};
+            case "DOM.setChildNodes":
+                return this.updateNode(params.parentId, (node) => {
+                    node.children = (params.nodes || []).map((child: ICDPDomNode) => this.addNode(child, node.nodeId).nodeId);
+                    node.childNodeCount = node.children.length;
+                });
+            case "DOM.childNodeInserted":
+                return this.updateNode(params.parentNodeId, (node) => {
+                    node.childNodeCount++;
+                    if (node.children) {
+                        const child = this.addNode(params.node, node.nodeId);
+                        node.children.splice(node.children.indexOf(params.previousNodeId) + 1, 0, child.nodeId);
+                    }
+                });
+            case "DOM.childNodeRemoved":
+                return this.updateNode(params.parentNodeId, (node) => {
+                    node.childNodeCount = Math.max(0, node.childNodeCount - 1);
+                    if (node.children) {
+                        node.children = node.children.filter(childId => childId !== params.nodeId);
+                    }
+                    this.removeNode(params.nodeId);
+                });
+            case "DOM.childNodeCountUpdated":
+                return this.updateNode(params.nodeId, (node) => {
+                    node.childNodeCount = params.childNodeCount;
+                });
+            case "DOM.attributeModified":
+                return this.updateNode(params.nodeId, (node) => {
+                    const index = DomTreeModel.getAttributes(node).findIndex(([name]) => name === params.name);
+                    if (index === -1) {
+                        node.attributes.push(params.name, params.value);
+                    } else {
+                        node.attributes[index * 2 + 1] = params.value;
+                    }
+                });
+            case "DOM.attributeRemoved":
+                return this.updateNode(params.nodeId, (node) => {
+                    const index = DomTreeModel.getAttributes(node).findIndex(([name]) => name === params.name);
+                    if (index !== -1) {
+                        node.attributes.splice(index * 2, 2);
+                    }
+                });
+            case "DOM.characterDataModified":
+                return this.updateNode(params.nodeId, (node) => {
+                    node.nodeValue = params.characterData;
+                });
+            default:
+                return undefined;
+        }
+    }
+
+    private static isWhitespace(node: IDomNode): boolean {
+        return node.nodeType === DomNodeType.Text && !node.nodeValue.trim();
+    }
+
+    private static truncate(text: string): string {
+        const singleLineText = text.replace(/\s+/g, " ");
+        return singleLineText.length > DomTreeModel.MAX_LABEL_TEXT_LENGTH
+            ? `${singleLineText.substr(0, DomTreeModel.MAX_LABEL_TEXT_LENGTH)}…`
+            : singleLineText;
+    }
+
+    private addNode(nodeData: ICDPDomNode, parentId?: number): IDomNode {
+        const node: IDomNode = {
+            nodeId: nodeData.nodeId,
+            parentId,
+            nodeType: nodeData.nodeType,
+            nodeName: nodeData.nodeName || "",
+            nodeValue: nodeData.nodeValue || "",
+            attributes: nodeData.attributes || [],
+            childNodeCount: nodeData.childNodeCount || (nodeData.children ? nodeData.children.length : 0),
+        };
+        this.nodes.set(node.nodeId, node);
+
+        if (nodeData.children) {
+            node.children = nodeData.children.map(child => this.addNode(child, node.nodeId).nodeId);
+        }
+        return node;
+    }
+
+    private removeNode(nodeId: number): void {
+        const node = this.nodes.get(nodeId);
+        if (node) {
+            (node.children || []).forEach(childId => this.removeNode(childId));
+            this.nodes.delete(nodeId);
+        }
+    }
+
+    private updateNode(nodeId: number, update: (node: IDomNode) => void): IDomTreeChange | undefined {
+        const node = this.nodes.get(nodeId);
+        if (!node) {
+            return undefined;
+        }
+        update(node);
+        return { node };
+    }
+}
@@ -0,0 +1,100 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { CordovaProjectHelper } from "../utils/cordovaProjectHelper";
+import { EnvironmentProfiles } from "./environmentProfiles";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+/**
+ * Shows the environment profile of the Cordova project of the active editor and switches it on click
+ */
+export class EnvironmentProfileStatusBar implements vscode.Disposable {
+    public static readonly SELECT_PROFILE_COMMAND: string = "cordova.selectEnvironmentProfile";
+
+    private statusBarItem: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    private disposables: vscode.Disposable[] = [
+        this.statusBarItem,
+        vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => this.update()),
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration("cordova.environmentProfiles")) {
+                this.update();
+            }
+        }),
+        EnvironmentProfiles.onDidChangeActiveProfile(() => this.update()),
+    ];
+
+    constructor() {
+        this.statusBarItem.command = EnvironmentProfileStatusBar.SELECT_PROFILE_COMMAND;
+        this.update();
+    }
+
+    public selectProfile(): Promise<void> {
+        const projectRoot = this.getProjectRoot();
+        if (!projectRoot) {
+            return Promise.reject(new Error(localize("NoCordovaProjectIsFound", "No Cordova project is found")));
+        }
+
+        const profileNames = EnvironmentProfiles.getProfileNames(projectRoot);
+        if (!profileNames.length) {
+            vscode.window.showInformationMessage(localize("NoEnvironmentProfiles", "There are no environment profiles for the project '{0}'. Add them to the \"cordova.environmentProfiles\" setting", projectRoot));
+            return Promise.resolve();
+        }
+
+        const activeProfileName = EnvironmentProfiles.getActiveProfileName(projectRoot);
+        const items: (vscode.QuickPickItem & { profileName?: string })[] = profileNames.map(name => ({
+            label: name,
+            description: name === activeProfileName ? localize("ActiveEnvironmentProfile", "active") : undefined,
+            profileName: name,
+        }));
+        items.push({
+            label: localize("NoEnvironmentProfile", "No profile"),
+            description: localize("NoEnvironmentProfileDescription", "Use the settings and the original values of config.xml"),
+        });
+
+        return new Promise<(vscode.QuickPickItem & { profileName?: string }) | undefined>((resolve, reject) => {
+            vscode.window.showQuickPick(items, { placeHolder: localize("SelectEnvironmentProfile", "Select the environment profile of '{0}'", path.basename(projectRoot)) })
+                .then(resolve, reject);
+        })
+            .then((item) => {
+                if (!item || item.profileName === activeProfileName) {
+                    return;
+                }
+                return EnvironmentProfiles.setActiveProfile(projectRoot, item.profileName);
+            });
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    /**
+     * Returns the Cordova project of the active editor or the first one of the workspace
+     */
+    private getProjectRoot(): string | undefined {
+        const editor = vscode.window.activeTextEditor;
+        const editorFolder = editor && vscode.workspace.getWorkspaceFolder(editor.document.uri);
+        const folders = (editorFolder ? [editorFolder] : []).concat(vscode.workspace.workspaceFolders || []);
+        const projectFolder = folders.find(folder => folder.uri.scheme === "file" && CordovaProjectHelper.isCordovaProject(folder.uri.fsPath));
+        return projectFolder && projectFolder.uri.fsPath;
+    }
+
+    private update(): void {
+        const projectRoot = this.getProjectRoot();
+        // The status bar item is hidden for the projects without profiles
+        if (!projectRoot || !EnvironmentProfiles.getProfileNames(projectRoot).length) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const activeProfileName = EnvironmentProfiles.getActiveProfileName(projectRoot);
+        this.statusBarItem.text = `$(server-environment) ${activeProfileName || localize("NoEnvironmentProfile", "No profile")}`;
+        this.statusBarItem.tooltip = localize("EnvironmentProfileTooltip", "The environment profile of '{0}' used by the Cordova commands, tasks and debugging. Click to switch it", path.basename(projectRoot));
+        this.statusBarItem.show();
+    }
+}
@@ -0,0 +1,228 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { CordovaProjectHelper } from "../utils/cordovaProjectHelper";
+import { ConfigXmlOverrides, IConfigXmlOverrides } from "./configXml/configXmlOverrides";
+
+export interface IEnvironmentProfile {
+    env?: { [key: string]: string };
+    envFile?: string;
+    runArguments?: string[];
+    configXml?: IConfigXmlOverrides;
+}
+
+interface IConfigXmlBackup {
+    values: IConfigXmlOverrides;
+    written: Promise<void>;
+    commandsCount: number;
+}
+
+/**
+ * Named sets of environment variables, run arguments and config.xml values defined in the "cordova.environmentProfiles" setting.
+ * The profile selected for a project is remembered in the workspace state and applied to the commands, tasks and debug sessions of the project
+ */
+export class EnvironmentProfiles {
+    private static readonly SETTING_NAME: string = "environmentProfiles";
+    private static readonly ACTIVE_PROFILES_STATE_KEY: string = "cordova.environmentProfiles.active";
+    // The values config.xml had before a profile overrode them, so they are restored even if VS Code is closed while a command runs
+    private static readonly CONFIG_XML_VALUES_STATE_KEY: string = "cordova.environmentProfiles.configXmlValues";
+    private static readonly WORKSPACE_FOLDER_VARIABLE_REGEX = /\$\{(?:workspaceFolder|workspaceRoot)\}/g;
+    private static memento: vscode.Memento | null = null;
+    private static onDidChangeActiveProfileEmitter = new vscode.EventEmitter<string>();
+    // The commands of a project running at the same time share the overridden config.xml, which is restored after the last of them
+    private static configXmlBackups = new Map<string, IConfigXmlBackup>();
+
+    /**
+     * Fires with the root of the project which profile is changed
+     */
+    public static readonly onDidChangeActiveProfile: vscode.Event<string> = EnvironmentProfiles.onDidChangeActiveProfileEmitter.event;
+
+    public static init(memento: vscode.Memento): void {
+        this.memento = memento;
+        const originalValues = memento.get<{ [projectRoot: string]: IConfigXmlOverrides }>(this.CONFIG_XML_VALUES_STATE_KEY, {});
+        Object.keys(originalValues).forEach((projectRoot) => {
+            this.restoreConfigXml(projectRoot, originalValues[projectRoot]).catch(() => undefined);
+        });
+    }
+
+    public static getProfileNames(projectRoot: string): string[] {
+        return Object.keys(this.getProfiles(projectRoot));
+    }
+
+    /**
+     * Returns the name of the profile selected for the project if it's still defined in the settings
+     */
+    public static getActiveProfileName(projectRoot: string): string | undefined {
+        const name = this.getState<string>(this.ACTIVE_PROFILES_STATE_KEY, projectRoot);
+        return name !== undefined && this.getProfiles(projectRoot).hasOwnProperty(name) ? name : undefined;
+    }
+
+    public static getActiveProfile(projectRoot: string): IEnvironmentProfile | undefined {
+        const name = this.getActiveProfileName(projectRoot);
+        return name !== undefined ? this.getProfiles(projectRoot)[name] : undefined;
+    }
+
+    /**
+     * Selects the profile of the project. The undefined name deselects the profile
+     */
+    public static setActiveProfile(projectRoot: string, name: string | undefined): Promise<void> {
+        return this.updateState(this.ACTIVE_PROFILES_STATE_KEY, projectRoot, name)
+            .then(() => this.onDidChangeActiveProfileEmitter.fire(projectRoot));
+    }
+
+    /**
+     * Returns the environment variables with the ones of the active profile taking precedence
+     */
+    public static getEnv(projectRoot: string, env?: { [key: string]: string }): { [key: string]: string } | undefined {
+        const profile = this.getActiveProfile(projectRoot);
+        return profile && profile.env ? Object.assign({}, env, profile.env) : env;
+    }
+
+    /**
+     * Returns the absolute path of the env file of the active profile
+     */
+    public static getEnvFile(projectRoot: string): string | undefined {
+        const profile = this.getActiveProfile(projectRoot);
+        if (!profile || !profile.envFile) {
+            return undefined;
+        }
+        return path.resolve(projectRoot, profile.envFile.replace(this.WORKSPACE_FOLDER_VARIABLE_REGEX, projectRoot));
+    }
+
+    public static getRunArguments(projectRoot: string): string[] {
+        const profile = this.getActiveProfile(projectRoot);
+        return profile && profile.runArguments || [];
+    }
+
+    /**
+     * Adds the environment variables and run arguments of the active profile to the debug configuration.
+     * The variables and the env file of the profile take precedence, like they do over the settings
+     */
+    public static applyToDebugConfiguration(debugConfiguration: vscode.DebugConfiguration, projectRoot: string): void {
+        const profile = this.getActiveProfile(projectRoot);
+        if (!profile) {
+            return;
+        }
+
+        if (profile.env) {
+            debugConfiguration.env = this.getEnv(projectRoot, debugConfiguration.env);
+        }
+        const envFile = this.getEnvFile(projectRoot);
+        if (envFile) {
+            debugConfiguration.envFile = envFile;
+        }
+        // The run arguments of the settings, including the profile ones, are used by the debugger if the configuration has none
+        if (profile.runArguments && Array.isArray(debugConfiguration.runArguments)) {
+            debugConfiguration.runArguments = debugConfiguration.runArguments.concat(profile.runArguments);
+        }
+    }
+
+    /**
+     * Writes the config.xml values of the active profile to config.xml while the command runs,
+     * and restores the original values once the command is finished
+     */
+    public static withConfigXmlOverrides<T>(projectRoot: string, command: () => Promise<T>): Promise<T> {
+        return Promise.resolve()
+            .then(() => this.applyConfigXmlOverrides(projectRoot))
+            .then((isApplied) => {
+                const release = () => isApplied ? this.releaseConfigXmlOverrides(projectRoot) : Promise.resolve();
+                return Promise.resolve()
+                    .then(command)
+                    .then(
+                        result => release().then(() => result),
+                        err => release().then(() => { throw err; })
+                    );
+            });
+    }
+
+    /**
+     * Returns false if config.xml isn't changed by the profile
+     */
+    private static applyConfigXmlOverrides(projectRoot: string): Promise<boolean> {
+        const backup = this.configXmlBackups.get(projectRoot);
+        if (backup) {
+            backup.commandsCount++;
+            return backup.written.then(() => true);
+        }
+
+        const configXmlPath = path.join(projectRoot, "config.xml");
+        const profile = this.getActiveProfile(projectRoot);
+        const overrides: IConfigXmlOverrides = profile && profile.configXml || {};
+        if (!Object.keys(overrides).length || !CordovaProjectHelper.existsSync(configXmlPath)) {
+            return Promise.resolve(false);
+        }
+
+        const text = fs.readFileSync(configXmlPath, "utf8");
+        const newText = ConfigXmlOverrides.apply(text, overrides);
+        if (newText === text) {
+            return Promise.resolve(false);
+        }
+
+        const values = ConfigXmlOverrides.read(text, overrides);
+        // The original values are saved before config.xml is written, so they are never lost
+        const written = this.updateState(this.CONFIG_XML_VALUES_STATE_KEY, projectRoot, values)
+            .then(() => fs.writeFileSync(configXmlPath, newText));
+        this.configXmlBackups.set(projectRoot, { values, written, commandsCount: 1 });
+        return written
+            .then(() => true, (err) => {
+                this.configXmlBackups.delete(projectRoot);
+                throw err;
+            });
+    }
+
+    private static releaseConfigXmlOverrides(projectRoot: string): Promise<void> {
+        const backup = this.configXmlBackups.get(projectRoot);
+        if (!backup || --backup.commandsCount > 0) {
+            return Promise.resolve();
+        }
+        this.configXmlBackups.delete(projectRoot);
+        return this.restoreConfigXml(projectRoot, backup.values);
+    }
+
+    /**
+     * Writes back only the overridden values, so the other changes made to config.xml meanwhile, e.g. by Cordova CLI, are kept
+     */
+    private static restoreConfigXml(projectRoot: string, values: IConfigXmlOverrides): Promise<void> {
+        return Promise.resolve()
+            .then(() => {
+                const configXmlPath = path.join(projectRoot, "config.xml");
+                if (!CordovaProjectHelper.existsSync(configXmlPath)) {
+                    return;
+                }
+                const text = fs.readFileSync(configXmlPath, "utf8");
+                const newText = ConfigXmlOverrides.apply(text, values);
+                if (newText !== text) {
+                    fs.writeFileSync(configXmlPath, newText);
+                }
+            })
+            .then(() => this.updateState(this.CONFIG_XML_VALUES_STATE_KEY, projectRoot, undefined));
+    }
+
+    private static getProfiles(projectRoot: string): { [name: string]: IEnvironmentProfile } {
+        const workspaceConfiguration = vscode.workspace.getConfiguration("cordova", vscode.Uri.file(projectRoot));
+        return workspaceConfiguration.get<{ [name: string]: IEnvironmentProfile }>(this.SETTING_NAME) || {};
+    }
+
+    private static getState<T>(key: string, projectRoot: string): T | undefined {
+        const state = this.memento ? this.memento.get<{ [projectRoot: string]: T }>(key, {}) : {};
+        return state[projectRoot];
+    }
+
+    private static updateState<T>(key: string, projectRoot: string, value: T | undefined): Promise<void> {
+        if (!this.memento) {
+            return Promise.resolve();
+        }
+        const state = Object.assign({}, this.memento.get<{ [projectRoot: string]: T }>(key, {}));
+        if (value === undefined) {
+            delete state[projectRoot];
+        } else {
+            state[projectRoot] = value;
+        }
+        return new Promise<void>((resolve, reject) => {
+            (<vscode.Memento>this.memento).update(key, state).then(resolve, reject);
+        });
+    }
+}
@@ -0,0 +1,288 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as vscode from "vscode";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { ApplicationCDPClient } from "../debugger/cdp-proxy/applicationCDPClient";
+import { ApplicationCDPClientPicker } from "./applicationCDPClientPicker";
+import { INetworkRequest, NetworkRequestsCollector } from "./networkRequestsCollector";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+interface IPanelMessage {
+    type: "clear" | "select" | "copyAsCurl";
+    requestId?: string;
+}
+
+/**
+ * Shows the requests of the debugged app in a webview panel. The events of the CDP "Network" domain are received through
+ * the connection of the CDP proxy, so there is no need to open chrome://inspect or Safari Web Inspector.
+ */
+export class NetworkInspectorPanel {
+    private static readonly VIEW_TYPE = "cordovaNetworkInspector";
+    private static panels = new Map<ApplicationCDPClient, NetworkInspectorPanel>();
+
+    private readonly panel: vscode.WebviewPanel;
+    private readonly collector = new NetworkRequestsCollector();
+    private disposables: vscode.Disposable[] = [];
+
+    private constructor(private readonly client: ApplicationCDPClient) {
+        this.panel = vscode.window.createWebviewPanel(
+            NetworkInspectorPanel.VIEW_TYPE,
+            localize("NetworkInspectorTitle", "Network: {0}", client.sessionName),
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.webview.html = this.getHtml();
+
+        this.disposables.push(
+            this.client.onEvent(this.onApplicationEvent.bind(this)),
+            this.client.onClose(() => this.postMessage({ type: "disconnected" })),
+            this.panel.webview.onDidReceiveMessage(this.onPanelMessage.bind(this)),
+            this.panel.onDidDispose(this.dispose.bind(this))
+        );
+    }
+
+    public static inspectNetwork(): Promise<void> {
+        return ApplicationCDPClientPicker.selectClient()
+            .then((client) => {
+                if (!client) {
+                    return;
+                }
+                const existingPanel = NetworkInspectorPanel.panels.get(client);
+                if (existingPanel) {
+                    existingPanel.panel.reveal();
+                    return;
+                }
+
+                const inspectorPanel = new NetworkInspectorPanel(client);
+                NetworkInspectorPanel.panels.set(client, inspectorPanel);
+                // The domain is left enabled when the panel is closed, since the debugger could use it as well
+                return client.sendCommand("Network.enable", {})
+                    .then(() => void 0);
+            });
+    }
+
+    private onApplicationEvent(event: IProtocolCommand): void {
+        this.collector.handleEvent(event).forEach((request) => {
+            this.postMessage({ type: "request", request });
+        });
+    }
+
+    private onPanelMessage(message: IPanelMessage): void {
+        const request = message.requestId ? this.collector.getRequest(message.requestId) : undefined;
+        switch (message.type) {
+            case "clear":
+                this.collector.clear();
+                this.postMessage({ type: "clear" });
+                break;
+            case "select":
+                if (request) {
+                    this.showRequestDetails(request);
+                }
+                break;
+            case "copyAsCurl":
+                if (request) {
+                    vscode.env.clipboard.writeText(NetworkRequestsCollector.toCurlCommand(request))
+                        .then(() => vscode.window.setStatusBarMessage(localize("CurlCommandCopied", "The cURL command is copied to the clipboard"), 3000));
+                }
+                break;
+        }
+    }
+
+    private showRequestDetails(request: INetworkRequest): Promise<void> {
+        const postData = request.hasPostData && request.postData === undefined
+            ? this.client.sendCommand("Network.getRequestPostData", { requestId: request.requestId })
+                .then((result) => {
+                    request.postData = result.postData;
+                    return request.postData;
+                }, () => undefined)
+            : Promise.resolve(request.postData);
+        const responseBody = request.isFinished && !request.errorText && request.status !== undefined
+            ? this.client.sendCommand("Network.getResponseBody", { requestId: request.requestId })
+                .then(result => result.base64Encoded
+                    ? localize("BinaryResponseBody", "<binary data: {0} bytes>", Buffer.from(result.body, "base64").length)
+                    : result.body,
+                err => localize("ResponseBodyIsNotAvailable", "The response body is not available: {0}", err.message))
+            : Promise.resolve(undefined);
+
+        return Promise.all([postData, responseBody])
+            .then(([requestPayload, responseText]) => {
+                this.postMessage({
+                    type: "details",
+                    request,
+                    postData: requestPayload,
+                    responseBody: responseText,
+                });
+            });
+    }
+
+    private postMessage(message: any): void {
+        this.panel.webview.postMessage(message);
+    }
+
+    private dispose(): void {
+        NetworkInspectorPanel.panels.delete(this.client);
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private getHtml(): string {
+        const nonce = Math.random().toString(36).substr(2);
+        const strings = {
+            clear: localize("Clear", "Clear"),
+            copyAsCurl: localize("CopyAsCurl", "Copy as cURL"),
+            name: localize("Name", "Name"),
+            method: localize("Method", "Method"),
+            status: localize("Status", "Status"),
+            type: localize("Type", "Type"),
+            time: localize("Time", "Time"),
+            size: localize("Size", "Size"),
+            pending: localize("Pending", "(pending)"),
+            failed: localize("Failed", "(failed)"),
+            requestHeaders: localize("RequestHeaders", "Request Headers"),
+            responseHeaders: localize("ResponseHeaders", "Response Headers"),
+            payload: localize("Payload", "Payload"),
+            response: localize("Response", "Response"),
+            disconnected: localize("AppDisconnected", "The app is disconnected"),
+        };
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { padding: 0; font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); }
+        .toolbar { padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+        .toolbar .status { margin-left: 8px; color: var(--vscode-errorForeground); }
+        button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 3px 10px; cursor: pointer; }
+        button:disabled { opacity: 0.5; cursor: default; }
+        .content { display: flex; height: calc(100vh - 36px); }
+        .requests { flex: 1; overflow: auto; }
+        .details { flex: 1; overflow: auto; padding: 0 8px; border-left: 1px solid var(--vscode-panel-border); display: none; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { text-align: left; padding: 2px 6px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; max-width: 360px; }
+        tr.request { cursor: pointer; }
+        tr.request:hover { background: var(--vscode-list-hoverBackground); }
+        tr.selected { background: var(--vscode-list-activeSelectionBackground); color: var(--vscode-list-activeSelectionForeground); }
+        tr.error td { color: var(--vscode-errorForeground); }
+        pre { white-space: pre-wrap; word-break: break-all; font-family: var(--vscode-editor-font-family); }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <button id="clear">${strings.clear}</button>
+        <button id="copyAsCurl" disabled>${strings.copyAsCurl}</button>
+        <span class="status" id="status"></span>
+    </div>
+    <div class="content">
+        <div class="requests">
+            <table>
+                <thead><tr><th>${strings.name}</th><th>${strings.method}</th><th>${strings.status}</th><th>${strings.type}</th><th>${strings.time}</th><th>${strings.size}</th></tr></thead>
+                <tbody id="requests"></tbody>
+            </table>
+        </div>
+        <div class="details" id="details"></div>
+    </div>
+    <script nonce="${nonce}">
+        (function () {
+            const vscode = acquireVsCodeApi();
+            const strings = ${JSON.stringify(strings)};
+            const rows = new Map();
+            let selectedRequestId;
+
+            function escapeHtml(value) {
+                return String(value === undefined || value === null ? "" : value)
+                    .replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+            }
+
+            function getName(url) {
+                const path = url.split("?")[0].replace(/\\/$/, "");
+                return path.substr(path.lastIndexOf("/") + 1) || url;
+            }
+
+            function renderRow(row, request) {
+                const status = request.errorText ? strings.failed : request.status === undefined ? strings.pending : request.status;
+                row.className = "request" + (request.errorText || request.status >= 400 ? " error" : "") + (request.requestId === selectedRequestId ? " selected" : "");
+                row.title = request.url;
+                row.innerHTML = [
+                    getName(request.url),
+                    request.method,
+                    status,
+                    request.resourceType,
+                    request.duration !== undefined ? request.duration + " ms" : "",
+                    request.encodedDataLength !== undefined ? request.encodedDataLength + " B" : "",
+                ].map(value => "<td>" + escapeHtml(value) + "</td>").join("");
+            }
+
+            function renderHeaders(title, headers) {
+                const names = Object.keys(headers || {});
+                return "<h4>" + escapeHtml(title) + "</h4><pre>" + names.map(name => escapeHtml(name + ": " + headers[name])).join("\\n") + "</pre>";
+            }
+
+            function renderDetails(message) {
+                const request = message.request;
+                const details = document.getElementById("details");
+                details.style.display = "block";
+                details.innerHTML = "<h3>" + escapeHtml(request.method + " " + request.url) + "</h3>"
+                    + "<p>" + escapeHtml(request.errorText || ((request.status || "") + " " + (request.statusText || ""))) + "</p>"
+                    + renderHeaders(strings.requestHeaders, request.requestHeaders)
+                    + (message.postData !== undefined ? "<h4>" + escapeHtml(strings.payload) + "</h4><pre>" + escapeHtml(message.postData) + "</pre>" : "")
+                    + (request.responseHeaders ? renderHeaders(strings.responseHeaders, request.responseHeaders) : "")
+                    + (message.responseBody !== undefined ? "<h4>" + escapeHtml(strings.response) + "</h4><pre>" + escapeHtml(message.responseBody) + "</pre>" : "");
+            }
+
+            function selectRequest(requestId) {
+                const previousRow = rows.get(selectedRequestId);
+                if (previousRow) {
+                    previousRow.classList.remove("selected");
+                }
+                selectedRequestId = requestId;
+                rows.get(requestId).classList.add("selected");
+                document.getElementById("copyAsCurl").disabled = false;
+                vscode.postMessage({ type: "select", requestId });
+            }
+
+            document.getElementById("clear").addEventListener("click", () => vscode.postMessage({ type: "clear" }));
+            document.getElementById("copyAsCurl").addEventListener("click", () => vscode.postMessage({ type: "copyAsCurl", requestId: selectedRequestId }));
+
+            window.addEventListener("message", (event) => {
+                const message = event.data;
+                switch (message.type) {
+                    case "request": {
+                        let row = rows.get(message.request.requestId);
+                        if (!row) {
+                            row = document.createElement("tr");
+                            const requestId = message.request.requestId;
+                            row.addEventListener("click", () => selectRequest(requestId));
+                            rows.set(requestId, row);
+                            document.getElementById("requests").appendChild(row);
+                        }
+                        renderRow(row, message.request);
+                        break;
+                    }
+                    case "details":
+                        if (message.request.requestId === selectedRequestId) {
+                            renderDetails(message);
+                        }
+                        break;
+                    case "clear":
+                        rows.clear();
+                        selectedRequestId = undefined;
+                        document.getElementById("requests").innerHTML = "";
+                        document.getElementById("details").style.display = "none";
+                        document.getElementById("copyAsCurl").disabled = true;
+                        break;
+                    case "disconnected":
+                        document.getElementById("status").textContent = strings.disconnected;
+                        break;
+                }
+            });
+        }());
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,163 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import { IProtocolCommand } from "vscode-cdp-proxy";
+
+export interface INetworkRequest {
+    requestId: string;
+    url: string;
+    method: string;
+    resourceType?: string;
+    requestHeaders: Record<string, string>;
+    postData?: string;
+    hasPostData?: boolean;
+    status?: number;
+    statusText?: string;
+    mimeType?: string;
+    responseHeaders?: Record<string, string>;
+    /**
+     * Wall time of the request start in milliseconds
+     */
+    startTime: number;
+    /**
+     * Time in milliseconds from the request start to the end of the loading
+     */
+    duration?: number;
+    encodedDataLength?: number;
+    errorText?: string;
+    isFinished: boolean;
+    /**
+     * The monotonic CDP timestamp of the request start in seconds, used to calculate the duration
+     */
+    timestamp: number;
+}
+
+/**
+ * Builds the list of the requests of the application from the events of the CDP "Network" domain.
+ * The events of Chrome and WebKit based webviews are handled the same way, since they share the used fields.
+ */
+export class NetworkRequestsCollector {
+    private static readonly MAX_REQUESTS_COUNT = 1000;
+
+    private requests = new Map<string, INetworkRequest>();
+
+    public static toCurlCommand(request: INetworkRequest): string {
+        const quote = (value: string) => `'${value.replace(/'/g, "'\\''")}'`;
+        const parts = [`curl ${quote(request.url)}`];
+        if (request.method !== "GET" || request.postData) {
+            parts.push(`-X ${request.method}`);
+        }
+        Object.keys(request.requestHeaders).forEach((name) => {
+            parts.push(`-H ${quote(`${name}: ${request.requestHeaders[name]}`)}`);
+        });
+        if (request.postData) {
+            parts.push(`--data-raw ${quote(request.postData)}`);
+        }
+        return parts.join(" \\\n  ");
+    }
+
+    public getRequests(): INetworkRequest[] {
+        return Array.from(this.requests.values());
+    }
+
+    public getRequest(requestId: string): INetworkRequest | undefined {
+        return this.requests.get(requestId);
+    }
+
+    public clear(): void {
+        this.requests.clear();
+    }
+
+    /**
+     * @returns the requests added or updated by the event
+     */
+    public handleEvent(event: IProtocolCommand): INetworkRequest[] {
+        const params: any = event.params || {};
+        switch (event.method) {
+            case "Network.requestWillBeSent":
+                return this.addRequest(params);
+            case "Network.responseReceived":
+                return this.updateRequest(params.requestId, (request) => {
+                    const response = params.response || {};
+                    request.status = response.status;
+                    request.statusText = response.statusText;
+                    request.mimeType = response.mimeType;
+                    request.responseHeaders = response.headers || {};
+                    request.resourceType = params.type || request.resourceType;
+                    // Chrome reports the headers actually sent with the response, e.g. cookies
+                    if (response.requestHeaders) {
+                        request.requestHeaders = response.requestHeaders;
+                    }
+                });
+            case "Network.loadingFinished":
+                return this.updateRequest(params.requestId, (request) => {
+                    request.isFinished = true;
+                    request.duration = NetworkRequestsCollector.getDuration(request, params.timestamp);
+                    request.encodedDataLength = params.encodedDataLength;
+                });
+            case "Network.loadingFailed":
+                return this.updateRequest(params.requestId, (request) => {
+                    request.isFinished = true;
+                    request.duration = NetworkRequestsCollector.getDuration(request, params.timestamp);
+                    request.errorText = params.errorText || (params.canceled ? "Canceled" : "Failed");
+                });
+            default:
+                return [];
+        }
+    }
+
+    private static getDuration(request: INetworkRequest, timestamp: number | undefined): number | undefined {
+        return typeof timestamp === "number" ? Math.max(0, Math.round((timestamp - request.timestamp) * 1000)) : undefined;
+    }
+
+    private addRequest(params: any): INetworkRequest[] {
+        const requestData = params.request;
+        if (!params.requestId || !requestData) {
+            return [];
+        }
+        const updatedRequests: INetworkRequest[] = [];
+
+        // Redirects reuse the id of the request, so the redirected one is kept under another id
+        const redirectedRequest = this.requests.get(params.requestId);
+        if (redirectedRequest && params.redirectResponse) {
+            this.requests.delete(params.requestId);
+            redirectedRequest.requestId = `${params.requestId}:${params.timestamp}`;
+            redirectedRequest.status = params.redirectResponse.status;
+            redirectedRequest.statusText = params.redirectResponse.statusText;
+            redirectedRequest.responseHeaders = params.redirectResponse.headers || {};
+            redirectedRequest.isFinished = true;
+            redirectedRequest.duration = NetworkRequestsCollector.getDuration(redirectedRequest, params.timestamp);
+            this.requests.set(redirectedRequest.requestId, redirectedRequest);
+            updatedRequests.push(redirectedRequest);
+        }
+
+        const request: INetworkRequest = {
+            requestId: params.requestId,
+            url: requestData.url,
+            method: requestData.method,
+            resourceType: params.type,
+            requestHeaders: requestData.headers || {},
+            postData: requestData.postData,
+            hasPostData: requestData.hasPostData || !!requestData.postData,
+            startTime: typeof params.wallTime === "number" ? params.wallTime * 1000 : Date.now(),
+            timestamp: params.timestamp,
+            isFinished: false,
+        };
+        this.requests.set(request.requestId, request);
+
+        if (this.requests.size > NetworkRequestsCollector.MAX_REQUESTS_COUNT) {
+            this.requests.delete(this.requests.keys().next().value);
+        }
+        updatedRequests.push(request);
+        return updatedRequests;
+    }
+
+    private updateRequest(requestId: string, update: (request: INetworkRequest) => void): INetworkRequest[] {
+        const request = this.requests.get(requestId);
+        if (!request) {
+            return [];
+        }
+        update(request);
+        return [request];
+    }
+}
@@ -0,0 +1,50 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as vscode from "vscode";
+
+export interface INetworkTarget {
+    /**
+     * The address the device was connected by last time, e.g. "192.168.1.5:37215"
+     */
+    address: string;
+    /**
+     * The mDNS service name of the device if it was discovered, since the port changes each time Wireless debugging is turned on
+     */
+    serviceName?: string;
+}
+
+/**
+ * Remembers Android devices paired and connected over Wi-Fi in the workspace state
+ */
+export class NetworkTargetsStorage {
+    private static readonly STATE_KEY: string = "cordova.android.networkTargets";
+    private static memento: vscode.Memento | null = null;
+
+    public static init(memento: vscode.Memento): void {
+        this.memento = memento;
+    }
+
+    public static getTargets(): INetworkTarget[] {
+        return this.memento ? this.memento.get<INetworkTarget[]>(this.STATE_KEY, []) : [];
+    }
+
+    public static addTarget(target: INetworkTarget): Promise<void> {
+        const targets = this.getTargets().filter(existing =>
+            existing.address !== target.address && (!target.serviceName || existing.serviceName !== target.serviceName));
+        return this.update(targets.concat(target));
+    }
+
+    public static removeTarget(address: string): Promise<void> {
+        return this.update(this.getTargets().filter(target => target.address !== address));
+    }
+
+    private static update(targets: INetworkTarget[]): Promise<void> {
+        if (!this.memento) {
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve, reject) => {
+            (<vscode.Memento>this.memento).update(this.STATE_KEY, targets).then(resolve, reject);
+        });
+    }
+}
@@ -0,0 +1,112 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+/**
+ * The metadata of a frame sent with the "Page.screencastFrame" event
+ */
+export interface IScreencastFrameMetadata {
+    deviceWidth: number;
+    deviceHeight: number;
+    offsetTop: number;
+    pageScaleFactor: number;
+}
+
+export interface IScreencastModifierKeys {
+    altKey: boolean;
+    ctrlKey: boolean;
+    metaKey: boolean;
+    shiftKey: boolean;
+}
+
+/**
+ * A mouse event in the screencast panel. The coordinates are relative to the size of the shown frame, from 0 to 1.
+ */
+export interface IScreencastMouseEvent extends IScreencastModifierKeys {
+    type: "mousedown" | "mouseup" | "mousemove" | "wheel";
+    x: number;
+    y: number;
+    button: number;
+    buttons: number;
+    detail: number;
+    deltaX?: number;
+    deltaY?: number;
+}
+
+export interface IScreencastKeyEvent extends IScreencastModifierKeys {
+    type: "keydown" | "keyup";
+    key: string;
+    code: string;
+    keyCode: number;
+}
+
+/**
+ * Converts the input events of the screencast panel to the parameters of the CDP "Input" domain commands
+ */
+export class ScreencastInput {
+    private static readonly MOUSE_EVENT_TYPES = {
+        mousedown: "mousePressed",
+        mouseup: "mouseReleased",
+        mousemove: "mouseMoved",
+        wheel: "mouseWheel",
+    };
+    private static readonly MOUSE_BUTTONS = ["left", "middle", "right"];
+    private static readonly TEXT_KEYS: Record<string, string> = {
+        Enter: "\r",
+        Tab: "\t",
+    };
+
+    /**
+     * Returns the bit field of the pressed modifier keys: Alt=1, Ctrl=2, Meta/Command=4, Shift=8
+     */
+    public static getModifiers(event: IScreencastModifierKeys): number {
+        return (event.altKey ? 1 : 0)
+            | (event.ctrlKey ? 2 : 0)
+            | (event.metaKey ? 4 : 0)
+            | (event.shiftKey ? 8 : 0);
+    }
+
+    public static toMouseEventParams(event: IScreencastMouseEvent, metadata: IScreencastFrameMetadata): any {
+        const params: any = {
+            type: ScreencastInput.MOUSE_EVENT_TYPES[event.type],
+            // The frame shows the viewport only, which starts below the top offset of the device screen
+            x: Math.round(event.x * metadata.deviceWidth),
+            y: Math.round(event.y * (metadata.deviceHeight - metadata.offsetTop)),
+            modifiers: ScreencastInput.getModifiers(event),
+        };
+
+        if (event.type === "wheel") {
+            params.button = "none";
+            params.deltaX = event.deltaX || 0;
+            params.deltaY = event.deltaY || 0;
+        } else if (event.type === "mousemove") {
+            params.button = event.buttons & 1 ? "left" : "none";
+        } else {
+            params.button = ScreencastInput.MOUSE_BUTTONS[event.button] || "none";
+            params.clickCount = event.detail || 1;
+        }
+        return params;
+    }
+
+    public static toKeyEventParams(event: IScreencastKeyEvent): any {
+        const text = ScreencastInput.getText(event);
+        const params: any = {
+            type: event.type === "keyup" ? "keyUp" : text ? "keyDown" : "rawKeyDown",
+            key: event.key,
+            code: event.code,
+            windowsVirtualKeyCode: event.keyCode,
+            modifiers: ScreencastInput.getModifiers(event),
+        };
+        if (event.type === "keydown" && text) {
+            params.text = text;
+            params.unmodifiedText = text;
+        }
+        return params;
+    }
+
+    private static getText(event: IScreencastKeyEvent): string | undefined {
+        if (event.ctrlKey || event.metaKey) {
+            return undefined;
+        }
+        return event.key.length === 1 ? event.key : ScreencastInput.TEXT_KEYS[event.key];
+    }
+}
@@ -0,0 +1,259 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as vscode from "vscode";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { ApplicationCDPClient } from "../debugger/cdp-proxy/applicationCDPClient";
+import { ApplicationCDPClientPicker } from "./applicationCDPClientPicker";
+import { IScreencastFrameMetadata, IScreencastKeyEvent, IScreencastMouseEvent, ScreencastInput } from "./screencastInput";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+type PanelMessage =
+    { type: "size", width: number, height: number }
+    | { type: "mouse", event: IScreencastMouseEvent }
+    | { type: "key", event: IScreencastKeyEvent };
+
+/**
+ * Shows the screencast of the debugged app in a webview panel and forwards the mouse and keyboard input of the panel
+ * to the app. The screencast is supported by Chrome based targets only, i.e. Android and simulate debug sessions.
+ */
+export class ScreencastPanel {
+    private static readonly VIEW_TYPE = "cordovaScreencast";
+    private static readonly FRAME_QUALITY = 80;
+    private static panels = new Map<ApplicationCDPClient, ScreencastPanel>();
+
+    private readonly panel: vscode.WebviewPanel;
+    private frameMetadata: IScreencastFrameMetadata | undefined;
+    private frameSize: { width: number, height: number } | undefined;
+    private isStarted: boolean = false;
+    private disposables: vscode.Disposable[] = [];
+
+    private constructor(private readonly client: ApplicationCDPClient) {
+        this.panel = vscode.window.createWebviewPanel(
+            ScreencastPanel.VIEW_TYPE,
+            localize("ScreencastTitle", "Screencast: {0}", client.sessionName),
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.webview.html = this.getHtml();
+
+        this.disposables.push(
+            this.client.onEvent(this.onApplicationEvent.bind(this)),
+            this.client.onClose(() => {
+                this.isStarted = false;
+                this.postMessage({ type: "disconnected" });
+            }),
+            this.panel.webview.onDidReceiveMessage(this.onPanelMessage.bind(this)),
+            // Frames aren't requested while the panel is hidden
+            this.panel.onDidChangeViewState(event => event.webviewPanel.visible ? this.startScreencast() : this.stopScreencast()),
+            this.panel.onDidDispose(this.dispose.bind(this))
+        );
+    }
+
+    public static showScreencast(): Promise<void> {
+        return ApplicationCDPClientPicker.selectClient()
+            .then((client) => {
+                if (!client) {
+                    return;
+                }
+                const existingPanel = ScreencastPanel.panels.get(client);
+                if (existingPanel) {
+                    existingPanel.panel.reveal();
+                    return;
+                }
+                ScreencastPanel.panels.set(client, new ScreencastPanel(client));
+            });
+    }
+
+    private startScreencast(): Promise<void> {
+        if (this.isStarted || !this.frameSize || !this.client.isConnected) {
+            return Promise.resolve();
+        }
+        this.isStarted = true;
+        return this.client.sendCommand("Page.startScreencast", {
+            format: "jpeg",
+            quality: ScreencastPanel.FRAME_QUALITY,
+            maxWidth: this.frameSize.width,
+            maxHeight: this.frameSize.height,
+        })
+            .then(() => void 0, (err) => {
+                this.isStarted = false;
+                this.postMessage({ type: "error", message: localize("ScreencastIsNotSupported", "The screencast isn't supported by the app: {0}", err.message) });
+            });
+    }
+
+    private stopScreencast(): Promise<void> {
+        if (!this.isStarted || !this.client.isConnected) {
+            return Promise.resolve();
+        }
+        this.isStarted = false;
+        return this.client.sendCommand("Page.stopScreencast")
+            .then(() => void 0, () => void 0);
+    }
+
+    private onApplicationEvent(event: IProtocolCommand): void {
+        if (event.method !== "Page.screencastFrame" || !this.isStarted) {
+            return;
+        }
+        const params: any = event.params;
+        this.frameMetadata = params.metadata;
+        this.postMessage({ type: "frame", data: params.data });
+        // The app sends the next frame once the previous one is acknowledged
+        this.client.sendCommand("Page.screencastFrameAck", { sessionId: params.sessionId })
+            .catch(() => void 0);
+    }
+
+    private onPanelMessage(message: PanelMessage): void {
+        switch (message.type) {
+            case "size":
+                this.frameSize = { width: message.width, height: message.height };
+                if (this.isStarted) {
+                    this.stopScreencast().then(() => this.startScreencast());
+                } else if (this.panel.visible) {
+                    this.startScreencast();
+                }
+                break;
+            case "mouse":
+                if (this.frameMetadata) {
+                    this.dispatchInput("Input.dispatchMouseEvent", ScreencastInput.toMouseEventParams(message.event, this.frameMetadata));
+                }
+                break;
+            case "key":
+                this.dispatchInput("Input.dispatchKeyEvent", ScreencastInput.toKeyEventParams(message.event));
+                break;
+        }
+    }
+
+    private dispatchInput(method: string, params: any): void {
+        if (this.client.isConnected) {
+            this.client.sendCommand(method, params)
+                .catch(() => void 0);
+        }
+    }
+
+    private postMessage(message: any): void {
+        this.panel.webview.postMessage(message);
+    }
+
+    private dispose(): void {
+        ScreencastPanel.panels.delete(this.client);
+        this.stopScreencast();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private getHtml(): string {
+        const nonce = Math.random().toString(36).substr(2);
+        const strings = {
+            waiting: localize("WaitingForFrames", "Waiting for the app to draw a frame..."),
+            disconnected: localize("AppDisconnected", "The app is disconnected"),
+        };
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; }
+        body { display: flex; flex-direction: column; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+        .status { padding: 4px 8px; }
+        .status:empty { display: none; }
+        .screen { flex: 1; display: flex; align-items: center; justify-content: center; min-height: 0; }
+        img { max-width: 100%; max-height: 100%; outline: none; cursor: pointer; box-shadow: 0 0 8px var(--vscode-widget-shadow); }
+        img:not([src]) { display: none; }
+    </style>
+</head>
+<body>
+    <div class="status" id="status"></div>
+    <div class="screen" id="screen">
+        <img id="frame" tabindex="0" draggable="false">
+    </div>
+    <script nonce="${nonce}">
+        (function () {
+            const vscode = acquireVsCodeApi();
+            const strings = ${JSON.stringify(strings)};
+            const frame = document.getElementById("frame");
+            const screen = document.getElementById("screen");
+            const status = document.getElementById("status");
+            let resizeTimeout;
+
+            status.textContent = strings.waiting;
+
+            function postSize() {
+                vscode.postMessage({
+                    type: "size",
+                    width: Math.round(screen.clientWidth * window.devicePixelRatio),
+                    height: Math.round(screen.clientHeight * window.devicePixelRatio),
+                });
+            }
+
+            function getModifierKeys(event) {
+                return { altKey: event.altKey, ctrlKey: event.ctrlKey, metaKey: event.metaKey, shiftKey: event.shiftKey };
+            }
+
+            function postMouseEvent(event) {
+                if (event.type === "mousemove" && !event.buttons) {
+                    return;
+                }
+                event.preventDefault();
+                const rect = frame.getBoundingClientRect();
+                vscode.postMessage({
+                    type: "mouse",
+                    event: Object.assign({
+                        type: event.type,
+                        x: (event.clientX - rect.left) / rect.width,
+                        y: (event.clientY - rect.top) / rect.height,
+                        button: event.button,
+                        buttons: event.buttons,
+                        detail: event.detail,
+                        deltaX: event.deltaX,
+                        deltaY: event.deltaY,
+                    }, getModifierKeys(event)),
+                });
+            }
+
+            function postKeyEvent(event) {
+                event.preventDefault();
+                vscode.postMessage({
+                    type: "key",
+                    event: Object.assign({ type: event.type, key: event.key, code: event.code, keyCode: event.keyCode }, getModifierKeys(event)),
+                });
+            }
+
+            ["mousedown", "mouseup", "mousemove", "wheel"].forEach(type => frame.addEventListener(type, postMouseEvent));
+            frame.addEventListener("mousedown", () => frame.focus());
+            frame.addEventListener("keydown", postKeyEvent);
+            frame.addEventListener("keyup", postKeyEvent);
+            frame.addEventListener("contextmenu", event => event.preventDefault());
+
+            window.addEventListener("resize", () => {
+                clearTimeout(resizeTimeout);
+                resizeTimeout = setTimeout(postSize, 300);
+            });
+
+            window.addEventListener("message", (event) => {
+                const message = event.data;
+                switch (message.type) {
+                    case "frame":
+                        frame.src = "data:image/jpeg;base64," + message.data;
+                        status.textContent = "";
+                        break;
+                    case "error":
+                        status.textContent = message.message;
+                        break;
+                    case "disconnected":
+                        status.textContent = strings.disconnected;
+                        break;
+                }
+            });
+
+            postSize();
+        }());
+    </script>
+</body>
+</html>`;
+    }
+}
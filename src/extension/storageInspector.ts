@@ -0,0 +1,269 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import { ApplicationCDPClient } from "../debugger/cdp-proxy/applicationCDPClient";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+export interface IStorageId {
+    securityOrigin: string;
+    isLocalStorage: boolean;
+}
+
+export interface ICookie {
+    name: string;
+    value: string;
+    domain: string;
+    path: string;
+    expires?: number;
+    httpOnly?: boolean;
+    secure?: boolean;
+    session?: boolean;
+    sameSite?: string;
+}
+
+export interface IObjectStore {
+    name: string;
+    keyPath: string;
+}
+
+export interface IObjectStoreEntry {
+    key: string;
+    value: string;
+}
+
+export interface IObjectStoreData {
+    entries: IObjectStoreEntry[];
+    hasMore: boolean;
+}
+
+interface IFrameTree {
+    frame: { url: string, securityOrigin: string };
+    childFrames?: IFrameTree[];
+}
+
+/**
+ * A value of the app as it's reported by the "Runtime" domain
+ */
+export interface IRemoteObject {
+    type: string;
+    subtype?: string;
+    value?: any;
+    description?: string;
+    preview?: {
+        subtype?: string,
+        overflow: boolean,
+        properties: { name: string, type: string, value?: string }[],
+    };
+}
+
+/**
+ * Reads and changes the storage of the debugged app through the "DOMStorage", "IndexedDB" and "Network" domains.
+ * Chrome and WebKit implement these domains with a few differences, e.g. WebKit reports the cookies through
+ * the "Page" domain, so the Chrome command is sent first and the WebKit one is used as a fallback.
+ */
+export class StorageInspector {
+    public static readonly OBJECT_STORE_PAGE_SIZE = 50;
+
+    private static readonly MAX_VALUE_LENGTH = 200;
+
+    constructor(private readonly client: ApplicationCDPClient) { }
+
+    /**
+     * Enables the domains which report the changes of the storage. WebKit reports them without enabling the domains.
+     */
+    public enable(): Promise<void> {
+        return Promise.all([
+            this.client.sendCommand("DOMStorage.enable").catch(() => void 0),
+            this.client.sendCommand("IndexedDB.enable").catch(() => void 0),
+        ])
+            .then(() => void 0);
+    }
+
+    /**
+     * Returns the url of the main frame and the security origins of all the frames of the app
+     */
+    public getFrames(): Promise<{ url: string, securityOrigins: string[] }> {
+        return this.client.sendCommand("Page.getFrameTree")
+            .catch(() => this.client.sendCommand("Page.getResourceTree"))
+            .then((result) => {
+                const frameTree: IFrameTree = result.frameTree;
+                const securityOrigins: string[] = [];
+                StorageInspector.collectSecurityOrigins(frameTree, securityOrigins);
+                return { url: frameTree.frame.url, securityOrigins };
+            });
+    }
+
+    public getStorageItems(storageId: IStorageId): Promise<[string, string][]> {
+        return this.client.sendCommand("DOMStorage.getDOMStorageItems", { storageId })
+            .then(result => result.entries || []);
+    }
+
+    public setStorageItem(storageId: IStorageId, key: string, value: string): Promise<void> {
+        return this.client.sendCommand("DOMStorage.setDOMStorageItem", { storageId, key, value })
+            .then(() => void 0);
+    }
+
+    public removeStorageItem(storageId: IStorageId, key: string): Promise<void> {
+        return this.client.sendCommand("DOMStorage.removeDOMStorageItem", { storageId, key })
+            .then(() => void 0);
+    }
+
+    public clearStorage(storageId: IStorageId): Promise<void> {
+        return this.client.sendCommand("DOMStorage.clear", { storageId })
+            .catch(() => this.client.sendCommand("DOMStorage.clearDOMStorageItems", { storageId }))
+            .then(() => void 0);
+    }
+
+    public getDatabaseNames(securityOrigin: string): Promise<string[]> {
+        return this.client.sendCommand("IndexedDB.requestDatabaseNames", { securityOrigin })
+            .then(result => result.databaseNames || []);
+    }
+
+    public getObjectStores(securityOrigin: string, databaseName: string): Promise<IObjectStore[]> {
+        return this.client.sendCommand("IndexedDB.requestDatabase", { securityOrigin, databaseName })
+            .then(result => (result.databaseWithObjectStores.objectStores || []).map((objectStore: any) => ({
+                name: objectStore.name,
+                keyPath: StorageInspector.formatKeyPath(objectStore.keyPath),
+            })));
+    }
+
+    /**
+     * Returns the first page of the entries of the object store
+     */
+    public getObjectStoreData(securityOrigin: string, databaseName: string, objectStoreName: string): Promise<IObjectStoreData> {
+        return this.client.sendCommand("IndexedDB.requestData", {
+            securityOrigin,
+            databaseName,
+            objectStoreName,
+            indexName: "",
+            skipCount: 0,
+            pageSize: StorageInspector.OBJECT_STORE_PAGE_SIZE,
+        })
+            .then(result => ({
+                entries: (result.objectStoreDataEntries || []).map((entry: any) => ({
+                    key: StorageInspector.formatRemoteObject(entry.key),
+                    value: StorageInspector.formatRemoteObject(entry.value),
+                })),
+                hasMore: !!result.hasMore,
+            }));
+    }
+
+    public clearObjectStore(securityOrigin: string, databaseName: string, objectStoreName: string): Promise<void> {
+        return this.client.sendCommand("IndexedDB.clearObjectStore", { securityOrigin, databaseName, objectStoreName })
+            .then(() => void 0);
+    }
+
+    public getCookies(): Promise<ICookie[]> {
+        return this.client.sendCommand("Network.getCookies")
+            .catch(() => this.client.sendCommand("Page.getCookies"))
+            .then(result => result.cookies || []);
+    }
+
+    /**
+     * Creates or replaces the cookie with the same name, domain and path
+     * @param url - the url of the page the cookie is set for if the cookie has no domain
+     */
+    public setCookie(cookie: ICookie, url: string): Promise<void> {
+        const params: any = {
+            name: cookie.name,
+            value: cookie.value,
+            path: cookie.path || "/",
+            secure: cookie.secure,
+            httpOnly: cookie.httpOnly,
+        };
+        if (cookie.domain) {
+            params.domain = cookie.domain;
+        } else {
+            params.url = url;
+        }
+        if (!cookie.session && cookie.expires && cookie.expires > 0) {
+            params.expires = cookie.expires;
+        }
+        if (cookie.sameSite) {
+            params.sameSite = cookie.sameSite;
+        }
+
+        return this.client.sendCommand("Network.setCookie", params)
+            .then((result) => {
+                // Older Chrome versions report the failure in the result instead of an error
+                if (result && result.success === false) {
+                    throw new Error(localize("CookieIsRejected", "The cookie '{0}' is rejected by the app", cookie.name));
+                }
+            }, () => this.client.sendCommand("Page.setCookie", {
+                cookie: {
+                    name: params.name,
+                    value: params.value,
+                    domain: cookie.domain || StorageInspector.getHost(url),
+                    path: params.path,
+                    expires: params.expires || 0,
+                    session: !params.expires,
+                    httpOnly: !!cookie.httpOnly,
+                    secure: !!cookie.secure,
+                    sameSite: cookie.sameSite || "None",
+                },
+            }))
+            .then(() => void 0);
+    }
+
+    public deleteCookie(cookie: ICookie, url: string): Promise<void> {
+        return this.client.sendCommand("Network.deleteCookies", { name: cookie.name, domain: cookie.domain, path: cookie.path })
+            .catch(() => this.client.sendCommand("Page.deleteCookie", { cookieName: cookie.name, url }))
+            .then(() => void 0);
+    }
+
+    public clearCookies(url: string): Promise<void> {
+        return this.getCookies()
+            .then(cookies => Promise.all(cookies.map(cookie => this.deleteCookie(cookie, url))))
+            .then(() => void 0);
+    }
+
+    /**
+     * Formats a value of the "Runtime.RemoteObject" type the way it's shown in the console
+     */
+    public static formatRemoteObject(remoteObject: IRemoteObject | undefined): string {
+        if (!remoteObject) {
+            return "";
+        }
+        let text: string;
+        if (remoteObject.type === "string") {
+            text = JSON.stringify(remoteObject.value);
+        } else if (remoteObject.value !== undefined) {
+            text = String(remoteObject.value);
+        } else if (remoteObject.preview && remoteObject.preview.properties) {
+            const preview = remoteObject.preview;
+            const properties = preview.properties.map((property) => {
+                const value = property.type === "string" ? JSON.stringify(property.value) : property.value;
+                return preview.subtype === "array" ? value : `${property.name}: ${value}`;
+            });
+            if (preview.overflow) {
+                properties.push("…");
+            }
+            text = preview.subtype === "array" ? `[${properties.join(", ")}]` : `{${properties.join(", ")}}`;
+        } else {
+            text = remoteObject.description || remoteObject.type;
+        }
+        return text.length > StorageInspector.MAX_VALUE_LENGTH ? `${text.substr(0, StorageInspector.MAX_VALUE_LENGTH)}…` : text;
+    }
+
+    private static formatKeyPath(keyPath: any): string {
+        if (!keyPath) {
+            return "";
+        }
+        return keyPath.type === "array" ? (keyPath.array || []).join(", ") : keyPath.string || "";
+    }
+
+    private static collectSecurityOrigins(frameTree: IFrameTree, securityOrigins: string[]): void {
+        const securityOrigin = frameTree.frame.securityOrigin;
+        if (securityOrigin && securityOrigins.indexOf(securityOrigin) === -1) {
+            securityOrigins.push(securityOrigin);
+        }
+        (frameTree.childFrames || []).forEach(childFrame => StorageInspector.collectSecurityOrigins(childFrame, securityOrigins));
+    }
+
+    private static getHost(url: string): string {
+        const match = url.match(/^[a-z][a-z0-9+.-]*:\/\/([^\/:?#]*)/i);
+        return match ? match[1] : "";
+    }
+}
@@ -0,0 +1,441 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as vscode from "vscode";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { ApplicationCDPClient } from "../debugger/cdp-proxy/applicationCDPClient";
+import { ApplicationCDPClientPicker } from "./applicationCDPClientPicker";
+import { ICookie, IObjectStore, IObjectStoreEntry, IStorageId, StorageInspector } from "./storageInspector";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+type StorageCategory = "localStorage" | "sessionStorage" | "indexedDB" | "cookies";
+
+export type StorageNode =
+    { kind: "category", category: StorageCategory }
+    | { kind: "domStorage", storageId: IStorageId }
+    | { kind: "domStorageItem", storageId: IStorageId, key: string, value: string }
+    | { kind: "indexedDBDatabase", securityOrigin: string, databaseName: string }
+    | { kind: "indexedDBObjectStore", securityOrigin: string, databaseName: string, objectStore: IObjectStore }
+    | { kind: "indexedDBEntry", parentId: string, index: number, entry: IObjectStoreEntry }
+    | { kind: "cookie", cookie: ICookie }
+    | { kind: "message", parentId: string, message: string };
+
+/**
+ * Shows the local storage, the session storage, the IndexedDB databases and the cookies of the debugged app
+ * in the Storage view, and lets to change and clear them without reinstalling the app.
+ */
+export class StorageTreeDataProvider implements vscode.TreeDataProvider<StorageNode>, vscode.Disposable {
+    public static readonly VIEW_ID: string = "cordovaStorage";
+
+    private static readonly REFRESH_DELAY = 500;
+
+    private treeDataChangedEmitter = new vscode.EventEmitter<StorageNode | undefined>();
+    private categories: Record<StorageCategory, StorageNode> = {
+        localStorage: { kind: "category", category: "localStorage" },
+        sessionStorage: { kind: "category", category: "sessionStorage" },
+        indexedDB: { kind: "category", category: "indexedDB" },
+        cookies: { kind: "category", category: "cookies" },
+    };
+    private client: ApplicationCDPClient | null = null;
+    private inspector: StorageInspector | null = null;
+    private frames: Promise<{ url: string, securityOrigins: string[] }> | null = null;
+    private pendingRefreshes = new Map<StorageNode, NodeJS.Timer>();
+    private clientDisposables: vscode.Disposable[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    public readonly onDidChangeTreeData: vscode.Event<StorageNode | undefined> = this.treeDataChangedEmitter.event;
+
+    constructor() {
+        this.disposables.push(
+            this.treeDataChangedEmitter,
+            ApplicationCDPClient.onDidChangeClients(() => {
+                if (!this.client || ApplicationCDPClient.getClients().indexOf(this.client) === -1) {
+                    this.setClient(ApplicationCDPClient.getClients()[0] || null);
+                }
+            })
+        );
+    }
+
+    public selectSession(): Promise<void> {
+        return ApplicationCDPClientPicker.selectClient()
+            .then((client) => {
+                if (client) {
+                    this.setClient(client);
+                }
+            });
+    }
+
+    public refresh(): void {
+        this.frames = null;
+        this.treeDataChangedEmitter.fire(undefined);
+    }
+
+    public getTreeItem(node: StorageNode): vscode.TreeItem {
+        const treeItem = new vscode.TreeItem(this.getLabel(node), vscode.TreeItemCollapsibleState.None);
+        treeItem.id = this.getId(node);
+        treeItem.contextValue = node.kind === "category" && node.category === "cookies" ? "cookies" : node.kind;
+
+        switch (node.kind) {
+            case "category":
+            case "domStorage":
+            case "indexedDBDatabase":
+                treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+                break;
+            case "indexedDBObjectStore":
+                treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+                if (node.objectStore.keyPath) {
+                    treeItem.description = localize("KeyPath", "key path: {0}", node.objectStore.keyPath);
+                }
+                break;
+            case "domStorageItem":
+                treeItem.description = node.value;
+                treeItem.tooltip = node.value;
+                break;
+            case "indexedDBEntry":
+                treeItem.description = node.entry.value;
+                treeItem.tooltip = node.entry.value;
+                break;
+            case "cookie":
+                treeItem.description = node.cookie.value;
+                treeItem.tooltip = localize(
+                    "CookieTooltip",
+                    "{0}={1}\nDomain: {2}\nPath: {3}\nExpires: {4}",
+                    node.cookie.name,
+                    node.cookie.value,
+                    node.cookie.domain,
+                    node.cookie.path,
+                    node.cookie.session || !node.cookie.expires || node.cookie.expires < 0
+                        ? localize("SessionCookie", "Session")
+                        : new Date(node.cookie.expires * 1000).toUTCString()
+                );
+                break;
+        }
+        return treeItem;
+    }
+
+    public getChildren(node?: StorageNode): Promise<StorageNode[]> {
+        const inspector = this.inspector;
+        if (!inspector) {
+            return Promise.resolve([]);
+        }
+        if (!node) {
+            return Promise.resolve([
+                this.categories.localStorage,
+                this.categories.sessionStorage,
+                this.categories.indexedDB,
+                this.categories.cookies,
+            ]);
+        }
+
+        const parentId = this.getId(node);
+        let children: Promise<StorageNode[]>;
+        switch (node.kind) {
+            case "category":
+                children = this.getCategoryChildren(inspector, node.category);
+                break;
+            case "domStorage":
+                children = inspector.getStorageItems(node.storageId)
+                    .then(entries => entries.map(([key, value]): StorageNode => ({ kind: "domStorageItem", storageId: node.storageId, key, value })));
+                break;
+            case "indexedDBDatabase":
+                children = inspector.getObjectStores(node.securityOrigin, node.databaseName)
+                    .then(objectStores => objectStores.map((objectStore): StorageNode => ({
+                        kind: "indexedDBObjectStore",
+                        securityOrigin: node.securityOrigin,
+                        databaseName: node.databaseName,
+                        objectStore,
+                    })));
+                break;
+            case "indexedDBObjectStore":
+                children = inspector.getObjectStoreData(node.securityOrigin, node.databaseName, node.objectStore.name)
+                    .then((data) => {
+                        const entries = data.entries.map((entry, index): StorageNode => ({ kind: "indexedDBEntry", parentId, index, entry }));
+                        if (data.hasMore) {
+                            entries.push({
+                                kind: "message",
+                                parentId,
+                                message: localize("MoreEntries", "Only the first {0} entries are shown", StorageInspector.OBJECT_STORE_PAGE_SIZE),
+                            });
+                        }
+                        return entries;
+                    });
+                break;
+            default:
+                children = Promise.resolve([]);
+        }
+
+        return children
+            .then(
+                nodes => nodes.length ? nodes : [{ kind: "message", parentId, message: localize("NoStorageItems", "No items") }],
+                (err): StorageNode[] => [{ kind: "message", parentId, message: localize("CouldNotReadStorage", "Could not read the storage: {0}", err.message) }]
+            );
+    }
+
+    /**
+     * Adds an item to the local or session storage, or a cookie
+     */
+    public addItem(node: StorageNode): Promise<void> {
+        const inspector = this.inspector;
+        if (!inspector || (node.kind !== "domStorage" && node.kind !== "category")) {
+            return Promise.resolve();
+        }
+
+        return StorageTreeDataProvider.showInputBox({
+            prompt: node.kind === "domStorage"
+                ? localize("EnterStorageKey", "Enter the key of the item")
+                : localize("EnterCookieName", "Enter the name of the cookie"),
+            validateInput: value => value ? null : localize("NameIsEmpty", "The name can't be empty"),
+        })
+            .then((name) => {
+                if (!name) {
+                    return undefined;
+                }
+                return StorageTreeDataProvider.showInputBox({ prompt: localize("EnterValue", "Enter the value of '{0}'", name) })
+                    .then((value) => {
+                        if (value === undefined) {
+                            return undefined;
+                        }
+                        if (node.kind === "domStorage") {
+                            return inspector.setStorageItem(node.storageId, name, value);
+                        }
+                        return this.getFrames(inspector)
+                            .then(frames => inspector.setCookie({ name, value, domain: "", path: "/" }, frames.url));
+                    });
+            })
+            .then(() => this.refreshNode(node), (err) => this.showError(err));
+    }
+
+    public editItem(node: StorageNode): Promise<void> {
+        const inspector = this.inspector;
+        if (!inspector || (node.kind !== "domStorageItem" && node.kind !== "cookie")) {
+            return Promise.resolve();
+        }
+
+        const name = node.kind === "domStorageItem" ? node.key : node.cookie.name;
+        return StorageTreeDataProvider.showInputBox({
+            prompt: localize("EnterValue", "Enter the value of '{0}'", name),
+            value: node.kind === "domStorageItem" ? node.value : node.cookie.value,
+        })
+            .then((value) => {
+                if (value === undefined) {
+                    return undefined;
+                }
+                if (node.kind === "domStorageItem") {
+                    return inspector.setStorageItem(node.storageId, node.key, value);
+                }
+                return this.getFrames(inspector)
+                    .then(frames => inspector.setCookie(Object.assign({}, node.cookie, { value }), frames.url));
+            })
+            .then(() => this.refreshNode(node), (err) => this.showError(err));
+    }
+
+    public removeItem(node: StorageNode): Promise<void> {
+        const inspector = this.inspector;
+        if (!inspector) {
+            return Promise.resolve();
+        }
+
+        let removal: Promise<void>;
+        if (node.kind === "domStorageItem") {
+            removal = inspector.removeStorageItem(node.storageId, node.key);
+        } else if (node.kind === "cookie") {
+            removal = this.getFrames(inspector).then(frames => inspector.deleteCookie(node.cookie, frames.url));
+        } else {
+            return Promise.resolve();
+        }
+        return removal.then(() => this.refreshNode(node), (err) => this.showError(err));
+    }
+
+    /**
+     * Clears the local or session storage of an origin, an IndexedDB object store or database, or the cookies
+     */
+    public clear(node: StorageNode): Promise<void> {
+        const inspector = this.inspector;
+        if (!inspector) {
+            return Promise.resolve();
+        }
+
+        let clearing: Promise<void>;
+        switch (node.kind) {
+            case "domStorage":
+                clearing = inspector.clearStorage(node.storageId);
+                break;
+            case "indexedDBDatabase":
+                clearing = inspector.getObjectStores(node.securityOrigin, node.databaseName)
+                    .then(objectStores => Promise.all(objectStores.map(objectStore =>
+                        inspector.clearObjectStore(node.securityOrigin, node.databaseName, objectStore.name))))
+                    .then(() => void 0);
+                break;
+            case "indexedDBObjectStore":
+                clearing = inspector.clearObjectStore(node.securityOrigin, node.databaseName, node.objectStore.name);
+                break;
+            case "category":
+                if (node.category !== "cookies") {
+                    return Promise.resolve();
+                }
+                clearing = this.getFrames(inspector).then(frames => inspector.clearCookies(frames.url));
+                break;
+            default:
+                return Promise.resolve();
+        }
+        return clearing.then(() => this.refreshNode(node), (err) => this.showError(err));
+    }
+
+    public dispose(): void {
+        this.pendingRefreshes.forEach(timeout => clearTimeout(timeout));
+        this.pendingRefreshes.clear();
+        this.clientDisposables.forEach(disposable => disposable.dispose());
+        this.clientDisposables = [];
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private static showInputBox(options: vscode.InputBoxOptions): Promise<string | undefined> {
+        return new Promise((resolve, reject) => {
+            vscode.window.showInputBox(options).then(resolve, reject);
+        });
+    }
+
+    private setClient(client: ApplicationCDPClient | null): void {
+        this.clientDisposables.forEach(disposable => disposable.dispose());
+        this.clientDisposables = [];
+        this.client = client;
+        this.inspector = client ? new StorageInspector(client) : null;
+        if (client) {
+            this.clientDisposables.push(client.onEvent(this.onApplicationEvent.bind(this)));
+        }
+        this.refresh();
+    }
+
+    private getFrames(inspector: StorageInspector): Promise<{ url: string, securityOrigins: string[] }> {
+        if (!this.frames) {
+            // The domains are enabled once per client to receive the changes of the storage made by the app
+            this.frames = inspector.enable()
+                .then(() => inspector.getFrames());
+            this.frames.catch(() => {
+                this.frames = null;
+            });
+        }
+        return this.frames;
+    }
+
+    private getCategoryChildren(inspector: StorageInspector, category: StorageCategory): Promise<StorageNode[]> {
+        if (category === "cookies") {
+            return inspector.getCookies()
+                .then(cookies => cookies.map((cookie): StorageNode => ({ kind: "cookie", cookie })));
+        }
+
+        return this.getFrames(inspector)
+            .then((frames) => {
+                if (category === "indexedDB") {
+                    return Promise.all(frames.securityOrigins.map(securityOrigin =>
+                        inspector.getDatabaseNames(securityOrigin)
+                            .then(databaseNames => databaseNames.map((databaseName): StorageNode => ({ kind: "indexedDBDatabase", securityOrigin, databaseName })))
+                    ))
+                        .then(databases => (<StorageNode[]>[]).concat(...databases));
+                }
+                return frames.securityOrigins.map((securityOrigin): StorageNode => ({
+                    kind: "domStorage",
+                    storageId: { securityOrigin, isLocalStorage: category === "localStorage" },
+                }));
+            });
+    }
+
+    private getParentCategory(node: StorageNode): StorageNode {
+        switch (node.kind) {
+            case "domStorage":
+            case "domStorageItem":
+                return node.storageId.isLocalStorage ? this.categories.localStorage : this.categories.sessionStorage;
+            case "cookie":
+                return this.categories.cookies;
+            case "indexedDBDatabase":
+            case "indexedDBObjectStore":
+                return this.categories.indexedDB;
+            default:
+                return node;
+        }
+    }
+
+    private getLabel(node: StorageNode): string {
+        switch (node.kind) {
+            case "category":
+                switch (node.category) {
+                    case "localStorage":
+                        return localize("LocalStorage", "Local Storage");
+                    case "sessionStorage":
+                        return localize("SessionStorage", "Session Storage");
+                    case "indexedDB":
+                        return "IndexedDB";
+                    default:
+                        return localize("Cookies", "Cookies");
+                }
+            case "domStorage":
+                return node.storageId.securityOrigin;
+            case "domStorageItem":
+                return node.key;
+            case "indexedDBDatabase":
+                return node.databaseName;
+            case "indexedDBObjectStore":
+                return node.objectStore.name;
+            case "indexedDBEntry":
+                return node.entry.key;
+            case "cookie":
+                return node.cookie.name;
+            case "message":
+                return node.message;
+        }
+    }
+
+    /**
+     * The ids keep the expanded nodes expanded when the tree is refreshed
+     */
+    private getId(node: StorageNode): string {
+        switch (node.kind) {
+            case "category":
+                return node.category;
+            case "domStorage":
+                return `${node.storageId.isLocalStorage ? "localStorage" : "sessionStorage"}/${node.storageId.securityOrigin}`;
+            case "domStorageItem":
+                return `${node.storageId.isLocalStorage ? "localStorage" : "sessionStorage"}/${node.storageId.securityOrigin}/${node.key}`;
+            case "indexedDBDatabase":
+                return `indexedDB/${node.securityOrigin}/${node.databaseName}`;
+            case "indexedDBObjectStore":
+                return `indexedDB/${node.securityOrigin}/${node.databaseName}/${node.objectStore.name}`;
+            case "indexedDBEntry":
+                return `${node.parentId}/${node.index}`;
+            case "cookie":
+                return `cookies/${node.cookie.domain}${node.cookie.path}/${node.cookie.name}`;
+            case "message":
+                return `${node.parentId}/message`;
+        }
+    }
+
+    /**
+     * The nodes created by "getChildren" aren't kept, so the changes are shown by refreshing the whole category
+     */
+    private refreshNode(node: StorageNode): void {
+        const category = this.getParentCategory(node);
+        const pendingRefresh = this.pendingRefreshes.get(category);
+        if (pendingRefresh) {
+            clearTimeout(pendingRefresh);
+        }
+        this.pendingRefreshes.set(category, setTimeout(() => {
+            this.pendingRefreshes.delete(category);
+            this.treeDataChangedEmitter.fire(category);
+        }, StorageTreeDataProvider.REFRESH_DELAY));
+    }
+
+    private showError(err: Error): void {
+        vscode.window.showErrorMessage(localize("CouldNotChangeStorage", "Could not change the storage of the app: {0}", err.message));
+    }
+
+    private onApplicationEvent(event: IProtocolCommand): void {
+        const params: any = event.params || {};
+        // The app reports the changes of the local and session storage, while the IndexedDB changes and the cookies are refreshed manually
+        if (event.method.indexOf("DOMStorage.") === 0 && params.storageId) {
+            this.refreshNode(params.storageId.isLocalStorage ? this.categories.localStorage : this.categories.sessionStorage);
+        }
+    }
+}
@@ -27,9 +27,19 @@ export enum AndroidAPILevel {
     GINGERBREAD_MR1 = 10,
 }
 
+export type MdnsServiceType = "connect" | "pairing";
+
+export interface IMdnsService {
+    name: string;
+    type: MdnsServiceType;
+    address: string;
+}
+
 export class AdbHelper {
 
     public static readonly AndroidSDKEmulatorPattern = /^emulator-\d{1,5}$/;
+    // Devices connected over Wi-Fi are listed by 'adb devices' either with their address or with their mDNS service name
+    public static readonly NetworkTargetPattern = /^(?:[^\s:]+:\d{1,5}|\S+\._adb-tls-connect\._tcp\.?)$/;
 
     private childProcess: ChildProcess = new ChildProcess();
     private adbExecutable: string = "";
@@ -38,6 +48,14 @@ export class AdbHelper {
         this.adbExecutable = this.getAdbPath(projectRoot, logger);
     }
 
+    public static quoteShellArgument(argument: string): string {
+        return `'${argument.replace(/'/g, "'\\''")}'`;
+    }
+
+    public static isNetworkTarget(targetId: string): boolean {
+        return AdbHelper.NetworkTargetPattern.test(targetId);
+    }
+
     /**
      * Gets the list of Android connected devices and emulators.
      */
@@ -98,14 +116,122 @@ export class AdbHelper {
         return emulatorsNames;
     }
 
+    /**
+     * Checks whether Android is booted on the target. The property is set when the boot animation ends and the device can install applications
+     */
+    public isBootCompleted(targetId: string): Promise<boolean> {
+        return this.executeQuery(targetId, "shell getprop sys.boot_completed")
+            .then(output => output.trim() === "1")
+            .catch(() => false);
+    }
+
+    public killEmulator(emulatorId: string): Promise<string> {
+        return this.execute(emulatorId, "emu kill");
+    }
+
     public async findOnlineTargetById(targetId: string): Promise<IDebuggableMobileTarget | undefined> {
         return (await this.getOnlineTargets()).find((target) => target.id === targetId);
     }
 
+    /**
+     * Pairs with a device which has Wireless debugging enabled (Android 11+) using the code shown on the device
+     */
+    public pair(address: string, pairingCode: string): Promise<void> {
+        return this.spawnForOutput(["pair", address, pairingCode])
+            .then((output) => {
+                if (!/Successfully paired/i.test(output.toString())) {
+                    throw new Error(output.toString().trim());
+                }
+            });
+    }
+
+    /**
+     * Connects to a device over the network. 'adb connect' exits with zero code even if it fails, so its output is checked.
+     */
+    public connect(address: string): Promise<void> {
+        return this.spawnForOutput(["connect", address])
+            .then((output) => {
+                if (!/(?:already )?connected to/i.test(output.toString()) || /failed|unable/i.test(output.toString())) {
+                    throw new Error(output.toString().trim());
+                }
+            });
+    }
+
+    public disconnect(address: string): Promise<void> {
+        return this.spawnForOutput(["disconnect", address]).then(() => void 0);
+    }
+
+    /**
+     * Discovers devices advertising Wireless debugging services in the local network.
+     * Older adb versions don't support mDNS, so no services are returned in this case.
+     */
+    public discoverMdnsServices(): Promise<IMdnsService[]> {
+        return this.spawnForOutput(["mdns", "services"])
+            .then(output => this.parseMdnsServices(output.toString()))
+            .catch(() => []);
+    }
+
+    public parseMdnsServices(input: string): IMdnsService[] {
+        const result: IMdnsService[] = [];
+        const regex = /^(\S+)\s+_adb-tls-(connect|pairing)\._tcp\.?\s+(\S+)\s*$/gm;
+        let match = regex.exec(input);
+        while (match != null) {
+            result.push({
+                name: match[1],
+                type: <MdnsServiceType>match[2],
+                address: match[3],
+            });
+            match = regex.exec(input);
+        }
+        return result;
+    }
+
+    /**
+     * Gets the id of the process the application package is running in, or null if the application isn't running.
+     * Older Android versions don't have 'pidof' utility, so the process list is looked through in this case.
+     */
+    public getPackagePid(targetId: string, packageName: string): Promise<string | null> {
+        return this.executeQuery(targetId, `shell pidof ${packageName}`)
+            .catch(() => "")
+            .then((pidofOutput) => {
+                const pid = pidofOutput.trim();
+                // 'pidof' prints several ids if the application runs service processes as well
+                if (/^\d+(\s+\d+)*$/.test(pid)) {
+                    return pid.split(/\s+/)[0];
+                }
+                if (pid && !/not found/.test(pid)) {
+                    return null;
+                }
+                return this.executeQuery(targetId, "shell ps")
+                    .then(psOutput => this.parsePackagePid(psOutput, packageName));
+            });
+    }
+
     public startLogCat(adbParameters: string[]): ISpawnResult {
         return this.childProcess.spawn(this.adbExecutable.replace(/\"/g, ""), adbParameters);
     }
 
+    /**
+     * Runs a shell command on the target as the application user, so the command has access to the application data directory.
+     * 'run-as' works for debuggable applications only. The command is run in the application data directory.
+     */
+    public executeAsApp(targetId: string, packageName: string, command: string): Promise<string> {
+        return this.spawnForOutput(["-s", targetId, "shell", this.getRunAsCommand(packageName, command)])
+            .then(output => output.toString());
+    }
+
+    /**
+     * Reads a file of the application data directory as is, since 'exec-out' doesn't convert line endings unlike 'shell'
+     */
+    public readAppFile(targetId: string, packageName: string, filePath: string): Promise<Buffer> {
+        return this.spawnForOutput(["-s", targetId, "exec-out", this.getRunAsCommand(packageName, `cat ${AdbHelper.quoteShellArgument(filePath)}`)]);
+    }
+
+    public writeAppFile(targetId: string, packageName: string, filePath: string, content: Uint8Array): Promise<void> {
+        return this.spawnForOutput(["-s", targetId, "exec-in", this.getRunAsCommand(packageName, `cat > ${AdbHelper.quoteShellArgument(filePath)}`)], content)
+            .then(() => void 0);
+    }
+
     public parseSdkLocation(fileContent: string, logger?: OutputChannelLogger): string | null {
         const matches = fileContent.match(/^sdk\.dir=(.+)$/m);
         if (!matches || !matches[1]) {
@@ -160,6 +286,48 @@ export class AdbHelper {
         return result;
     }
 
+    private parsePackagePid(psOutput: string, packageName: string): string | null {
+        const lines = psOutput.split(/\r?\n/);
+        const keys = (lines.shift() || "").trim().split(/\s+/);
+        const pidIdx = keys.indexOf("PID");
+        for (const line of lines) {
+            const fields = line.trim().split(/\s+/);
+            if (pidIdx >= 0 && fields[fields.length - 1] === packageName) {
+                return fields[pidIdx];
+            }
+        }
+        return null;
+    }
+
+    private getRunAsCommand(packageName: string, command: string): string {
+        return `run-as ${AdbHelper.quoteShellArgument(packageName)} sh -c ${AdbHelper.quoteShellArgument(command)}`;
+    }
+
+    private spawnForOutput(adbParameters: string[], input?: Uint8Array): Promise<Buffer> {
+        const result = this.childProcess.spawn(this.adbExecutable.replace(/\"/g, ""), adbParameters);
+        const stdoutChunks: Buffer[] = [];
+        const stderrChunks: string[] = [];
+
+        const stdoutEnded = new Promise<void>((resolve) => {
+            result.stdout.on("data", (data: Buffer) => stdoutChunks.push(data));
+            result.stdout.on("end", resolve);
+        });
+        result.stderr.on("data", (data: Buffer) => stderrChunks.push(data.toString()));
+        if (input) {
+            result.stdin.end(Buffer.from(input));
+        } else {
+            result.stdin.end();
+        }
+
+        return result.outcome
+            .catch((err) => {
+                const output = stderrChunks.join("").trim() || Buffer.concat(stdoutChunks).toString().trim();
+                throw new Error(output || err.message || err);
+            })
+            .then(() => stdoutEnded)
+            .then(() => Buffer.concat(stdoutChunks));
+    }
+
     private determineIfItIsVirtualTarget(id: string): boolean {
         return !!id.match(AdbHelper.AndroidSDKEmulatorPattern);
     }
@@ -1,6 +1,8 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license. See LICENSE file in the project root for details.
 
+import * as fs from "fs";
+import * as path from "path";
 import * as nls from "vscode-nls";
 import { MobileTargetManager } from "../mobileTargetManager";
 import { AdbHelper } from "./adb";
@@ -8,6 +10,7 @@ import { ChildProcess } from "../../common/node/childProcess";
 import { OutputChannelLogger } from "../log/outputChannelLogger";
 import { IDebuggableMobileTarget, IMobileTarget, MobileTarget } from "../mobileTarget";
 import { TargetType } from "../../debugger/cordovaDebugSession";
+import { NetworkTargetsStorage } from "../../extension/networkTargetsStorage";
 
 nls.config({
     messageFormat: nls.MessageFormat.bundle,
@@ -15,6 +18,14 @@ nls.config({
 })();
 const localize = nls.loadMessageBundle();
 
+export interface IEmulatorLaunchOptions {
+    coldBoot?: boolean;
+    wipeData?: boolean;
+    headless?: boolean;
+    gpu?: string;
+    bootTimeout?: number;
+}
+
 export class AndroidTarget extends MobileTarget {
 
     public static fromInterface(obj: IDebuggableMobileTarget): AndroidTarget {
@@ -27,10 +38,13 @@ export class AndroidTarget extends MobileTarget {
 }
 
 export class AndroidTargetManager extends MobileTargetManager {
+    public static readonly EMULATOR_START_TIMEOUT = 120;
+    public static readonly GPU_MODES: string[] = ["auto", "host", "swiftshader_indirect", "angle_indirect", "guest"];
+
     private static readonly EMULATOR_COMMAND = "emulator";
     private static readonly EMULATOR_AVD_START_COMMAND = "-avd";
-
-    private static readonly EMULATOR_START_TIMEOUT = 120;
+    private static readonly AVDMANAGER_COMMAND = "avdmanager";
+    private static readonly SYSTEM_IMAGES_FOLDER = "system-images";
 
     private logger: OutputChannelLogger = OutputChannelLogger.getChannel(
         OutputChannelLogger.MAIN_CHANNEL_NAME,
@@ -46,6 +60,51 @@ export class AndroidTargetManager extends MobileTargetManager {
         this.childProcess = new ChildProcess();
     }
 
+    public static getEmulatorArguments(avdName: string, options: IEmulatorLaunchOptions = {}): string[] {
+        const args = [AndroidTargetManager.EMULATOR_AVD_START_COMMAND, avdName];
+        if (options.coldBoot) {
+            args.push("-no-snapshot-load");
+        }
+        if (options.wipeData) {
+            args.push("-wipe-data");
+        }
+        if (options.headless) {
+            args.push("-no-window");
+        }
+        if (options.gpu) {
+            args.push("-gpu", options.gpu);
+        }
+        return args;
+    }
+
+    /**
+     * Gets the system images installed to Android SDK as sdkmanager package paths, e.g. "system-images;android-30;google_apis;x86_64"
+     */
+    public static getInstalledSystemImages(sdkRoot: string | undefined = process.env.ANDROID_SDK_ROOT || process.env.ANDROID_HOME): string[] {
+        if (!sdkRoot) {
+            throw new Error(localize("AndroidSdkRootIsNotSet", "Android SDK location is unknown. Please set ANDROID_SDK_ROOT environment variable"));
+        }
+
+        const listFolders = (folderPath: string): string[] => {
+            try {
+                return fs.readdirSync(folderPath).filter(name => fs.statSync(path.join(folderPath, name)).isDirectory());
+            } catch {
+                return [];
+            }
+        };
+
+        const systemImagesPath = path.join(sdkRoot, AndroidTargetManager.SYSTEM_IMAGES_FOLDER);
+        const images: string[] = [];
+        listFolders(systemImagesPath).forEach(apiLevel =>
+            listFolders(path.join(systemImagesPath, apiLevel)).forEach(tag =>
+                listFolders(path.join(systemImagesPath, apiLevel, tag)).forEach(abi =>
+                    images.push([AndroidTargetManager.SYSTEM_IMAGES_FOLDER, apiLevel, tag, abi].join(";"))
+                )
+            )
+        );
+        return images;
+    }
+
     public async isVirtualTarget(target: string): Promise<boolean> {
         try {
             if (target === TargetType.Device) {
@@ -56,6 +115,8 @@ export class AndroidTargetManager extends MobileTargetManager {
                 const onlineTarget = await this.adbHelper.findOnlineTargetById(target);
                 if (onlineTarget) {
                     return onlineTarget.isVirtualTarget;
+                } else if (AdbHelper.isNetworkTarget(target)) {
+                    return false;
                 } else if ((await this.adbHelper.getAvdsNames()).includes(target)) {
                     return true;
                 } else {
@@ -71,7 +132,9 @@ export class AndroidTargetManager extends MobileTargetManager {
         const selectedTarget = await this.startSelection(filter);
         if (selectedTarget) {
             if (!selectedTarget.isOnline) {
-                return this.launchSimulator(selectedTarget);
+                return selectedTarget.isVirtualTarget
+                    ? this.launchSimulator(selectedTarget)
+                    : this.connectNetworkTarget(selectedTarget.id, selectedTarget.name);
             } else {
                 if (selectedTarget.id) {
                     return AndroidTarget.fromInterface(<IDebuggableMobileTarget>selectedTarget);
@@ -107,18 +170,112 @@ export class AndroidTargetManager extends MobileTargetManager {
             }
         }
 
+        if (!targetType || targetType === TargetType.Device) {
+            targetList.push(...await this.getOfflineNetworkTargets(onlineTargets));
+        }
+
         this.targets = targetList;
     }
 
+    /**
+     * Finds the targets by their ids or emulator names, starting emulators and connecting Wi-Fi devices which are offline
+     */
+    public async prepareTargets(targetNames: string[]): Promise<AndroidTarget[]> {
+        await this.collectTargets();
+
+        const preparedTargets: AndroidTarget[] = [];
+        for (const targetName of new Set(targetNames)) {
+            const target = await this.selectAndPrepareTarget(el => el.id === targetName || el.name === targetName);
+            if (!target) {
+                throw new Error(localize("CouldNotFindAndroidTarget", "Could not find Android target {0}", targetName));
+            }
+            if (!preparedTargets.some(preparedTarget => preparedTarget.id === target.id)) {
+                preparedTargets.push(target);
+            }
+        }
+        return preparedTargets;
+    }
+
+    /**
+     * Connects to a device over Wi-Fi and remembers it, so the device is offered for selection next time
+     */
+    public async connectNetworkTarget(address: string, serviceName?: string): Promise<AndroidTarget> {
+        await this.adbHelper.connect(address);
+        await NetworkTargetsStorage.addTarget({ address, serviceName });
+        this.logger.log(localize("ConnectedToNetworkDevice", "Connected to {0}", address));
+        return new AndroidTarget(true, false, address);
+    }
+
+    public async launchEmulator(avdName: string, options: IEmulatorLaunchOptions = {}): Promise<AndroidTarget> {
+        return this.launchSimulator({ name: avdName, isOnline: false, isVirtualTarget: true }, options);
+    }
+
+    public async stopEmulator(emulatorId: string): Promise<void> {
+        await this.adbHelper.killEmulator(emulatorId);
+        this.logger.log(localize("EmulatorStopped", "Stopped emulator {0}", emulatorId));
+    }
+
+    /**
+     * Creates an Android Virtual Device with the default hardware profile from the installed system image
+     */
+    public async createVirtualDevice(avdName: string, systemImage: string): Promise<void> {
+        const avdManagerProcess = this.childProcess.spawn(
+            AndroidTargetManager.AVDMANAGER_COMMAND,
+            ["create", "avd", "--name", avdName, "--package", systemImage],
+            {},
+            true,
+        );
+        // avdmanager asks whether to create a custom hardware profile
+        avdManagerProcess.stdin.end("no\n");
+        avdManagerProcess.stdout.on("data", (data: Buffer) => this.logger.append(data.toString()));
+        await avdManagerProcess.outcome;
+        this.logger.log(localize("VirtualDeviceCreated", "Created Android Virtual Device {0} from {1}", avdName, systemImage));
+    }
+
+    /**
+     * Gets devices which can be connected over Wi-Fi: remembered ones and ones discovered in the local network via mDNS.
+     * The mDNS service name is used as the name of the target, since it doesn't change unlike the port of the device.
+     */
+    public async getOfflineNetworkTargets(onlineTargets: IDebuggableMobileTarget[]): Promise<IMobileTarget[]> {
+        const connectServices = (await this.adbHelper.discoverMdnsServices()).filter(service => service.type === "connect");
+        const networkTargets: IMobileTarget[] = [];
+
+        const addTarget = (address: string, serviceName?: string) => {
+            const isOnline = onlineTargets.some(target => target.id === address || (!!serviceName && target.id.startsWith(`${serviceName}.`)));
+            if (isOnline || networkTargets.some(target => target.id === address)) {
+                return;
+            }
+            networkTargets.push({ id: address, name: serviceName, isOnline: false, isVirtualTarget: false });
+        };
+
+        NetworkTargetsStorage.getTargets().forEach((rememberedTarget) => {
+            // The port of a device changes each time Wireless debugging is turned on, so the discovered address is preferred
+            const service = connectServices.find(connectService => !!rememberedTarget.serviceName && connectService.name === rememberedTarget.serviceName);
+            addTarget(service ? service.address : rememberedTarget.address, rememberedTarget.serviceName);
+        });
+        connectServices.forEach(service => addTarget(service.address, service.name));
+
+        return networkTargets;
+    }
+
     protected async startSelection(filter?: (el: IMobileTarget) => boolean): Promise<IMobileTarget | undefined> {
         return this.selectTarget(filter);
     }
 
-    protected async launchSimulator(emulatorTarget: IMobileTarget): Promise<AndroidTarget> {
+    protected async launchSimulator(emulatorTarget: IMobileTarget, options: IEmulatorLaunchOptions = {}): Promise<AndroidTarget> {
+        const bootTimeout = options.bootTimeout || AndroidTargetManager.EMULATOR_START_TIMEOUT;
+
         return new Promise<AndroidTarget>((resolve, reject) => {
+            let rejectTimeout: NodeJS.Timeout;
+            let bootCheckInterval: NodeJS.Timeout;
+            const cleanup = () => {
+                clearTimeout(rejectTimeout);
+                clearInterval(bootCheckInterval);
+            };
+
             const emulatorProcess = this.childProcess.spawn(
                 AndroidTargetManager.EMULATOR_COMMAND,
-                [AndroidTargetManager.EMULATOR_AVD_START_COMMAND, emulatorTarget.name],
+                AndroidTargetManager.getEmulatorArguments(emulatorTarget.name, options),
                 {
                     detached: true,
                 },
@@ -137,41 +294,57 @@ export class AndroidTargetManager extends MobileTargetManager {
                         ),
                     );
                 }
+                cleanup();
                 reject(new Error(`Virtual device launch finished with an exception: ${error}`));
             });
             emulatorProcess.spawnedProcess.unref();
 
-            const rejectTimeout = setTimeout(() => {
+            rejectTimeout = setTimeout(() => {
                 cleanup();
                 reject(new Error(`Virtual device launch finished with an exception: ${localize(
                     "EmulatorStartWarning",
                     "Could not start the emulator {0} within {1} seconds.",
                     emulatorTarget.name,
-                    AndroidTargetManager.EMULATOR_START_TIMEOUT,
+                    bootTimeout,
                 )}`));
-            }, AndroidTargetManager.EMULATOR_START_TIMEOUT * 1000);
-
-            const bootCheckInterval = setInterval(async () => {
-                const connectedDevices = await this.adbHelper.getOnlineTargets();
-                for (let i = 0; i < connectedDevices.length; i++) {
-                    const onlineAvdName = await this.adbHelper.getAvdNameById(connectedDevices[i].id);
-                    if (onlineAvdName === emulatorTarget.name) {
-                        emulatorTarget.id = connectedDevices[i].id;
+            }, bootTimeout * 1000);
+
+            // The emulator appears in 'adb devices' list long before Android is booted,
+            // so once its id is found the emulator is polled until 'sys.boot_completed' property is set
+            let isChecking = false;
+            bootCheckInterval = setInterval(async () => {
+                if (isChecking) {
+                    return;
+                }
+                isChecking = true;
+                try {
+                    if (!emulatorTarget.id) {
+                        emulatorTarget.id = await this.findEmulatorId(emulatorTarget.name);
+                    }
+                    if (emulatorTarget.id && await this.adbHelper.isBootCompleted(emulatorTarget.id)) {
                         emulatorTarget.isOnline = true;
                         this.logger.log(
                             localize("EmulatorLaunched", "Launched emulator {0}", emulatorTarget.name),
                         );
                         cleanup();
                         resolve(AndroidTarget.fromInterface(<IDebuggableMobileTarget>emulatorTarget));
-                        break;
                     }
+                } catch {
+                    // adb may fail while the emulator is starting, the check will be repeated
+                } finally {
+                    isChecking = false;
                 }
             }, 1000);
-
-            const cleanup = () => {
-                clearTimeout(rejectTimeout);
-                clearInterval(bootCheckInterval);
-            };
         });
     }
+
+    private async findEmulatorId(avdName: string): Promise<string | undefined> {
+        const connectedDevices = await this.adbHelper.getOnlineTargets();
+        for (const device of connectedDevices) {
+            if (device.isVirtualTarget && await this.adbHelper.getAvdNameById(device.id) === avdName) {
+                return device.id;
+            }
+        }
+        return undefined;
+    }
 }
@@ -0,0 +1,189 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as nls from "vscode-nls";
+import { AdbHelper } from "./adb";
+import { OutputChannelLogger } from "../log/outputChannelLogger";
+import { ISpawnResult } from "../../common/node/childProcess";
+import { retryAsync } from "../extensionHelper";
+nls.config({
+    messageFormat: nls.MessageFormat.bundle,
+    bundleFormat: nls.BundleFormat.standalone,
+})();
+const localize = nls.loadMessageBundle();
+
+export interface ILogCatFilter {
+    tags: string[];
+    level: string;
+}
+
+/**
+ * Streams the logcat output of an application running on an Android device or emulator to the "Cordova Logcat" output channel.
+ * The channel isn't disposed when a monitor stops, so the log of the previous debug sessions stays available after their restart.
+ * Logcat is filtered by the application process, so the monitor follows the new process once the application is restarted.
+ */
+export class LogCatMonitor {
+    public static readonly CHANNEL_NAME: string = "Cordova Logcat";
+
+    private static readonly LEVELS: { [level: string]: string } = {
+        verbose: "V",
+        debug: "D",
+        info: "I",
+        warning: "W",
+        error: "E",
+        fatal: "F",
+    };
+    private static readonly PID_CHECK_INTERVAL: number = 2000;
+    private static monitors: { [targetId: string]: LogCatMonitor } = {};
+
+    private logCatProcess: ISpawnResult | null = null;
+    private pid: string | null = null;
+    private pidCheckTimer: NodeJS.Timer | null = null;
+    private isCheckingPid: boolean = false;
+    private stopped: boolean = false;
+    private logger: OutputChannelLogger;
+
+    constructor(
+        private adbHelper: AdbHelper,
+        public readonly targetId: string,
+        public readonly packageName: string,
+        private filter: ILogCatFilter
+    ) {
+        this.logger = OutputChannelLogger.getChannel(LogCatMonitor.CHANNEL_NAME, true, true);
+    }
+
+    /**
+     * Starts a monitor for the application replacing the one which is running on the target
+     */
+    public static startMonitor(adbHelper: AdbHelper, targetId: string, packageName: string, filter: ILogCatFilter): Promise<LogCatMonitor> {
+        LogCatMonitor.stopMonitor(targetId);
+
+        const monitor = new LogCatMonitor(adbHelper, targetId, packageName, filter);
+        LogCatMonitor.monitors[targetId] = monitor;
+        return monitor.start().then(() => monitor);
+    }
+
+    public static stopMonitor(targetId: string): void {
+        const monitor = LogCatMonitor.monitors[targetId];
+        if (monitor) {
+            monitor.stop();
+        }
+    }
+
+    public static stopAllMonitors(): void {
+        Object.keys(LogCatMonitor.monitors).forEach(targetId => LogCatMonitor.stopMonitor(targetId));
+    }
+
+    /**
+     * Converts the tags and the level to logcat filter specs, e.g. "chromium:I CordovaLog:I *:S".
+     * If no tags are specified, all tags are shown with the level.
+     */
+    public static getFilterSpecs(filter: ILogCatFilter): string[] {
+        const level = LogCatMonitor.LEVELS[(filter.level || "").toLowerCase()] || LogCatMonitor.LEVELS.verbose;
+        const tags = (filter.tags || []).map(tag => tag.trim()).filter(tag => !!tag);
+
+        if (!tags.length) {
+            return [`*:${level}`];
+        }
+        return tags
+            .map(tag => tag.indexOf(":") >= 0 ? tag : `${tag}:${level}`)
+            .concat("*:S");
+    }
+
+    public getOutputChannelLogger(): OutputChannelLogger {
+        return this.logger;
+    }
+
+    public start(): Promise<void> {
+        this.logger.log(localize("LogCatStarting", "--------- Logcat of {0} on {1} ---------", this.packageName, this.targetId));
+
+        // The application may not be started yet when the debugging begins, so wait for its process a bit
+        return retryAsync(
+            () => this.stopped ? Promise.resolve("") : this.adbHelper.getPackagePid(this.targetId, this.packageName),
+            (pid) => this.stopped || !!pid,
+            10,
+            1,
+            1000,
+            localize("LogCatAppIsNotRunning", "Couldn't find the process of the application {0} on {1}", this.packageName, this.targetId)
+        )
+            .then((pid) => {
+                if (this.stopped) {
+                    return;
+                }
+
+                this.startLogCat(pid);
+                this.pidCheckTimer = setInterval(() => this.checkPid(), LogCatMonitor.PID_CHECK_INTERVAL);
+            })
+            .catch((err) => {
+                this.logger.log(err.message || err);
+                throw err;
+            });
+    }
+
+    public stop(): void {
+        this.stopped = true;
+        if (LogCatMonitor.monitors[this.targetId] === this) {
+            delete LogCatMonitor.monitors[this.targetId];
+        }
+        if (this.pidCheckTimer) {
+            clearInterval(this.pidCheckTimer);
+            this.pidCheckTimer = null;
+        }
+        if (this.logCatProcess) {
+            this.logCatProcess.spawnedProcess.kill();
+            this.logCatProcess = null;
+            this.logger.log(localize("LogCatStopped", "--------- Logcat of {0} stopped ---------", this.packageName));
+        }
+    }
+
+    private startLogCat(pid: string): void {
+        if (this.logCatProcess) {
+            this.logCatProcess.spawnedProcess.kill();
+        }
+
+        const logCatArguments = ["-s", this.targetId, "logcat", "-v", "threadtime", `--pid=${pid}`]
+            .concat(LogCatMonitor.getFilterSpecs(this.filter));
+        const logCatProcess = this.adbHelper.startLogCat(logCatArguments);
+        this.logCatProcess = logCatProcess;
+        this.pid = pid;
+
+        logCatProcess.stdout.on("data", (data: Buffer) => this.logger.append(data.toString()));
+        logCatProcess.stderr.on("data", (data: Buffer) => this.logger.append(data.toString()));
+        logCatProcess.outcome.then(
+            () => {
+                if (this.logCatProcess === logCatProcess) {
+                    this.logger.log(localize("LogCatFinished", "--------- Logcat of {0} finished ---------", this.packageName));
+                }
+            },
+            (err) => {
+                // The process of the previous application run is killed on purpose when the application restarts
+                if (!this.stopped && this.logCatProcess === logCatProcess) {
+                    this.logger.log(localize("LogCatFailed", "--------- Logcat of {0} failed: {1} ---------", this.packageName, err.message || err));
+                }
+            }
+        );
+    }
+
+    /**
+     * Restarts logcat for the new process of the application once the application is restarted.
+     * The running logcat is kept while the application isn't running, so its last output isn't lost
+     */
+    private checkPid(): void {
+        if (this.isCheckingPid) {
+            return;
+        }
+
+        this.isCheckingPid = true;
+        this.adbHelper.getPackagePid(this.targetId, this.packageName)
+            .then((pid) => {
+                if (!this.stopped && pid && pid !== this.pid) {
+                    this.logger.log(localize("LogCatAppRestarted", "--------- Application {0} restarted with process id {1} ---------", this.packageName, pid));
+                    this.startLogCat(pid);
+                }
+            })
+            .catch(() => { /* The target may be disconnected for a while, so the process is checked again later */ })
+            .then(() => {
+                this.isCheckingPid = false;
+            });
+    }
+}
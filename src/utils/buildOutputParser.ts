@@ -0,0 +1,177 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+
+export type BuildProblemSeverity = "error" | "warning";
+
+export interface IBuildProblem {
+    file: string;
+    line: number;
+    column: number;
+    severity: BuildProblemSeverity;
+    message: string;
+    source: string;
+    code?: string;
+}
+
+interface IProblemPattern {
+    regex: RegExp;
+    toProblem: (match: RegExpExecArray) => IBuildProblem;
+}
+
+function toSeverity(value: string): BuildProblemSeverity {
+    return /^(w|warning)$/i.test(value) ? "warning" : "error";
+}
+
+/**
+ * Extracts compiler errors and warnings from the output of Cordova and Ionic CLI.
+ * The output is processed line by line as it comes, since chunks of a process stream may split lines.
+ */
+export class BuildOutputParser {
+    private static ANSI_ESCAPE_REGEX = /\u001b\[[\d;]*[A-Za-z]/g;
+
+    private static PATTERNS: IProblemPattern[] = [
+        {
+            // TypeScript and Angular compilers: "src/app/app.component.ts:12:5 - error TS2322: message",
+            // Angular CLI prefixes these lines with "Error: " and "Warning: "
+            regex: /^(?:Error: |Warning: )?(.+?\.(?:tsx?|html|scss|css)):(\d+):(\d+) - (error|warning) ((?:TS|NG)\d+): (.+)$/,
+            toProblem: (match) => ({
+                file: match[1], line: +match[2], column: +match[3], severity: toSeverity(match[4]),
+                code: match[5], message: match[6], source: match[5].startsWith("NG") ? "angular" : "tsc",
+            }),
+        },
+        {
+            // TypeScript compiler without pretty output: "src/app.ts(12,5): error TS2322: message"
+            regex: /^(.+?\.tsx?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.+)$/,
+            toProblem: (match) => ({
+                file: match[1], line: +match[2], column: +match[3], severity: toSeverity(match[4]),
+                code: match[5], message: match[6], source: "tsc",
+            }),
+        },
+        {
+            // javac: "/path/MainActivity.java:12: error: cannot find symbol"
+            regex: /^(.+?\.java):(\d+): (error|warning): (.+)$/,
+            toProblem: (match) => ({
+                file: match[1], line: +match[2], column: 1, severity: toSeverity(match[3]),
+                message: match[4], source: "javac",
+            }),
+        },
+        {
+            // Kotlin compiler: "e: /path/File.kt: (12, 5): message" or "e: file:///path/File.kt:12:5 message"
+            regex: /^([ew]): (?:file:\/\/)?(.+?\.kts?)(?::? \((\d+), (\d+)\):|:(\d+):(\d+)) (.+)$/,
+            toProblem: (match) => ({
+                file: match[2], line: +(match[3] || match[5]), column: +(match[4] || match[6]), severity: toSeverity(match[1]),
+                message: match[7], source: "kotlinc",
+            }),
+        },
+        {
+            // Android resource compiler: "ERROR:/path/res/values/strings.xml:5: AAPT: error: message"
+            regex: /^ERROR:\s*(.+?):(\d+): AAPT: (?:error: )?(.+)$/,
+            toProblem: (match) => ({
+                file: match[1], line: +match[2], column: 1, severity: "error",
+                message: match[3], source: "aapt",
+            }),
+        },
+        {
+            // xcodebuild (clang, swiftc and ld): "/path/AppDelegate.m:12:5: error: message"
+            regex: /^((?:\/|[A-Za-z]:\\).+?):(\d+):(\d+): (error|warning|fatal error): (.+)$/,
+            toProblem: (match) => ({
+                file: match[1], line: +match[2], column: +match[3], severity: toSeverity(match[4]),
+                message: match[5], source: "xcodebuild",
+            }),
+        },
+    ];
+
+    private problems: IBuildProblem[] = [];
+    private incompleteLine: string = "";
+    // Gradle reports build script failures in the "* Where:" and "* What went wrong:" sections of its summary
+    private gradleLocation: { file: string, line: number } | null = null;
+    private gradleMessageLines: string[] | null = null;
+
+    constructor(private projectRoot: string) { }
+
+    public append(chunk: string): void {
+        const lines = (this.incompleteLine + chunk.toString()).split(/\r?\n/);
+        this.incompleteLine = lines.pop() || "";
+        lines.forEach(line => this.processLine(line));
+    }
+
+    /**
+     * Processes the rest of the output and returns the problems found
+     */
+    public finish(): IBuildProblem[] {
+        if (this.incompleteLine) {
+            this.processLine(this.incompleteLine);
+            this.incompleteLine = "";
+        }
+        this.flushGradleProblem();
+        return this.getProblems();
+    }
+
+    public getProblems(): IBuildProblem[] {
+        return this.problems;
+    }
+
+    private processLine(rawLine: string): void {
+        const line = rawLine.replace(BuildOutputParser.ANSI_ESCAPE_REGEX, "").trim();
+
+        if (this.processGradleLine(line)) {
+            return;
+        }
+
+        for (const pattern of BuildOutputParser.PATTERNS) {
+            const match = pattern.regex.exec(line);
+            if (match) {
+                this.addProblem(pattern.toProblem(match));
+                return;
+            }
+        }
+    }
+
+    private processGradleLine(line: string): boolean {
+        if (this.gradleMessageLines) {
+            if (!line || line.startsWith("* ")) {
+                this.flushGradleProblem();
+            } else {
+                this.gradleMessageLines.push(line.replace(/^>\s*/, ""));
+                return true;
+            }
+        }
+
+        const whereMatch = /^(?:Build file|Script) '(.+)' line: (\d+)$/.exec(line);
+        if (whereMatch) {
+            this.gradleLocation = { file: whereMatch[1], line: +whereMatch[2] };
+            return true;
+        }
+        if (line === "* What went wrong:") {
+            this.gradleMessageLines = [];
+            return true;
+        }
+        return false;
+    }
+
+    private flushGradleProblem(): void {
+        if (this.gradleLocation && this.gradleMessageLines && this.gradleMessageLines.length) {
+            this.addProblem({
+                file: this.gradleLocation.file,
+                line: this.gradleLocation.line,
+                column: 1,
+                severity: "error",
+                message: this.gradleMessageLines.join(" "),
+                source: "gradle",
+            });
+            this.gradleLocation = null;
+        }
+        this.gradleMessageLines = null;
+    }
+
+    private addProblem(problem: IBuildProblem): void {
+        problem.file = path.resolve(this.projectRoot, problem.file);
+        const isDuplicate = this.problems.some(existing =>
+            existing.file === problem.file && existing.line === problem.line && existing.column === problem.column && existing.message === problem.message);
+        if (!isDuplicate) {
+            this.problems.push(problem);
+        }
+    }
+}
@@ -0,0 +1,169 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as child_process from "child_process";
+import * as vscode from "vscode";
+import { killTree } from "../debugger/extension";
+import * as nls from "vscode-nls";
+nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
+const localize = nls.loadMessageBundle();
+
+export interface ICommandExecutionOptions {
+    env?: any;
+    onOutput?: (data: string) => void;
+}
+
+interface IRunningCommand {
+    commandLine: string;
+    process: child_process.ChildProcess | null;
+    finished: Promise<void>;
+    cancel: () => void;
+}
+
+export class CommandCancelledError extends Error {
+    constructor(commandLine: string) {
+        super(localize("CommandWasCancelled", "The command '{0}' was cancelled", commandLine));
+    }
+}
+
+export class CommandFailedError extends Error {
+    constructor(commandLine: string, public readonly exitCode: number) {
+        super(localize("CommandFailedWithExitCode", "The command '{0}' failed with exit code {1}", commandLine, exitCode));
+    }
+}
+
+/**
+ * Tracks Cordova and Ionic CLI processes run for the projects. Only one command runs for a project at a time,
+ * since commands share the project platforms and plugins, so a conflicting command is either queued or rejected.
+ */
+export class CommandExecutionManager {
+    private static runningCommands: { [projectRoot: string]: IRunningCommand } = {};
+    private static queuedCommands: { [projectRoot: string]: Promise<void> } = {};
+
+    public static isCommandRunning(projectRoot: string): boolean {
+        return !!CommandExecutionManager.runningCommands[projectRoot.toLowerCase()];
+    }
+
+    /**
+     * Runs a command line for the project showing a cancellable progress notification.
+     * The returned promise is resolved if the command exits with zero code, and rejected otherwise
+     */
+    public static execute(projectRoot: string, commandLine: string, options: ICommandExecutionOptions = {}): Promise<void> {
+        const projectKey = projectRoot.toLowerCase();
+        const runningCommand = CommandExecutionManager.runningCommands[projectKey];
+
+        if (!runningCommand) {
+            return CommandExecutionManager.run(projectRoot, commandLine, options);
+        }
+
+        const queueItem = localize("QueueCommand", "Queue");
+        const stopAndRunItem = localize("StopAndRunCommand", "Stop and Run");
+        return new Promise<string | undefined>((resolve, reject) => {
+            vscode.window.showWarningMessage(
+                localize("CommandIsAlreadyRunning", "The command '{0}' is already running for the project '{1}'. Do you want to queue '{2}' or stop the running command?", runningCommand.commandLine, projectRoot, commandLine),
+                queueItem,
+                stopAndRunItem
+            ).then(resolve, reject);
+        })
+            .then((selection) => {
+                if (selection === stopAndRunItem) {
+                    runningCommand.cancel();
+                } else if (selection !== queueItem) {
+                    throw new Error(localize("CommandWasRejected", "The command '{0}' was not run, since the command '{1}' is running for the project", commandLine, runningCommand.commandLine));
+                }
+                return CommandExecutionManager.enqueue(projectRoot, commandLine, options);
+            });
+    }
+
+    private static enqueue(projectRoot: string, commandLine: string, options: ICommandExecutionOptions): Promise<void> {
+        const projectKey = projectRoot.toLowerCase();
+        // The running command may finish while the user is choosing to queue the command
+        const runningCommand = CommandExecutionManager.runningCommands[projectKey];
+        const previousCommands = CommandExecutionManager.queuedCommands[projectKey]
+            || (runningCommand ? runningCommand.finished : Promise.resolve());
+
+        const execution = previousCommands
+            .catch(() => { /* A failure of the previous command shouldn't prevent the queued one from running */ })
+            .then(() => CommandExecutionManager.run(projectRoot, commandLine, options));
+
+        const queueTail = execution.catch(() => { /* Failures are reported to the caller */ });
+        CommandExecutionManager.queuedCommands[projectKey] = queueTail;
+        queueTail.then(() => {
+            if (CommandExecutionManager.queuedCommands[projectKey] === queueTail) {
+                delete CommandExecutionManager.queuedCommands[projectKey];
+            }
+        });
+
+        return execution;
+    }
+
+    private static run(projectRoot: string, commandLine: string, options: ICommandExecutionOptions): Promise<void> {
+        const projectKey = projectRoot.toLowerCase();
+        let cancelled = false;
+
+        const runningCommand: IRunningCommand = {
+            commandLine,
+            process: null,
+            finished: Promise.resolve(),
+            cancel: () => {
+                if (!cancelled && runningCommand.process) {
+                    cancelled = true;
+                    killTree(runningCommand.process.pid);
+                }
+            },
+        };
+        CommandExecutionManager.runningCommands[projectKey] = runningCommand;
+
+        runningCommand.finished = new Promise<void>((resolve, reject) => {
+            vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: localize("ExecutingCommand", "Executing: {0}", commandLine),
+                cancellable: true,
+            }, (progress, token) => {
+                token.onCancellationRequested(() => runningCommand.cancel());
+
+                return new Promise<void>((resolveProgress) => {
+                    let process: child_process.ChildProcess;
+                    try {
+                        process = child_process.exec(commandLine, { cwd: projectRoot, env: options.env });
+                    } catch (err) {
+                        resolveProgress();
+                        reject(err);
+                        return;
+                    }
+                    runningCommand.process = process;
+
+                    process.on("error", (err: any) => {
+                        resolveProgress();
+                        reject(err);
+                    });
+
+                    if (options.onOutput) {
+                        process.stderr.on("data", options.onOutput);
+                        process.stdout.on("data", options.onOutput);
+                    }
+
+                    process.on("close", (exitCode: number | null) => {
+                        resolveProgress();
+                        if (cancelled) {
+                            reject(new CommandCancelledError(commandLine));
+                        } else if (exitCode !== 0) {
+                            reject(new CommandFailedError(commandLine, exitCode === null ? -1 : exitCode));
+                        } else {
+                            resolve();
+                        }
+                    });
+                });
+            });
+        });
+
+        const cleanUp = () => {
+            if (CommandExecutionManager.runningCommands[projectKey] === runningCommand) {
+                delete CommandExecutionManager.runningCommands[projectKey];
+            }
+        };
+        runningCommand.finished.then(cleanUp, cleanUp);
+
+        return runningCommand.finished;
+    }
+}
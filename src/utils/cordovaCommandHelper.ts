@@ -1,10 +1,11 @@
 ﻿// Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license. See LICENSE file in the project root for details.
 
-import * as child_process from "child_process";
 import * as os from "os";
-import { window, WorkspaceConfiguration, workspace, Uri, commands } from "vscode";
+import * as path from "path";
+import { window, WorkspaceConfiguration, workspace, Uri, commands, QuickPickItem, languages, DiagnosticCollection, Diagnostic, DiagnosticSeverity, Range, ExtensionContext } from "vscode";
 import { CordovaSessionManager } from "../extension/cordovaSessionManager";
+import { EnvironmentProfiles } from "../extension/environmentProfiles";
 import { CordovaSessionStatus } from "../debugger/debugSessionWrapper";
 import * as nls from "vscode-nls";
 nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
@@ -12,7 +13,13 @@ const localize = nls.loadMessageBundle();
 
 import { TelemetryHelper } from "./telemetryHelper";
 import { OutputChannelLogger } from "./log/outputChannelLogger";
-import { CordovaProjectHelper } from "./cordovaProjectHelper";
+import { CordovaProjectHelper, IPlatformEngine } from "./cordovaProjectHelper";
+import { BuildOutputParser, IBuildProblem } from "./buildOutputParser";
+import { CommandExecutionManager, CommandFailedError } from "./commandExecutionManager";
+import { CDPMessageTransformerSettings } from "../debugger/cdp-proxy/transformers/builtInTransformers";
+
+export type PluginCommandAction = "add" | "remove";
+export type PlatformCommandAction = "add" | "remove";
 
 export class CordovaCommandHelper {
     private static CORDOVA_CMD_NAME: string = os.platform() === "win32" ? "cordova.cmd" : "cordova";
@@ -22,79 +29,184 @@ export class CordovaCommandHelper {
     private static CORDOVA_DISPLAY_NAME: string = "Cordova";
     private static IONIC_DISPLAY_NAME: string = "Ionic";
     private static readonly RESTART_SESSION_COMMAND: string = "workbench.action.debug.restart";
+    private static readonly KNOWN_PLATFORMS: string[] = ["android", "ios", "browser", "electron", "osx", "windows"];
+    // The commands which output is parsed for the build problems
+    private static readonly BUILD_COMMANDS: string[] = ["build", "run", "prepare"];
+    private static buildDiagnosticCollection: DiagnosticCollection | undefined;
 
-    public static executeCordovaCommand(projectRoot: string, command: string, useIonic: boolean = false): Promise<void> {
-        let telemetryEventName: string = CordovaCommandHelper.CORDOVA_TELEMETRY_EVENT_NAME;
-        let cliCommandName: string = CordovaCommandHelper.CORDOVA_CMD_NAME;
-        let cliDisplayName: string = CordovaCommandHelper.CORDOVA_DISPLAY_NAME;
+    public static init(context: ExtensionContext): void {
+        CordovaCommandHelper.buildDiagnosticCollection = languages.createDiagnosticCollection("cordova-build");
+        context.subscriptions.push(CordovaCommandHelper.buildDiagnosticCollection);
+    }
 
-        if (useIonic) {
-            telemetryEventName = CordovaCommandHelper.IONIC_TELEMETRY_EVENT_NAME;
-            cliCommandName = CordovaCommandHelper.IONIC_CMD_NAME;
-            cliDisplayName = CordovaCommandHelper.IONIC_DISPLAY_NAME;
-        }
+    /**
+     * Runs a Cordova or Ionic command for the platform selected by the user if it's not specified.
+     * The command arguments like '--release' are added before the run arguments of the settings.
+     * The command exiting with a non-zero code is reported to the output channel and doesn't reject the returned promise
+     */
+    public static executeCordovaCommand(projectRoot: string, command: string, useIonic: boolean = false, platform?: string, commandArgs: string[] = []): Promise<void> {
+        const cliCommandName: string = CordovaCommandHelper.getCliCommandName(useIonic);
+        const selectedPlatform = platform ? Promise.resolve(platform) : CordovaCommandHelper.selectPlatform(projectRoot, command, useIonic);
 
-        return CordovaCommandHelper.selectPlatform(projectRoot, command, useIonic)
+        return selectedPlatform
             .then((platform) => {
-                TelemetryHelper.generate(telemetryEventName, (generator) => {
-                    generator.add("command", command, false);
-                    let logger = OutputChannelLogger.getMainChannel();
-                    let commandToExecute;
-                    if (useIonic && ["run", "prepare"].indexOf(command) > -1) {
-                        commandToExecute = `${cliCommandName} cordova ${command}`;
-                    } else {
-                        commandToExecute = `${cliCommandName} ${command}`;
-                    }
+                let commandToExecute;
+                if (useIonic && ["run", "prepare"].indexOf(command) > -1) {
+                    commandToExecute = `${cliCommandName} cordova ${command}`;
+                } else {
+                    commandToExecute = `${cliCommandName} ${command}`;
+                }
 
-                    if (platform) {
-                        commandToExecute += ` ${platform}`;
-                        // Workaround for dealing with new build system in XCode 10
-                        // https://github.com/apache/cordova-ios/issues/407
-                        if (platform === "ios") {
-                            commandToExecute += " --buildFlag='-UseModernBuildSystem=0'";
-                        }
+                if (platform) {
+                    commandToExecute += ` ${platform}`;
+                    const platformArgs = CordovaCommandHelper.getPlatformArguments(platform);
+                    if (platformArgs.length) {
+                        commandToExecute += ` ${platformArgs.join(" ")}`;
                     }
+                }
 
-                    const runArgs = CordovaCommandHelper.getRunArguments(projectRoot);
-                    if (runArgs.length) {
-                        commandToExecute += ` ${runArgs.join(" ")}`;
-                    }
+                if (commandArgs.length) {
+                    commandToExecute += ` ${commandArgs.join(" ")}`;
+                }
 
-                    logger.log(localize("Executing", "########### EXECUTING: {0} ###########", commandToExecute));
-                    const env = CordovaProjectHelper.getEnvArgument({
-                        env: CordovaCommandHelper.getEnvArgs(projectRoot),
-                        envFile: CordovaCommandHelper.getEnvFile(projectRoot),
+                const runArgs = CordovaCommandHelper.getRunArguments(projectRoot);
+                if (runArgs.length) {
+                    commandToExecute += ` ${runArgs.join(" ")}`;
+                }
+
+                return EnvironmentProfiles.withConfigXmlOverrides(projectRoot, () =>
+                    CordovaCommandHelper.runCliCommand(projectRoot, commandToExecute, command, useIonic))
+                    .catch((err) => {
+                        if (!(err instanceof CommandFailedError)) {
+                            throw err;
+                        }
                     });
+            });
+    }
 
-                    const execution = new Promise((resolve, reject) => {
-                        const process = child_process.exec(commandToExecute, { cwd: projectRoot, env });
+    public static getCliCommandName(useIonic: boolean): string {
+        return useIonic ? CordovaCommandHelper.IONIC_CMD_NAME : CordovaCommandHelper.CORDOVA_CMD_NAME;
+    }
 
-                        process.on("error", (err: any) => {
-                            // ENOENT error will be thrown if no Cordova.cmd or ionic.cmd is found
-                            if (err.code === "ENOENT") {
-                                window.showErrorMessage(localize("PackageNotFoundPleaseInstall", "{0} not found, please run \"npm install –g {1}\" to install {2} globally", cliDisplayName, cliDisplayName.toLowerCase(), cliDisplayName));
-                            }
-                            reject(err);
-                        });
+    /**
+     * Get the arguments Cordova CLI requires to build the platform
+     */
+    public static getPlatformArguments(platform: string): string[] {
+        // Workaround for dealing with new build system in XCode 10
+        // https://github.com/apache/cordova-ios/issues/407
+        if (platform === "ios") {
+            return ["--buildFlag=-UseModernBuildSystem=0"];
+        }
+        return [];
+    }
 
-                        process.stderr.on("data", (data: any) => {
-                            logger.append(data);
-                        });
+    /**
+     * Adds or removes a plugin using Cordova CLI. The plugin spec may be a plugin id (with an optional version),
+     * a git url or a local path, followed by any additional arguments like '--variable'
+     */
+    public static executePluginCommand(projectRoot: string, action: PluginCommandAction, pluginSpec: string): Promise<void> {
+        const commandToExecute = `${CordovaCommandHelper.CORDOVA_CMD_NAME} plugin ${action} ${pluginSpec}`;
+        // Plugin specs are not sent to telemetry since they may contain private urls or paths
+        return CordovaCommandHelper.runCliCommand(projectRoot, commandToExecute, `plugin ${action}`, false);
+    }
 
-                        process.stdout.on("data", (data: any) => {
-                            logger.append(data);
-                        });
+    /**
+     * Adds or removes a platform using Cordova CLI. The platform spec may be a platform name with an optional version
+     * like 'android@12', a git url or a local path
+     */
+    public static executePlatformCommand(projectRoot: string, action: PlatformCommandAction, platformSpec: string): Promise<void> {
+        const commandToExecute = `${CordovaCommandHelper.CORDOVA_CMD_NAME} platform ${action} ${platformSpec}`;
+        return CordovaCommandHelper.runCliCommand(projectRoot, commandToExecute, `platform ${action}`, false);
+    }
 
-                        process.stdout.on("close", () => {
-                            logger.log(localize("FinishedExecuting", "########### FINISHED EXECUTING: {0} ###########", commandToExecute));
-                            resolve({});
-                        });
+    /**
+     * Asks for a platform and its version and adds it to the project. Platforms pinned in config.xml are suggested with their specs.
+     * Returns the name of the added platform or undefined if the platform was not added
+     */
+    public static addPlatform(projectRoot: string, platform?: string): Promise<string | undefined> {
+        const engines = CordovaProjectHelper.getConfigXmlEngines(projectRoot);
+        const installedPlatforms = CordovaProjectHelper.getInstalledPlatforms(projectRoot);
+
+        let platformSelection: Promise<string | undefined>;
+        if (platform) {
+            platformSelection = Promise.resolve(platform);
+        } else {
+            const platforms = CordovaCommandHelper.filterAvailablePlatforms(
+                engines.map(engine => engine.name)
+                    .concat(CordovaCommandHelper.KNOWN_PLATFORMS)
+                    .filter((name, index, names) => names.indexOf(name) === index && installedPlatforms.indexOf(name) < 0)
+            );
+            if (!platforms.length) {
+                window.showInformationMessage(localize("AllPlatformsInstalled", "All platforms available on this machine are already added to the project"));
+                return Promise.resolve(undefined);
+            }
+
+            const items: QuickPickItem[] = platforms.map((name) => {
+                const engine = engines.find(engine => engine.name === name);
+                return {
+                    label: name,
+                    description: engine ? localize("PlatformPinnedInConfigXml", "{0} is pinned in config.xml", engine.spec || "*") : undefined,
+                };
+            });
+            platformSelection = new Promise((resolve, reject) => {
+                window.showQuickPick(items, { placeHolder: localize("SelectPlatformToAdd", "Select a platform to add") })
+                    .then(item => resolve(item && item.label), reject);
+            });
+        }
+
+        return platformSelection
+            .then((platformName) => {
+                if (!platformName) {
+                    return undefined;
+                }
+                return CordovaCommandHelper.askPlatformVersion(platformName, engines.find(engine => engine.name === platformName), "")
+                    .then((platformSpec) => {
+                        if (platformSpec === undefined) {
+                            return undefined;
+                        }
+                        return CordovaCommandHelper.executePlatformCommand(projectRoot, "add", platformSpec)
+                            .then(() => CordovaCommandHelper.checkPlatformAdded(projectRoot, platformName));
                     });
+            });
+    }
 
-                    return TelemetryHelper.determineProjectTypes(projectRoot)
-                        .then((projectType) => generator.add("projectType", TelemetryHelper.prepareProjectTypesTelemetry(projectType), false))
-                        .then(() => execution);
-                });
+    public static removePlatform(projectRoot: string, platform?: string): Promise<void> {
+        return CordovaCommandHelper.selectInstalledPlatform(projectRoot, platform)
+            .then((platformName) => {
+                if (!platformName) {
+                    return;
+                }
+                return CordovaCommandHelper.executePlatformCommand(projectRoot, "remove", platformName);
+            });
+    }
+
+    /**
+     * Updates an installed platform to the version asked from the user. Since 'cordova platform update' is deprecated,
+     * the platform is removed and added again. The installed version is added back if the new one can't be added
+     */
+    public static updatePlatform(projectRoot: string, platform?: string): Promise<void> {
+        return CordovaCommandHelper.selectInstalledPlatform(projectRoot, platform)
+            .then((platformName) => {
+                if (!platformName) {
+                    return;
+                }
+                const engine = CordovaProjectHelper.getConfigXmlEngines(projectRoot).find(engine => engine.name === platformName);
+                return CordovaCommandHelper.askPlatformVersion(platformName, engine, "latest")
+                    .then((platformSpec) => {
+                        if (platformSpec === undefined) {
+                            return;
+                        }
+                        const installedVersion = CordovaProjectHelper.getInstalledPlatformVersion(projectRoot, platformName);
+                        const restorePlatform = () => {
+                            window.showWarningMessage(localize("PlatformWasNotUpdated", "The '{0}' platform was not updated, the installed version is being restored. Please check the Cordova output for details.", platformName));
+                            return CordovaCommandHelper.executePlatformCommand(projectRoot, "add", installedVersion ? `${platformName}@${installedVersion}` : platformName)
+                                .then(() => CordovaCommandHelper.checkPlatformAdded(projectRoot, platformName));
+                        };
+                        return CordovaCommandHelper.executePlatformCommand(projectRoot, "remove", platformName)
+                            .then(() => CordovaCommandHelper.executePlatformCommand(projectRoot, "add", platformSpec)
+                                .then(() => CordovaProjectHelper.getInstalledPlatforms(projectRoot).indexOf(platformName) < 0 ? restorePlatform() : platformName, restorePlatform))
+                            .then(() => void 0);
+                    });
             });
     }
 
@@ -120,22 +232,62 @@ export class CordovaCommandHelper {
     }
 
     /**
-     * Get command line run arguments from settings.json
+     * Get command line run arguments from settings.json followed by the ones of the active environment profile
      */
     public static getRunArguments(fsPath: string): string[] {
-        return CordovaCommandHelper.getSetting(fsPath, "runArguments") || [];
+        const runArguments: string[] = CordovaCommandHelper.getSetting(fsPath, "runArguments") || [];
+        return runArguments.concat(EnvironmentProfiles.getRunArguments(fsPath));
     }
 
     public static getCordovaExecutable(fsPath: string): string {
         return CordovaCommandHelper.getSetting(fsPath, "cordovaExecutable") || "";
     }
 
+    /**
+     * Get environment variables from settings.json. The variables of the active environment profile take precedence
+     */
     public static getEnvArgs(fsPath: string): any {
-        return CordovaCommandHelper.getSetting(fsPath, "env");
+        return EnvironmentProfiles.getEnv(fsPath, CordovaCommandHelper.getSetting(fsPath, "env"));
     }
 
     public static getEnvFile(fsPath: string): string {
-        return CordovaCommandHelper.getSetting(fsPath, "envFile") || "";
+        return EnvironmentProfiles.getEnvFile(fsPath) || CordovaCommandHelper.getSetting(fsPath, "envFile") || "";
+    }
+
+    public static getLogCatTags(fsPath: string): string[] {
+        return CordovaCommandHelper.getSetting(fsPath, "logcat.tags") || [];
+    }
+
+    public static getLogCatLevel(fsPath: string): string {
+        return CordovaCommandHelper.getSetting(fsPath, "logcat.level") || "verbose";
+    }
+
+    public static isLogCatStartedOnDebug(fsPath: string): boolean {
+        return CordovaCommandHelper.getSetting(fsPath, "logcat.startOnDebug") !== false;
+    }
+
+    public static getEmulatorBootTimeout(fsPath: string): number | undefined {
+        return CordovaCommandHelper.getSetting(fsPath, "emulator.bootTimeout");
+    }
+
+    public static getCDPMessageTransformers(fsPath: string): CDPMessageTransformerSettings[] {
+        return CordovaCommandHelper.getSetting(fsPath, "cdp.transformers") || [];
+    }
+
+    public static filterAvailablePlatforms(platforms: string[]): string[] {
+        const osPlatform = os.platform();
+
+        return platforms.filter((platform) => {
+            switch (platform) {
+                case "ios":
+                case "osx":
+                    return osPlatform === "darwin";
+                case "windows":
+                    return osPlatform === "win32";
+                default:
+                    return true;
+            }
+        });
     }
 
     private static getSetting(fsPath: string, configKey: string): any {
@@ -146,6 +298,161 @@ export class CordovaCommandHelper {
         }
     }
 
+    private static runCliCommand(projectRoot: string, commandToExecute: string, telemetryCommandName: string, useIonic: boolean): Promise<void> {
+        const telemetryEventName: string = useIonic ? CordovaCommandHelper.IONIC_TELEMETRY_EVENT_NAME : CordovaCommandHelper.CORDOVA_TELEMETRY_EVENT_NAME;
+        const cliDisplayName: string = useIonic ? CordovaCommandHelper.IONIC_DISPLAY_NAME : CordovaCommandHelper.CORDOVA_DISPLAY_NAME;
+
+        return TelemetryHelper.generate(telemetryEventName, (generator) => {
+            generator.add("command", telemetryCommandName, false);
+            let logger = OutputChannelLogger.getMainChannel();
+
+            logger.log(localize("Executing", "########### EXECUTING: {0} ###########", commandToExecute));
+            const env = CordovaProjectHelper.getEnvArgument({
+                env: CordovaCommandHelper.getEnvArgs(projectRoot),
+                envFile: CordovaCommandHelper.getEnvFile(projectRoot),
+            });
+
+            const buildOutputParser = CordovaCommandHelper.BUILD_COMMANDS.indexOf(telemetryCommandName) >= 0 ? new BuildOutputParser(projectRoot) : null;
+            if (buildOutputParser) {
+                CordovaCommandHelper.clearBuildDiagnostics(projectRoot);
+            }
+
+            const reportFinished = () => {
+                const problemsCount = buildOutputParser ? CordovaCommandHelper.publishBuildDiagnostics(buildOutputParser.finish()) : 0;
+                if (problemsCount) {
+                    logger.log(localize("BuildProblemsFound", "{0} build problem(s) found, see the Problems panel for details", problemsCount));
+                }
+                logger.log(localize("FinishedExecuting", "########### FINISHED EXECUTING: {0} ###########", commandToExecute));
+            };
+
+            const execution = CommandExecutionManager.execute(projectRoot, commandToExecute, {
+                env,
+                onOutput: (data: string) => {
+                    logger.append(data);
+                    if (buildOutputParser) {
+                        buildOutputParser.append(data);
+                    }
+                },
+            })
+                .then(reportFinished, (err: any) => {
+                    // ENOENT error will be thrown if no Cordova.cmd or ionic.cmd is found
+                    if (err.code === "ENOENT") {
+                        window.showErrorMessage(localize("PackageNotFoundPleaseInstall", "{0} not found, please run \"npm install –g {1}\" to install {2} globally", cliDisplayName, cliDisplayName.toLowerCase(), cliDisplayName));
+                    }
+                    logger.log(err.message);
+                    reportFinished();
+                    throw err;
+                });
+
+            return TelemetryHelper.determineProjectTypes(projectRoot)
+                .then((projectType) => generator.add("projectType", TelemetryHelper.prepareProjectTypesTelemetry(projectType), false))
+                .then(() => execution);
+        });
+    }
+
+    /**
+     * Removes the diagnostics left from the previous builds of the project
+     */
+    private static clearBuildDiagnostics(projectRoot: string): void {
+        const diagnosticCollection = CordovaCommandHelper.buildDiagnosticCollection;
+        if (!diagnosticCollection) {
+            return;
+        }
+        const projectUris: Uri[] = [];
+        diagnosticCollection.forEach((uri) => {
+            if (CordovaProjectHelper.checkPathBelongsToHierarchy(projectRoot.toLowerCase(), uri.fsPath.toLowerCase())) {
+                projectUris.push(uri);
+            }
+        });
+        projectUris.forEach(uri => diagnosticCollection.delete(uri));
+    }
+
+    /**
+     * Publishes build problems found in the existing files to the Problems panel and returns the count of published problems
+     */
+    private static publishBuildDiagnostics(problems: IBuildProblem[]): number {
+        const diagnosticCollection = CordovaCommandHelper.buildDiagnosticCollection;
+        if (!diagnosticCollection) {
+            return 0;
+        }
+        const diagnosticsByFile: { [file: string]: Diagnostic[] } = {};
+
+        problems
+            .filter(problem => CordovaProjectHelper.existsSync(problem.file))
+            .forEach((problem) => {
+                const line = Math.max(problem.line - 1, 0);
+                const column = Math.max(problem.column - 1, 0);
+                const diagnostic = new Diagnostic(
+                    new Range(line, column, line, Number.MAX_SAFE_INTEGER),
+                    problem.message,
+                    problem.severity === "warning" ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error
+                );
+                diagnostic.source = problem.source;
+                diagnostic.code = problem.code;
+
+                const file = path.normalize(problem.file);
+                diagnosticsByFile[file] = (diagnosticsByFile[file] || []).concat(diagnostic);
+            });
+
+        let problemsCount = 0;
+        Object.keys(diagnosticsByFile).forEach((file) => {
+            diagnosticCollection.set(Uri.file(file), diagnosticsByFile[file]);
+            problemsCount += diagnosticsByFile[file].length;
+        });
+        return problemsCount;
+    }
+
+    private static selectInstalledPlatform(projectRoot: string, platform?: string): Promise<string | undefined> {
+        if (platform) {
+            return Promise.resolve(platform);
+        }
+
+        const platforms = CordovaProjectHelper.getInstalledPlatforms(projectRoot);
+        if (!platforms.length) {
+            window.showInformationMessage(localize("NoPlatformsInstalledInProject", "There are no platforms installed in the project '{0}'", projectRoot));
+            return Promise.resolve(undefined);
+        }
+
+        return new Promise((resolve, reject) => {
+            window.showQuickPick(platforms, { placeHolder: localize("SelectPlatform", "Select a platform") })
+                .then(resolve, reject);
+        });
+    }
+
+    /**
+     * Asks for a platform version and returns the platform spec to be passed to Cordova CLI
+     * or undefined if the input was canceled
+     */
+    private static askPlatformVersion(platform: string, engine: IPlatformEngine | undefined, defaultVersion: string): Promise<string | undefined> {
+        return new Promise<string | undefined>((resolve, reject) => {
+            window.showInputBox({
+                prompt: localize("EnterPlatformVersion", "Enter the version of the '{0}' platform, a git url or a local path. Leave it empty to use the version bundled with Cordova CLI", platform),
+                placeHolder: "12.0.0",
+                value: engine && engine.spec ? engine.spec : defaultVersion,
+                ignoreFocusOut: true,
+            }).then(resolve, reject);
+        })
+            .then((version) => {
+                if (version === undefined) {
+                    return undefined;
+                }
+                version = version.trim();
+                if (!version) {
+                    return platform;
+                }
+                // Urls and paths are passed to Cordova CLI as is, versions and tags are appended to the platform name
+                return /[\/\\:]/.test(version) ? `"${version}"` : `${platform}@${version}`;
+            });
+    }
+
+    private static checkPlatformAdded(projectRoot: string, platform: string): string | undefined {
+        if (CordovaProjectHelper.getInstalledPlatforms(projectRoot).indexOf(platform) < 0) {
+            window.showErrorMessage(localize("PlatformWasNotAdded", "The '{0}' platform was not added to the project. Please check the Cordova output for details.", platform));
+            return undefined;
+        }
+        return platform;
+    }
+
     private static selectPlatform(projectRoot: string, command: string, useIonic: boolean): Promise<string> {
         let platforms = CordovaProjectHelper.getInstalledPlatforms(projectRoot);
         platforms = CordovaCommandHelper.filterAvailablePlatforms(platforms);
@@ -173,27 +480,20 @@ export class CordovaCommandHelper {
                 } else if (platforms.length === 1) {
                     return resolve(platforms[0]);
                 } else {
-                    throw new Error(localize("NoAnyPlatformInstalled", "No any platforms installed"));
+                    const addPlatformItem = localize("AddPlatform", "Add Platform");
+                    return window.showErrorMessage(localize("NoAnyPlatformInstalled", "No any platforms installed"), addPlatformItem)
+                        .then((selection) => selection === addPlatformItem ? CordovaCommandHelper.addPlatform(projectRoot) : undefined)
+                        .then((addedPlatform) => {
+                            if (!addedPlatform) {
+                                throw new Error(localize("NoAnyPlatformInstalled", "No any platforms installed"));
+                            }
+                            return addedPlatform;
+                        })
+                        .then(resolve, reject);
                 }
             }
 
             return resolve("");
         });
     }
-
-    private static filterAvailablePlatforms(platforms: string[]): string[] {
-        const osPlatform = os.platform();
-
-        return platforms.filter((platform) => {
-            switch (platform) {
-                case "ios":
-                case "osx":
-                    return osPlatform === "darwin";
-                case "windows":
-                    return osPlatform === "win32";
-                default:
-                    return true;
-            }
-        });
-    }
 }
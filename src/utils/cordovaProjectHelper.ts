@@ -7,6 +7,7 @@ import * as path from "path";
 import { URL } from "url";
 import * as semver from "semver";
 import * as os from "os";
+import * as elementtree from "elementtree";
 import * as nls from "vscode-nls";
 nls.config({ messageFormat: nls.MessageFormat.bundle, bundleFormat: nls.BundleFormat.standalone })();
 const localize = nls.loadMessageBundle();
@@ -17,6 +18,11 @@ export interface IPluginDetails {
     Version: string;
 }
 
+export interface IPlatformEngine {
+    name: string;
+    spec: string;
+}
+
 export class ProjectType {
     constructor(
         public isMeteor: boolean,
@@ -39,6 +45,7 @@ export class CordovaProjectHelper {
     private static VSCODE_DIR: string = ".vscode";
     private static PLATFORMS_PATH: string = "platforms";
     private static PLUGINS_FETCH_FILENAME: string = "fetch.json";
+    private static PLATFORMS_JSON_FILENAME: string = "platforms.json";
     private static CONFIG_XML_FILENAME: string = "config.xml";
     private static PROJECT_PLUGINS_DIR: string = "plugins";
     private static IONIC_PROJECT_FILE: string = "ionic.project";
@@ -205,6 +212,132 @@ export class CordovaProjectHelper {
         }
     }
 
+    /**
+     *  Helper function to get the spec that reinstalls the latest version of an installed plugin
+     *  from the same source it was originally fetched from, preserving its install variables.
+     */
+    public static getPluginUpdateSpec(projectRoot: string, pluginId: string): string {
+        return CordovaProjectHelper.getPluginFetchSpec(projectRoot, pluginId, true);
+    }
+
+    /**
+     *  Helper function to get the spec that reinstalls an installed plugin as it was originally fetched,
+     *  so the plugin could be restored if its update fails.
+     */
+    public static getPluginRestoreSpec(projectRoot: string, pluginId: string): string {
+        return CordovaProjectHelper.getPluginFetchSpec(projectRoot, pluginId, false);
+    }
+
+    /**
+     *  Helper function to quote an argument of a command executed in the system shell
+     */
+    public static quoteShellArgument(argument: string): string {
+        if (os.platform() === "win32") {
+            return `"${argument.replace(/"/g, "\\\"")}"`;
+        }
+        return `'${argument.replace(/'/g, "'\\''")}'`;
+    }
+
+    /**
+     *  Helper function to get the names of the variables declared by the plugin.xml of an installed plugin
+     */
+    public static getPluginVariables(projectRoot: string, pluginId: string): string[] {
+        let pluginXmlPath: string = path.resolve(projectRoot, CordovaProjectHelper.PROJECT_PLUGINS_DIR, pluginId, "plugin.xml");
+
+        if (!CordovaProjectHelper.existsSync(pluginXmlPath)) {
+            return [];
+        }
+
+        try {
+            let pluginXml = elementtree.XML(fs.readFileSync(pluginXmlPath, "utf8"));
+            return pluginXml.findall(".//preference")
+                .map((preference) => <string>preference.attrib["name"])
+                .filter((name, index, names) => !!name && names.indexOf(name) === index);
+        } catch (error) {
+            console.error(error);
+            return [];
+        }
+    }
+
+    /**
+     *  Helper function to get the platforms pinned by the <engine> elements of the project config.xml
+     */
+    public static getConfigXmlEngines(projectRoot: string): IPlatformEngine[] {
+        let configXmlPath: string = path.resolve(projectRoot, CordovaProjectHelper.CONFIG_XML_FILENAME);
+
+        if (!CordovaProjectHelper.existsSync(configXmlPath)) {
+            return [];
+        }
+
+        try {
+            let configXml = elementtree.XML(fs.readFileSync(configXmlPath, "utf8"));
+            return configXml.findall("engine")
+                .filter((engine) => !!engine.attrib["name"])
+                .map((engine) => ({
+                    name: engine.attrib["name"],
+                    spec: engine.attrib["spec"] || "",
+                }));
+        } catch (error) {
+            console.error(error);
+            return [];
+        }
+    }
+
+    /**
+     *  Helper function to get the Android package name of the app, which is the widget id
+     *  unless it's overridden by the 'android-packageName' attribute of config.xml
+     */
+    public static getAndroidPackageName(projectRoot: string): string | null {
+        let configXmlPath: string = path.resolve(projectRoot, CordovaProjectHelper.CONFIG_XML_FILENAME);
+
+        if (!CordovaProjectHelper.existsSync(configXmlPath)) {
+            return null;
+        }
+
+        try {
+            let configXml = elementtree.XML(fs.readFileSync(configXmlPath, "utf8"));
+            return configXml.attrib["android-packageName"] || configXml.attrib["id"] || null;
+        } catch (error) {
+            console.error(error);
+            return null;
+        }
+    }
+
+    /**
+     *  Helper function to get the version of an installed platform. Older Cordova versions record it
+     *  in 'platforms/platforms.json', newer ones install platforms as npm packages to 'node_modules'.
+     */
+    public static getInstalledPlatformVersion(projectRoot: string, platform: string): string | null {
+        let platformsJsonPath: string = path.resolve(projectRoot, CordovaProjectHelper.PLATFORMS_PATH, CordovaProjectHelper.PLATFORMS_JSON_FILENAME);
+        let platformPackageJsonPath: string = path.resolve(projectRoot, "node_modules", `cordova-${platform}`, "package.json");
+
+        try {
+            if (CordovaProjectHelper.existsSync(platformsJsonPath)) {
+                let platformsJson = JSON.parse(fs.readFileSync(platformsJsonPath, "utf8"));
+                if (platformsJson[platform]) {
+                    return platformsJson[platform];
+                }
+            }
+            if (CordovaProjectHelper.existsSync(platformPackageJsonPath)) {
+                return JSON.parse(fs.readFileSync(platformPackageJsonPath, "utf8")).version || null;
+            }
+        } catch (error) {
+            console.error(error);
+        }
+        return null;
+    }
+
+    /**
+     *  Helper function to check whether an installed platform version doesn't match the spec pinned in config.xml.
+     *  Specs which are not semver ranges (git urls, local paths) can't be checked and are considered matching.
+     */
+    public static isPlatformVersionMismatch(spec: string, installedVersion: string | null): boolean {
+        if (!spec || !installedVersion || !semver.validRange(spec) || !semver.valid(installedVersion)) {
+            return false;
+        }
+        return !semver.satisfies(installedVersion, spec);
+    }
+
     /**
      *  Helper to check whether a workspace root equals to a Cordova project root
      */
@@ -505,4 +638,37 @@ export class CordovaProjectHelper {
     ): boolean {
         return semver.ltr(lowVersionEdge, version) && semver.gtr(highVersionEdge, version);
     }
+
+    private static getPluginFetchSpec(projectRoot: string, pluginId: string, latest: boolean): string {
+        let fetchJsonPath: string = path.resolve(projectRoot, CordovaProjectHelper.PROJECT_PLUGINS_DIR, CordovaProjectHelper.PLUGINS_FETCH_FILENAME);
+        let pluginSpec = latest ? `${pluginId}@latest` : pluginId;
+        let fetchInfo: any;
+
+        try {
+            fetchInfo = JSON.parse(fs.readFileSync(fetchJsonPath, "utf8"))[pluginId];
+        } catch (error) {
+            console.error(error);
+        }
+
+        if (!fetchInfo) {
+            return pluginSpec;
+        }
+
+        const source = fetchInfo.source || {};
+        if (source.type === "git" && source.url) {
+            pluginSpec = CordovaProjectHelper.quoteShellArgument(source.url);
+        } else if (source.type === "local" && source.path) {
+            pluginSpec = CordovaProjectHelper.quoteShellArgument(source.path);
+        } else if (!latest && source.type === "registry" && source.id) {
+            pluginSpec = CordovaProjectHelper.quoteShellArgument(source.id);
+        }
+
+        // The values come from the project files, so they are quoted to reach Cordova CLI as is
+        const variables = fetchInfo.variables || {};
+        Object.keys(variables).forEach((variable) => {
+            pluginSpec += ` --variable ${CordovaProjectHelper.quoteShellArgument(`${variable}=${variables[variable]}`)}`;
+        });
+
+        return pluginSpec;
+    }
 }
@@ -0,0 +1,85 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { ApplicationCDPClient } from "../../src/debugger/cdp-proxy/applicationCDPClient";
+
+suite("Application CDP client", function () {
+    let sentCommands: IProtocolCommand[];
+    let client: ApplicationCDPClient;
+
+    function attachToPage(sessionId: string): void {
+        client.handleApplicationMessage({
+            method: "Target.attachedToTarget",
+            params: { sessionId, targetInfo: { targetId: "page", type: "page" }, waitingForDebugger: false },
+        });
+    }
+
+    setup(() => {
+        sentCommands = [];
+    });
+
+    teardown(() => {
+        client.dispose();
+    });
+
+    test("Should become available once the debugger attaches to the page", () => {
+        client = new ApplicationCDPClient("Debug on Android", "android", "/project", command => sentCommands.push(command), true);
+        assert.strictEqual(ApplicationCDPClient.getClients().indexOf(client), -1);
+
+        attachToPage("session1");
+
+        assert.ok(client.isConnected);
+        assert.notStrictEqual(ApplicationCDPClient.getClients().indexOf(client), -1);
+    });
+
+    test("Should send the commands to the page session and resolve them with the replies", async () => {
+        client = new ApplicationCDPClient("Debug on Android", "android", "/project", command => sentCommands.push(command), true);
+        attachToPage("session1");
+
+        const result = client.sendCommand("Network.getResponseBody", { requestId: "1" });
+        assert.strictEqual(sentCommands.length, 1);
+        assert.strictEqual(sentCommands[0].sessionId, "session1");
+
+        const isConsumed = client.handleApplicationMessage({ id: <number>sentCommands[0].id, result: { body: "{}", base64Encoded: false }, sessionId: "session1" });
+
+        assert.ok(isConsumed);
+        assert.deepStrictEqual(await result, { body: "{}", base64Encoded: false });
+        assert.ok(!client.handleApplicationMessage({ id: 1, result: {} }));
+    });
+
+    test("Should reject the command on an error reply", async () => {
+        client = new ApplicationCDPClient("Debug on iOS", "ios", "/project", command => sentCommands.push(command), false);
+        client.setApplicationReady();
+
+        const result = client.sendCommand("DOMStorage.enable");
+        client.handleApplicationMessage({ id: <number>sentCommands[0].id, error: { code: -32601, message: "'DOMStorage.enable' wasn't found" } });
+
+        await assert.rejects(result, /DOMStorage.enable failed/);
+    });
+
+    test("Should fire the events of the page session only", () => {
+        client = new ApplicationCDPClient("Debug on Android", "android", "/project", command => sentCommands.push(command), true);
+        const events: string[] = [];
+        client.onEvent(event => events.push(event.method));
+        attachToPage("session1");
+
+        client.handleApplicationMessage({ method: "Network.requestWillBeSent", params: {}, sessionId: "session1" });
+        client.handleApplicationMessage({ method: "Network.requestWillBeSent", params: {}, sessionId: "worker" });
+
+        assert.deepStrictEqual(events, ["Network.requestWillBeSent"]);
+    });
+
+    test("Should reject the pending commands when it is disposed", async () => {
+        client = new ApplicationCDPClient("Debug on iOS", "ios", "/project", command => sentCommands.push(command), false);
+        client.setApplicationReady();
+
+        const result = client.sendCommand("Network.enable");
+        client.dispose();
+
+        await assert.rejects(result, /disconnected/);
+        assert.strictEqual(ApplicationCDPClient.getClients().indexOf(client), -1);
+        await assert.rejects(client.sendCommand("Network.enable"), /not connected/);
+    });
+});
@@ -0,0 +1,203 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as assert from "assert";
+import { DispatchDirection, ProtocolMessage } from "../../src/debugger/cdp-proxy/CDPMessageHandlers/abstraction/CDPMessageHandlerBase";
+import { CDPMessageSource } from "../../src/debugger/cdp-proxy/cdpTrafficRecorder";
+import { CDPMessageTransformerChain, ICDPMessageTransformer } from "../../src/debugger/cdp-proxy/transformers/cdpMessageTransformerChain";
+import {
+    BlackboxScriptsTransformer,
+    BuiltInTransformers,
+    DropConsoleMessagesTransformer,
+    UrlSchemeTransformer,
+} from "../../src/debugger/cdp-proxy/transformers/builtInTransformers";
+
+suite("CDP message transformers", function () {
+    const projectRoot = path.resolve("/project");
+    const webRootUrl = `file://${process.platform === "win32" ? "/" : ""}${path.join(projectRoot, "www").split("\\").join("/")}/`;
+
+    let sentMessages: [ProtocolMessage, CDPMessageSource][];
+
+    function createChain(transformers: ICDPMessageTransformer[]): CDPMessageTransformerChain {
+        return new CDPMessageTransformerChain(
+            transformers,
+            projectRoot,
+            "android",
+            (message, destination) => sentMessages.push([message, destination]),
+            () => undefined
+        );
+    }
+
+    setup(() => {
+        sentMessages = [];
+    });
+
+    suite("Transformer chain", function () {
+        test("Should pass the message through the transformers in order", () => {
+            const chain = createChain([
+                { transform: message => Object.assign({}, message, { params: { value: 1 } }) },
+                { transform: message => Object.assign({}, message, { params: { value: (<any>message).params.value + 1 } }) },
+            ]);
+
+            const result = chain.process(CDPMessageSource.Debugger, {
+                event: { id: 1, method: "Runtime.evaluate", params: {} },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+
+            assert.deepStrictEqual(result.event, { id: 1, method: "Runtime.evaluate", params: { value: 2 } });
+            assert.strictEqual(result.dispatchDirection, DispatchDirection.FORWARD);
+        });
+
+        test("Should cancel the message dropped by a transformer", () => {
+            let isCalled = false;
+            const chain = createChain([
+                { transform: () => null },
+                { transform: (message) => { isCalled = true; return message; } },
+            ]);
+
+            const result = chain.process(CDPMessageSource.Application, {
+                event: { method: "Runtime.consoleAPICalled", params: {} },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+
+            assert.strictEqual(result.dispatchDirection, DispatchDirection.CANCEL);
+            assert.ok(!isCalled);
+        });
+
+        test("Should keep the message if a transformer fails", () => {
+            const chain = createChain([{ transform: () => { throw new Error("Failure"); } }]);
+            const message = { method: "Debugger.paused", params: {} };
+
+            const result = chain.process(CDPMessageSource.Application, {
+                event: message,
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+
+            assert.strictEqual(result.event, message);
+            assert.strictEqual(result.dispatchDirection, DispatchDirection.FORWARD);
+        });
+
+        test("Should not pass replies to the injected commands to the debugger", () => {
+            const chain = createChain([{
+                transform: (message, context) => {
+                    if (CDPMessageTransformerChain.isCommand(message) && message.method === "Debugger.enable") {
+                        context.inject({ method: "Debugger.setAsyncCallStackDepth", params: { maxDepth: 32 } }, CDPMessageSource.Application);
+                    }
+                    return message;
+                },
+            }]);
+
+            chain.process(CDPMessageSource.Debugger, {
+                event: { id: 1, method: "Debugger.enable", params: {} },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+            assert.strictEqual(sentMessages.length, 1);
+            const [injectedMessage, destination] = sentMessages[0];
+            assert.strictEqual(destination, CDPMessageSource.Application);
+            assert.notStrictEqual(injectedMessage.id, undefined);
+
+            const injectedReply = chain.process(CDPMessageSource.Application, {
+                event: { id: injectedMessage.id, result: {} },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+            const debuggerReply = chain.process(CDPMessageSource.Application, {
+                event: { id: 1, result: {} },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+
+            assert.strictEqual(injectedReply.dispatchDirection, DispatchDirection.CANCEL);
+            assert.strictEqual(debuggerReply.dispatchDirection, DispatchDirection.FORWARD);
+        });
+
+        test("Should apply the registered transformers until the registration is disposed", () => {
+            const transformer: ICDPMessageTransformer = { transform: message => message };
+            const registration = CDPMessageTransformerChain.registerTransformer(transformer);
+            assert.ok(CDPMessageTransformerChain.getRegisteredTransformers().indexOf(transformer) !== -1);
+
+            registration.dispose();
+            assert.strictEqual(CDPMessageTransformerChain.getRegisteredTransformers().indexOf(transformer), -1);
+        });
+    });
+
+    suite("Built-in transformers", function () {
+        test("Should map the custom URL scheme to the web root and back", () => {
+            const chain = createChain([new UrlSchemeTransformer("app://localhost/", path.join(projectRoot, "www"))]);
+
+            const scriptParsed = chain.process(CDPMessageSource.Application, {
+                event: { method: "Debugger.scriptParsed", params: { scriptId: "1", url: "app://localhost/js/index.js" } },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+            const setBreakpoint = chain.process(CDPMessageSource.Debugger, {
+                event: { id: 2, method: "Debugger.setBreakpointByUrl", params: { url: `${webRootUrl}js/index.js`, lineNumber: 3 } },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+
+            assert.strictEqual((<any>scriptParsed.event).params.url, `${webRootUrl}js/index.js`);
+            assert.strictEqual((<any>setBreakpoint.event).params.url, "app://localhost/js/index.js");
+        });
+
+        test("Should drop the console messages matching the pattern", () => {
+            const chain = createChain([new DropConsoleMessagesTransformer("^\\[HMR\\]")]);
+            const consoleMessage = (text: string) => ({
+                event: { method: "Runtime.consoleAPICalled", params: { type: "log", args: [{ type: "string", value: text }] } },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+
+            assert.strictEqual(chain.process(CDPMessageSource.Application, consoleMessage("[HMR] Waiting for update signal")).dispatchDirection, DispatchDirection.CANCEL);
+            assert.strictEqual(chain.process(CDPMessageSource.Application, consoleMessage("App started")).dispatchDirection, DispatchDirection.FORWARD);
+        });
+
+        test("Should set the blackbox patterns once the debugger domain is enabled", () => {
+            const chain = createChain([new BlackboxScriptsTransformer(["/vendor\\.js$"])]);
+
+            chain.process(CDPMessageSource.Debugger, {
+                event: { id: 5, method: "Debugger.enable", params: {} },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+            assert.strictEqual(sentMessages.length, 0);
+
+            chain.process(CDPMessageSource.Application, {
+                event: { id: 5, result: { debuggerId: "1" } },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+            assert.strictEqual(sentMessages.length, 1);
+            assert.strictEqual((<any>sentMessages[0][0]).method, "Debugger.setBlackboxPatterns");
+            assert.deepStrictEqual((<any>sentMessages[0][0]).params, { patterns: ["/vendor\\.js$"] });
+
+            const setBlackboxPatterns = chain.process(CDPMessageSource.Debugger, {
+                event: { id: 6, method: "Debugger.setBlackboxPatterns", params: { patterns: ["/node_modules/"] } },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+            assert.deepStrictEqual((<any>setBlackboxPatterns.event).params.patterns, ["/node_modules/", "/vendor\\.js$"]);
+        });
+
+        test("Should create the transformers from the settings", () => {
+            const transformers = BuiltInTransformers.createFromSettings([
+                { type: "urlScheme", url: "app://localhost/" },
+                { type: "dropConsoleMessages", pattern: "debug" },
+                { type: "blackboxScripts", patterns: [] },
+            ], projectRoot);
+
+            assert.ok(transformers[0] instanceof UrlSchemeTransformer);
+            assert.ok(transformers[1] instanceof DropConsoleMessagesTransformer);
+            assert.ok(transformers[2] instanceof BlackboxScriptsTransformer);
+        });
+
+        test("Should skip and report the invalid settings", () => {
+            const messages: string[] = [];
+            const transformers = BuiltInTransformers.createFromSettings([
+                <any>{ type: "unknown" },
+                <any>{ type: "urlScheme" },
+                <any>{ type: "dropConsoleMessages" },
+                { type: "dropConsoleMessages", pattern: "(unclosed" },
+                <any>{ type: "blackboxScripts", patterns: "vendor" },
+                { type: "dropConsoleMessages", pattern: "debug" },
+            ], projectRoot, message => messages.push(message));
+
+            assert.strictEqual(transformers.length, 1);
+            assert.ok(transformers[0] instanceof DropConsoleMessagesTransformer);
+            assert.strictEqual(messages.length, 5);
+        });
+    });
+});
@@ -0,0 +1,140 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "assert";
+import { DispatchDirection, ProtocolMessage } from "../../src/debugger/cdp-proxy/CDPMessageHandlers/abstraction/CDPMessageHandlerBase";
+import { CDPMessageSource, CDPTrafficRecorder, ICDPTrafficRecord } from "../../src/debugger/cdp-proxy/cdpTrafficRecorder";
+import { CDPReplayTransport } from "../../src/debugger/cdp-proxy/cdpReplayTransport";
+
+suite("CDP traffic recording", function () {
+    const records: ICDPTrafficRecord[] = [
+        {
+            timestamp: 1000,
+            source: CDPMessageSource.Application,
+            message: { method: "Runtime.executionContextCreated", params: { context: { id: 1 } } },
+            processedMessage: { method: "Runtime.executionContextCreated", params: { context: { id: 1 } } },
+            dispatchDirection: "FORWARD",
+        },
+        {
+            timestamp: 1010,
+            source: CDPMessageSource.Debugger,
+            message: { id: 7, method: "Debugger.enable", params: {} },
+            processedMessage: { id: 7, method: "Debugger.enable", params: {} },
+            dispatchDirection: "FORWARD",
+        },
+        {
+            timestamp: 1020,
+            source: CDPMessageSource.Application,
+            message: { id: 7, result: { debuggerId: "1" } },
+            processedMessage: { id: 7, result: { debuggerId: "1" } },
+            dispatchDirection: "FORWARD",
+        },
+    ];
+
+    function collectMessages(transport: CDPReplayTransport, count: number): Promise<ProtocolMessage[]> {
+        const messages: ProtocolMessage[] = [];
+        return new Promise((resolve) => {
+            transport.onMessage((message: ProtocolMessage) => {
+                messages.push(message);
+                if (messages.length === count) {
+                    resolve(messages);
+                }
+            });
+        });
+    }
+
+    test("Should write the messages and the processing results to a JSONL file", async () => {
+        const recordingPath = CDPTrafficRecorder.getRecordingPath(fs.mkdtempSync(path.join(os.tmpdir(), "cdp-recording-")), new Date(Date.UTC(2020, 0, 2, 3, 4, 5)));
+        assert.strictEqual(path.basename(recordingPath), "cdp-2020-01-02T03-04-05-000Z.jsonl");
+
+        const recorder = new CDPTrafficRecorder(recordingPath);
+        recorder.record(CDPMessageSource.Debugger, { id: 1, method: "Debugger.enable", params: {} }, {
+            event: { id: 1, method: "Debugger.enable", params: {} },
+            dispatchDirection: DispatchDirection.FORWARD,
+        });
+        recorder.record(CDPMessageSource.Application, { id: 1, result: {} }, {
+            event: { id: 1, result: {} },
+            dispatchDirection: DispatchDirection.CANCEL,
+        });
+        await recorder.close();
+
+        const writtenRecords = CDPTrafficRecorder.readRecords(recordingPath);
+        assert.deepStrictEqual(writtenRecords.map(record => [record.source, record.dispatchDirection]), [
+            [CDPMessageSource.Debugger, "FORWARD"],
+            [CDPMessageSource.Application, "CANCEL"],
+        ]);
+        assert.ok(CDPTrafficRecorder.isSentToApplication(writtenRecords[0]));
+        assert.ok(!CDPTrafficRecorder.isSentToApplication(writtenRecords[1]));
+    });
+
+    test("Should record into a directory that already exists", async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "cdp-recording-"));
+        const firstRecordingPath = CDPTrafficRecorder.getRecordingPath(path.join(directory, "recordings"), new Date(Date.UTC(2020, 0, 2, 3, 4, 5)));
+        const secondRecordingPath = CDPTrafficRecorder.getRecordingPath(path.join(directory, "recordings"), new Date(Date.UTC(2020, 0, 2, 3, 4, 6)));
+
+        // The first recorder creates the missing directory, the second one reuses it
+        for (const recordingPath of [firstRecordingPath, secondRecordingPath]) {
+            const recorder = new CDPTrafficRecorder(recordingPath);
+            recorder.record(CDPMessageSource.Debugger, { id: 1, method: "Debugger.enable", params: {} }, {
+                event: { id: 1, method: "Debugger.enable", params: {} },
+                dispatchDirection: DispatchDirection.FORWARD,
+            });
+            await recorder.close();
+        }
+
+        assert.strictEqual(CDPTrafficRecorder.readRecords(firstRecordingPath).length, 1);
+        assert.strictEqual(CDPTrafficRecorder.readRecords(secondRecordingPath).length, 1);
+    });
+
+    test("Should stop recording if the file can't be written", async () => {
+        // The recording path is a directory, so the file can't be opened
+        const recordingPath = fs.mkdtempSync(path.join(os.tmpdir(), "cdp-recording-"));
+        const errors: string[] = [];
+        const recorder = new CDPTrafficRecorder(recordingPath, message => errors.push(message));
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        recorder.record(CDPMessageSource.Debugger, { id: 1, method: "Debugger.enable", params: {} }, {
+            event: { id: 1, method: "Debugger.enable", params: {} },
+            dispatchDirection: DispatchDirection.FORWARD,
+        });
+        await recorder.close();
+
+        assert.strictEqual(errors.length, 1);
+        assert.ok(errors[0].indexOf(recordingPath) >= 0);
+    });
+
+    test("Should replay the application messages once the debugger sends the recorded commands", async () => {
+        const transport = new CDPReplayTransport(records);
+        const replayedMessages = collectMessages(transport, 2);
+
+        const firstMessage = await collectMessages(transport, 1);
+        assert.deepStrictEqual(firstMessage, [records[0].message]);
+
+        transport.send({ id: 42, method: "Debugger.enable", params: {} });
+
+        assert.deepStrictEqual(await replayedMessages, [
+            records[0].message,
+            { id: 42, result: { debuggerId: "1" } },
+        ]);
+        await transport.close();
+    });
+
+    test("Should reply with an error to the commands missing in the recording", async () => {
+        const transport = new CDPReplayTransport([]);
+        const reply = collectMessages(transport, 1);
+
+        transport.send({ id: 3, method: "Page.reload", params: {} });
+
+        assert.deepStrictEqual(await reply, [{
+            id: 3,
+            error: {
+                code: -32601,
+                message: "The 'Page.reload' command is not found in the recording",
+            },
+        }]);
+        await transport.close();
+    });
+});
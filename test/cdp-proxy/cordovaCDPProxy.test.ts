@@ -150,6 +150,56 @@ suite("cordovaCDPProxy", function () {
         await cleanUp();
     });
 
+    suite("Application messages order", () => {
+        let resolveSourceMap: () => void;
+        let originalSourcemapPathTransformer: SourcemapPathTransformer;
+
+        setup(() => {
+            originalSourcemapPathTransformer = (proxy as any).sourcemapPathTransformer;
+            // The source map of every parsed script is being loaded until the test resolves it
+            (proxy as any).sourcemapPathTransformer = {
+                resolveScriptPath: () => undefined,
+                shouldResolveSourceMap: () => true,
+                resolveSourceMap: () => new Promise<void>((resolve) => {
+                    resolveSourceMap = resolve;
+                }),
+            };
+        });
+
+        teardown(() => {
+            (proxy as any).sourcemapPathTransformer = originalSourcemapPathTransformer;
+        });
+
+        function dispatchApplicationMessage(event: any, handledMessages: any[]): void {
+            (proxy as any).dispatchApplicationMessage(event, (handledEvent: any) => handledMessages.push(handledEvent));
+        }
+
+        test("The events following a parsed script should wait for its source map, the replies should not", async () => {
+            const handledMessages: any[] = [];
+            const scriptParsed = { method: CDP_API_NAMES.DEBUGGER_SCRIPT_PARSED, params: { scriptId: "1", url: "http://localhost/index.js", sourceMapURL: "index.js.map" } };
+            const paused = { method: "Debugger.paused", params: {} };
+            const reply = { id: 5, result: {} };
+
+            dispatchApplicationMessage(scriptParsed, handledMessages);
+            dispatchApplicationMessage(paused, handledMessages);
+            dispatchApplicationMessage(reply, handledMessages);
+            assert.deepStrictEqual(handledMessages, [reply]);
+
+            resolveSourceMap();
+            await (proxy as any).applicationMessageQueue;
+            assert.deepStrictEqual(handledMessages, [reply, scriptParsed, paused]);
+        });
+
+        test("The malformed messages wrapped for iOS targets should be passed as is", () => {
+            const handledMessages: any[] = [];
+            const event = { method: CDP_API_NAMES.TARGET_DISPATCH_MESSAGE_FROM_TARGET, params: { targetId: "page-7", message: `{"method":"${CDP_API_NAMES.DEBUGGER_SCRIPT_PARSED}",` } };
+
+            dispatchApplicationMessage(event, handledMessages);
+
+            assert.deepStrictEqual(handledMessages, [event]);
+        });
+    });
+
     suite("MessageHandlers", () => {
         suite("ChromeCDPMessageHandler", () => {
             suite("Pure Cordova", () => {
@@ -0,0 +1,128 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "assert";
+import { IScriptParsedParams, SourcemapPathTransformer } from "../../src/debugger/cdp-proxy/sourcemapPathTransformer";
+import { CordovaProjectHelper, ProjectType } from "../../src/utils/cordovaProjectHelper";
+import { ICordovaAttachRequestArgs } from "../../src/debugger/requestArgs";
+
+suite("SourcemapPathTransformer", function () {
+    const projectType = new ProjectType(false, false, false, true);
+    let projectRoot: string;
+    let wwwScriptPath: string;
+    let platformScriptPath: string;
+
+    function createTransformer(args: Partial<ICordovaAttachRequestArgs> = {}): SourcemapPathTransformer {
+        return new SourcemapPathTransformer(Object.assign({
+            cwd: projectRoot,
+            platform: "android",
+            request: "attach",
+            port: 9222,
+        }, args), projectType);
+    }
+
+    function writeFile(filePath: string, content: string): void {
+        if (!fs.existsSync(path.dirname(filePath))) {
+            CordovaProjectHelper.makeDirectoryRecursive(path.dirname(filePath));
+        }
+        fs.writeFileSync(filePath, content);
+    }
+
+    function toFileUrl(filePath: string): string {
+        const normalizedPath = filePath.split("\\").join("/");
+        return normalizedPath.startsWith("/") ? "file://" + normalizedPath : "file:///" + normalizedPath;
+    }
+
+    function getInlineSourceMap(params: IScriptParsedParams): any {
+        assert.ok(params.sourceMapURL && params.sourceMapURL.startsWith("data:application/json;charset=utf-8;base64,"));
+        return JSON.parse(Buffer.from((<string>params.sourceMapURL).split(",")[1], "base64").toString("utf8"));
+    }
+
+    setup(() => {
+        projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "cordova-sourcemaps-")));
+        wwwScriptPath = path.join(projectRoot, "www", "assets", "index.js");
+        platformScriptPath = path.join(projectRoot, "platforms", "android", "app", "src", "main", "assets", "www", "assets", "index.js");
+        writeFile(wwwScriptPath, "console.log(\"www\");\n//# sourceMappingURL=index.js.map");
+        writeFile(platformScriptPath, "console.log(\"prepared\");\n//# sourceMappingURL=index.js.map");
+        writeFile(path.join(path.dirname(wwwScriptPath), "index.js.map"), JSON.stringify({ version: 3, sources: ["../../src/main.ts"], mappings: "" }));
+    });
+
+    teardown(() => {
+        CordovaProjectHelper.deleteDirectoryRecursive(projectRoot);
+    });
+
+    test("Should pick the copy of the script matching the hash reported by the app", () => {
+        const transformer = createTransformer();
+        const scriptUrl = "http://localhost/assets/index.js";
+        const hash = crypto.createHash("sha256").update(Buffer.from(fs.readFileSync(platformScriptPath, "utf8"), "utf16le")).digest("hex");
+
+        assert.strictEqual(transformer.getClientPathFromHttpBasedUrl(scriptUrl), wwwScriptPath);
+
+        transformer.resolveScriptPath({ url: scriptUrl, hash: hash.toUpperCase() });
+
+        assert.strictEqual(transformer.getClientPathFromHttpBasedUrl(scriptUrl), platformScriptPath);
+    });
+
+    test("Should resolve the sources of the source map next to the local copy of the script", () => {
+        const transformer = createTransformer();
+        const params: IScriptParsedParams = { url: "http://localhost/assets/index.js", sourceMapURL: "index.js.map" };
+
+        assert.ok(transformer.shouldResolveSourceMap(params));
+        return transformer.resolveSourceMap(params)
+            .then(() => {
+                assert.deepStrictEqual(getInlineSourceMap(params).sources, [toFileUrl(path.join(projectRoot, "src", "main.ts"))]);
+            });
+    });
+
+    test("Should apply the source map path overrides of the platform to the inline source maps", () => {
+        const transformer = createTransformer({
+            sourceMapPathOverrides: { "webpack:///./*": "${cwd}/*" },
+            platformSourceMapPathOverrides: { android: { "webpack:///./src/*": "${cwd}/app/*" } },
+        });
+        const sourceMap = { version: 3, sourceRoot: "webpack:///./", sources: ["src/main.ts", "lib/util.ts", "https://cdn.example.com/lib.js"], mappings: "" };
+        const params: IScriptParsedParams = {
+            url: "http://localhost/assets/index.js",
+            sourceMapURL: "data:application/json;base64," + Buffer.from(JSON.stringify(sourceMap)).toString("base64"),
+        };
+
+        return transformer.resolveSourceMap(params)
+            .then(() => {
+                const resolvedSourceMap = getInlineSourceMap(params);
+                assert.deepStrictEqual(resolvedSourceMap.sources, [
+                    toFileUrl(path.join(projectRoot, "app", "main.ts")),
+                    toFileUrl(path.join(projectRoot, "lib", "util.ts")),
+                    "https://cdn.example.com/lib.js",
+                ]);
+                assert.strictEqual(resolvedSourceMap.sourceRoot, undefined);
+            });
+    });
+
+    test("Should reject the malformed source maps instead of throwing", () => {
+        const transformer = createTransformer();
+        writeFile(path.join(path.dirname(wwwScriptPath), "index.js.map"), "{\"version\": 3, \"sources\": [");
+        const sourceMapURLs = [
+            "data:application/json;base64," + Buffer.from("{\"version\": 3,").toString("base64"),
+            "index.js.map",
+            toFileUrl(path.join(path.dirname(wwwScriptPath), "index.js.map")),
+        ];
+
+        return Promise.all(sourceMapURLs.map((sourceMapURL) => {
+            const params: IScriptParsedParams = { url: "http://localhost/assets/index.js", sourceMapURL };
+            return transformer.resolveSourceMap(params)
+                .then(() => assert.fail(`The source map ${sourceMapURL} should be rejected`), (err: Error) => {
+                    assert.ok(err instanceof SyntaxError);
+                    assert.strictEqual(params.sourceMapURL, sourceMapURL);
+                });
+        }));
+    });
+
+    test("Should leave the source maps alone when they are disabled", () => {
+        const transformer = createTransformer({ sourceMaps: false });
+
+        assert.ok(!transformer.shouldResolveSourceMap({ url: "http://localhost/assets/index.js", sourceMapURL: "index.js.map" }));
+    });
+});
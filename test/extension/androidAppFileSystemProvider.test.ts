@@ -0,0 +1,65 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as assert from "assert";
+import Sinon = require("sinon");
+import { FileSystemError, FileType, Uri } from "vscode";
+import { AdbHelper } from "../../src/utils/android/adb";
+import { AndroidAppFileSystemProvider } from "../../src/extension/androidAppFileSystemProvider";
+
+suite("AndroidAppFileSystemProvider", function () {
+    const testProjectPath = path.join(__dirname, "..", "resources", "testCordovaProject");
+    const adbHelper = new AdbHelper(testProjectPath);
+    const provider = new AndroidAppFileSystemProvider();
+    (<any>provider).adbHelper = adbHelper;
+
+    const appDataUri = AndroidAppFileSystemProvider.getAppDataUri("emulator-5554", "io.cordova.hellocordova");
+    let executeAsAppStub: Sinon.SinonStub;
+
+    teardown(() => {
+        executeAsAppStub.restore();
+    });
+
+    test("should run commands as the application relative to its data directory", async () => {
+        executeAsAppStub = Sinon.stub(adbHelper, "executeAsApp").resolves("regular file|1024|1600000000\n");
+
+        const stat = await provider.stat(Uri.parse(`${appDataUri.toString()}/shared_prefs/prefs.xml`));
+
+        assert.deepStrictEqual(executeAsAppStub.firstCall.args, [
+            "emulator-5554",
+            "io.cordova.hellocordova",
+            "stat -L -c '%F|%s|%Y' 'shared_prefs/prefs.xml'",
+        ]);
+        assert.strictEqual(stat.type, FileType.File);
+        assert.strictEqual(stat.size, 1024);
+        assert.strictEqual(stat.mtime, 1600000000000);
+    });
+
+    test("should list directories and files of a directory", async () => {
+        executeAsAppStub = Sinon.stub(adbHelper, "executeAsApp").resolves("./\n../\napp_webview/\ndatabases/\nfiles/\nnotes.txt\n");
+
+        const entries = await provider.readDirectory(appDataUri);
+
+        assert.strictEqual(executeAsAppStub.firstCall.args[2], "ls -a -p '.'");
+        assert.deepStrictEqual(entries, [
+            ["app_webview", FileType.Directory],
+            ["databases", FileType.Directory],
+            ["files", FileType.Directory],
+            ["notes.txt", FileType.File],
+        ]);
+    });
+
+    test("should report missing files and applications which aren't debuggable", async () => {
+        executeAsAppStub = Sinon.stub(adbHelper, "executeAsApp");
+        executeAsAppStub.onFirstCall().rejects(new Error("stat: 'files/missing': No such file or directory"));
+        executeAsAppStub.onSecondCall().rejects(new Error("run-as: package not debuggable: io.cordova.hellocordova"));
+
+        await assert.rejects(provider.stat(Uri.parse(`${appDataUri.toString()}/files/missing`)), FileSystemError);
+        await assert.rejects(provider.readDirectory(appDataUri), /Only debuggable applications can be browsed/);
+    });
+
+    test("should quote file paths for the device shell", () => {
+        assert.strictEqual(AdbHelper.quoteShellArgument("it's a file.txt"), "'it'\\''s a file.txt'");
+    });
+});
@@ -0,0 +1,63 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "assert";
+import { AndroidReleaseBuild } from "../../src/extension/androidReleaseBuild";
+import { CordovaProjectHelper } from "../../src/utils/cordovaProjectHelper";
+
+suite("androidReleaseBuild", function () {
+    test("Should read the signing configuration of build.json", function () {
+        const signingConfig = { keystore: "release.jks", alias: "upload", storePassword: "secret" };
+
+        assert.deepStrictEqual(AndroidReleaseBuild.getSigningConfig({ android: { release: signingConfig } }), signingConfig);
+        assert.strictEqual(AndroidReleaseBuild.getSigningConfig({ android: { debug: signingConfig } }), undefined);
+        assert.strictEqual(AndroidReleaseBuild.getSigningConfig({ android: { release: { keystore: "release.jks" } } }), undefined);
+        assert.strictEqual(AndroidReleaseBuild.getSigningConfig({}), undefined);
+    });
+
+    test("Should not consider an unsigned bundle verified", function () {
+        assert.ok(AndroidReleaseBuild.isSignatureVerified("app-release.aab", "s      1234 Mon Jan 04 12:00:00 UTC 2021 base/manifest/AndroidManifest.xml\n\njar verified.\n"));
+        assert.ok(!AndroidReleaseBuild.isSignatureVerified("app-release.aab", "jar is unsigned."));
+        assert.ok(AndroidReleaseBuild.isSignatureVerified("app-release.apk", "Verifies\nVerified using v2 scheme (APK Signature Scheme v2): true"));
+    });
+
+    test("Should find apksigner of the latest build tools", function () {
+        const sdkRoot = fs.mkdtempSync(path.join(os.tmpdir(), "android-sdk-"));
+        const apkSignerName = os.platform() === "win32" ? "apksigner.bat" : "apksigner";
+        try {
+            ["9.0.0", "30.0.3", "31.0.0-rc1"].forEach((version) => {
+                CordovaProjectHelper.makeDirectoryRecursive(path.join(sdkRoot, "build-tools", version));
+            });
+            fs.writeFileSync(path.join(sdkRoot, "build-tools", "9.0.0", apkSignerName), "");
+            fs.writeFileSync(path.join(sdkRoot, "build-tools", "30.0.3", apkSignerName), "");
+
+            // The latest build tools have no apksigner
+            assert.strictEqual(AndroidReleaseBuild.findApkSigner(sdkRoot), path.join(sdkRoot, "build-tools", "30.0.3", apkSignerName));
+            assert.strictEqual(AndroidReleaseBuild.findApkSigner(path.join(sdkRoot, "missing")), undefined);
+        } finally {
+            CordovaProjectHelper.deleteDirectoryRecursive(sdkRoot);
+        }
+    });
+
+    test("Should find the packages of the release build", function () {
+        const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "cordova-project-"));
+        const bundlesPath = path.join(projectRoot, "platforms", "android", "app", "build", "outputs", "bundle", "release");
+        try {
+            CordovaProjectHelper.makeDirectoryRecursive(bundlesPath);
+            fs.writeFileSync(path.join(bundlesPath, "app-release.aab"), "");
+            fs.writeFileSync(path.join(bundlesPath, "output-metadata.json"), "");
+            const oldBundlePath = path.join(bundlesPath, "app-old.aab");
+            fs.writeFileSync(oldBundlePath, "");
+            const buildStart = Date.now() - 1000;
+            fs.utimesSync(oldBundlePath, new Date(buildStart - 60000), new Date(buildStart - 60000));
+
+            assert.deepStrictEqual(AndroidReleaseBuild.findArtifacts(projectRoot, "bundle", buildStart), [path.join(bundlesPath, "app-release.aab")]);
+            assert.deepStrictEqual(AndroidReleaseBuild.findArtifacts(projectRoot, "apk", buildStart), []);
+        } finally {
+            CordovaProjectHelper.deleteDirectoryRecursive(projectRoot);
+        }
+    });
+});
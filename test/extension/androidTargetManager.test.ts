@@ -1,10 +1,14 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license. See LICENSE file in the project root for details.
 
+import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import * as assert from "assert";
 import Sinon = require("sinon");
 import { AdbHelper } from "../../src/utils/android/adb";
+import { CordovaProjectHelper } from "../../src/utils/cordovaProjectHelper";
+import { NetworkTargetsStorage } from "../../src/extension/networkTargetsStorage";
 import { AndroidTarget, AndroidTargetManager } from "../../src/utils/android/androidTargetManager";
 import { IDebuggableMobileTarget, IMobileTarget } from "../../src/utils/mobileTarget";
 import { QuickPickItem, window } from "vscode";
@@ -24,6 +28,7 @@ suite("AndroidTargetManager", function () {
     const adbHelper = new AdbHelper(testProjectPath);
     let getAbdsNamesStub: Sinon.SinonStub;
     let getOnlineTargetsStub: Sinon.SinonStub;
+    let discoverMdnsServicesStub: Sinon.SinonStub;
 
     const androidTargetManager = new AndroidTargetManager(adbHelper);
     let launchSimulatorStub: Sinon.SinonStub;
@@ -52,6 +57,8 @@ suite("AndroidTargetManager", function () {
             return <IDebuggableMobileTarget[]> [onlineEmulator1, onlineEmulator2, offlineEmulator1, offlineEmulator2, device1, device2].filter(target => target.isOnline);
         });
 
+        discoverMdnsServicesStub = Sinon.stub(adbHelper, "discoverMdnsServices").resolves([]);
+
         launchSimulatorStub = Sinon.stub(<any> androidTargetManager, "launchSimulator").callsFake(async (emulatorTarget: IMobileTarget) => {
             emulatorTarget.isOnline = true;
             switch (emulatorTarget.name) {
@@ -73,6 +80,7 @@ suite("AndroidTargetManager", function () {
     suiteTeardown(() => {
         getAbdsNamesStub.reset();
         getOnlineTargetsStub.reset();
+        discoverMdnsServicesStub.reset();
         launchSimulatorStub.reset();
         showQuickPickStub.reset();
     });
@@ -178,5 +186,98 @@ suite("AndroidTargetManager", function () {
             const specificNameTargetFilter = (target: IMobileTarget) => target.name === offlineEmulator1.name;
             await checkTargetSeletionResult(specificNameTargetFilter, undefined, target => target.isOnline && !!target.id);
         });
+
+        test("Should prepare several targets at once by ids and emulator names", async function () {
+            const targets = await androidTargetManager.prepareTargets([device1.id, offlineEmulator2.name, onlineEmulator1.name, device1.id]);
+
+            assert.deepStrictEqual(targets.map(target => target.id), [device1.id, "emulator-5554", onlineEmulator1.id]);
+            assert.ok(targets.every(target => target.isOnline), "All the targets should be online");
+        });
+
+        test("Should fail to prepare unknown targets", async function () {
+            await assert.rejects(androidTargetManager.prepareTargets([device1.id, "unknownDevice"]), /unknownDevice/);
+        });
+    });
+
+    suite("Network targets", function () {
+        let getRememberedTargetsStub: Sinon.SinonStub;
+
+        setup(() => {
+            getRememberedTargetsStub = Sinon.stub(NetworkTargetsStorage, "getTargets").returns([]);
+        });
+
+        teardown(() => {
+            getRememberedTargetsStub.restore();
+            discoverMdnsServicesStub.resolves([]);
+        });
+
+        test("Should recognize devices connected over Wi-Fi", function () {
+            assert.strictEqual(AdbHelper.isNetworkTarget("192.168.1.5:5555"), true);
+            assert.strictEqual(AdbHelper.isNetworkTarget("adb-R58M123ABC-vWgJpq._adb-tls-connect._tcp."), true);
+            assert.strictEqual(AdbHelper.isNetworkTarget("emulator-5554"), false);
+            assert.strictEqual(AdbHelper.isNetworkTarget("R58M123ABC"), false);
+        });
+
+        test("Should parse discovered mDNS services", function () {
+            const services = adbHelper.parseMdnsServices([
+                "List of discovered mdns services",
+                "adb-R58M123ABC-vWgJpq\t_adb-tls-connect._tcp.\t192.168.1.5:37215",
+                "adb-R58M123ABC-vWgJpq\t_adb-tls-pairing._tcp.\t192.168.1.5:40001",
+                "adb-emulator\t_adb._tcp.\t192.168.1.7:5555",
+            ].join("\n"));
+
+            assert.deepStrictEqual(services, [
+                { name: "adb-R58M123ABC-vWgJpq", type: "connect", address: "192.168.1.5:37215" },
+                { name: "adb-R58M123ABC-vWgJpq", type: "pairing", address: "192.168.1.5:40001" },
+            ]);
+        });
+
+        test("Should offer remembered and discovered devices which aren't connected", async function () {
+            getRememberedTargetsStub.returns([
+                { address: "192.168.1.5:37215", serviceName: "adb-R58M123ABC-vWgJpq" },
+                { address: "192.168.1.6:5555" },
+                { address: "192.168.1.8:5555" },
+            ]);
+            discoverMdnsServicesStub.resolves([
+                { name: "adb-R58M123ABC-vWgJpq", type: "connect", address: "192.168.1.5:41023" },
+                { name: "adb-R58M123ABC-vWgJpq", type: "pairing", address: "192.168.1.5:40001" },
+                { name: "adb-R3CN456DEF-kLmNop", type: "connect", address: "192.168.1.9:39877" },
+            ]);
+
+            const targets = await androidTargetManager.getOfflineNetworkTargets([
+                { id: "192.168.1.8:5555", isOnline: true, isVirtualTarget: false },
+            ]);
+
+            assert.deepStrictEqual(targets, [
+                { id: "192.168.1.5:41023", name: "adb-R58M123ABC-vWgJpq", isOnline: false, isVirtualTarget: false },
+                { id: "192.168.1.6:5555", name: undefined, isOnline: false, isVirtualTarget: false },
+                { id: "192.168.1.9:39877", name: "adb-R3CN456DEF-kLmNop", isOnline: false, isVirtualTarget: false },
+            ]);
+        });
+    });
+
+    suite("Emulator management", function () {
+        test("Should pass launch options to the emulator", function () {
+            assert.deepStrictEqual(AndroidTargetManager.getEmulatorArguments("Pixel_4"), ["-avd", "Pixel_4"]);
+            assert.deepStrictEqual(
+                AndroidTargetManager.getEmulatorArguments("Pixel_4", { coldBoot: true, wipeData: true, headless: true, gpu: "swiftshader_indirect" }),
+                ["-avd", "Pixel_4", "-no-snapshot-load", "-wipe-data", "-no-window", "-gpu", "swiftshader_indirect"]
+            );
+        });
+
+        test("Should list system images installed to Android SDK", function () {
+            const sdkRoot = fs.mkdtempSync(path.join(os.tmpdir(), "android-sdk-"));
+            try {
+                CordovaProjectHelper.makeDirectoryRecursive(path.join(sdkRoot, "system-images", "android-30", "google_apis", "x86_64"));
+                CordovaProjectHelper.makeDirectoryRecursive(path.join(sdkRoot, "system-images", "android-31", "default", "arm64-v8a"));
+
+                assert.deepStrictEqual(AndroidTargetManager.getInstalledSystemImages(sdkRoot).sort(), [
+                    "system-images;android-30;google_apis;x86_64",
+                    "system-images;android-31;default;arm64-v8a",
+                ]);
+            } finally {
+                CordovaProjectHelper.deleteDirectoryRecursive(sdkRoot);
+            }
+        });
     });
 });
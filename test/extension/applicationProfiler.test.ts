@@ -0,0 +1,99 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "assert";
+import Sinon = require("sinon");
+import { commands, window } from "vscode";
+import { IProtocolCommand } from "vscode-cdp-proxy";
+import { ApplicationCDPClient } from "../../src/debugger/cdp-proxy/applicationCDPClient";
+import { ApplicationCDPClientPicker } from "../../src/extension/applicationCDPClientPicker";
+import { ApplicationProfiler } from "../../src/extension/applicationProfiler";
+
+suite("ApplicationProfiler", function () {
+    const createWriteStream = fs.createWriteStream;
+    let projectRoot: string;
+    let client: ApplicationCDPClient;
+    let sentCommands: string[];
+    let openedProfiles: string[];
+    const stubs: Sinon.SinonStub[] = [];
+
+    // Replies to the commands like the application does, the heap snapshot is sent in chunks before the reply
+    function replyToCommand(command: IProtocolCommand): void {
+        sentCommands.push(command.method);
+        setImmediate(() => {
+            let result: any = {};
+            if (command.method === "Profiler.stop") {
+                result = { profile: { nodes: [], startTime: 0, endTime: 1 } };
+            } else if (command.method === "HeapProfiler.takeHeapSnapshot") {
+                ["{\"snapshot\":", "{}}"].forEach(chunk => client.handleApplicationMessage({ method: "HeapProfiler.addHeapSnapshotChunk", params: { chunk } }));
+            }
+            client.handleApplicationMessage({ id: <number>command.id, result });
+        });
+    }
+
+    function getProfiles(extension: string): string[] {
+        const profilesDirectory = path.join(projectRoot, ".vscode", "profiles");
+        return fs.existsSync(profilesDirectory)
+            ? fs.readdirSync(profilesDirectory).filter(file => path.extname(file) === extension).map(file => path.join(profilesDirectory, file))
+            : [];
+    }
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "cordova-profiler-"));
+        sentCommands = [];
+        openedProfiles = [];
+        client = new ApplicationCDPClient("Debug on iOS", "ios", projectRoot, replyToCommand, false);
+        client.setApplicationReady();
+
+        stubs.push(
+            Sinon.stub(ApplicationCDPClientPicker, "selectClient").resolves(client),
+            Sinon.stub(commands, "executeCommand").callsFake(<any>((command: string, uri?: any) => {
+                if (command === "vscode.open") {
+                    openedProfiles.push(uri.fsPath);
+                }
+                return Promise.resolve();
+            })),
+            Sinon.stub(window, "createStatusBarItem").returns(<any>{ show: () => undefined, hide: () => undefined }),
+            Sinon.stub(window, "withProgress").callsFake((options: any, task: (progress: any, token: any) => Thenable<any>) =>
+                task({ report: () => undefined }, undefined))
+        );
+    });
+
+    teardown(() => {
+        stubs.splice(0).forEach(stub => stub.restore());
+        client.dispose();
+    });
+
+    test("should save the CPU profile once the profiling is stopped", async () => {
+        await ApplicationProfiler.startCpuProfiling();
+        await assert.rejects(ApplicationProfiler.startCpuProfiling(), /being recorded already/);
+
+        await ApplicationProfiler.stopCpuProfiling();
+
+        assert.deepStrictEqual(sentCommands, ["Profiler.enable", "Profiler.start", "Profiler.stop"]);
+        const profiles = getProfiles(".cpuprofile");
+        assert.strictEqual(profiles.length, 1);
+        assert.deepStrictEqual(JSON.parse(fs.readFileSync(profiles[0], "utf8")), { nodes: [], startTime: 0, endTime: 1 });
+        assert.deepStrictEqual(openedProfiles, profiles);
+    });
+
+    test("should write the chunks of the heap snapshot to the file", async () => {
+        await ApplicationProfiler.takeHeapSnapshot();
+
+        const snapshots = getProfiles(".heapsnapshot");
+        assert.strictEqual(snapshots.length, 1);
+        assert.strictEqual(fs.readFileSync(snapshots[0], "utf8"), "{\"snapshot\":{}}");
+        assert.deepStrictEqual(openedProfiles, snapshots);
+    });
+
+    test("should reject the heap snapshot if the file can't be written", async () => {
+        // The stream is opened for a directory, so it fails
+        stubs.push(Sinon.stub(fs, "createWriteStream").callsFake(<any>(() => createWriteStream(projectRoot))));
+
+        await assert.rejects(ApplicationProfiler.takeHeapSnapshot(), /Could not save the heap snapshot/);
+        assert.deepStrictEqual(openedProfiles, []);
+    });
+});
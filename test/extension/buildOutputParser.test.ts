@@ -0,0 +1,99 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as assert from "assert";
+import { BuildOutputParser, IBuildProblem } from "../../src/utils/buildOutputParser";
+
+suite("buildOutputParser", function () {
+    const projectRoot = path.join(__dirname, "..", "resources", "testCordovaProject");
+
+    function parse(...chunks: string[]): IBuildProblem[] {
+        const parser = new BuildOutputParser(projectRoot);
+        chunks.forEach(chunk => parser.append(chunk));
+        return parser.finish();
+    }
+
+    test("should parse TypeScript errors in both output formats", () => {
+        const problems = parse(
+            "src/app/app.component.ts:12:5 - error TS2322: Type 'string' is not assignable to type 'number'.\n",
+            "src/index.ts(3,10): warning TS6133: 'x' is declared but its value is never read.\n"
+        );
+
+        assert.deepStrictEqual(problems, [
+            {
+                file: path.resolve(projectRoot, "src/app/app.component.ts"), line: 12, column: 5, severity: "error",
+                code: "TS2322", message: "Type 'string' is not assignable to type 'number'.", source: "tsc",
+            },
+            {
+                file: path.resolve(projectRoot, "src/index.ts"), line: 3, column: 10, severity: "warning",
+                code: "TS6133", message: "'x' is declared but its value is never read.", source: "tsc",
+            },
+        ]);
+    });
+
+    test("should parse Angular template errors prefixed by Angular CLI", () => {
+        const problems = parse("\u001b[31mError: src/app/home/home.page.html:3:5 - error NG8001: 'ion-foo' is not a known element\u001b[39m\n");
+
+        assert.strictEqual(problems.length, 1);
+        assert.strictEqual(problems[0].file, path.resolve(projectRoot, "src/app/home/home.page.html"));
+        assert.strictEqual(problems[0].code, "NG8001");
+        assert.strictEqual(problems[0].source, "angular");
+    });
+
+    test("should parse javac and Kotlin errors", () => {
+        const problems = parse(
+            "/project/platforms/android/app/src/main/java/io/cordova/MainActivity.java:12: error: cannot find symbol\n",
+            "e: /project/platforms/android/app/src/main/kotlin/Plugin.kt: (7, 14): Unresolved reference: foo\n",
+            "w: file:///project/platforms/android/app/src/main/kotlin/Plugin.kt:9:3 Parameter 'bar' is never used\n"
+        );
+
+        assert.deepStrictEqual(problems.map(problem => [problem.source, problem.line, problem.column, problem.severity]), [
+            ["javac", 12, 1, "error"],
+            ["kotlinc", 7, 14, "error"],
+            ["kotlinc", 9, 3, "warning"],
+        ]);
+    });
+
+    test("should parse xcodebuild errors and ignore notes", () => {
+        const problems = parse(
+            "/project/platforms/ios/HelloCordova/Classes/AppDelegate.m:21:5: error: use of undeclared identifier 'foo'\n",
+            "/project/platforms/ios/HelloCordova/Classes/AppDelegate.m:10:1: note: previous definition is here\n"
+        );
+
+        assert.strictEqual(problems.length, 1);
+        assert.strictEqual(problems[0].source, "xcodebuild");
+        assert.strictEqual(problems[0].message, "use of undeclared identifier 'foo'");
+    });
+
+    test("should parse Gradle build script failures", () => {
+        const problems = parse([
+            "FAILURE: Build failed with an exception.",
+            "",
+            "* Where:",
+            "Build file '/project/platforms/android/app/build.gradle' line: 23",
+            "",
+            "* What went wrong:",
+            "A problem occurred evaluating project ':app'.",
+            "> Could not find method implementaton() for arguments [androidx.core:core:1.6.0]",
+            "",
+            "* Try:",
+        ].join("\n"));
+
+        assert.deepStrictEqual(problems, [{
+            file: path.resolve("/project/platforms/android/app/build.gradle"), line: 23, column: 1, severity: "error",
+            message: "A problem occurred evaluating project ':app'. Could not find method implementaton() for arguments [androidx.core:core:1.6.0]",
+            source: "gradle",
+        }]);
+    });
+
+    test("should handle lines split between chunks and skip duplicates", () => {
+        const problems = parse(
+            "src/app/app.module.ts:1:1 - err",
+            "or TS2307: Cannot find module 'foo'.\r\nsrc/app/app.module.ts:1:1 - error TS2307: Cannot find module 'foo'.\r\n"
+        );
+
+        assert.strictEqual(problems.length, 1);
+        assert.strictEqual(problems[0].message, "Cannot find module 'foo'.");
+    });
+});
@@ -0,0 +1,111 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as assert from "assert";
+import * as child_process from "child_process";
+import Sinon = require("sinon");
+import { CancellationTokenSource, window } from "vscode";
+import { CommandCancelledError, CommandExecutionManager, CommandFailedError } from "../../src/utils/commandExecutionManager";
+
+suite("CommandExecutionManager", function () {
+    this.timeout(20000);
+
+    const projectRoot = path.join(__dirname, "..", "resources", "testCordovaProject");
+    // Prints the text after the delay, so the order of the outputs shows the order the commands ran in
+    const printLater = (text: string, delay: number) => `node -e "setTimeout(() => console.log('${text}'), ${delay})"`;
+
+    let showWarningMessageStub: Sinon.SinonStub;
+    let withProgressStub: Sinon.SinonStub;
+    let warningMessageItem: "Queue" | "Stop and Run" | undefined;
+
+    setup(() => {
+        // The first item of the warning message is "Queue", the second one is "Stop and Run"
+        showWarningMessageStub = Sinon.stub(window, "showWarningMessage").callsFake(<any>(async (message: string, ...items: string[]) => {
+            switch (warningMessageItem) {
+                case "Queue": return items[0];
+                case "Stop and Run": return items[1];
+                default: return undefined;
+            }
+        }));
+        withProgressStub = Sinon.stub(window, "withProgress").callsFake((options: any, task: (progress: any, token: any) => Thenable<any>) =>
+            task({ report: () => undefined }, new CancellationTokenSource().token));
+    });
+
+    teardown(() => {
+        showWarningMessageStub.restore();
+        withProgressStub.restore();
+    });
+
+    test("should run the queued command after the running one", async () => {
+        const output: string[] = [];
+        const onOutput = (data: string) => output.push(data.trim());
+        warningMessageItem = "Queue";
+
+        const firstCommand = CommandExecutionManager.execute(projectRoot, printLater("first", 1000), { onOutput });
+        assert.ok(CommandExecutionManager.isCommandRunning(projectRoot));
+        const secondCommand = CommandExecutionManager.execute(projectRoot, printLater("second", 0), { onOutput });
+
+        await Promise.all([firstCommand, secondCommand]);
+        assert.deepStrictEqual(output, ["first", "second"]);
+        assert.strictEqual(showWarningMessageStub.callCount, 1);
+        assert.ok(!CommandExecutionManager.isCommandRunning(projectRoot));
+    });
+
+    test("should reject the running command with CommandCancelledError on \"Stop and Run\"", async () => {
+        warningMessageItem = "Stop and Run";
+
+        const firstCommand = CommandExecutionManager.execute(projectRoot, printLater("first", 10000));
+        const firstCommandResult = firstCommand.then(() => assert.fail("The stopped command should be rejected"), (err: Error) => err);
+        const secondCommand = CommandExecutionManager.execute(projectRoot, printLater("second", 0));
+
+        assert.ok(await firstCommandResult instanceof CommandCancelledError);
+        await secondCommand;
+        assert.ok(!CommandExecutionManager.isCommandRunning(projectRoot));
+    });
+
+    test("should reject the command if the running command is neither queued nor stopped", async () => {
+        warningMessageItem = undefined;
+
+        const firstCommand = CommandExecutionManager.execute(projectRoot, printLater("first", 500));
+        await assert.rejects(CommandExecutionManager.execute(projectRoot, printLater("second", 0)), (err: Error) => !(err instanceof CommandCancelledError));
+
+        assert.ok(CommandExecutionManager.isCommandRunning(projectRoot));
+        await firstCommand;
+        assert.ok(!CommandExecutionManager.isCommandRunning(projectRoot));
+    });
+
+    test("should run the queued command if the running one finishes while the user is choosing", async () => {
+        const output: string[] = [];
+        const onOutput = (data: string) => output.push(data.trim());
+        const firstCommand = CommandExecutionManager.execute(projectRoot, printLater("first", 0), { onOutput });
+        // The dialog is closed only after the first command is finished
+        showWarningMessageStub.callsFake(<any>(async (message: string, ...items: string[]) => {
+            await firstCommand;
+            return items[0];
+        }));
+
+        await CommandExecutionManager.execute(projectRoot, printLater("second", 0), { onOutput });
+
+        assert.deepStrictEqual(output, ["first", "second"]);
+        assert.ok(!CommandExecutionManager.isCommandRunning(projectRoot));
+    });
+
+    test("should reject the command if its process can't be spawned", async () => {
+        const execStub = Sinon.stub(child_process, "exec").throws(new Error("spawn EMFILE"));
+        try {
+            await assert.rejects(CommandExecutionManager.execute(projectRoot, printLater("first", 0)), /spawn EMFILE/);
+        } finally {
+            execStub.restore();
+        }
+
+        assert.ok(!CommandExecutionManager.isCommandRunning(projectRoot));
+    });
+
+    test("should stop tracking a failed command", async () => {
+        await assert.rejects(CommandExecutionManager.execute(projectRoot, "node -e \"process.exit(3)\""), (err: Error) =>
+            err instanceof CommandFailedError && err.exitCode === 3);
+
+        assert.ok(!CommandExecutionManager.isCommandRunning(projectRoot));
+    });
+});
@@ -0,0 +1,61 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import { ConfigXmlOverrides } from "../../src/extension/configXml/configXmlOverrides";
+
+suite("configXmlOverrides", function () {
+    const configXml = `<?xml version='1.0' encoding='utf-8'?>
+<widget id="io.cordova.hellocordova" version="1.0.0" xmlns="http://www.w3.org/ns/widgets">
+    <name>HelloCordova</name>
+    <!-- <preference name="Orientation" value="landscape" /> -->
+    <preference name="DisallowOverscroll" value="true" />
+    <platform name="android">
+        <preference name="BackgroundColor" value="0xff000000" />
+    </platform>
+</widget>
+`;
+
+    suite("read", function () {
+        test("should read the overridden values", () => {
+            const values = ConfigXmlOverrides.read(configXml, { id: "", name: "", preferences: { DisallowOverscroll: "", BackgroundColor: "" } });
+
+            // The preferences of the platforms aren't global, so "BackgroundColor" is missing
+            assert.deepStrictEqual(values, {
+                id: "io.cordova.hellocordova",
+                name: "HelloCordova",
+                preferences: { DisallowOverscroll: "true", BackgroundColor: null },
+            });
+        });
+    });
+
+    suite("apply", function () {
+        test("should replace the values and keep the rest of the document", () => {
+            const text = ConfigXmlOverrides.apply(configXml, { id: "com.example.staging", name: "Example & Co", version: "2.0.0", preferences: { DisallowOverscroll: "false" } });
+
+            assert.strictEqual(text, configXml
+                .replace("io.cordova.hellocordova", "com.example.staging")
+                .replace("1.0.0", "2.0.0")
+                .replace("HelloCordova", "Example &amp; Co")
+                .replace("name=\"DisallowOverscroll\" value=\"true\"", "name=\"DisallowOverscroll\" value=\"false\""));
+            assert.strictEqual(ConfigXmlOverrides.read(text, { name: "" }).name, "Example & Co");
+        });
+
+        test("should add and remove the global preferences", () => {
+            const text = ConfigXmlOverrides.apply(configXml, { preferences: { DisallowOverscroll: null, BackgroundColor: "0xffffffff" } });
+
+            assert.strictEqual(text, configXml
+                .replace("\n    <preference name=\"DisallowOverscroll\" value=\"true\" />", "")
+                .replace("</widget>", "    <preference name=\"BackgroundColor\" value=\"0xffffffff\" />\n</widget>"));
+        });
+
+        test("should restore the original values", () => {
+            const overrides = { id: "com.example.staging", preferences: { DisallowOverscroll: "false", Fullscreen: "true" } };
+            const originalValues = ConfigXmlOverrides.read(configXml, overrides);
+
+            const text = ConfigXmlOverrides.apply(ConfigXmlOverrides.apply(configXml, overrides), originalValues);
+
+            assert.strictEqual(text, configXml);
+        });
+    });
+});
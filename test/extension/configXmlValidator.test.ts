@@ -0,0 +1,130 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import { ConfigXmlDocument } from "../../src/extension/configXml/configXmlDocument";
+import { ConfigXmlProblemSeverity, ConfigXmlValidator, IConfigXmlProblem } from "../../src/extension/configXml/configXmlValidator";
+
+suite("configXmlValidator", function () {
+    function wrapInWidget(content: string): string {
+        return `<?xml version='1.0' encoding='utf-8'?>
+<widget id="io.cordova.hellocordova" version="1.0.0" xmlns="http://www.w3.org/ns/widgets">
+    <name>HelloCordova</name>
+    ${content}
+</widget>`;
+    }
+
+    function getProblemText(text: string, problem: IConfigXmlProblem): string {
+        return text.substring(problem.start, problem.end);
+    }
+
+    suite("validate", function () {
+        test("should not report problems for a valid config.xml", () => {
+            const text = wrapInWidget(`<preference name="Orientation" value="portrait" />
+    <platform name="android">
+        <preference name="AndroidLaunchMode" value="singleTop" />
+        <config-file target="AndroidManifest.xml" parent="/*">
+            <preference name="CustomContent" />
+        </config-file>
+    </platform>
+    <engine name="android" spec="^12.0.0" />
+    <engine name="ios" spec="https://github.com/apache/cordova-ios.git" />
+    <plugin name="cordova-plugin-device" spec="~2.0.3" />
+    <plugin name="cordova-plugin-camera" spec="latest" />`);
+
+            const problems = ConfigXmlValidator.validate(text, ["cordova-plugin-device", "cordova-plugin-camera"]);
+            assert.deepStrictEqual(problems, []);
+        });
+        test("should report unknown preferences similar to the known ones", () => {
+            const text = wrapInWidget(`<preference name="Orientaton" value="portrait" />
+    <preference name="MyCustomPreference" value="1" />`);
+
+            const problems = ConfigXmlValidator.validate(text, []);
+            assert.strictEqual(problems.length, 1);
+            assert.strictEqual(getProblemText(text, problems[0]), "Orientaton");
+            assert.ok(problems[0].message.indexOf("Orientation") >= 0);
+            assert.strictEqual(problems[0].severity, ConfigXmlProblemSeverity.Warning);
+        });
+        test("should not report the preferences of a stock Ionic config.xml", () => {
+            const text = wrapInWidget(`<preference name="ScrollEnabled" value="false" />
+    <preference name="BackupWebStorage" value="none" />
+    <preference name="SplashMaintainAspectRatio" value="true" />
+    <preference name="FadeSplashScreenDuration" value="300" />
+    <preference name="SplashShowOnlyFirstTime" value="false" />
+    <preference name="SplashScreen" value="screen" />
+    <preference name="SplashScreenDelay" value="3000" />
+    <platform name="android">
+        <preference name="android-compileSdkVersion" value="30" />
+        <preference name="GradleVersion" value="7.1.1" />
+        <preference name="AndroidGradlePluginVersion" value="7.0.0" />
+    </platform>
+    <platform name="ios">
+        <preference name="WKWebViewOnly" value="true" />
+        <preference name="ResolveServiceWorkerRequests" value="true" />
+        <preference name="EnableViewportScale" value="true" />
+    </platform>`);
+
+            const problems = ConfigXmlValidator.validate(text, []);
+            assert.deepStrictEqual(problems.map(problem => getProblemText(text, problem)), []);
+        });
+        test("should report invalid preference values and preferences not supported by the platform", () => {
+            const text = wrapInWidget(`<preference name="fullscreen" value="yes" />
+    <platform name="ios">
+        <preference name="KeepRunning" value="true" />
+    </platform>`);
+
+            const problems = ConfigXmlValidator.validate(text, []);
+            assert.deepStrictEqual(problems.map(problem => getProblemText(text, problem)), ["yes", "KeepRunning"]);
+        });
+        test("should report bad platform names and spec values", () => {
+            const text = wrapInWidget(`<platform name="andriod" />
+    <engine name="android" spec="android@12" />
+    <plugin name="cordova-plugin-device" spec="2.0.3 beta" />`);
+
+            const problems = ConfigXmlValidator.validate(text, ["cordova-plugin-device"]);
+            assert.deepStrictEqual(problems.map(problem => getProblemText(text, problem)), ["andriod", "android@12", "2.0.3 beta"]);
+            assert.strictEqual(problems[1].severity, ConfigXmlProblemSeverity.Error);
+        });
+        test("should report plugins which are referenced but not installed", () => {
+            const text = wrapInWidget(`<plugin name="cordova-plugin-device" spec="^2.0.3" />
+    <plugin name="cordova-plugin-camera" spec="^5.0.0" />`);
+
+            const problems = ConfigXmlValidator.validate(text, ["cordova-plugin-device"]);
+            assert.strictEqual(problems.length, 1);
+            assert.strictEqual(getProblemText(text, problems[0]), "cordova-plugin-camera");
+        });
+        test("should report missing required attributes", () => {
+            const text = wrapInWidget(`<preference name="Orientation" />
+    <content />`);
+
+            const problems = ConfigXmlValidator.validate(text, []);
+            assert.deepStrictEqual(problems.map(problem => getProblemText(text, problem)), ["preference", "content"]);
+        });
+        test("should report a root element other than <widget>", () => {
+            const problems = ConfigXmlValidator.validate("<plugin id=\"test\"></plugin>", []);
+            assert.strictEqual(problems.length, 1);
+            assert.strictEqual(problems[0].severity, ConfigXmlProblemSeverity.Error);
+        });
+    });
+
+    suite("ConfigXmlDocument", function () {
+        test("should return the attribute which value is being typed", () => {
+            const text = wrapInWidget(`<platform name="android">
+        <preference name="Orien`);
+            const document = new ConfigXmlDocument(text);
+
+            const context = document.getAttributeValueContext(text.indexOf("Orien") + "Orien".length);
+            assert.ok(context);
+            assert.strictEqual(context.tag.name, "preference");
+            assert.strictEqual(context.attribute, "name");
+            assert.strictEqual(context.valuePrefix, "Orien");
+            assert.strictEqual(document.getTagPlatform(context.tag), "android");
+        });
+        test("should not return an attribute context outside of attribute values", () => {
+            const text = wrapInWidget("<preference name=\"Orientation\" value=\"portrait\" />");
+            const document = new ConfigXmlDocument(text);
+
+            assert.strictEqual(document.getAttributeValueContext(text.indexOf("/>") + 2), undefined);
+        });
+    });
+});
@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as assert from "assert";
+import Sinon = require("sinon");
+import { window } from "vscode";
+import { CordovaCommandHelper } from "../../src/utils/cordovaCommandHelper";
+import { CordovaProjectHelper } from "../../src/utils/cordovaProjectHelper";
+
+suite("cordovaCommandHelper", function () {
+    const projectRoot = path.join(__dirname, "..", "resources", "testCordovaProject");
+
+    suite("updatePlatform", function () {
+        let installedPlatforms: string[];
+        let executePlatformCommandStub: Sinon.SinonStub;
+        const stubs: Sinon.SinonStub[] = [];
+
+        setup(() => {
+            installedPlatforms = ["android"];
+            executePlatformCommandStub = Sinon.stub(CordovaCommandHelper, "executePlatformCommand");
+            stubs.push(
+                executePlatformCommandStub,
+                Sinon.stub(<any>CordovaCommandHelper, "askPlatformVersion").resolves("android@latest"),
+                Sinon.stub(CordovaProjectHelper, "getConfigXmlEngines").returns([]),
+                Sinon.stub(CordovaProjectHelper, "getInstalledPlatformVersion").returns("8.1.0"),
+                Sinon.stub(CordovaProjectHelper, "getInstalledPlatforms").callsFake(() => installedPlatforms),
+                Sinon.stub(window, "showWarningMessage"),
+                Sinon.stub(window, "showErrorMessage")
+            );
+        });
+
+        teardown(() => {
+            stubs.splice(0).forEach(stub => stub.restore());
+        });
+
+        function getExecutedCommands(): string[] {
+            return executePlatformCommandStub.getCalls().map(call => `${call.args[1]} ${call.args[2]}`);
+        }
+
+        test("should remove the platform and add the asked version", async () => {
+            executePlatformCommandStub.resolves();
+
+            await CordovaCommandHelper.updatePlatform(projectRoot, "android");
+
+            assert.deepStrictEqual(getExecutedCommands(), ["remove android", "add android@latest"]);
+        });
+
+        test("should restore the installed version if the asked one fails to be added", async () => {
+            executePlatformCommandStub.callsFake((root: string, action: string, platformSpec: string) => {
+                if (action === "remove") {
+                    installedPlatforms = [];
+                    return Promise.resolve();
+                }
+                if (platformSpec === "android@latest") {
+                    return Promise.reject(new Error("Failed to fetch the platform"));
+                }
+                installedPlatforms = ["android"];
+                return Promise.resolve();
+            });
+
+            await CordovaCommandHelper.updatePlatform(projectRoot, "android");
+
+            assert.deepStrictEqual(getExecutedCommands(), ["remove android", "add android@latest", "add android@8.1.0"]);
+            assert.deepStrictEqual(installedPlatforms, ["android"]);
+        });
+
+        test("should restore the installed version if the asked one isn't installed by Cordova CLI", async () => {
+            executePlatformCommandStub.callsFake((root: string, action: string, platformSpec: string) => {
+                installedPlatforms = action === "add" && platformSpec === "android@8.1.0" ? ["android"] : [];
+                return Promise.resolve();
+            });
+
+            await CordovaCommandHelper.updatePlatform(projectRoot, "android");
+
+            assert.deepStrictEqual(getExecutedCommands(), ["remove android", "add android@latest", "add android@8.1.0"]);
+        });
+    });
+});
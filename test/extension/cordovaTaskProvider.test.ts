@@ -0,0 +1,96 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as assert from "assert";
+import * as vscode from "vscode";
+import Sinon = require("sinon");
+import { CordovaTaskProvider, ICordovaTaskDefinition } from "../../src/extension/cordovaTaskProvider";
+import { CordovaTaskTerminal } from "../../src/extension/cordovaTaskTerminal";
+import { EnvironmentProfiles } from "../../src/extension/environmentProfiles";
+
+suite("cordovaTaskProvider", function () {
+    const projectRoot = path.join(__dirname, "..", "resources", "testCordovaProject");
+    const workspaceFolder: vscode.WorkspaceFolder = { uri: vscode.Uri.file(projectRoot), name: "testCordovaProject", index: 0 };
+    const taskProvider = new CordovaTaskProvider();
+
+    function resolveTask(definition: ICordovaTaskDefinition): vscode.Task {
+        const task = taskProvider.resolveTask(new vscode.Task(definition, workspaceFolder, "test", CordovaTaskProvider.TASK_TYPE));
+        assert.ok(task);
+        return <vscode.Task>task;
+    }
+
+    // The callback of the custom execution isn't a part of the API, but VS Code keeps it as is
+    function getTerminal(task: vscode.Task): Promise<CordovaTaskTerminal> {
+        return (<any>task.execution).callback();
+    }
+
+    async function getArguments(task: vscode.Task): Promise<string[]> {
+        return (await getTerminal(task)).args;
+    }
+
+    suite("resolveTask", function () {
+        test("should pass the platform, the release flag, the target and the run arguments to Cordova CLI", async () => {
+            const task = resolveTask({ type: "cordova", command: "build", platform: "android", release: true, target: "emulator-5554", runArguments: ["--verbose"] });
+
+            assert.deepStrictEqual(await getArguments(task), ["build", "android", "--release", "--target=emulator-5554", "--verbose"]);
+            assert.strictEqual((await getTerminal(task)).options.cwd, projectRoot);
+            assert.strictEqual(task.group, vscode.TaskGroup.Build);
+            assert.deepStrictEqual(task.problemMatchers, ["$cordova-javac", "$cordova-kotlin", "$cordova-aapt", "$cordova-tsc"]);
+        });
+
+        test("should pass the iOS build flag without the shell quotes, since the arguments are quoted by the task", async () => {
+            const task = resolveTask({ type: "cordova", command: "build", platform: "ios", runArguments: [] });
+
+            assert.deepStrictEqual(await getArguments(task), ["build", "ios", "--buildFlag=-UseModernBuildSystem=0"]);
+        });
+
+        test("should run the platform commands of Ionic through the 'cordova' namespace", async () => {
+            assert.deepStrictEqual(await getArguments(resolveTask({ type: "cordova", command: "run", platform: "android", ionic: true, runArguments: [] })), ["cordova", "run", "android"]);
+            assert.deepStrictEqual(await getArguments(resolveTask({ type: "cordova", command: "build", ionic: true, runArguments: [] })), ["build"]);
+            assert.deepStrictEqual(await getArguments(resolveTask({ type: "cordova", command: "serve", ionic: true, runArguments: [] })), ["serve"]);
+        });
+
+        test("should run the serve task in the background", () => {
+            const task = resolveTask({ type: "cordova", command: "serve", runArguments: [] });
+
+            assert.strictEqual(task.isBackground, true);
+            assert.deepStrictEqual(task.problemMatchers, ["$cordova-serve"]);
+        });
+
+        test("should resolve the working directory of the task relatively to the workspace folder", async () => {
+            const task = resolveTask({ type: "cordova", command: "prepare", cwd: "${workspaceFolder}/www", runArguments: [] });
+
+            assert.strictEqual((await getTerminal(task)).options.cwd, path.join(projectRoot, "www"));
+        });
+
+        test("should add the run arguments of the active environment profile to the ones of the task", async () => {
+            const getRunArgumentsStub = Sinon.stub(EnvironmentProfiles, "getRunArguments").returns(["--buildConfig=staging.json"]);
+            try {
+                const task = resolveTask({ type: "cordova", command: "build", platform: "android", runArguments: ["--verbose"] });
+
+                assert.deepStrictEqual(await getArguments(task), ["build", "android", "--verbose", "--buildConfig=staging.json"]);
+            } finally {
+                getRunArgumentsStub.restore();
+            }
+        });
+
+        test("should not apply the environment profile to config.xml while the tasks are resolved", async () => {
+            const withConfigXmlOverridesStub = Sinon.stub(EnvironmentProfiles, "withConfigXmlOverrides").resolves();
+            try {
+                await getTerminal(resolveTask({ type: "cordova", command: "build", platform: "android" }));
+                taskProvider.provideTasks();
+
+                assert.strictEqual(withConfigXmlOverridesStub.callCount, 0);
+            } finally {
+                withConfigXmlOverridesStub.restore();
+            }
+        });
+
+        test("should not resolve the tasks of other types", () => {
+            const task = new vscode.Task({ type: "shell", command: "build" }, workspaceFolder, "test", "shell");
+
+            assert.strictEqual(taskProvider.resolveTask(task), undefined);
+        });
+    });
+});
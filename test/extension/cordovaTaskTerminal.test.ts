@@ -0,0 +1,68 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as os from "os";
+import * as path from "path";
+import * as assert from "assert";
+import Sinon = require("sinon");
+import { CordovaTaskTerminal } from "../../src/extension/cordovaTaskTerminal";
+import { EnvironmentProfiles } from "../../src/extension/environmentProfiles";
+
+suite("CordovaTaskTerminal", function () {
+    this.timeout(20000);
+
+    const projectRoot = path.join(__dirname, "..", "resources", "testCordovaProject");
+    let withConfigXmlOverridesStub: Sinon.SinonStub;
+    let isCommandRunningWithOverrides: boolean;
+
+    setup(() => {
+        isCommandRunningWithOverrides = false;
+        withConfigXmlOverridesStub = Sinon.stub(EnvironmentProfiles, "withConfigXmlOverrides").callsFake((root: string, command: () => Promise<any>) => {
+            isCommandRunningWithOverrides = true;
+            return command().then((result) => {
+                isCommandRunningWithOverrides = false;
+                return result;
+            });
+        });
+    });
+
+    teardown(() => {
+        withConfigXmlOverridesStub.restore();
+    });
+
+    function runTerminal(terminal: CordovaTaskTerminal): Promise<{ output: string, exitCode: number }> {
+        let output = "";
+        terminal.onDidWrite(data => output += data);
+        return new Promise((resolve) => {
+            terminal.onDidClose(exitCode => resolve({ output, exitCode }));
+            terminal.open();
+        });
+    }
+
+    test("should run the command with the config.xml values of the environment profile", async () => {
+        let wasRunWithOverrides = false;
+        const terminal = new CordovaTaskTerminal(projectRoot, "node", ["-e", "console.log('built')"], { cwd: projectRoot });
+        terminal.onDidWrite(() => wasRunWithOverrides = wasRunWithOverrides || isCommandRunningWithOverrides);
+
+        const { output, exitCode } = await runTerminal(terminal);
+
+        assert.strictEqual(exitCode, 0);
+        assert.ok(output.endsWith("built\r\n"));
+        assert.ok(wasRunWithOverrides);
+        assert.strictEqual(withConfigXmlOverridesStub.firstCall.args[0], projectRoot);
+        assert.ok(!isCommandRunningWithOverrides);
+    });
+
+    test("should close the terminal with the exit code of the command", async () => {
+        const terminal = new CordovaTaskTerminal(projectRoot, "node", ["-e", "process.exit(3)"], { cwd: projectRoot });
+
+        assert.strictEqual((await runTerminal(terminal)).exitCode, 3);
+    });
+
+    test("should quote the arguments which the shell would change", () => {
+        const terminal = new CordovaTaskTerminal(projectRoot, "cordova", ["build", "ios", "--buildFlag=-UseModernBuildSystem=0", "--buildConfig=my build.json"], { cwd: projectRoot });
+        const quote = os.platform() === "win32" ? "\"" : "'";
+
+        assert.strictEqual(terminal.getCommandLine(), `cordova build ios --buildFlag=-UseModernBuildSystem=0 ${quote}--buildConfig=my build.json${quote}`);
+    });
+});
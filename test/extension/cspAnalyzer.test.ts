@@ -0,0 +1,125 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import { CspAnalyzer, CspProblemSeverity, ICspFile, ICspProblem } from "../../src/extension/csp/cspAnalyzer";
+
+suite("cspAnalyzer", function () {
+    function indexHtml(policy: string, body: string = ""): ICspFile {
+        return {
+            path: "/project/www/index.html",
+            text: `<!DOCTYPE html>
+<html>
+    <head>
+        <meta http-equiv="Content-Security-Policy" content="${policy}">
+        <meta name="viewport" content="initial-scale=1, width=device-width">
+    </head>
+    <body>${body}</body>
+</html>`,
+        };
+    }
+
+    function configXml(content: string): ICspFile {
+        return {
+            path: "/project/config.xml",
+            text: `<?xml version='1.0' encoding='utf-8'?>
+<widget id="io.cordova.hellocordova" version="1.0.0" xmlns="http://www.w3.org/ns/widgets">
+    ${content}
+</widget>`,
+        };
+    }
+
+    function getProblemTexts(files: ICspFile[], problems: ICspProblem[]): string[] {
+        return problems.map((problem) => {
+            const file = <ICspFile>files.find(file => file.path === problem.path);
+            return file.text.substring(problem.start, problem.end);
+        });
+    }
+
+    suite("analyze", function () {
+        test("should report the unsafe and broad rules of the policy", () => {
+            const page = indexHtml("default-src 'self' data: 'unsafe-eval'; script-src 'self' 'unsafe-inline' https:; img-src *; connect-src http://api.example.com");
+
+            const problems = CspAnalyzer.analyze({ indexHtml: page, configXml: null, scripts: [] });
+
+            // "default-src" doesn't restrict the scripts, since there is "script-src"
+            assert.deepStrictEqual(getProblemTexts([page], problems), ["'unsafe-inline'", "https:", "http://api.example.com"]);
+            assert.ok(problems.every(problem => problem.severity === CspProblemSeverity.Warning));
+        });
+
+        test("should report the directives the browsers ignore", () => {
+            const page = indexHtml("script-src 'self'; frame-ancestors 'none'; scrpt-src 'self'; script-src *");
+
+            const problems = CspAnalyzer.analyze({ indexHtml: page, configXml: null, scripts: [] });
+
+            assert.deepStrictEqual(getProblemTexts([page], problems), [
+                "script-src 'self'; frame-ancestors 'none'; scrpt-src 'self'; script-src *",
+                "frame-ancestors",
+                "scrpt-src",
+                "script-src",
+            ]);
+            assert.ok(problems[0].message.indexOf("default-src") >= 0);
+        });
+
+        test("should report the missing policy and the broad rules of config.xml", () => {
+            const page: ICspFile = { path: "/project/www/index.html", text: "<html><head><title>App</title></head></html>" };
+            const config = configXml(`<access origin="*" />
+    <allow-navigation href="https://*/*" />
+    <allow-navigation href="http://example.com/*" />
+    <allow-intent href="http://*/*" />
+    <allow-intent href="*" />`);
+
+            const problems = CspAnalyzer.analyze({ indexHtml: page, configXml: config, scripts: [] });
+
+            assert.deepStrictEqual(getProblemTexts([page, config], problems), ["head", "*", "https://*/*", "http://example.com/*", "*"]);
+        });
+
+        test("should report the remote urls blocked by the policy and <access>", () => {
+            const page = indexHtml(
+                "default-src 'self'; connect-src 'self' https://*.example.com https://cdn.example.org; script-src 'self' https://cdn.example.org/libs/",
+                "<script src=\"https://cdn.example.org/libs/chart.js\"></script><script src=\"https://cdn.example.org/app.js\"></script>"
+            );
+            const script: ICspFile = {
+                path: "/project/www/js/index.js",
+                text: `fetch("https://api.example.com/items");
+fetch('https://cdn.example.org/data.json');
+const socket = new WebSocket(\`wss://events.example.net/\${channel}\`);
+const link = \`https://\${host}/items\`;
+// See "the docs" at https://docs.example.net`,
+            };
+            const config = configXml(`<access origin="https://*.example.com" />
+    <access origin="cdn.example.org" subdomains="true" />`);
+
+            const problems = CspAnalyzer.analyze({ indexHtml: page, configXml: config, scripts: [script] });
+
+            assert.deepStrictEqual(getProblemTexts([page, config, script], problems), [
+                "https://cdn.example.org/app.js",
+                "wss://events.example.net/${channel}",
+                "wss://events.example.net/${channel}",
+            ]);
+            assert.ok(problems[0].message.indexOf("'script-src'") >= 0);
+            assert.ok(problems[2].message.indexOf("<access>") >= 0);
+        });
+    });
+
+    suite("parseViolation", function () {
+        test("should parse the violations reported by Chrome and WebKit", () => {
+            const chromeViolation = CspAnalyzer.parseViolation("Refused to connect to 'https://api.example.com/items' because it violates the following Content Security Policy directive: \"default-src 'self'\". Note that 'connect-src' was not explicitly set, so 'default-src' is used as a fallback.");
+            const webKitViolation = CspAnalyzer.parseViolation("Refused to load https://cdn.example.org/app.js because it does not appear in the script-src directive of the Content Security Policy.");
+
+            assert.strictEqual(chromeViolation && chromeViolation.directive, "default-src");
+            assert.strictEqual(webKitViolation && webKitViolation.directive, "script-src");
+            assert.strictEqual(CspAnalyzer.parseViolation("Refused to display the page"), undefined);
+        });
+
+        test("should map the violation to the directive of the policy", () => {
+            const page = indexHtml("default-src 'self'; script-src 'self'");
+            const violation = { text: "Refused to load https://cdn.example.org/app.js", directive: "script-src-elem" };
+
+            const problem = CspAnalyzer.getViolationProblem(page, violation, "Run android on device");
+
+            assert.deepStrictEqual(getProblemTexts([page], [problem]), ["script-src"]);
+            assert.strictEqual(problem.severity, CspProblemSeverity.Error);
+        });
+    });
+});
@@ -0,0 +1,101 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import * as path from "path";
+import { DebugConfigurationValidator } from "../../src/extension/debugConfigurationValidator";
+
+suite("debugConfigurationValidator", function () {
+    const workspaceFolderPath = path.join(__dirname, "..", "resources", "testCordovaProject");
+
+    function validate(configuration: Record<string, any>): string[] {
+        const fullConfiguration = Object.assign({
+            name: "Run Android on emulator",
+            type: "cordova",
+            request: "launch",
+            platform: "android",
+            target: "emulator",
+            cwd: "${workspaceFolder}",
+        }, configuration);
+        return DebugConfigurationValidator.validate(fullConfiguration, workspaceFolderPath).map(problem => problem.property);
+    }
+
+    suite("validate", function () {
+        test("should not report problems for the default configurations", () => {
+            assert.deepStrictEqual(validate({ port: 9222, sourceMaps: true }), []);
+            assert.deepStrictEqual(validate({ platform: "browser", target: "chrome", simulatePort: 8000, livereload: true }), []);
+            assert.deepStrictEqual(validate({ request: "attach", target: "device", port: "${command:pickPort}" }), []);
+        });
+
+        test("should report all the invalid types and ports at once", () => {
+            const problems = validate({
+                port: "9222",
+                sourceMaps: "true",
+                runArguments: "--device",
+                simulatePort: 70000,
+                devServerPort: 0,
+                attachDelay: -1,
+            });
+
+            assert.deepStrictEqual(problems, ["port", "sourceMaps", "runArguments", "simulatePort", "attachDelay"]);
+        });
+
+        test("should check the webkit port range of iOS", () => {
+            assert.deepStrictEqual(validate({ request: "attach", platform: "ios", port: 9250 }), ["port"]);
+            assert.deepStrictEqual(validate({ request: "attach", platform: "ios", port: 9220, webkitRangeMin: 9400 }), ["webkitRangeMin"]);
+        });
+
+        test("should check the platform and the target", () => {
+            assert.deepStrictEqual(validate({ platform: "andriod" }), ["platform"]);
+            assert.deepStrictEqual(validate({ platform: undefined }), ["platform"]);
+            assert.deepStrictEqual(validate({ request: "attach", target: ["emulator-5554", "emulator-5556"] }), ["target"]);
+            assert.deepStrictEqual(validate({ platform: "browser", request: "attach", target: "emulator" }), ["platform"]);
+            assert.deepStrictEqual(validate({ platform: "windows" }), ["target"]);
+            assert.deepStrictEqual(validate({ target: "all" }), []);
+        });
+
+        test("should check the project of the configuration", () => {
+            assert.deepStrictEqual(validate({ platform: "serve", target: "chrome", ionicLiveReload: true }), ["platform", "ionicLiveReload"]);
+            assert.deepStrictEqual(validate({ cwd: "${workspaceFolder}/www" }), ["cwd"]);
+            assert.deepStrictEqual(validate({ cwd: undefined }), ["cwd"]);
+            assert.deepStrictEqual(validate({ envFile: "${workspaceFolder}/.env" }), ["envFile"]);
+        });
+    });
+
+    suite("findPropertyRange", function () {
+        const launchJson = `{
+    // Use IntelliSense to learn about possible attributes.
+    "version": "0.2.0",
+    "configurations": [
+        {
+            "name": "Run Android on device",
+            "type": "cordova",
+            "port": 9222
+        },
+        {
+            /* The emulator is started by the extension */
+            "name": "Run Android on emulator",
+            "type": "cordova",
+            "env": { "port": "1" },
+            "port": "9222"
+        }
+    ]
+}`;
+
+        test("should find the property of the configuration", () => {
+            const range = DebugConfigurationValidator.findPropertyRange(launchJson, "Run Android on emulator", "port");
+
+            assert.ok(range);
+            assert.strictEqual(launchJson.substring(range.start, range.end), "\"port\"");
+            assert.strictEqual(launchJson.substring(range.end, range.end + 8), ": \"9222\"");
+        });
+
+        test("should fall back to the name of the configuration", () => {
+            const range = DebugConfigurationValidator.findPropertyRange(launchJson, "Run Android on emulator", "platform");
+
+            assert.ok(range);
+            assert.strictEqual(launchJson.substring(range.start, range.end), "\"name\"");
+            assert.strictEqual(DebugConfigurationValidator.findPropertyRange(launchJson, "Run iOS on device", "platform"), undefined);
+        });
+    });
+});
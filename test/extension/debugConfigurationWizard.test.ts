@@ -0,0 +1,63 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import { DebugConfigurationWizard, IDebugEnvironment, IDebugScenario } from "../../src/extension/debugConfigurationWizard";
+
+suite("debugConfigurationWizard", function () {
+    const cordovaEnvironment: IDebugEnvironment = { installedPlatforms: ["android"] };
+
+    function scenario(values: Partial<IDebugScenario>): IDebugScenario {
+        return Object.assign({
+            platform: "android",
+            request: "launch",
+            simulate: false,
+            target: "emulator",
+            targetName: "emulator",
+            ionicLiveReload: false,
+        }, values);
+    }
+
+    suite("createConfiguration", function () {
+        test("should create the configurations of the native platforms", () => {
+            assert.deepStrictEqual(DebugConfigurationWizard.createConfiguration(scenario({ target: "Pixel_5_API_30", targetName: "Pixel_5_API_30" }), cordovaEnvironment), {
+                name: "Run Android on Pixel_5_API_30",
+                type: "cordova",
+                request: "launch",
+                platform: "android",
+                target: "Pixel_5_API_30",
+                port: 9222,
+                sourceMaps: true,
+                cwd: "${workspaceFolder}",
+            });
+
+            const iosConfiguration = DebugConfigurationWizard.createConfiguration(scenario({ platform: "ios", request: "attach", target: "device", targetName: "device" }), cordovaEnvironment);
+            assert.strictEqual(iosConfiguration.name, "Attach to running iOS on device");
+            assert.strictEqual(iosConfiguration.port, 9220);
+        });
+
+        test("should create the configurations of the browser", () => {
+            const simulateConfiguration = DebugConfigurationWizard.createConfiguration(scenario({ simulate: true, target: "edge", targetName: "Edge" }), cordovaEnvironment);
+            const serveConfiguration = DebugConfigurationWizard.createConfiguration(scenario({ platform: "serve", target: "chrome", targetName: "Chrome" }), { installedPlatforms: [], ionicMajorVersion: 5 });
+
+            assert.strictEqual(simulateConfiguration.name, "Simulate Android in Edge");
+            assert.strictEqual(simulateConfiguration.simulatePort, 8000);
+            assert.strictEqual(simulateConfiguration.port, undefined);
+            assert.strictEqual(serveConfiguration.name, "Serve to the browser (Ionic Serve)");
+            assert.strictEqual(serveConfiguration.devServerAddress, "localhost");
+            assert.strictEqual(serveConfiguration.ionicLiveReload, true);
+        });
+
+        test("should map the sources of the Ionic live reload", () => {
+            const liveReloadScenario = scenario({ ionicLiveReload: true });
+
+            const ionic3Configuration = DebugConfigurationWizard.createConfiguration(liveReloadScenario, { installedPlatforms: ["android"], ionicMajorVersion: 3 });
+            const ionic5Configuration = DebugConfigurationWizard.createConfiguration(liveReloadScenario, { installedPlatforms: ["android"], ionicMajorVersion: 5 });
+
+            assert.strictEqual(ionic3Configuration.ionicLiveReload, true);
+            assert.deepStrictEqual(ionic3Configuration.platformSourceMapPathOverrides, { android: { "../../*": "${cwd}/*" } });
+            assert.strictEqual(ionic5Configuration.ionicLiveReload, true);
+            assert.strictEqual(ionic5Configuration.platformSourceMapPathOverrides, undefined);
+        });
+    });
+});
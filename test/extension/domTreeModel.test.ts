@@ -0,0 +1,89 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import { DomTreeModel, IDomNode } from "../../src/extension/domTreeModel";
+
+suite("DomTreeModel", function () {
+    let model: DomTreeModel;
+
+    function getLabels(nodes: IDomNode[] | undefined): string[] | undefined {
+        return nodes && nodes.map(DomTreeModel.getLabel);
+    }
+
+    setup(() => {
+        model = new DomTreeModel();
+        model.setDocument({
+            nodeId: 1,
+            nodeType: 9,
+            nodeName: "#document",
+            children: [
+                { nodeId: 2, nodeType: 10, nodeName: "html" },
+                {
+                    nodeId: 3,
+                    nodeType: 1,
+                    nodeName: "HTML",
+                    attributes: [],
+                    children: [
+                        { nodeId: 4, nodeType: 1, nodeName: "HEAD", childNodeCount: 3 },
+                        {
+                            nodeId: 5,
+                            nodeType: 1,
+                            nodeName: "BODY",
+                            attributes: ["class", "dark"],
+                            children: [
+                                { nodeId: 6, nodeType: 3, nodeName: "#text", nodeValue: "\n    " },
+                                { nodeId: 7, nodeType: 1, nodeName: "DIV", attributes: ["id", "app", "hidden", ""], childNodeCount: 0 },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        });
+    });
+
+    test("Should show the nodes as HTML without whitespace text nodes", () => {
+        const root = <IDomNode>model.getRoot();
+        assert.deepStrictEqual(getLabels(model.getChildren(root)), ["<!DOCTYPE html>", "<html>"]);
+        assert.deepStrictEqual(getLabels(model.getChildren(<IDomNode>model.getNode(5))), ["<div id=\"app\" hidden>"]);
+    });
+
+    test("Should report the children which weren't received yet as unknown", () => {
+        const head = <IDomNode>model.getNode(4);
+        assert.strictEqual(model.getChildren(head), undefined);
+
+        const change = model.handleEvent({
+            method: "DOM.setChildNodes",
+            params: { parentId: 4, nodes: [{ nodeId: 8, nodeType: 1, nodeName: "TITLE", childNodeCount: 1 }] },
+        });
+
+        assert.strictEqual(change && change.node, head);
+        assert.deepStrictEqual(getLabels(model.getChildren(head)), ["<title>"]);
+    });
+
+    test("Should apply the DOM mutations", () => {
+        model.handleEvent({ method: "DOM.attributeModified", params: { nodeId: 5, name: "class", value: "light" } });
+        model.handleEvent({ method: "DOM.attributeRemoved", params: { nodeId: 7, name: "hidden" } });
+        model.handleEvent({
+            method: "DOM.childNodeInserted",
+            params: { parentNodeId: 5, previousNodeId: 6, node: { nodeId: 9, nodeType: 3, nodeName: "#text", nodeValue: "Loading" } },
+        });
+        model.handleEvent({ method: "DOM.characterDataModified", params: { nodeId: 9, characterData: "Ready" } });
+
+        assert.deepStrictEqual(getLabels(model.getChildren(<IDomNode>model.getNode(5))), ["\"Ready\"", "<div id=\"app\">"]);
+        assert.strictEqual(DomTreeModel.getLabel(<IDomNode>model.getNode(5)), "<body class=\"light\">");
+
+        model.handleEvent({ method: "DOM.childNodeRemoved", params: { parentNodeId: 5, nodeId: 7 } });
+
+        assert.deepStrictEqual(getLabels(model.getChildren(<IDomNode>model.getNode(5))), ["\"Ready\""]);
+        assert.strictEqual(model.getNode(7), undefined);
+    });
+
+    test("Should drop the document when it's updated", () => {
+        const change = model.handleEvent({ method: "DOM.documentUpdated", params: {} });
+
+        assert.deepStrictEqual(change, {});
+        assert.strictEqual(model.getRoot(), undefined);
+        assert.strictEqual(model.handleEvent({ method: "DOM.attributeModified", params: { nodeId: 5, name: "class", value: "light" } }), undefined);
+    });
+});
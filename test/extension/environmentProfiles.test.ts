@@ -0,0 +1,109 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as assert from "assert";
+import Sinon = require("sinon");
+import { Memento } from "vscode";
+import { EnvironmentProfiles, IEnvironmentProfile } from "../../src/extension/environmentProfiles";
+
+suite("environmentProfiles", function () {
+    const configXml = `<?xml version='1.0' encoding='utf-8'?>
+<widget id="io.cordova.hellocordova" version="1.0.0" xmlns="http://www.w3.org/ns/widgets">
+    <name>HelloCordova</name>
+</widget>
+`;
+    const overriddenConfigXml = configXml.replace("io.cordova.hellocordova", "io.cordova.staging");
+    const profile: IEnvironmentProfile = { env: { API_URL: "https://staging.example.com" }, envFile: ".env.staging", configXml: { id: "io.cordova.staging" } };
+
+    let projectRoot: string;
+    let configXmlPath: string;
+    let state: { [key: string]: any };
+    let getActiveProfileStub: Sinon.SinonStub;
+
+    function createMemento(): Memento {
+        return <any>{
+            get: (key: string, defaultValue: any) => state.hasOwnProperty(key) ? state[key] : defaultValue,
+            update: (key: string, value: any) => {
+                state[key] = value;
+                return Promise.resolve();
+            },
+        };
+    }
+
+    setup(() => {
+        projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "cordova-profiles-"));
+        configXmlPath = path.join(projectRoot, "config.xml");
+        fs.writeFileSync(configXmlPath, configXml);
+        state = {};
+        EnvironmentProfiles.init(createMemento());
+        getActiveProfileStub = Sinon.stub(EnvironmentProfiles, "getActiveProfile").returns(profile);
+    });
+
+    teardown(() => {
+        getActiveProfileStub.restore();
+    });
+
+    suite("withConfigXmlOverrides", function () {
+        test("should write the values of the profile while the command runs and restore config.xml after it", async () => {
+            const result = await EnvironmentProfiles.withConfigXmlOverrides(projectRoot, () => {
+                assert.strictEqual(fs.readFileSync(configXmlPath, "utf8"), overriddenConfigXml);
+                return Promise.resolve("built");
+            });
+
+            assert.strictEqual(result, "built");
+            assert.strictEqual(fs.readFileSync(configXmlPath, "utf8"), configXml);
+        });
+
+        test("should restore config.xml if the command fails", async () => {
+            await assert.rejects(EnvironmentProfiles.withConfigXmlOverrides(projectRoot, () => Promise.reject(new Error("Build failed"))), /Build failed/);
+
+            assert.strictEqual(fs.readFileSync(configXmlPath, "utf8"), configXml);
+        });
+
+        test("should keep the changes made to config.xml by the command", async () => {
+            await EnvironmentProfiles.withConfigXmlOverrides(projectRoot, () => {
+                fs.writeFileSync(configXmlPath, fs.readFileSync(configXmlPath, "utf8").replace("</widget>", "    <engine name=\"android\" />\n</widget>"));
+                return Promise.resolve();
+            });
+
+            assert.strictEqual(fs.readFileSync(configXmlPath, "utf8"), configXml.replace("</widget>", "    <engine name=\"android\" />\n</widget>"));
+        });
+
+        test("should restore config.xml once the last of the commands running at the same time is finished", async () => {
+            let finishFirstCommand = () => undefined;
+            const firstCommand = EnvironmentProfiles.withConfigXmlOverrides(projectRoot, () => new Promise<void>((resolve) => { finishFirstCommand = resolve; }));
+
+            await EnvironmentProfiles.withConfigXmlOverrides(projectRoot, () => Promise.resolve());
+            assert.strictEqual(fs.readFileSync(configXmlPath, "utf8"), overriddenConfigXml);
+
+            finishFirstCommand();
+            await firstCommand;
+            assert.strictEqual(fs.readFileSync(configXmlPath, "utf8"), configXml);
+        });
+
+        test("should restore config.xml left overridden if VS Code was closed while a command ran", async () => {
+            fs.writeFileSync(configXmlPath, overriddenConfigXml);
+            state["cordova.environmentProfiles.configXmlValues"] = { [projectRoot]: { id: "io.cordova.hellocordova" } };
+
+            EnvironmentProfiles.init(createMemento());
+            await new Promise(resolve => setImmediate(resolve));
+
+            assert.strictEqual(fs.readFileSync(configXmlPath, "utf8"), configXml);
+            assert.deepStrictEqual(state["cordova.environmentProfiles.configXmlValues"], {});
+        });
+    });
+
+    suite("applyToDebugConfiguration", function () {
+        test("should let the variables and the env file of the profile override the ones of the configuration", () => {
+            const debugConfiguration: any = { env: { API_URL: "https://dev.example.com", DEBUG: "1" }, envFile: ".env.dev" };
+
+            EnvironmentProfiles.applyToDebugConfiguration(debugConfiguration, projectRoot);
+
+            assert.deepStrictEqual(debugConfiguration.env, { API_URL: "https://staging.example.com", DEBUG: "1" });
+            assert.strictEqual(debugConfiguration.envFile, path.join(projectRoot, ".env.staging"));
+        });
+    });
+});
@@ -0,0 +1,114 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as path from "path";
+import * as assert from "assert";
+import { EventEmitter } from "events";
+import Sinon = require("sinon");
+import { AdbHelper } from "../../src/utils/android/adb";
+import { LogCatMonitor } from "../../src/utils/android/logCatMonitor";
+
+suite("LogCatMonitor", function () {
+    const testProjectPath = path.join(__dirname, "..", "resources", "testCordovaProject");
+
+    suite("getFilterSpecs", function () {
+        test("should show all tags with the level if no tags are specified", () => {
+            assert.deepStrictEqual(LogCatMonitor.getFilterSpecs({ tags: [], level: "warning" }), ["*:W"]);
+        });
+        test("should silence other tags if tags are specified", () => {
+            assert.deepStrictEqual(
+                LogCatMonitor.getFilterSpecs({ tags: ["chromium", " ", "PluginManager:E"], level: "info" }),
+                ["chromium:I", "PluginManager:E", "*:S"]
+            );
+        });
+        test("should fall back to the verbose level for unknown levels", () => {
+            assert.deepStrictEqual(LogCatMonitor.getFilterSpecs({ tags: ["CordovaLog"], level: "loud" }), ["CordovaLog:V", "*:S"]);
+        });
+    });
+
+    suite("monitoring", function () {
+        const adbHelper = new AdbHelper(testProjectPath);
+        let clock: Sinon.SinonFakeTimers;
+        let getPackagePidStub: Sinon.SinonStub;
+        let startLogCatStub: Sinon.SinonStub;
+        let killedLogCats: number;
+
+        setup(() => {
+            clock = Sinon.useFakeTimers();
+            killedLogCats = 0;
+            getPackagePidStub = Sinon.stub(adbHelper, "getPackagePid");
+            startLogCatStub = Sinon.stub(adbHelper, "startLogCat").callsFake(() => <any>{
+                spawnedProcess: { kill: () => killedLogCats++ },
+                stdout: new EventEmitter(),
+                stderr: new EventEmitter(),
+                outcome: new Promise(() => undefined),
+            });
+        });
+
+        teardown(() => {
+            LogCatMonitor.stopAllMonitors();
+            clock.restore();
+            getPackagePidStub.restore();
+            startLogCatStub.restore();
+        });
+
+        function getLogCatPids(): string[] {
+            return startLogCatStub.getCalls().map(call => (<string[]>call.args[0]).filter(arg => arg.startsWith("--pid="))[0]);
+        }
+
+        test("should follow the process of the restarted application", async () => {
+            getPackagePidStub.resolves("4242");
+            await LogCatMonitor.startMonitor(adbHelper, "emulator-5554", "io.cordova.hellocordova", { tags: [], level: "info" });
+            assert.deepStrictEqual(getLogCatPids(), ["--pid=4242"]);
+
+            // The application is restarted, so it isn't running for a while
+            getPackagePidStub.resolves(null);
+            await clock.tickAsync(5000);
+            assert.deepStrictEqual(getLogCatPids(), ["--pid=4242"]);
+
+            getPackagePidStub.resolves("4317");
+            await clock.tickAsync(5000);
+            assert.deepStrictEqual(getLogCatPids(), ["--pid=4242", "--pid=4317"]);
+            assert.strictEqual(killedLogCats, 1);
+        });
+
+        test("should stop checking the application process once the monitor is stopped", async () => {
+            getPackagePidStub.resolves("4242");
+            await LogCatMonitor.startMonitor(adbHelper, "emulator-5554", "io.cordova.hellocordova", { tags: [], level: "info" });
+            LogCatMonitor.stopMonitor("emulator-5554");
+            const pidChecks = getPackagePidStub.callCount;
+
+            await clock.tickAsync(10000);
+            assert.strictEqual(getPackagePidStub.callCount, pidChecks);
+            assert.strictEqual(killedLogCats, 1);
+        });
+    });
+
+    suite("getPackagePid", function () {
+        const adbHelper = new AdbHelper(testProjectPath);
+        let executeQueryStub: Sinon.SinonStub;
+
+        teardown(() => {
+            executeQueryStub.restore();
+        });
+
+        test("should use the pidof output", async () => {
+            executeQueryStub = Sinon.stub(adbHelper as any, "executeQuery").resolves("4242\n");
+            assert.strictEqual(await adbHelper.getPackagePid("emulator-5554", "io.cordova.hellocordova"), "4242");
+        });
+        test("should take the first process id if pidof prints several ones", async () => {
+            executeQueryStub = Sinon.stub(adbHelper as any, "executeQuery").resolves("4242 4317\n");
+            assert.strictEqual(await adbHelper.getPackagePid("emulator-5554", "io.cordova.hellocordova"), "4242");
+        });
+        test("should look through the process list if pidof isn't available", async () => {
+            executeQueryStub = Sinon.stub(adbHelper as any, "executeQuery");
+            executeQueryStub.onFirstCall().resolves("/system/bin/sh: pidof: not found");
+            executeQueryStub.onSecondCall().resolves([
+                "USER     PID   PPID  VSIZE  RSS     WCHAN    PC        NAME",
+                "root      1     0     8904   784   ffffffff 00000000 S /init",
+                "u0_a53    1337  52    915480 52772 ffffffff 00000000 S io.cordova.hellocordova",
+            ].join("\n"));
+            assert.strictEqual(await adbHelper.getPackagePid("emulator-5554", "io.cordova.hellocordova"), "1337");
+        });
+    });
+});
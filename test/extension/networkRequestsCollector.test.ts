@@ -0,0 +1,88 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import { INetworkRequest, NetworkRequestsCollector } from "../../src/extension/networkRequestsCollector";
+
+suite("NetworkRequestsCollector", function () {
+    let collector: NetworkRequestsCollector;
+
+    function sendRequest(requestId: string, url: string, timestamp: number, redirectResponse?: any): INetworkRequest[] {
+        return collector.handleEvent({
+            method: "Network.requestWillBeSent",
+            params: {
+                requestId,
+                request: { url, method: "GET", headers: { Accept: "application/json" } },
+                timestamp,
+                wallTime: 1600000000,
+                type: "XHR",
+                redirectResponse,
+            },
+        });
+    }
+
+    setup(() => {
+        collector = new NetworkRequestsCollector();
+    });
+
+    test("Should collect the request, response and timing of the request", () => {
+        sendRequest("1", "https://example.com/api/items", 10);
+        collector.handleEvent({
+            method: "Network.responseReceived",
+            params: { requestId: "1", type: "XHR", response: { status: 200, statusText: "OK", mimeType: "application/json", headers: { "Content-Type": "application/json" } } },
+        });
+        collector.handleEvent({ method: "Network.loadingFinished", params: { requestId: "1", timestamp: 10.25, encodedDataLength: 512 } });
+
+        const request = <INetworkRequest>collector.getRequest("1");
+        assert.strictEqual(request.status, 200);
+        assert.strictEqual(request.duration, 250);
+        assert.strictEqual(request.encodedDataLength, 512);
+        assert.strictEqual(request.startTime, 1600000000000);
+        assert.ok(request.isFinished);
+    });
+
+    test("Should mark the failed requests", () => {
+        sendRequest("2", "https://example.com/offline", 1);
+        const updatedRequests = collector.handleEvent({ method: "Network.loadingFailed", params: { requestId: "2", timestamp: 2, errorText: "net::ERR_INTERNET_DISCONNECTED" } });
+
+        assert.strictEqual(updatedRequests.length, 1);
+        assert.strictEqual(updatedRequests[0].errorText, "net::ERR_INTERNET_DISCONNECTED");
+    });
+
+    test("Should keep the redirected request separately", () => {
+        sendRequest("3", "http://example.com/", 1);
+        const updatedRequests = sendRequest("3", "https://example.com/", 1.5, { status: 301, statusText: "Moved Permanently", headers: {} });
+
+        assert.deepStrictEqual(updatedRequests.map(request => [request.url, request.status]), [
+            ["http://example.com/", 301],
+            ["https://example.com/", undefined],
+        ]);
+        assert.strictEqual(collector.getRequests().length, 2);
+        assert.strictEqual((<INetworkRequest>collector.getRequest("3")).url, "https://example.com/");
+    });
+
+    test("Should ignore the events of the unknown requests", () => {
+        assert.deepStrictEqual(collector.handleEvent({ method: "Network.loadingFinished", params: { requestId: "4", timestamp: 1 } }), []);
+        assert.deepStrictEqual(collector.handleEvent({ method: "Network.dataReceived", params: { requestId: "4" } }), []);
+    });
+
+    test("Should build a cURL command for the request", () => {
+        const command = NetworkRequestsCollector.toCurlCommand({
+            requestId: "5",
+            url: "https://example.com/api/items",
+            method: "POST",
+            requestHeaders: { "Content-Type": "application/json" },
+            postData: "{\"name\":\"O'Neil\"}",
+            startTime: 0,
+            timestamp: 0,
+            isFinished: true,
+        });
+
+        assert.strictEqual(command, [
+            "curl 'https://example.com/api/items'",
+            "-X POST",
+            "-H 'Content-Type: application/json'",
+            "--data-raw '{\"name\":\"O'\\''Neil\"}'",
+        ].join(" \\\n  "));
+    });
+});
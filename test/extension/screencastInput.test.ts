@@ -0,0 +1,74 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import { IScreencastFrameMetadata, IScreencastKeyEvent, IScreencastMouseEvent, ScreencastInput } from "../../src/extension/screencastInput";
+
+suite("ScreencastInput", function () {
+    const metadata: IScreencastFrameMetadata = {
+        deviceWidth: 400,
+        deviceHeight: 860,
+        offsetTop: 60,
+        pageScaleFactor: 1,
+    };
+    const noModifiers = { altKey: false, ctrlKey: false, metaKey: false, shiftKey: false };
+
+    function mouseEvent(type: "mousedown" | "wheel", x: number, y: number, details: Partial<IScreencastMouseEvent>): IScreencastMouseEvent {
+        return Object.assign({ type, x, y, button: 0, buttons: 0, detail: 0 }, noModifiers, details);
+    }
+
+    function keyEvent(type: "keydown" | "keyup", key: string, code: string, keyCode: number, modifiers = {}): IScreencastKeyEvent {
+        return Object.assign({ type, key, code, keyCode }, noModifiers, modifiers);
+    }
+
+    test("Should combine the modifier keys into a bit field", () => {
+        assert.strictEqual(ScreencastInput.getModifiers(noModifiers), 0);
+        assert.strictEqual(ScreencastInput.getModifiers({ altKey: true, ctrlKey: false, metaKey: true, shiftKey: true }), 13);
+    });
+
+    test("Should map the clicks on the frame to the viewport of the app", () => {
+        const params = ScreencastInput.toMouseEventParams(mouseEvent("mousedown", 0.5, 0.25, { buttons: 1, detail: 1 }), metadata);
+
+        assert.deepStrictEqual(params, {
+            type: "mousePressed",
+            x: 200,
+            y: 200,
+            modifiers: 0,
+            button: "left",
+            clickCount: 1,
+        });
+    });
+
+    test("Should forward the scrolling as mouse wheel events", () => {
+        const params = ScreencastInput.toMouseEventParams(mouseEvent("wheel", 0, 1, { deltaY: 120 }), metadata);
+
+        assert.deepStrictEqual(params, {
+            type: "mouseWheel",
+            x: 0,
+            y: 800,
+            modifiers: 0,
+            button: "none",
+            deltaX: 0,
+            deltaY: 120,
+        });
+    });
+
+    test("Should send the text of the printable keys", () => {
+        const keyDown = ScreencastInput.toKeyEventParams(keyEvent("keydown", "A", "KeyA", 65, { shiftKey: true }));
+        const keyUp = ScreencastInput.toKeyEventParams(keyEvent("keyup", "A", "KeyA", 65));
+
+        assert.deepStrictEqual(keyDown, { type: "keyDown", key: "A", code: "KeyA", windowsVirtualKeyCode: 65, modifiers: 8, text: "A", unmodifiedText: "A" });
+        assert.deepStrictEqual(keyUp, { type: "keyUp", key: "A", code: "KeyA", windowsVirtualKeyCode: 65, modifiers: 0 });
+    });
+
+    test("Should send the shortcuts and the control keys without text", () => {
+        const shortcut = ScreencastInput.toKeyEventParams(keyEvent("keydown", "a", "KeyA", 65, { ctrlKey: true }));
+        const backspace = ScreencastInput.toKeyEventParams(keyEvent("keydown", "Backspace", "Backspace", 8));
+        const enter = ScreencastInput.toKeyEventParams(keyEvent("keydown", "Enter", "Enter", 13));
+
+        assert.strictEqual(shortcut.type, "rawKeyDown");
+        assert.strictEqual(shortcut.text, undefined);
+        assert.strictEqual(backspace.type, "rawKeyDown");
+        assert.strictEqual(enter.text, "\r");
+    });
+});
@@ -0,0 +1,123 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license. See LICENSE file in the project root for details.
+
+import * as assert from "assert";
+import { ApplicationCDPClient } from "../../src/debugger/cdp-proxy/applicationCDPClient";
+import { StorageInspector } from "../../src/extension/storageInspector";
+
+suite("StorageInspector", function () {
+    let sentCommands: { method: string, params: any }[];
+    let replies: Record<string, any>;
+    let inspector: StorageInspector;
+
+    setup(() => {
+        sentCommands = [];
+        replies = {};
+        const client = {
+            sendCommand: (method: string, params: any = {}) => {
+                sentCommands.push({ method, params });
+                return method in replies
+                    ? Promise.resolve(replies[method])
+                    : Promise.reject(new Error(`'${method}' wasn't found`));
+            },
+        };
+        inspector = new StorageInspector(<ApplicationCDPClient><unknown>client);
+    });
+
+    test("Should collect the security origins of all the frames", () => {
+        replies["Page.getFrameTree"] = {
+            frameTree: {
+                frame: { url: "https://localhost/index.html", securityOrigin: "https://localhost" },
+                childFrames: [
+                    { frame: { url: "https://example.com/widget", securityOrigin: "https://example.com" } },
+                    { frame: { url: "https://localhost/frame.html", securityOrigin: "https://localhost" } },
+                ],
+            },
+        };
+
+        return inspector.getFrames()
+            .then((frames) => {
+                assert.deepStrictEqual(frames, {
+                    url: "https://localhost/index.html",
+                    securityOrigins: ["https://localhost", "https://example.com"],
+                });
+            });
+    });
+
+    test("Should fall back to the WebKit commands", () => {
+        const storageId = { securityOrigin: "file://", isLocalStorage: true };
+        replies["DOMStorage.clearDOMStorageItems"] = {};
+        replies["Page.getCookies"] = { cookies: [{ name: "token", value: "1", domain: "localhost", path: "/" }] };
+        replies["Page.deleteCookie"] = {};
+
+        return inspector.clearStorage(storageId)
+            .then(() => inspector.clearCookies("http://localhost/index.html"))
+            .then(() => {
+                assert.deepStrictEqual(sentCommands.map(command => command.method), [
+                    "DOMStorage.clear",
+                    "DOMStorage.clearDOMStorageItems",
+                    "Network.getCookies",
+                    "Page.getCookies",
+                    "Network.deleteCookies",
+                    "Page.deleteCookie",
+                ]);
+                assert.deepStrictEqual(sentCommands[1].params, { storageId });
+                assert.deepStrictEqual(sentCommands[5].params, { cookieName: "token", url: "http://localhost/index.html" });
+            });
+    });
+
+    test("Should set the cookies without a domain for the url of the page", () => {
+        replies["Network.setCookie"] = { success: true };
+
+        return inspector.setCookie({ name: "onboarding", value: "done", domain: "", path: "" }, "https://localhost/index.html")
+            .then(() => {
+                assert.deepStrictEqual(sentCommands[0].params, {
+                    name: "onboarding",
+                    value: "done",
+                    path: "/",
+                    secure: undefined,
+                    httpOnly: undefined,
+                    url: "https://localhost/index.html",
+                });
+            });
+    });
+
+    test("Should format the entries of the object stores", () => {
+        replies["IndexedDB.requestData"] = {
+            objectStoreDataEntries: [
+                {
+                    key: { type: "number", value: 1, description: "1" },
+                    value: {
+                        type: "object",
+                        description: "Object",
+                        preview: {
+                            overflow: true,
+                            properties: [{ name: "title", type: "string", value: "Buy milk" }, { name: "done", type: "boolean", value: "false" }],
+                        },
+                    },
+                },
+                {
+                    key: { type: "string", value: "tags" },
+                    value: {
+                        type: "object",
+                        subtype: "array",
+                        description: "Array(2)",
+                        preview: { subtype: "array", overflow: false, properties: [{ name: "0", type: "string", value: "home" }, { name: "1", type: "number", value: "2" }] },
+                    },
+                },
+            ],
+            hasMore: true,
+        };
+
+        return inspector.getObjectStoreData("https://localhost", "todos", "items")
+            .then((data) => {
+                assert.deepStrictEqual(data, {
+                    entries: [
+                        { key: "1", value: "{title: \"Buy milk\", done: false, …}" },
+                        { key: "\"tags\"", value: "[\"home\", 2]" },
+                    ],
+                    hasMore: true,
+                });
+            });
+    });
+});
@@ -3,6 +3,7 @@
 
 import * as path from "path";
 import * as fs from "fs";
+import * as os from "os";
 import * as sinon from "sinon";
 import { CordovaProjectHelper } from "../../src/utils/cordovaProjectHelper";
 import * as assert from "assert";
@@ -107,6 +108,117 @@ suite("сordovaProjectHelper", function () {
         });
     });
 
+    suite("getPluginUpdateSpec", function () {
+        teardown(() => {
+            (fs.readFileSync as any).restore();
+        });
+
+        function checkPluginUpdateSpec(pluginId: string, fetchJson: any, specRef: string, restoreSpecRef?: string) {
+            sinon.stub(fs, "readFileSync").callsFake(() => {
+                return JSON.stringify(fetchJson);
+            });
+
+            const pluginSpec = CordovaProjectHelper.getPluginUpdateSpec(testProjectPath, pluginId);
+            assert.strictEqual(pluginSpec, specRef);
+            if (restoreSpecRef) {
+                assert.strictEqual(CordovaProjectHelper.getPluginRestoreSpec(testProjectPath, pluginId), restoreSpecRef);
+            }
+        }
+
+        test("should return the latest version spec for a plugin installed from the registry", () => {
+            checkPluginUpdateSpec(
+                "cordova-plugin-device",
+                { "cordova-plugin-device": { source: { type: "registry", id: "cordova-plugin-device@2.0.3" }, is_top_level: true, variables: {} } },
+                "cordova-plugin-device@latest"
+            );
+        });
+        test("should return the git url for a plugin installed from a git repository", () => {
+            checkPluginUpdateSpec(
+                "cordova-plugin-test",
+                { "cordova-plugin-test": { source: { type: "git", url: "https://github.com/test/cordova-plugin-test.git" }, is_top_level: true, variables: {} } },
+                CordovaProjectHelper.quoteShellArgument("https://github.com/test/cordova-plugin-test.git")
+            );
+        });
+        test("should preserve plugin variables", () => {
+            checkPluginUpdateSpec(
+                "cordova-plugin-facebook",
+                { "cordova-plugin-facebook": { source: { type: "registry", id: "cordova-plugin-facebook" }, is_top_level: true, variables: { APP_ID: "123", APP_NAME: "test" } } },
+                `cordova-plugin-facebook@latest --variable ${CordovaProjectHelper.quoteShellArgument("APP_ID=123")} --variable ${CordovaProjectHelper.quoteShellArgument("APP_NAME=test")}`
+            );
+        });
+        test("should return the installed version spec to restore a plugin", () => {
+            checkPluginUpdateSpec(
+                "cordova-plugin-device",
+                { "cordova-plugin-device": { source: { type: "registry", id: "cordova-plugin-device@2.0.3" }, is_top_level: true, variables: { KEY: "value" } } },
+                `cordova-plugin-device@latest --variable ${CordovaProjectHelper.quoteShellArgument("KEY=value")}`,
+                `${CordovaProjectHelper.quoteShellArgument("cordova-plugin-device@2.0.3")} --variable ${CordovaProjectHelper.quoteShellArgument("KEY=value")}`
+            );
+        });
+        test("should return the latest version spec for a plugin missing in 'fetch.json'", () => {
+            checkPluginUpdateSpec("cordova-plugin-device", {}, "cordova-plugin-device@latest");
+        });
+    });
+
+    suite("quoteShellArgument", function () {
+        teardown(() => {
+            (os.platform as any).restore();
+        });
+
+        test("should quote the argument for POSIX shells", () => {
+            sinon.stub(os, "platform").returns("linux");
+            assert.strictEqual(CordovaProjectHelper.quoteShellArgument("KEY=it's $(whoami)"), "'KEY=it'\\''s $(whoami)'");
+        });
+        test("should quote the argument for the Windows command prompt", () => {
+            sinon.stub(os, "platform").returns("win32");
+            assert.strictEqual(CordovaProjectHelper.quoteShellArgument("KEY=\"a b\" & echo"), "\"KEY=\\\"a b\\\" & echo\"");
+        });
+    });
+
+    suite("getConfigXmlEngines", function () {
+        teardown(() => {
+            (fs.readFileSync as any).restore();
+        });
+
+        test("should return platforms pinned in config.xml", () => {
+            sinon.stub(fs, "readFileSync").callsFake(() => {
+                return `<?xml version='1.0' encoding='utf-8'?>
+<widget id="io.cordova.hellocordova" version="1.0.0" xmlns="http://www.w3.org/ns/widgets">
+    <name>HelloCordova</name>
+    <engine name="android" spec="^12.0.0" />
+    <engine name="ios" />
+</widget>`;
+            });
+
+            const engines = CordovaProjectHelper.getConfigXmlEngines(testProjectPath);
+            assert.deepStrictEqual(engines, [
+                { name: "android", spec: "^12.0.0" },
+                { name: "ios", spec: "" },
+            ]);
+        });
+        test("should return an empty list in case config.xml has no engines", () => {
+            sinon.stub(fs, "readFileSync").callThrough();
+
+            const engines = CordovaProjectHelper.getConfigXmlEngines(testProjectPath);
+            assert.deepStrictEqual(engines, []);
+        });
+    });
+
+    suite("isPlatformVersionMismatch", function () {
+        test("should detect an installed version not satisfying the pinned spec", () => {
+            assert.strictEqual(CordovaProjectHelper.isPlatformVersionMismatch("^12.0.0", "11.0.0"), true);
+            assert.strictEqual(CordovaProjectHelper.isPlatformVersionMismatch("10.1.2", "10.1.1"), true);
+        });
+        test("should accept an installed version satisfying the pinned spec", () => {
+            assert.strictEqual(CordovaProjectHelper.isPlatformVersionMismatch("^12.0.0", "12.0.1"), false);
+            assert.strictEqual(CordovaProjectHelper.isPlatformVersionMismatch("~6.2.0", "6.2.3"), false);
+        });
+        test("should not flag specs which are not version ranges", () => {
+            assert.strictEqual(CordovaProjectHelper.isPlatformVersionMismatch("https://github.com/apache/cordova-android.git", "12.0.0"), false);
+            assert.strictEqual(CordovaProjectHelper.isPlatformVersionMismatch("", "12.0.0"), false);
+            assert.strictEqual(CordovaProjectHelper.isPlatformVersionMismatch("^12.0.0", null), false);
+        });
+    });
+
     suite("getEnvArgument", function () {
         function checkEnvData(envData: any, envFileData: any = {}) {
             let launchArgs: any = {
@@ -140,7 +252,7 @@ suite("сordovaProjectHelper", function () {
         }
 
         function checkEnvDataFromFile(env: any, envFile: any, envStrRepres: string) {
-            sinon.stub(fs, "readFileSync").callsFake((path: string, options?: string | { encoding?: string, flag?: string }) => {
+            sinon.stub(fs, "readFileSync").callsFake(() => {
                 return envStrRepres;
             });
 